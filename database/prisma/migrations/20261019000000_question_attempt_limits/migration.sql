@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "questions" ADD COLUMN "timeLimit" INTEGER;
+
+-- CreateIndex
+CREATE INDEX "question_attempts_studentId_questionId_idx" ON "question_attempts"("studentId", "questionId");
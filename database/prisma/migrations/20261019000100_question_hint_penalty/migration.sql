@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "questions" ADD COLUMN "hintPenalty" DOUBLE PRECISION NOT NULL DEFAULT 0.1;
@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "video_captions" (
+    "id" TEXT NOT NULL,
+    "videoId" TEXT NOT NULL,
+    "language" TEXT NOT NULL,
+    "label" TEXT NOT NULL,
+    "filePath" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "video_captions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "video_captions_videoId_idx" ON "video_captions"("videoId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "video_captions_videoId_language_key" ON "video_captions"("videoId", "language");
+
+-- AddForeignKey
+ALTER TABLE "video_captions" ADD CONSTRAINT "video_captions_videoId_fkey" FOREIGN KEY ("videoId") REFERENCES "videos"("id") ON DELETE CASCADE ON UPDATE CASCADE;
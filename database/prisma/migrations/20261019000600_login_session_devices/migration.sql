@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "refresh_token_families" ADD COLUMN "userAgent" TEXT,
+ADD COLUMN "ipAddress" TEXT;
@@ -0,0 +1,25 @@
+-- AlterTable
+ALTER TABLE "ai_usage_logs" ALTER COLUMN "configurationId" DROP NOT NULL,
+ADD COLUMN "provider" TEXT,
+ADD COLUMN "model" TEXT;
+
+-- Existing usage was always logged against a configuration, which names the provider and model
+UPDATE "ai_usage_logs" AS log
+SET "provider" = config."provider"::TEXT,
+    "model" = config."model"
+FROM "ai_configurations" AS config
+WHERE log."configurationId" = config."id";
+
+UPDATE "ai_usage_logs"
+SET "provider" = COALESCE("provider", 'UNKNOWN'),
+    "model" = COALESCE("model", 'unknown')
+WHERE "provider" IS NULL OR "model" IS NULL;
+
+ALTER TABLE "ai_usage_logs" ALTER COLUMN "provider" SET NOT NULL,
+ALTER COLUMN "model" SET NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "ai_usage_logs_userId_idx" ON "ai_usage_logs"("userId");
+
+-- AddForeignKey
+ALTER TABLE "ai_usage_logs" ADD CONSTRAINT "ai_usage_logs_configurationId_fkey" FOREIGN KEY ("configurationId") REFERENCES "ai_configurations"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,11 @@
+-- CreateEnum
+CREATE TYPE "SeekPolicy" AS ENUM ('FREE', 'NO_SEEK_AHEAD', 'WATCHED_RANGE');
+
+-- AlterTable
+ALTER TABLE "videos" ADD COLUMN "seekPolicy" "SeekPolicy" NOT NULL DEFAULT 'FREE';
+
+-- AlterTable
+ALTER TABLE "student_sessions" ADD COLUMN "furthestPosition" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- Existing sessions keep what they have watched so far
+UPDATE "student_sessions" SET "furthestPosition" = "currentPosition";
@@ -0,0 +1,41 @@
+-- DropIndex
+DROP INDEX "student_sessions_studentId_videoId_key";
+
+-- AlterTable
+ALTER TABLE "lessons" ADD COLUMN "allowRetakes" BOOLEAN NOT NULL DEFAULT true;
+
+-- AlterTable
+ALTER TABLE "student_sessions" ADD COLUMN "attemptNumber" INTEGER NOT NULL DEFAULT 1;
+
+-- CreateTable
+CREATE TABLE "video_viewings" (
+    "studentId" TEXT NOT NULL,
+    "videoId" TEXT NOT NULL,
+    "currentSessionId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "video_viewings_pkey" PRIMARY KEY ("studentId","videoId")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "video_viewings_currentSessionId_key" ON "video_viewings"("currentSessionId");
+
+-- CreateIndex
+CREATE INDEX "student_sessions_studentId_videoId_idx" ON "student_sessions"("studentId", "videoId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "student_sessions_studentId_videoId_attemptNumber_key" ON "student_sessions"("studentId", "videoId", "attemptNumber");
+
+-- AddForeignKey
+ALTER TABLE "video_viewings" ADD CONSTRAINT "video_viewings_studentId_fkey" FOREIGN KEY ("studentId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "video_viewings" ADD CONSTRAINT "video_viewings_videoId_fkey" FOREIGN KEY ("videoId") REFERENCES "videos"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "video_viewings" ADD CONSTRAINT "video_viewings_currentSessionId_fkey" FOREIGN KEY ("currentSessionId") REFERENCES "student_sessions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Each existing session becomes the first and current attempt of its video
+INSERT INTO "video_viewings" ("studentId", "videoId", "currentSessionId", "createdAt", "updatedAt")
+SELECT "studentId", "videoId", "id", "createdAt", CURRENT_TIMESTAMP FROM "student_sessions";
@@ -0,0 +1,14 @@
+-- Number existing attempts in the order they were made, so none share a number
+UPDATE "question_attempts" AS qa
+SET "attemptNumber" = numbered."rowNumber"
+FROM (
+    SELECT "id", ROW_NUMBER() OVER (PARTITION BY "studentId", "questionId" ORDER BY "createdAt", "id") AS "rowNumber"
+    FROM "question_attempts"
+) AS numbered
+WHERE qa."id" = numbered."id" AND qa."attemptNumber" <> numbered."rowNumber";
+
+-- DropIndex
+DROP INDEX "question_attempts_studentId_questionId_idx";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "question_attempts_studentId_questionId_attemptNumber_key" ON "question_attempts"("studentId", "questionId", "attemptNumber");
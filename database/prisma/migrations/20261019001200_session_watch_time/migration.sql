@@ -0,0 +1,15 @@
+-- AlterTable
+ALTER TABLE "student_sessions" ADD COLUMN "totalWatchTime" INTEGER NOT NULL DEFAULT 0;
+
+-- Lesson progress added up every completed attempt, so retakes inflated it.
+-- Recount milestones from the current attempt of each video; watch time was
+-- never stored per attempt, so lesson totals are recomputed as attempts complete
+UPDATE "student_progress" AS sp
+SET "completedMilestones" = (
+    SELECT COUNT(*)
+    FROM "milestone_progress" AS mp
+    JOIN "video_viewings" AS vv ON vv."currentSessionId" = mp."sessionId"
+    JOIN "videos" AS v ON v."id" = vv."videoId"
+    JOIN "video_groups" AS vg ON vg."id" = v."videoGroupId"
+    WHERE vv."studentId" = sp."studentId" AND vg."lessonId" = sp."lessonId"
+);
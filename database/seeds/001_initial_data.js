@@ -75,6 +75,13 @@ async function main() {
             category: 'session',
             isPublic: false
         },
+        {
+            key: 'session.concurrentLimits',
+            value: { limits: { STUDENT: 3, TEACHER: 3, ADMIN: 3 }, onLimit: 'REVOKE_OLDEST' },
+            description: 'Maximum concurrent login sessions per role (null for unlimited) and what happens when exceeded (REVOKE_OLDEST or REJECT)',
+            category: 'session',
+            isPublic: false
+        },
         {
             key: 'features.enableAIGeneration',
             value: { enabled: true },
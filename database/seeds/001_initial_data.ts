@@ -30,11 +30,11 @@ async function main() {
       isPublic: true
     },
     {
-      key: 'video.maxFileSize',
-      value: { maxSize: 2147483648 }, // 2GB in bytes
-      description: 'Maximum video file size',
+      key: 'video.maxFileSizeMb',
+      value: 2048, // 2GB
+      description: 'Largest video file teachers can upload, in megabytes',
       category: 'video',
-      isPublic: false
+      isPublic: true
     },
     {
       key: 'video.allowedFormats',
@@ -68,16 +68,23 @@ async function main() {
       isPublic: false
     },
     {
-      key: 'analytics.enableTracking',
-      value: { enabled: true },
-      description: 'Enable analytics tracking',
+      key: 'analytics.enabled',
+      value: true,
+      description: 'Record playback and question analytics events from the player',
       category: 'analytics',
-      isPublic: false
+      isPublic: true
     },
     {
       key: 'session.timeoutMinutes',
-      value: { timeout: 30 },
-      description: 'Session timeout in minutes',
+      value: 30,
+      description: 'Minutes of inactivity after which a session expires',
+      category: 'session',
+      isPublic: false
+    },
+    {
+      key: 'session.concurrentLimits',
+      value: { limits: { STUDENT: 3, TEACHER: 3, ADMIN: 3 }, onLimit: 'REVOKE_OLDEST' },
+      description: 'Maximum concurrent login sessions per role (null for unlimited) and what happens when exceeded (REVOKE_OLDEST or REJECT)',
       category: 'session',
       isPublic: false
     },
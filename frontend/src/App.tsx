@@ -7,6 +7,9 @@ import { AuthErrorBoundary } from './components/auth/AuthErrorBoundary'
 import Layout from './components/layout/Layout'
 import LoginPage from './pages/auth/LoginPage'
 import RegisterPage from './pages/auth/RegisterPage'
+import ForgotPasswordPage from './pages/auth/ForgotPasswordPage'
+import ResetPasswordPage from './pages/auth/ResetPasswordPage'
+import VerifyEmailPage from './pages/auth/VerifyEmailPage'
 import DashboardPage from './pages/dashboard/DashboardPage'
 import LessonsPage from './pages/lessons/LessonsPage'
 import LessonDetailPage from './pages/lessons/LessonDetailPage'
@@ -14,6 +17,8 @@ import VideoPlayerPage from './pages/video/VideoPlayerPage'
 import CreateLessonPage from './pages/teacher/CreateLessonPage'
 import TeacherLessonsPage from './pages/teacher/TeacherLessonsPage'
 import LessonManagementPage from './pages/teacher/LessonManagementPage'
+import LessonGradebookPage from './pages/teacher/LessonGradebookPage'
+import SessionsPage from './pages/account/SessionsPage'
 
 // Create a client
 const queryClient = new QueryClient({
@@ -53,6 +58,18 @@ function App() {
                   </PublicRoute>
                 } 
               />
+              <Route 
+                path="/forgot-password" 
+                element={
+                  <PublicRoute>
+                    <ForgotPasswordPage />
+                  </PublicRoute>
+                } 
+              />
+
+              {/* Emailed links work whether or not the user is signed in */}
+              <Route path="/reset-password" element={<ResetPasswordPage />} />
+              <Route path="/verify-email" element={<VerifyEmailPage />} />
               
               {/* Protected Routes */}
               <Route
@@ -68,6 +85,8 @@ function App() {
                         <Route path="/teacher/create-lesson" element={<CreateLessonPage />} />
                         <Route path="/teacher/lessons" element={<TeacherLessonsPage />} />
                         <Route path="/teacher/lessons/:lessonId" element={<LessonManagementPage />} />
+                        <Route path="/teacher/lessons/:lessonId/gradebook" element={<LessonGradebookPage />} />
+                        <Route path="/account/sessions" element={<SessionsPage />} />
                         <Route path="/" element={<Navigate to="/dashboard" replace />} />
                       </Routes>
                     </Layout>
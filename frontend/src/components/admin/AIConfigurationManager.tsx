@@ -0,0 +1,355 @@
+import { useCallback, useEffect, useState } from 'react'
+import type { FormEvent } from 'react'
+import { aiConfigService, AI_CONFIGURATION_PROVIDERS } from '../../services/admin'
+import type { AIConfiguration, AIConfigurationProvider, AIUsageReport } from '../../services/admin'
+import { debug } from '../../utils/debug'
+
+interface ConfigurationForm {
+  provider: AIConfigurationProvider
+  name: string
+  model: string
+  apiKey: string
+  endpoint: string
+  rateLimit: string
+  maxTokens: string
+  costPerToken: string
+  monthlyBudget: string
+}
+
+const EMPTY_FORM: ConfigurationForm = {
+  provider: 'OPENAI',
+  name: '',
+  model: '',
+  apiKey: '',
+  endpoint: '',
+  rateLimit: '',
+  maxTokens: '',
+  costPerToken: '',
+  monthlyBudget: ''
+}
+
+const optionalNumber = (value: string) => value.trim() === '' ? null : Number(value)
+
+const formatCost = (value: number) => `$${value.toFixed(value < 1 ? 4 : 2)}`
+
+// Usage is reported for the current calendar month, the period budgets cover
+const startOfMonth = () => {
+  const now = new Date()
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)).toISOString()
+}
+
+export function AIConfigurationManager() {
+  const [configurations, setConfigurations] = useState<AIConfiguration[]>([])
+  const [usage, setUsage] = useState<AIUsageReport | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [showForm, setShowForm] = useState(false)
+  const [form, setForm] = useState<ConfigurationForm>(EMPTY_FORM)
+
+  const load = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const [configurationList, usageReport] = await Promise.all([
+        aiConfigService.getConfigurations(),
+        aiConfigService.getUsageReport({ from: startOfMonth() })
+      ])
+      setConfigurations(configurationList)
+      setUsage(usageReport)
+    } catch (err) {
+      debug.error('Failed to load AI configurations:', err)
+      setError((err as { message?: string }).message || 'Failed to load AI configurations')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    void load()
+  }, [load])
+
+  const updateField = (field: keyof ConfigurationForm, value: string) => {
+    setForm(prev => ({ ...prev, [field]: value }))
+  }
+
+  const handleCreate = async (e: FormEvent) => {
+    e.preventDefault()
+    setSaving(true)
+    setError(null)
+    try {
+      await aiConfigService.createConfiguration({
+        provider: form.provider,
+        name: form.name.trim(),
+        model: form.model.trim(),
+        apiKey: form.apiKey.trim() || null,
+        endpoint: form.provider === 'CUSTOM' ? form.endpoint.trim() || null : null,
+        rateLimit: optionalNumber(form.rateLimit),
+        maxTokens: optionalNumber(form.maxTokens),
+        costPerToken: optionalNumber(form.costPerToken),
+        monthlyBudget: optionalNumber(form.monthlyBudget)
+      })
+      setForm(EMPTY_FORM)
+      setShowForm(false)
+      await load()
+    } catch (err) {
+      setError((err as { message?: string }).message || 'Failed to create AI configuration')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleToggleActive = async (configuration: AIConfiguration) => {
+    setError(null)
+    try {
+      const updated = await aiConfigService.updateConfiguration(configuration.id, { isActive: !configuration.isActive })
+      setConfigurations(prev => prev.map(item => item.id === updated.id ? updated : item))
+    } catch (err) {
+      setError((err as { message?: string }).message || 'Failed to update AI configuration')
+    }
+  }
+
+  const handleReplaceKey = async (configuration: AIConfiguration) => {
+    const apiKey = prompt(`New API key for ${configuration.name} (leave empty to remove the stored key)`)
+    if (apiKey === null) return
+
+    setError(null)
+    try {
+      const updated = await aiConfigService.updateConfiguration(configuration.id, { apiKey: apiKey.trim() || null })
+      setConfigurations(prev => prev.map(item => item.id === updated.id ? updated : item))
+    } catch (err) {
+      setError((err as { message?: string }).message || 'Failed to update API key')
+    }
+  }
+
+  const handleDelete = async (configuration: AIConfiguration) => {
+    if (!confirm(`Delete the AI configuration "${configuration.name}"? Its usage history is kept.`)) return
+
+    setError(null)
+    try {
+      await aiConfigService.deleteConfiguration(configuration.id)
+      setConfigurations(prev => prev.filter(item => item.id !== configuration.id))
+    } catch (err) {
+      setError((err as { message?: string }).message || 'Failed to delete AI configuration')
+    }
+  }
+
+  const budgetFor = (configurationId: string) =>
+    usage?.byConfiguration.find(row => row.configurationId === configurationId)?.budget ?? null
+
+  return (
+    <div className="card">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-gray-900">AI Providers</h3>
+        <button onClick={() => setShowForm(value => !value)} className="btn-secondary">
+          {showForm ? 'Cancel' : 'Add Configuration'}
+        </button>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      {showForm && (
+        <form onSubmit={handleCreate} className="mb-6 p-4 border rounded-lg space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <select
+              value={form.provider}
+              onChange={(e) => updateField('provider', e.target.value)}
+              aria-label="Provider"
+              className="input-field"
+            >
+              {AI_CONFIGURATION_PROVIDERS.map(provider => (
+                <option key={provider} value={provider}>{provider}</option>
+              ))}
+            </select>
+            <input
+              type="text"
+              value={form.name}
+              onChange={(e) => updateField('name', e.target.value)}
+              placeholder="Name"
+              className="input-field"
+              required
+            />
+            <input
+              type="text"
+              value={form.model}
+              onChange={(e) => updateField('model', e.target.value)}
+              placeholder="Model, e.g. gpt-4o-mini"
+              className="input-field"
+              required
+            />
+            <input
+              type="password"
+              value={form.apiKey}
+              onChange={(e) => updateField('apiKey', e.target.value)}
+              placeholder={form.provider === 'CUSTOM' ? 'API key (optional)' : 'API key (empty uses the server key)'}
+              autoComplete="off"
+              className="input-field"
+            />
+            <input
+              type="url"
+              value={form.endpoint}
+              onChange={(e) => updateField('endpoint', e.target.value)}
+              placeholder="Endpoint URL"
+              className="input-field"
+              required={form.provider === 'CUSTOM'}
+              disabled={form.provider !== 'CUSTOM'}
+            />
+            <input
+              type="number"
+              min="1"
+              value={form.rateLimit}
+              onChange={(e) => updateField('rateLimit', e.target.value)}
+              placeholder="Requests per minute"
+              className="input-field"
+            />
+            <input
+              type="number"
+              min="1"
+              value={form.maxTokens}
+              onChange={(e) => updateField('maxTokens', e.target.value)}
+              placeholder="Max tokens per request"
+              className="input-field"
+            />
+            <input
+              type="number"
+              min="0"
+              step="any"
+              value={form.costPerToken}
+              onChange={(e) => updateField('costPerToken', e.target.value)}
+              placeholder="Cost per token"
+              className="input-field"
+            />
+            <input
+              type="number"
+              min="0"
+              step="any"
+              value={form.monthlyBudget}
+              onChange={(e) => updateField('monthlyBudget', e.target.value)}
+              placeholder="Monthly budget"
+              className="input-field"
+            />
+          </div>
+          <button type="submit" disabled={saving} className="btn-primary disabled:opacity-50">
+            {saving ? 'Saving...' : 'Save Configuration'}
+          </button>
+        </form>
+      )}
+
+      {loading ? (
+        <p className="text-sm text-gray-500">Loading AI configurations...</p>
+      ) : configurations.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          No AI configurations. Providers set through environment variables are used as they are.
+        </p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead>
+              <tr className="text-left text-gray-500">
+                <th className="py-2 pr-4 font-medium">Name</th>
+                <th className="py-2 pr-4 font-medium">Provider</th>
+                <th className="py-2 pr-4 font-medium">Key</th>
+                <th className="py-2 pr-4 font-medium">Limits</th>
+                <th className="py-2 pr-4 font-medium">Budget this month</th>
+                <th className="py-2 font-medium" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {configurations.map(configuration => {
+                const budget = budgetFor(configuration.id)
+                const spent = budget?.spentThisMonth ?? 0
+                return (
+                  <tr key={configuration.id} className={configuration.isActive ? '' : 'text-gray-400'}>
+                    <td className="py-2 pr-4">
+                      <div className="font-medium">{configuration.name}</div>
+                      <div className="text-xs text-gray-500">{configuration.model}</div>
+                    </td>
+                    <td className="py-2 pr-4">{configuration.provider}</td>
+                    <td className="py-2 pr-4">{configuration.apiKeyPreview ?? 'Server key'}</td>
+                    <td className="py-2 pr-4 text-xs">
+                      {configuration.rateLimit ? `${configuration.rateLimit}/min` : 'No rate limit'}
+                      {configuration.maxTokens ? ` · ${configuration.maxTokens} tokens` : ''}
+                    </td>
+                    <td className="py-2 pr-4">
+                      {configuration.monthlyBudget !== null ? (
+                        <div className="w-32">
+                          <div className="text-xs">
+                            {formatCost(spent)} of {formatCost(configuration.monthlyBudget)}
+                          </div>
+                          <div className="h-1.5 bg-gray-200 rounded">
+                            <div
+                              className={`h-1.5 rounded ${spent >= configuration.monthlyBudget ? 'bg-red-500' : 'bg-green-500'}`}
+                              style={{ width: `${Math.min(100, configuration.monthlyBudget > 0 ? (spent / configuration.monthlyBudget) * 100 : 100)}%` }}
+                            />
+                          </div>
+                        </div>
+                      ) : (
+                        <span className="text-xs">No budget</span>
+                      )}
+                    </td>
+                    <td className="py-2 text-right whitespace-nowrap space-x-3">
+                      <button onClick={() => handleToggleActive(configuration)} className="text-blue-600 hover:text-blue-800">
+                        {configuration.isActive ? 'Disable' : 'Enable'}
+                      </button>
+                      <button onClick={() => handleReplaceKey(configuration)} className="text-blue-600 hover:text-blue-800">
+                        Key
+                      </button>
+                      <button onClick={() => handleDelete(configuration)} className="text-red-600 hover:text-red-800">
+                        Delete
+                      </button>
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {usage && (
+        <div className="mt-6 grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div>
+            <h4 className="text-sm font-semibold text-gray-900 mb-2">Usage this month by teacher</h4>
+            {usage.byUser.length === 0 ? (
+              <p className="text-sm text-gray-500">No AI requests this month</p>
+            ) : (
+              <ul className="divide-y divide-gray-100 text-sm">
+                {usage.byUser.map(row => (
+                  <li key={row.user?.id ?? 'unknown'} className="flex justify-between py-1">
+                    <span>{row.user ? `${row.user.firstName} ${row.user.lastName}` : 'Unknown user'}</span>
+                    <span className="text-gray-600">
+                      {row.requests} requests · {row.tokensUsed.toLocaleString()} tokens · {formatCost(row.cost)}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+          <div>
+            <h4 className="text-sm font-semibold text-gray-900 mb-2">Usage this month by configuration</h4>
+            {usage.byConfiguration.length === 0 ? (
+              <p className="text-sm text-gray-500">No AI requests this month</p>
+            ) : (
+              <ul className="divide-y divide-gray-100 text-sm">
+                {usage.byConfiguration.map(row => (
+                  <li key={`${row.configurationId}-${row.provider}`} className="flex justify-between py-1">
+                    <span>{row.name ?? (row.configurationId ? 'Deleted configuration' : `${row.provider} (environment)`)}</span>
+                    <span className="text-gray-600">
+                      {row.requests} requests
+                      {row.failedRequests > 0 && <span className="text-red-600"> ({row.failedRequests} failed)</span>}
+                      {' '}· {row.averageResponseTime} ms · {formatCost(row.cost)}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,281 @@
+import { Fragment, useEffect, useState } from 'react'
+import type { FormEvent } from 'react'
+import { auditService, AUDIT_ACTIONS, AUDIT_RESOURCES } from '../../services/admin'
+import type { AuditAction, AuditLogEntry, AuditLogFilters, AuditResource } from '../../services/admin'
+import { debug } from '../../utils/debug'
+
+const PAGE_SIZE = 25
+
+const ACTION_COLORS: Record<AuditAction, string> = {
+  CREATE: 'bg-green-100 text-green-700',
+  UPDATE: 'bg-blue-100 text-blue-700',
+  DELETE: 'bg-red-100 text-red-700',
+  LOGIN: 'bg-gray-100 text-gray-700',
+  LOGOUT: 'bg-gray-100 text-gray-700',
+  VIEW: 'bg-gray-100 text-gray-700',
+  DOWNLOAD: 'bg-purple-100 text-purple-700',
+  UPLOAD: 'bg-purple-100 text-purple-700'
+}
+
+interface FilterForm {
+  search: string
+  action: AuditAction | ''
+  resource: AuditResource | ''
+  from: string
+  to: string
+}
+
+const EMPTY_FILTERS: FilterForm = { search: '', action: '', resource: '', from: '', to: '' }
+
+// Date inputs give local calendar days; "to" covers the whole of its day
+const toQuery = (form: FilterForm): AuditLogFilters => ({
+  search: form.search.trim() || undefined,
+  action: form.action || undefined,
+  resource: form.resource || undefined,
+  from: form.from ? new Date(`${form.from}T00:00:00`).toISOString() : undefined,
+  to: form.to ? new Date(`${form.to}T23:59:59.999`).toISOString() : undefined
+})
+
+const formatValue = (value: unknown) =>
+  value === null || value === undefined ? '—' : typeof value === 'object' ? JSON.stringify(value) : String(value)
+
+function AuditChanges({ entry }: { entry: AuditLogEntry }) {
+  const before = entry.changes?.before ?? {}
+  const after = entry.changes?.after ?? {}
+  const fields = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]))
+  const metadata = Object.entries(entry.metadata ?? {})
+
+  return (
+    <div className="space-y-3 text-xs">
+      {fields.length > 0 ? (
+        <table className="w-full">
+          <thead>
+            <tr className="text-left text-gray-500">
+              <th className="py-1 pr-4 font-medium">Field</th>
+              <th className="py-1 pr-4 font-medium">Before</th>
+              <th className="py-1 font-medium">After</th>
+            </tr>
+          </thead>
+          <tbody className="font-mono">
+            {fields.map(field => (
+              <tr key={field} className="align-top">
+                <td className="py-1 pr-4 text-gray-700">{field}</td>
+                <td className="py-1 pr-4 text-red-700 break-all">{field in before ? formatValue(before[field]) : ''}</td>
+                <td className="py-1 text-green-700 break-all">{field in after ? formatValue(after[field]) : ''}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      ) : (
+        <p className="text-gray-500">No field changes recorded.</p>
+      )}
+
+      {metadata.length > 0 && (
+        <p className="text-gray-600">
+          {metadata.map(([key, value]) => `${key}: ${formatValue(value)}`).join(' · ')}
+        </p>
+      )}
+
+      {(entry.ipAddress || entry.userAgent) && (
+        <p className="text-gray-500">
+          {[entry.ipAddress, entry.userAgent].filter(Boolean).join(' · ')}
+        </p>
+      )}
+    </div>
+  )
+}
+
+export function AuditLogTable() {
+  const [form, setForm] = useState<FilterForm>(EMPTY_FILTERS)
+  const [filters, setFilters] = useState<AuditLogFilters>({})
+  const [page, setPage] = useState(1)
+  const [logs, setLogs] = useState<AuditLogEntry[]>([])
+  const [totalPages, setTotalPages] = useState(1)
+  const [total, setTotal] = useState(0)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    setLoading(true)
+    setError(null)
+
+    auditService.getAuditLogs({ ...filters, page, limit: PAGE_SIZE })
+      .then(result => {
+        if (cancelled) return
+        setLogs(result.logs)
+        setTotal(result.pagination.total)
+        setTotalPages(Math.max(1, result.pagination.totalPages))
+      })
+      .catch(err => {
+        debug.error('Failed to load audit log:', err)
+        if (!cancelled) setError((err as { message?: string }).message || 'Failed to load audit log')
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [filters, page])
+
+  const applyFilters = (e: FormEvent) => {
+    e.preventDefault()
+    setPage(1)
+    setFilters(toQuery(form))
+  }
+
+  const resetFilters = () => {
+    setForm(EMPTY_FILTERS)
+    setPage(1)
+    setFilters({})
+  }
+
+  return (
+    <div className="card">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-gray-900">Audit Log</h3>
+        <span className="text-sm text-gray-500">{total.toLocaleString()} entries</span>
+      </div>
+
+      <form onSubmit={applyFilters} className="grid grid-cols-1 md:grid-cols-6 gap-3 mb-4">
+        <input
+          type="search"
+          value={form.search}
+          onChange={(e) => setForm({ ...form, search: e.target.value })}
+          placeholder="User, email or resource ID"
+          aria-label="Search audit log"
+          className="input-field md:col-span-2"
+        />
+        <select
+          value={form.action}
+          onChange={(e) => setForm({ ...form, action: e.target.value as FilterForm['action'] })}
+          aria-label="Action"
+          className="input-field"
+        >
+          <option value="">All actions</option>
+          {AUDIT_ACTIONS.map(action => (
+            <option key={action} value={action}>{action}</option>
+          ))}
+        </select>
+        <select
+          value={form.resource}
+          onChange={(e) => setForm({ ...form, resource: e.target.value as FilterForm['resource'] })}
+          aria-label="Resource"
+          className="input-field"
+        >
+          <option value="">All resources</option>
+          {AUDIT_RESOURCES.map(resource => (
+            <option key={resource} value={resource}>{resource}</option>
+          ))}
+        </select>
+        <input
+          type="date"
+          value={form.from}
+          onChange={(e) => setForm({ ...form, from: e.target.value })}
+          aria-label="From date"
+          className="input-field"
+        />
+        <input
+          type="date"
+          value={form.to}
+          onChange={(e) => setForm({ ...form, to: e.target.value })}
+          aria-label="To date"
+          className="input-field"
+        />
+        <div className="flex gap-2 md:col-span-6">
+          <button type="submit" className="btn-primary">Apply</button>
+          <button type="button" onClick={resetFilters} className="btn-secondary">Reset</button>
+        </div>
+      </form>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200 text-sm">
+          <thead className="bg-gray-50">
+            <tr className="text-left text-gray-600">
+              <th className="px-3 py-2 font-medium">Time</th>
+              <th className="px-3 py-2 font-medium">User</th>
+              <th className="px-3 py-2 font-medium">Action</th>
+              <th className="px-3 py-2 font-medium">Resource</th>
+              <th className="px-3 py-2 font-medium">Resource ID</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {loading ? (
+              <tr>
+                <td colSpan={5} className="px-3 py-6 text-center text-gray-500">Loading audit log...</td>
+              </tr>
+            ) : logs.length === 0 ? (
+              <tr>
+                <td colSpan={5} className="px-3 py-6 text-center text-gray-500">No audit entries match these filters</td>
+              </tr>
+            ) : (
+              logs.map(entry => (
+                <Fragment key={entry.id}>
+                  <tr
+                    onClick={() => setExpandedId(expandedId === entry.id ? null : entry.id)}
+                    className="cursor-pointer hover:bg-gray-50"
+                  >
+                    <td className="px-3 py-2 whitespace-nowrap text-gray-600">
+                      {new Date(entry.createdAt).toLocaleString()}
+                    </td>
+                    <td className="px-3 py-2">
+                      {entry.user ? (
+                        <>
+                          <div className="text-gray-900">{entry.user.firstName} {entry.user.lastName}</div>
+                          <div className="text-xs text-gray-500">{entry.user.email}</div>
+                        </>
+                      ) : (
+                        <span className="text-gray-400">System</span>
+                      )}
+                    </td>
+                    <td className="px-3 py-2">
+                      <span className={`px-2 py-1 rounded-full text-xs font-medium ${ACTION_COLORS[entry.action]}`}>
+                        {entry.action}
+                      </span>
+                    </td>
+                    <td className="px-3 py-2 text-gray-700">{entry.resource}</td>
+                    <td className="px-3 py-2 font-mono text-xs text-gray-500">{entry.resourceId ?? '—'}</td>
+                  </tr>
+                  {expandedId === entry.id && (
+                    <tr className="bg-gray-50">
+                      <td colSpan={5} className="px-3 py-3">
+                        <AuditChanges entry={entry} />
+                      </td>
+                    </tr>
+                  )}
+                </Fragment>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex items-center justify-between mt-4 text-sm">
+        <button
+          onClick={() => setPage(page - 1)}
+          disabled={page <= 1 || loading}
+          className="btn-secondary disabled:opacity-50"
+        >
+          Previous
+        </button>
+        <span className="text-gray-600">Page {page} of {totalPages}</span>
+        <button
+          onClick={() => setPage(page + 1)}
+          disabled={page >= totalPages || loading}
+          className="btn-secondary disabled:opacity-50"
+        >
+          Next
+        </button>
+      </div>
+    </div>
+  )
+}
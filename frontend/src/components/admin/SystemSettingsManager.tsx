@@ -0,0 +1,177 @@
+import { useCallback, useEffect, useState } from 'react'
+import { settingsService } from '../../services/admin'
+import type { RuntimeSetting } from '../../services/admin'
+import { debug } from '../../utils/debug'
+
+// Values are edited as text and converted back to the setting's type on save
+const toDraft = (setting: RuntimeSetting) =>
+  setting.type === 'json' ? JSON.stringify(setting.value, null, 2) : String(setting.value)
+
+const parseDraft = (setting: RuntimeSetting, draft: string): unknown => {
+  switch (setting.type) {
+    case 'integer':
+      return Number(draft)
+    case 'boolean':
+      return draft === 'true'
+    case 'json':
+      return JSON.parse(draft)
+  }
+}
+
+const formatValue = (setting: RuntimeSetting, value: unknown) =>
+  setting.type === 'json' ? JSON.stringify(value) : String(value)
+
+export function SystemSettingsManager() {
+  const [settings, setSettings] = useState<RuntimeSetting[]>([])
+  const [drafts, setDrafts] = useState<Record<string, string>>({})
+  const [loading, setLoading] = useState(true)
+  const [savingKey, setSavingKey] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const load = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const settingList = await settingsService.getSettings()
+      setSettings(settingList)
+      setDrafts(Object.fromEntries(settingList.map(setting => [setting.key, toDraft(setting)])))
+    } catch (err) {
+      debug.error('Failed to load settings:', err)
+      setError((err as { message?: string }).message || 'Failed to load settings')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    void load()
+  }, [load])
+
+  const applyUpdate = (updated: RuntimeSetting) => {
+    setSettings(prev => prev.map(setting => setting.key === updated.key ? updated : setting))
+    setDrafts(prev => ({ ...prev, [updated.key]: toDraft(updated) }))
+  }
+
+  const handleSave = async (setting: RuntimeSetting) => {
+    let value: unknown
+    try {
+      value = parseDraft(setting, drafts[setting.key] ?? '')
+    } catch {
+      setError(`${setting.key} is not valid JSON`)
+      return
+    }
+
+    setSavingKey(setting.key)
+    setError(null)
+    try {
+      applyUpdate(await settingsService.updateSetting(setting.key, value))
+    } catch (err) {
+      setError((err as { message?: string }).message || 'Failed to update setting')
+    } finally {
+      setSavingKey(null)
+    }
+  }
+
+  const handleReset = async (setting: RuntimeSetting) => {
+    if (!confirm(`Reset ${setting.key} to its default of ${formatValue(setting, setting.defaultValue)}?`)) return
+
+    setSavingKey(setting.key)
+    setError(null)
+    try {
+      applyUpdate(await settingsService.resetSetting(setting.key))
+    } catch (err) {
+      setError((err as { message?: string }).message || 'Failed to reset setting')
+    } finally {
+      setSavingKey(null)
+    }
+  }
+
+  const updateDraft = (key: string, value: string) => {
+    setDrafts(prev => ({ ...prev, [key]: value }))
+  }
+
+  return (
+    <div className="card">
+      <h3 className="text-lg font-semibold text-gray-900 mb-1">Platform Settings</h3>
+      <p className="text-sm text-gray-500 mb-4">
+        Changes apply to every server within a minute. Reset a setting to go back to the server default.
+      </p>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <p className="text-sm text-gray-500">Loading settings...</p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {settings.map(setting => {
+            const draft = drafts[setting.key] ?? ''
+            const saving = savingKey === setting.key
+            return (
+              <li key={setting.key} className="py-3 grid grid-cols-1 md:grid-cols-2 gap-3">
+                <div>
+                  <div className="text-sm font-medium text-gray-900">
+                    {setting.key}
+                    <span className="ml-2 text-xs font-normal text-gray-500">{setting.category}</span>
+                    {setting.isPublic && <span className="ml-2 text-xs font-normal text-blue-600">public</span>}
+                  </div>
+                  <div className="text-sm text-gray-600">{setting.description}</div>
+                  <div className="text-xs text-gray-500 mt-1">
+                    {setting.overridden
+                      ? `Overrides the default of ${formatValue(setting, setting.defaultValue)}`
+                      : 'Using the default'}
+                  </div>
+                </div>
+                <div className="flex items-start gap-2">
+                  {setting.type === 'boolean' ? (
+                    <select
+                      value={draft}
+                      onChange={(e) => updateDraft(setting.key, e.target.value)}
+                      aria-label={setting.key}
+                      className="input-field"
+                    >
+                      <option value="true">Enabled</option>
+                      <option value="false">Disabled</option>
+                    </select>
+                  ) : setting.type === 'integer' ? (
+                    <input
+                      type="number"
+                      step="1"
+                      value={draft}
+                      onChange={(e) => updateDraft(setting.key, e.target.value)}
+                      aria-label={setting.key}
+                      className="input-field"
+                    />
+                  ) : (
+                    <textarea
+                      value={draft}
+                      onChange={(e) => updateDraft(setting.key, e.target.value)}
+                      aria-label={setting.key}
+                      rows={4}
+                      className="input-field font-mono text-xs"
+                    />
+                  )}
+                  <button
+                    onClick={() => handleSave(setting)}
+                    disabled={saving || draft === toDraft(setting)}
+                    className="btn-primary disabled:opacity-50"
+                  >
+                    Save
+                  </button>
+                  {setting.overridden && (
+                    <button onClick={() => handleReset(setting)} disabled={saving} className="btn-secondary disabled:opacity-50">
+                      Reset
+                    </button>
+                  )}
+                </div>
+              </li>
+            )
+          })}
+        </ul>
+      )}
+    </div>
+  )
+}
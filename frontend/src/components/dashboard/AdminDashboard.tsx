@@ -1,317 +1,331 @@
 import { useState, useEffect } from 'react'
 import { useNavigate } from 'react-router-dom'
 import type { User } from '../../types/auth'
+import { AuditLogTable } from '../admin/AuditLogTable'
+import { AIConfigurationManager } from '../admin/AIConfigurationManager'
+import { SystemSettingsManager } from '../admin/SystemSettingsManager'
+import { analyticsService } from '../../services/analytics'
+import type { AdminDashboardData, DateRange } from '../../services/analytics'
+import { debug } from '../../utils/debug'
 
 interface AdminDashboardProps {
   user: User
 }
 
-interface AdminStats {
-  totalUsers: number
-  totalLessons: number
-  totalVideos: number
-  totalWatchHours: number
-  systemHealth: {
-    apiStatus: 'healthy' | 'warning' | 'critical'
-    dbStatus: 'healthy' | 'warning' | 'critical'
-    storageUsage: number
-    activeUsers: number
+type RangePreset = '7' | '30' | '90' | 'custom'
+
+const RANGE_PRESETS: { value: RangePreset, label: string }[] = [
+  { value: '7', label: 'Last 7 days' },
+  { value: '30', label: 'Last 30 days' },
+  { value: '90', label: 'Last 90 days' },
+  { value: 'custom', label: 'Custom' }
+]
+
+// Date inputs give local calendar days; the end date covers the whole of its day
+const toRange = (preset: RangePreset, customFrom: string, customTo: string): DateRange => {
+  if (preset !== 'custom') {
+    return { from: new Date(Date.now() - Number(preset) * 24 * 60 * 60 * 1000).toISOString() }
+  }
+  return {
+    from: customFrom ? new Date(`${customFrom}T00:00:00`).toISOString() : undefined,
+    to: customTo ? new Date(`${customTo}T23:59:59.999`).toISOString() : undefined
   }
-  recentUsers: Array<{
-    id: string
-    name: string
-    role: string
-    joinedAt: string
-    lastActive: string
-  }>
-  platformActivity: Array<{
-    type: 'user_registered' | 'lesson_created' | 'video_uploaded' | 'system_alert'
-    description: string
-    timestamp: string
-    severity?: 'info' | 'warning' | 'critical'
-  }>
+}
+
+const formatBytes = (bytes: number) => {
+  if (bytes === 0) return '0 B'
+  const units = ['B', 'KB', 'MB', 'GB', 'TB']
+  const i = Math.min(units.length - 1, Math.floor(Math.log(bytes) / Math.log(1024)))
+  return `${parseFloat((bytes / Math.pow(1024, i)).toFixed(1))} ${units[i]}`
+}
+
+const formatLabel = (value: string) =>
+  value.charAt(0) + value.slice(1).toLowerCase().replace(/_/g, ' ')
+
+function Breakdown({ counts }: { counts: Record<string, number> }) {
+  return (
+    <dl className="mt-3 space-y-1 text-sm">
+      {Object.entries(counts).map(([key, count]) => (
+        <div key={key} className="flex justify-between">
+          <dt className="text-gray-600">{formatLabel(key)}</dt>
+          <dd className="font-medium text-gray-900">{count.toLocaleString()}</dd>
+        </div>
+      ))}
+    </dl>
+  )
 }
 
 export function AdminDashboard({ user }: AdminDashboardProps) {
   const navigate = useNavigate()
-  const [stats, setStats] = useState<AdminStats | null>(null)
+  const [stats, setStats] = useState<AdminDashboardData | null>(null)
   const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [preset, setPreset] = useState<RangePreset>('30')
+  const [customFrom, setCustomFrom] = useState('')
+  const [customTo, setCustomTo] = useState('')
 
   useEffect(() => {
-    loadDashboardData()
-  }, [])
-
-  const loadDashboardData = async () => {
-    try {
-      // This would normally fetch from API
-      // For now, using mock data
-      setStats({
-        totalUsers: 1247,
-        totalLessons: 156,
-        totalVideos: 842,
-        totalWatchHours: 5420.5,
-        systemHealth: {
-          apiStatus: 'healthy',
-          dbStatus: 'healthy',
-          storageUsage: 68.5,
-          activeUsers: 89
-        },
-        recentUsers: [
-          {
-            id: '1',
-            name: 'Alice Johnson',
-            role: 'STUDENT',
-            joinedAt: '2024-01-15T10:30:00Z',
-            lastActive: '2024-01-15T15:45:00Z'
-          },
-          {
-            id: '2',
-            name: 'Bob Smith',
-            role: 'TEACHER',
-            joinedAt: '2024-01-15T09:15:00Z',
-            lastActive: '2024-01-15T14:20:00Z'
-          },
-          {
-            id: '3',
-            name: 'Carol Davis',
-            role: 'STUDENT',
-            joinedAt: '2024-01-14T16:45:00Z',
-            lastActive: '2024-01-15T11:30:00Z'
-          }
-        ],
-        platformActivity: [
-          {
-            type: 'user_registered',
-            description: '5 new users registered today',
-            timestamp: '2024-01-15T16:00:00Z',
-            severity: 'info'
-          },
-          {
-            type: 'lesson_created',
-            description: 'Dr. Smith created "Advanced Machine Learning" lesson',
-            timestamp: '2024-01-15T14:30:00Z',
-            severity: 'info'
-          },
-          {
-            type: 'system_alert',
-            description: 'Database backup completed successfully',
-            timestamp: '2024-01-15T12:00:00Z',
-            severity: 'info'
-          },
-          {
-            type: 'system_alert',
-            description: 'Storage usage approaching 70% capacity',
-            timestamp: '2024-01-15T10:15:00Z',
-            severity: 'warning'
-          }
-        ]
+    let cancelled = false
+    setLoading(true)
+    setError(null)
+
+    analyticsService.getAdminDashboard(toRange(preset, customFrom, customTo))
+      .then(data => {
+        if (!cancelled) setStats(data)
+      })
+      .catch(err => {
+        debug.error('Error loading admin dashboard data:', err)
+        if (!cancelled) setError((err as { message?: string }).message || 'Failed to load dashboard')
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
       })
-    } catch (error) {
-      console.error('Error loading admin dashboard data:', error)
-    } finally {
-      setLoading(false)
+
+    return () => {
+      cancelled = true
     }
-  }
+  }, [preset, customFrom, customTo])
 
   const formatDate = (dateString: string) => {
     const date = new Date(dateString)
     return date.toLocaleDateString() + ' ' + date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
   }
 
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case 'healthy': return 'text-green-600 bg-green-100'
-      case 'warning': return 'text-yellow-600 bg-yellow-100'
-      case 'critical': return 'text-red-600 bg-red-100'
-      default: return 'text-gray-600 bg-gray-100'
-    }
-  }
-
-  const getActivityIcon = (type: string) => {
-    switch (type) {
-      case 'user_registered': return '👥'
-      case 'lesson_created': return '📚'
-      case 'video_uploaded': return '🎥'
-      case 'system_alert': return '⚠️'
+  const getActivityIcon = (action: string) => {
+    switch (action) {
+      case 'CREATE': return '✨'
+      case 'UPDATE': return '✏️'
+      case 'DELETE': return '🗑️'
+      case 'UPLOAD': return '🎥'
+      case 'LOGIN':
+      case 'LOGOUT': return '🔑'
       default: return '📝'
     }
   }
 
-  const getSeverityColor = (severity?: string) => {
-    switch (severity) {
-      case 'warning': return 'border-l-yellow-400 bg-yellow-50'
-      case 'critical': return 'border-l-red-400 bg-red-50'
-      default: return 'border-l-blue-400 bg-blue-50'
-    }
-  }
-
-  if (loading) {
-    return (
-      <div className="p-6">
-        <div className="flex items-center justify-center h-64">
-          <div className="text-center">
-            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
-            <p className="text-gray-600">Loading admin dashboard...</p>
-          </div>
-        </div>
-      </div>
-    )
-  }
+  const diskUsage = stats?.storage.disk
+    ? ((stats.storage.disk.totalBytes - stats.storage.disk.freeBytes) / stats.storage.disk.totalBytes) * 100
+    : null
 
   return (
     <div className="p-6">
-      <div className="mb-8">
-        <h1 className="text-2xl font-bold text-gray-900">
-          Admin Dashboard
-        </h1>
-        <p className="text-gray-600">
-          System overview and platform management tools.
-        </p>
-      </div>
-
-      {/* System Stats Overview */}
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
-        <div className="card text-center">
-          <div className="text-3xl font-bold text-blue-600 mb-2">
-            {stats?.totalUsers.toLocaleString() || 0}
-          </div>
-          <div className="text-sm text-gray-600">Total Users</div>
-        </div>
-        
-        <div className="card text-center">
-          <div className="text-3xl font-bold text-green-600 mb-2">
-            {stats?.totalLessons || 0}
-          </div>
-          <div className="text-sm text-gray-600">Total Lessons</div>
-        </div>
-        
-        <div className="card text-center">
-          <div className="text-3xl font-bold text-purple-600 mb-2">
-            {stats?.totalVideos || 0}
-          </div>
-          <div className="text-sm text-gray-600">Total Videos</div>
+      <div className="mb-8 flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">
+            Admin Dashboard
+          </h1>
+          <p className="text-gray-600">
+            Welcome back, {user.firstName}. Platform overview and management tools.
+          </p>
         </div>
-        
-        <div className="card text-center">
-          <div className="text-3xl font-bold text-yellow-600 mb-2">
-            {stats?.totalWatchHours.toLocaleString() || 0}h
-          </div>
-          <div className="text-sm text-gray-600">Total Watch Hours</div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            value={preset}
+            onChange={(e) => setPreset(e.target.value as RangePreset)}
+            aria-label="Date range"
+            className="input-field w-auto"
+          >
+            {RANGE_PRESETS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+          {preset === 'custom' && (
+            <>
+              <input
+                type="date"
+                value={customFrom}
+                onChange={(e) => setCustomFrom(e.target.value)}
+                aria-label="From date"
+                className="input-field w-auto"
+              />
+              <span className="text-gray-500">to</span>
+              <input
+                type="date"
+                value={customTo}
+                onChange={(e) => setCustomTo(e.target.value)}
+                aria-label="To date"
+                className="input-field w-auto"
+              />
+            </>
+          )}
         </div>
       </div>
 
-      {/* System Health */}
-      <div className="card mb-8">
-        <h3 className="text-lg font-semibold text-gray-900 mb-4">
-          System Health
-        </h3>
-        
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+      {error && (
+        <div className="mb-6 p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      {loading && !stats ? (
+        <div className="flex items-center justify-center h-64">
           <div className="text-center">
-            <div className={`inline-flex px-3 py-1 rounded-full text-sm font-medium ${getStatusColor(stats?.systemHealth.apiStatus || 'healthy')}`}>
-              API: {stats?.systemHealth.apiStatus || 'Unknown'}
-            </div>
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
+            <p className="text-gray-600">Loading admin dashboard...</p>
           </div>
-          
-          <div className="text-center">
-            <div className={`inline-flex px-3 py-1 rounded-full text-sm font-medium ${getStatusColor(stats?.systemHealth.dbStatus || 'healthy')}`}>
-              Database: {stats?.systemHealth.dbStatus || 'Unknown'}
+        </div>
+      ) : stats && (
+        <div className={loading ? 'opacity-60 transition-opacity' : 'transition-opacity'}>
+          <p className="mb-4 text-sm text-gray-500">
+            Activity from {formatDate(stats.range.from)} to {formatDate(stats.range.to)}
+          </p>
+
+          {/* Platform Overview */}
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
+            <div className="card">
+              <div className="text-3xl font-bold text-blue-600">{stats.users.total.toLocaleString()}</div>
+              <div className="text-sm text-gray-600">Users</div>
+              <div className="mt-1 text-xs text-gray-500">
+                {stats.users.newInRange} new · {stats.users.activeInRange} signed in
+              </div>
+              <Breakdown counts={stats.users.byRole} />
             </div>
-          </div>
-          
-          <div className="text-center">
-            <div className="text-sm text-gray-600 mb-1">Storage Usage</div>
-            <div className="w-full bg-gray-200 rounded-full h-2">
-              <div 
-                className={`h-2 rounded-full ${
-                  (stats?.systemHealth.storageUsage || 0) > 80 
-                    ? 'bg-red-600' 
-                    : (stats?.systemHealth.storageUsage || 0) > 60 
-                    ? 'bg-yellow-600' 
-                    : 'bg-green-600'
-                }`}
-                style={{ width: `${stats?.systemHealth.storageUsage || 0}%` }}
-              ></div>
+
+            <div className="card">
+              <div className="text-3xl font-bold text-green-600">{stats.lessons.total.toLocaleString()}</div>
+              <div className="text-sm text-gray-600">Lessons</div>
+              <div className="mt-1 text-xs text-gray-500">{stats.lessons.createdInRange} created</div>
+              <Breakdown counts={stats.lessons.byStatus} />
             </div>
-            <div className="text-xs text-gray-500 mt-1">
-              {stats?.systemHealth.storageUsage || 0}% used
+
+            <div className="card">
+              <div className="text-3xl font-bold text-purple-600">{stats.videos.total.toLocaleString()}</div>
+              <div className="text-sm text-gray-600">Videos</div>
+              <div className="mt-1 text-xs text-gray-500">{stats.videos.uploadedInRange} uploaded</div>
+              <Breakdown counts={stats.videos.byStatus} />
             </div>
-          </div>
-          
-          <div className="text-center">
-            <div className="text-2xl font-bold text-blue-600">
-              {stats?.systemHealth.activeUsers || 0}
+
+            <div className="card">
+              <div className="text-3xl font-bold text-yellow-600">${stats.ai.cost.toFixed(2)}</div>
+              <div className="text-sm text-gray-600">AI spend</div>
+              <dl className="mt-3 space-y-1 text-sm">
+                <div className="flex justify-between">
+                  <dt className="text-gray-600">Requests</dt>
+                  <dd className="font-medium text-gray-900">{stats.ai.requests.toLocaleString()}</dd>
+                </div>
+                <div className="flex justify-between">
+                  <dt className="text-gray-600">Failed</dt>
+                  <dd className="font-medium text-gray-900">{stats.ai.failedRequests.toLocaleString()}</dd>
+                </div>
+                <div className="flex justify-between">
+                  <dt className="text-gray-600">Tokens</dt>
+                  <dd className="font-medium text-gray-900">{stats.ai.tokensUsed.toLocaleString()}</dd>
+                </div>
+              </dl>
             </div>
-            <div className="text-sm text-gray-600">Active Users</div>
           </div>
-        </div>
-      </div>
 
-      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 mb-8">
-        {/* Recent Users */}
-        <div className="card">
-          <h3 className="text-lg font-semibold text-gray-900 mb-4">
-            Recent Users
-          </h3>
-          
-          {stats?.recentUsers && stats.recentUsers.length > 0 ? (
-            <div className="space-y-3">
-              {stats.recentUsers.map((user) => (
-                <div key={user.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
-                  <div>
-                    <h4 className="font-medium text-gray-900">{user.name}</h4>
-                    <div className="flex items-center space-x-2 text-sm text-gray-600">
-                      <span className={`px-2 py-1 rounded-full text-xs ${
-                        user.role === 'ADMIN' ? 'bg-red-100 text-red-700' :
-                        user.role === 'TEACHER' ? 'bg-blue-100 text-blue-700' :
-                        'bg-gray-100 text-gray-700'
-                      }`}>
-                        {user.role}
-                      </span>
-                      <span>Joined {formatDate(user.joinedAt).split(' ')[0]}</span>
-                    </div>
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-8 mb-8">
+            {/* Storage */}
+            <div className="card">
+              <h3 className="text-lg font-semibold text-gray-900 mb-4">Storage</h3>
+              <div className="text-2xl font-bold text-gray-900">{formatBytes(stats.storage.videoBytes)}</div>
+              <div className="text-sm text-gray-600 mb-4">
+                in {stats.storage.videoFiles.toLocaleString()} uploaded videos
+              </div>
+              {stats.storage.disk && diskUsage !== null ? (
+                <>
+                  <div className="w-full bg-gray-200 rounded-full h-2">
+                    <div
+                      className={`h-2 rounded-full ${
+                        diskUsage > 80 ? 'bg-red-600' : diskUsage > 60 ? 'bg-yellow-600' : 'bg-green-600'
+                      }`}
+                      style={{ width: `${diskUsage}%` }}
+                    ></div>
                   </div>
-                  <div className="text-sm text-gray-500">
-                    Last active: {formatDate(user.lastActive).split(' ')[1]}
+                  <div className="text-xs text-gray-500 mt-1">
+                    Disk {diskUsage.toFixed(1)}% used, {formatBytes(stats.storage.disk.freeBytes)} free
                   </div>
-                </div>
-              ))}
-            </div>
-          ) : (
-            <div className="text-center py-8 text-gray-500">
-              No recent user activity
+                </>
+              ) : (
+                <div className="text-xs text-gray-500">Disk usage unavailable</div>
+              )}
             </div>
-          )}
-        </div>
 
-        {/* Platform Activity */}
-        <div className="card">
-          <h3 className="text-lg font-semibold text-gray-900 mb-4">
-            Platform Activity
-          </h3>
-          
-          {stats?.platformActivity && stats.platformActivity.length > 0 ? (
-            <div className="space-y-3">
-              {stats.platformActivity.map((activity, index) => (
-                <div key={index} className={`flex items-start space-x-3 p-3 rounded-lg border-l-4 ${getSeverityColor(activity.severity)}`}>
-                  <div className="text-lg">{getActivityIcon(activity.type)}</div>
-                  <div className="flex-1">
-                    <p className="text-sm font-medium text-gray-900">
-                      {activity.description}
-                    </p>
-                    <p className="text-xs text-gray-500 mt-1">
-                      {formatDate(activity.timestamp)}
-                    </p>
+            {/* Processing */}
+            <div className="card">
+              <h3 className="text-lg font-semibold text-gray-900 mb-4">Processing</h3>
+              <div className="grid grid-cols-2 gap-4 mb-4">
+                <div>
+                  <div className={`text-2xl font-bold ${stats.processing.failedVideos > 0 ? 'text-red-600' : 'text-gray-900'}`}>
+                    {stats.processing.failedVideos}
+                  </div>
+                  <div className="text-sm text-gray-600">Failed videos</div>
+                </div>
+                <div>
+                  <div className={`text-2xl font-bold ${stats.processing.deadJobs > 0 ? 'text-red-600' : 'text-gray-900'}`}>
+                    {stats.processing.deadJobs}
                   </div>
+                  <div className="text-sm text-gray-600">Dead jobs</div>
                 </div>
-              ))}
+              </div>
+              {stats.processing.recentFailures.length > 0 ? (
+                <ul className="space-y-2 text-sm">
+                  {stats.processing.recentFailures.map(failure => (
+                    <li key={failure.videoId} className="p-2 rounded border-l-4 border-l-red-400 bg-red-50">
+                      <div className="font-medium text-gray-900">{failure.title}</div>
+                      <div className="text-xs text-gray-600">
+                        {failure.processingStatus ?? 'Error'} · {formatDate(failure.failedAt)}
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-sm text-gray-500">No processing failures in this period</p>
+              )}
             </div>
-          ) : (
-            <div className="text-center py-8 text-gray-500">
-              No recent platform activity
+
+            {/* Account Status */}
+            <div className="card">
+              <h3 className="text-lg font-semibold text-gray-900 mb-4">Accounts</h3>
+              <Breakdown counts={stats.users.byStatus} />
             </div>
-          )}
+          </div>
+
+          {/* Recent Activity */}
+          <div className="card mb-8">
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">Recent Activity</h3>
+
+            {stats.recentActivity.length > 0 ? (
+              <div className="space-y-3">
+                {stats.recentActivity.map(activity => (
+                  <div key={activity.id} className="flex items-start space-x-3 p-3 rounded-lg border-l-4 border-l-blue-400 bg-blue-50">
+                    <div className="text-lg">{getActivityIcon(activity.action)}</div>
+                    <div className="flex-1">
+                      <p className="text-sm font-medium text-gray-900">
+                        {activity.user ? `${activity.user.firstName} ${activity.user.lastName}` : 'System'}
+                        {' '}{activity.action.toLowerCase()} {activity.resource}
+                      </p>
+                      <p className="text-xs text-gray-500 mt-1">
+                        {formatDate(activity.createdAt)}
+                      </p>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <div className="text-center py-8 text-gray-500">
+                No platform activity in this period
+              </div>
+            )}
+          </div>
         </div>
+      )}
+
+      {/* Platform Settings */}
+      <div className="mb-8">
+        <SystemSettingsManager />
+      </div>
+
+      {/* AI Providers */}
+      <div className="mb-8">
+        <AIConfigurationManager />
+      </div>
+
+      {/* Audit Trail */}
+      <div className="mb-8">
+        <AuditLogTable />
       </div>
 
       {/* Admin Actions */}
@@ -362,4 +376,4 @@ export function AdminDashboard({ user }: AdminDashboardProps) {
       </div>
     </div>
   )
-}
\ No newline at end of file
+}
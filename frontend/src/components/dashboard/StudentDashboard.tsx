@@ -1,33 +1,24 @@
 import { useState, useEffect } from 'react'
 import { useNavigate } from 'react-router-dom'
 import type { User } from '../../types/auth'
+import { analyticsService } from '../../services/analytics'
+import type { StudentDashboardData } from '../../services/analytics'
+import type { ViewingAttempt } from '../../services/video'
 
 interface StudentDashboardProps {
   user: User
 }
 
-interface DashboardStats {
-  lessonsEnrolled: number
-  lessonsCompleted: number
-  totalWatchTime: number
-  averageScore: number
-  streak: number
-  recentProgress: Array<{
-    lessonTitle: string
-    videoTitle: string
-    progress: number
-    timestamp: string
-  }>
-  achievements: Array<{
-    title: string
-    description: string
-    earnedAt: string
-  }>
+const ATTEMPT_STATUS_LABELS: Record<ViewingAttempt['status'], string> = {
+  ACTIVE: 'In progress',
+  PAUSED: 'Paused',
+  COMPLETED: 'Completed',
+  ABANDONED: 'Left unfinished'
 }
 
 export function StudentDashboard({ user }: StudentDashboardProps) {
   const navigate = useNavigate()
-  const [stats, setStats] = useState<DashboardStats | null>(null)
+  const [stats, setStats] = useState<StudentDashboardData | null>(null)
   const [loading, setLoading] = useState(true)
 
   useEffect(() => {
@@ -36,41 +27,7 @@ export function StudentDashboard({ user }: StudentDashboardProps) {
 
   const loadDashboardData = async () => {
     try {
-      // This would normally fetch from API
-      // For now, using mock data
-      setStats({
-        lessonsEnrolled: 5,
-        lessonsCompleted: 2,
-        totalWatchTime: 1850, // seconds
-        averageScore: 85.5,
-        streak: 3,
-        recentProgress: [
-          {
-            lessonTitle: 'Introduction to React',
-            videoTitle: 'Components and Props',
-            progress: 75,
-            timestamp: '2024-01-15T10:30:00Z'
-          },
-          {
-            lessonTitle: 'JavaScript Fundamentals',
-            videoTitle: 'Async Programming',
-            progress: 100,
-            timestamp: '2024-01-14T15:45:00Z'
-          }
-        ],
-        achievements: [
-          {
-            title: 'First Lesson Complete',
-            description: 'Completed your first lesson',
-            earnedAt: '2024-01-10T12:00:00Z'
-          },
-          {
-            title: 'High Scorer',
-            description: 'Achieved over 80% average score',
-            earnedAt: '2024-01-12T16:30:00Z'
-          }
-        ]
-      })
+      setStats(await analyticsService.getStudentDashboard())
     } catch (error) {
       console.error('Error loading dashboard data:', error)
     } finally {
@@ -155,8 +112,8 @@ export function StudentDashboard({ user }: StudentDashboardProps) {
           
           {stats?.recentProgress && stats.recentProgress.length > 0 ? (
             <div className="space-y-4">
-              {stats.recentProgress.map((item, index) => (
-                <div key={index} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+              {stats.recentProgress.map(item => (
+                <div key={item.videoId} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
                   <div className="flex-1">
                     <h4 className="font-medium text-gray-900">{item.lessonTitle}</h4>
                     <p className="text-sm text-gray-600">{item.videoTitle}</p>
@@ -168,9 +125,25 @@ export function StudentDashboard({ user }: StudentDashboardProps) {
                         ></div>
                       </div>
                       <div className="text-xs text-gray-500 mt-1">
-                        {item.progress}% complete
+                        {Math.round(item.progress)}% complete
+                        {item.attempts.length > 1 && ` · attempt ${item.attempts.length}`}
                       </div>
                     </div>
+                    {item.attempts.length > 1 && (
+                      <ol className="mt-3 space-y-1 border-l-2 border-gray-200 pl-3">
+                        {item.attempts.map(attempt => (
+                          <li key={attempt.sessionId} className="text-xs text-gray-600">
+                            <span className={attempt.isCurrent ? 'font-medium text-gray-900' : ''}>
+                              Attempt {attempt.attemptNumber}
+                            </span>
+                            {' · '}{ATTEMPT_STATUS_LABELS[attempt.status]}
+                            {' · '}{formatDate(attempt.completedAt || attempt.startedAt)}
+                            {' · '}{attempt.progress}%
+                            {attempt.score !== null && ` · score ${attempt.score}%`}
+                          </li>
+                        ))}
+                      </ol>
+                    )}
                   </div>
                   <div className="text-sm text-gray-500 ml-4">
                     {formatDate(item.timestamp)}
@@ -269,8 +242,7 @@ export function StudentDashboard({ user }: StudentDashboardProps) {
             onClick={() => {
               // Navigate to most recent lesson
               if (stats?.recentProgress && stats.recentProgress.length > 0) {
-                // This would navigate to the specific video
-                navigate('/lessons')
+                navigate(`/video/${stats.recentProgress[0].videoId}`)
               } else {
                 navigate('/lessons')
               }
@@ -4,6 +4,7 @@ import {
   BookOpenIcon, 
   UserIcon, 
   Cog6ToothIcon,
+  ComputerDesktopIcon,
   ArrowRightOnRectangleIcon 
 } from '@heroicons/react/24/outline'
 import { Link, useLocation } from 'react-router-dom'
@@ -29,6 +30,10 @@ export default function Layout({ children }: LayoutProps) {
     )
   }
 
+  navigation.push(
+    { name: 'Devices', href: '/account/sessions', icon: ComputerDesktopIcon }
+  )
+
   // Add admin/teacher specific navigation
   if (user?.role === 'ADMIN' || user?.role === 'TEACHER') {
     navigation.push(
@@ -1,10 +1,19 @@
 import React, { useState, useEffect } from 'react'
-import { aiService } from '../../services/ai'
+import { aiService, AI_PROVIDER_LABELS } from '../../services/ai'
 import { debug } from '../../utils/debug'
-import type { GenerateQuestionsRequest, GeneratedQuestion } from '../../services/ai'
-import type { Video, Milestone, Question } from '../../services/video'
+import type { AIProviderName, GenerateQuestionsRequest, GeneratedQuestion } from '../../services/ai'
+import { captionService } from '../../services/video'
+import type { Video, Milestone, Question, VideoCaption } from '../../services/video'
+import { formatCueTime } from '../../utils/captions'
 import { useVideoStateManager } from '../../contexts/VideoStateContext'
 
+// Questions come from the video's caption transcript, or from text the teacher pastes in
+type ContentSource = 'transcript' | 'content'
+
+// Transcript used when generating for a milestone: the two minutes leading up to it
+const MILESTONE_LEAD_SECONDS = 120
+const DEFAULT_WINDOW_SECONDS = 300
+
 interface AIQuestionGeneratorProps {
   video: Video
   milestone?: Milestone
@@ -21,10 +30,21 @@ export function AIQuestionGenerator({
   const manager = useVideoStateManager()
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
-  const [availableProviders, setAvailableProviders] = useState<string[]>([])
+  const [availableProviders, setAvailableProviders] = useState<AIProviderName[]>([])
   const [hasAISupport, setHasAISupport] = useState(false)
   const [generatedQuestions, setGeneratedQuestions] = useState<GeneratedQuestion[]>([])
   const [showPreview, setShowPreview] = useState(false)
+  const [captions, setCaptions] = useState<VideoCaption[]>([])
+  const [source, setSource] = useState<ContentSource>('content')
+  const [transcriptLanguage, setTranscriptLanguage] = useState('')
+  const [windowStart, setWindowStart] = useState(
+    milestone ? Math.max(0, Math.floor(milestone.timestamp) - MILESTONE_LEAD_SECONDS) : 0
+  )
+  const [windowEnd, setWindowEnd] = useState(
+    milestone ? Math.floor(milestone.timestamp) : Math.min(video.duration || DEFAULT_WINDOW_SECONDS, DEFAULT_WINDOW_SECONDS)
+  )
+  const [acceptedQuestions, setAcceptedQuestions] = useState<boolean[]>([])
+  const [generatedTitle, setGeneratedTitle] = useState<{ title: string, description?: string } | null>(null)
   
   const [formData, setFormData] = useState<GenerateQuestionsRequest>({
     videoTitle: video.title,
@@ -40,6 +60,18 @@ export function AIQuestionGenerator({
     loadProviders()
   }, [])
 
+  useEffect(() => {
+    captionService.getCaptions(video.id)
+      .then(result => {
+        setCaptions(result.captions)
+        if (result.captions.length > 0) {
+          setSource('transcript')
+          setTranscriptLanguage(result.defaultLanguage || result.captions[0].language)
+        }
+      })
+      .catch(err => debug.warn('Failed to load captions:', err))
+  }, [video.id])
+
   const loadProviders = async () => {
     try {
       const response = await aiService.getProviders()
@@ -50,7 +82,7 @@ export function AIQuestionGenerator({
       if (response.providers.length > 0) {
         setFormData(prev => ({
           ...prev,
-          provider: response.providers[0] as 'OPENAI' | 'CLAUDE'
+          provider: response.providers[0]
         }))
       }
     } catch (error) {
@@ -77,11 +109,16 @@ export function AIQuestionGenerator({
   }
 
   const handleGenerate = async () => {
-    if (!formData.content.trim()) {
+    if (source === 'content' && !formData.content.trim()) {
       setError('Content is required to generate questions')
       return
     }
 
+    if (source === 'transcript' && windowEnd <= windowStart) {
+      setError('The transcript window must end after it starts')
+      return
+    }
+
     if (!formData.questionTypes || formData.questionTypes.length === 0) {
       setError('At least one question type must be selected')
       return
@@ -91,12 +128,25 @@ export function AIQuestionGenerator({
     setError(null)
 
     try {
-      const result = await aiService.generateQuestions(formData)
+      const result = source === 'transcript'
+        ? await aiService.generateFromTranscript(video.id, {
+          milestoneId: milestone?.id,
+          startTime: windowStart,
+          endTime: windowEnd,
+          language: transcriptLanguage || undefined,
+          questionCount: formData.questionCount,
+          questionTypes: formData.questionTypes,
+          difficulty: formData.difficulty,
+          provider: formData.provider
+        })
+        : await aiService.generateQuestions(formData)
       setGeneratedQuestions(result.questions)
+      setGeneratedTitle({ title: result.milestoneTitle, description: result.milestoneDescription })
+      setAcceptedQuestions(result.questions.map(() => true))
       setShowPreview(true)
     } catch (err) {
       debug.error('Error generating questions:', err)
-      const message = err instanceof Error ? err.message : 'Failed to generate questions'
+      const message = (err as { message?: string }).message || 'Failed to generate questions'
       setError(message)
     } finally {
       setLoading(false)
@@ -134,6 +184,35 @@ export function AIQuestionGenerator({
     }
   }
 
+  // Save the accepted transcript suggestions; without a milestone, one is created per suggested timestamp
+  const handleAcceptSuggestions = async () => {
+    const questions = generatedQuestions.filter((_, index) => acceptedQuestions[index])
+    if (questions.length === 0) {
+      setError('Select at least one question to add')
+      return
+    }
+
+    setLoading(true)
+    setError(null)
+
+    try {
+      await aiService.acceptSuggestions(video.id, {
+        questions,
+        milestoneId: milestone?.id,
+        milestoneTitle: generatedTitle?.title,
+        milestoneDescription: generatedTitle?.description
+      })
+      await manager.loadVideo(video.id, true)
+      onQuestionsGenerated()
+    } catch (err) {
+      debug.error('Error accepting suggestions:', err)
+      const message = (err as { message?: string }).message || 'Failed to add questions'
+      setError(message)
+    } finally {
+      setLoading(false)
+    }
+  }
+
   const handleBackdropClick = (e: React.MouseEvent) => {
     if (e.target === e.currentTarget) {
       onClose()
@@ -223,7 +302,7 @@ export function AIQuestionGenerator({
                   >
                     {availableProviders.map(provider => (
                       <option key={provider} value={provider}>
-                        {provider === 'OPENAI' ? 'OpenAI GPT' : 'Anthropic Claude'}
+                        {AI_PROVIDER_LABELS[provider]}
                       </option>
                     ))}
                   </select>
@@ -288,25 +367,112 @@ export function AIQuestionGenerator({
                   </div>
                 </div>
 
-                {/* Content */}
-                <div>
-                  <label htmlFor="content" className="block text-sm font-medium text-gray-700 mb-2">
-                    Video Content/Transcript *
+                {/* Content Source */}
+                <div className="mb-4">
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Generate From
                   </label>
-                  <textarea
-                    id="content"
-                    name="content"
-                    value={formData.content}
-                    onChange={handleInputChange}
-                    placeholder="Paste the video transcript, key points, or content that questions should be based on..."
-                    rows={8}
-                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                    required
-                  />
-                  <p className="text-xs text-gray-500 mt-1">
-                    The AI will use this content to generate relevant questions
-                  </p>
+                  <div className="flex space-x-4">
+                    <label className="flex items-center">
+                      <input
+                        type="radio"
+                        name="source"
+                        checked={source === 'transcript'}
+                        onChange={() => setSource('transcript')}
+                        disabled={captions.length === 0}
+                        className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300"
+                      />
+                      <span className={`ml-2 text-sm ${captions.length === 0 ? 'text-gray-400' : 'text-gray-700'}`}>
+                        Video transcript
+                      </span>
+                    </label>
+                    <label className="flex items-center">
+                      <input
+                        type="radio"
+                        name="source"
+                        checked={source === 'content'}
+                        onChange={() => setSource('content')}
+                        className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300"
+                      />
+                      <span className="ml-2 text-sm text-gray-700">Custom content</span>
+                    </label>
+                  </div>
+                  {captions.length === 0 && (
+                    <p className="text-xs text-gray-500 mt-1">
+                      Upload captions for this video to generate questions from what it says
+                    </p>
+                  )}
                 </div>
+
+                {source === 'transcript' ? (
+                  <div>
+                    {captions.length > 1 && (
+                      <div className="mb-4">
+                        <label htmlFor="transcriptLanguage" className="block text-sm font-medium text-gray-700 mb-2">
+                          Transcript Language
+                        </label>
+                        <select
+                          id="transcriptLanguage"
+                          value={transcriptLanguage}
+                          onChange={(e) => setTranscriptLanguage(e.target.value)}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                        >
+                          {captions.map(caption => (
+                            <option key={caption.language} value={caption.language}>
+                              {caption.label}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                    )}
+
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Transcript Window (seconds)
+                    </label>
+                    <div className="flex items-center space-x-2">
+                      <input
+                        type="number"
+                        aria-label="Window start"
+                        value={windowStart}
+                        onChange={(e) => setWindowStart(Math.max(0, parseInt(e.target.value) || 0))}
+                        min="0"
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                      />
+                      <span className="text-gray-500">to</span>
+                      <input
+                        type="number"
+                        aria-label="Window end"
+                        value={windowEnd}
+                        onChange={(e) => setWindowEnd(Math.max(0, parseInt(e.target.value) || 0))}
+                        min="0"
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                      />
+                    </div>
+                    <p className="text-xs text-gray-500 mt-1">
+                      {formatCueTime(windowStart)} – {formatCueTime(windowEnd)}
+                      {milestone && ' (defaults to the two minutes before this milestone)'}
+                    </p>
+                  </div>
+                ) : (
+                  <div>
+                    <label htmlFor="content" className="block text-sm font-medium text-gray-700 mb-2">
+                      Video Content/Transcript *
+                    </label>
+                    <textarea
+                      id="content"
+                      name="content"
+                      value={formData.content}
+                      onChange={handleInputChange}
+                      placeholder="Paste the video transcript, key points, or content that questions should be based on..."
+                      rows={8}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                      required
+                    />
+                    <p className="text-xs text-gray-500 mt-1">
+                      The AI will use this content to generate relevant questions
+                    </p>
+                  </div>
+                )}
               </div>
 
               <div className="flex justify-end space-x-3">
@@ -319,7 +485,7 @@ export function AIQuestionGenerator({
                 </button>
                 <button
                   onClick={handleGenerate}
-                  disabled={loading || !formData.content.trim()}
+                  disabled={loading || (source === 'content' && !formData.content.trim())}
                   className={`btn-primary ${loading ? 'opacity-50 cursor-not-allowed' : ''}`}
                 >
                   {loading ? 'Generating...' : 'Generate Questions'}
@@ -335,7 +501,15 @@ export function AIQuestionGenerator({
                     <h3 className="text-lg font-semibold text-gray-900">
                       Generated Questions ({generatedQuestions.length})
                     </h3>
-                    {milestone && (
+                    {source === 'transcript' ? (
+                      <button
+                        onClick={handleAcceptSuggestions}
+                        disabled={loading || !acceptedQuestions.some(Boolean)}
+                        className={`btn-primary ${loading ? 'opacity-50 cursor-not-allowed' : ''}`}
+                      >
+                        {loading ? 'Adding...' : milestone ? 'Add to Milestone' : 'Create Milestones'}
+                      </button>
+                    ) : milestone && (
                       <button
                         onClick={handleApplyQuestions}
                         disabled={loading}
@@ -350,7 +524,23 @@ export function AIQuestionGenerator({
                     {generatedQuestions.map((question, index) => (
                       <div key={index} className="border border-gray-200 rounded-lg p-4">
                         <div className="flex items-center justify-between mb-2">
-                          <span className="text-sm font-medium text-gray-900">Q{index + 1}</span>
+                          <div className="flex items-center space-x-2">
+                            {source === 'transcript' && (
+                              <input
+                                type="checkbox"
+                                aria-label={`Accept question ${index + 1}`}
+                                checked={acceptedQuestions[index] || false}
+                                onChange={() => setAcceptedQuestions(prev => prev.map((value, i) => i === index ? !value : value))}
+                                className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                              />
+                            )}
+                            <span className="text-sm font-medium text-gray-900">Q{index + 1}</span>
+                            {question.suggestedTimestamp !== undefined && (
+                              <span className="text-xs text-gray-500" title="Transcript segment this question is based on">
+                                @ {formatCueTime(question.suggestedTimestamp)}
+                              </span>
+                            )}
+                          </div>
                           <span className={`px-2 py-1 rounded-full text-xs font-medium ${
                             question.type === 'MULTIPLE_CHOICE' 
                               ? 'bg-blue-100 text-blue-700'
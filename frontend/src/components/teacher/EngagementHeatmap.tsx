@@ -0,0 +1,206 @@
+import { useEffect, useMemo, useState } from 'react'
+import { analyticsService } from '../../services/analytics'
+import type { EngagementHeatmapData, HeatmapBucket } from '../../services/analytics'
+import { debug } from '../../utils/debug'
+import { QuestionItemAnalysis } from './QuestionItemAnalysis'
+
+interface EngagementHeatmapProps {
+  videoId: string
+}
+
+// Longer videos are grouped into this many columns so bars stay readable
+const MAX_COLUMNS = 120
+
+interface Column {
+  start: number
+  end: number
+  viewers: number
+  views: number
+  dropOffs: number
+}
+
+const formatTime = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60)
+  return `${minutes}:${Math.floor(seconds % 60).toString().padStart(2, '0')}`
+}
+
+const toColumns = (buckets: HeatmapBucket[]): Column[] => {
+  const size = Math.max(1, Math.ceil(buckets.length / MAX_COLUMNS))
+  const columns: Column[] = []
+  for (let i = 0; i < buckets.length; i += size) {
+    const group = buckets.slice(i, i + size)
+    columns.push({
+      start: group[0].second,
+      end: group[group.length - 1].second + 1,
+      viewers: Math.max(...group.map(bucket => bucket.viewers)),
+      views: Math.max(...group.map(bucket => bucket.views)),
+      dropOffs: group.reduce((sum, bucket) => sum + bucket.dropOffs, 0)
+    })
+  }
+  return columns
+}
+
+// Darker bars where viewers rewatched the same part
+const barColor = (column: Column) => {
+  const rewatch = column.viewers > 0 ? column.views / column.viewers : 0
+  if (rewatch >= 2) return 'bg-blue-700'
+  if (rewatch >= 1.5) return 'bg-blue-500'
+  return 'bg-blue-300'
+}
+
+const accuracyColor = (accuracy: number) => {
+  if (accuracy >= 75) return 'text-green-700'
+  if (accuracy >= 50) return 'text-yellow-700'
+  return 'text-red-700'
+}
+
+export function EngagementHeatmap({ videoId }: EngagementHeatmapProps) {
+  const [heatmap, setHeatmap] = useState<EngagementHeatmapData | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [analysedMilestoneId, setAnalysedMilestoneId] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    setLoading(true)
+    setError(null)
+
+    analyticsService.getEngagementHeatmap(videoId)
+      .then(result => {
+        if (!cancelled) setHeatmap(result)
+      })
+      .catch(err => {
+        debug.error('Failed to load engagement heatmap:', err)
+        if (!cancelled) setError('Failed to load engagement data')
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [videoId])
+
+  const columns = useMemo(() => toColumns(heatmap?.buckets ?? []), [heatmap])
+  const maxDropOffs = Math.max(1, ...columns.map(column => column.dropOffs))
+
+  return (
+    <div className="card">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold text-gray-900">Engagement</h2>
+        {heatmap && (
+          <span className="text-sm text-gray-500">
+            {heatmap.totalViewers} {heatmap.totalViewers === 1 ? 'viewer' : 'viewers'}
+          </span>
+        )}
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <p className="text-sm text-gray-500">Loading engagement data...</p>
+      ) : !heatmap || heatmap.totalViewers === 0 || columns.length === 0 ? (
+        !error && <p className="text-sm text-gray-500">No one has watched this video yet.</p>
+      ) : (
+        <>
+          <div className="relative">
+            {/* Share of viewers who watched each part of the video */}
+            <div className="flex items-end h-32 gap-px border-b border-gray-200">
+              {columns.map(column => (
+                <div
+                  key={column.start}
+                  className="flex-1 h-full flex items-end"
+                  title={`${formatTime(column.start)}–${formatTime(column.end)}: ${column.viewers} viewers, ${column.views} views, ${column.dropOffs} stopped watching`}
+                >
+                  <div
+                    className={`w-full ${barColor(column)}`}
+                    style={{ height: `${(column.viewers / heatmap.totalViewers) * 100}%` }}
+                  />
+                </div>
+              ))}
+            </div>
+
+            {/* Where viewers stopped watching for good */}
+            <div className="flex items-start h-6 gap-px">
+              {columns.map(column => (
+                <div key={column.start} className="flex-1 h-full">
+                  {column.dropOffs > 0 && (
+                    <div
+                      className="w-full bg-red-400"
+                      style={{ height: `${(column.dropOffs / maxDropOffs) * 100}%` }}
+                    />
+                  )}
+                </div>
+              ))}
+            </div>
+
+            {/* Milestone markers */}
+            {heatmap.duration > 0 && heatmap.milestones.map(milestone => (
+              <div
+                key={milestone.id}
+                className="absolute top-0 h-32 border-l-2 border-dashed border-purple-500"
+                style={{ left: `${Math.min(100, (milestone.timestamp / heatmap.duration) * 100)}%` }}
+                title={`${milestone.title} (${formatTime(milestone.timestamp)})`}
+              />
+            ))}
+          </div>
+
+          <div className="flex justify-between mt-1 text-xs text-gray-500">
+            <span>0:00</span>
+            <span>{formatTime(heatmap.duration)}</span>
+          </div>
+
+          <div className="flex flex-wrap gap-4 mt-3 text-xs text-gray-600">
+            <span className="flex items-center"><span className="w-3 h-3 mr-1 bg-blue-300" />Watched</span>
+            <span className="flex items-center"><span className="w-3 h-3 mr-1 bg-blue-700" />Rewatched</span>
+            <span className="flex items-center"><span className="w-3 h-3 mr-1 bg-red-400" />Stopped watching</span>
+            <span className="flex items-center"><span className="w-3 h-3 mr-1 border-l-2 border-dashed border-purple-500" />Milestone</span>
+          </div>
+        </>
+      )}
+
+      {heatmap && heatmap.milestones.length > 0 && (
+        <ul className="mt-4 divide-y divide-gray-100 border rounded-lg">
+          {heatmap.milestones.map(milestone => (
+            <li key={milestone.id} className="px-4 py-2">
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-medium text-gray-900">
+                  {formatTime(milestone.timestamp)} · {milestone.title}
+                </span>
+                {milestone.questions.length > 0 && (
+                  <button
+                    onClick={() => setAnalysedMilestoneId(id => id === milestone.id ? null : milestone.id)}
+                    className="text-sm text-blue-600 hover:text-blue-800"
+                  >
+                    {analysedMilestoneId === milestone.id ? 'Hide item analysis' : 'Item analysis'}
+                  </button>
+                )}
+              </div>
+              {milestone.questions.map(question => (
+                <div key={question.id} className="flex items-center justify-between mt-1 text-sm">
+                  <span className="text-gray-600 truncate mr-4">{question.text}</span>
+                  <span className="whitespace-nowrap text-gray-500">
+                    {question.accuracy === null ? (
+                      'No answers yet'
+                    ) : (
+                      <>
+                        <span className={accuracyColor(question.accuracy)}>{Math.round(question.accuracy)}% correct</span>
+                        {' '}of {question.attempts}
+                      </>
+                    )}
+                  </span>
+                </div>
+              ))}
+              {analysedMilestoneId === milestone.id && <QuestionItemAnalysis milestoneId={milestone.id} />}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -1,6 +1,7 @@
 import React, { useState, useEffect, useRef } from 'react'
-import { milestoneService, videoService } from '../../services/video'
+import { milestoneService } from '../../services/video'
 import type { Video, Milestone } from '../../services/video'
+import { usePlaybackUrls } from '../../hooks/usePlaybackUrls'
 
 interface MilestoneEditorProps {
   video: Video
@@ -11,6 +12,7 @@ interface MilestoneEditorProps {
 
 export function MilestoneEditor({ video, milestone, onMilestoneAdded, onClose }: MilestoneEditorProps) {
   const videoRef = useRef<HTMLVideoElement>(null)
+  const { urls: playbackUrls } = usePlaybackUrls(video.id, videoRef)
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [isVideoLoaded, setIsVideoLoaded] = useState(false)
@@ -198,7 +200,7 @@ export function MilestoneEditor({ video, milestone, onMilestoneAdded, onClose }:
             <div className="bg-black rounded-lg overflow-hidden">
               <video
                 ref={videoRef}
-                src={videoService.getStreamingUrl(video.id)}
+                src={playbackUrls?.streamUrl}
                 className="w-full h-48 object-contain"
                 controls
                 playsInline
@@ -1,7 +1,7 @@
 import React, { useState, useEffect } from 'react'
 import { questionService } from '../../services/video'
 import { debug } from '../../utils/debug'
-import type { Milestone } from '../../services/video'
+import type { Milestone, EditableQuestionType, MatchingPair } from '../../services/video'
 import { useVideoStateManager } from '../../contexts/VideoStateContext'
 import { useVideoState } from '../../hooks/useVideoState'
 
@@ -25,13 +25,17 @@ export function QuestionEditor({ milestone, videoId, onClose, onQuestionsUpdated
   const [previewAnswer, setPreviewAnswer] = useState('')
 
   const [formData, setFormData] = useState({
-    type: 'MULTIPLE_CHOICE' as 'MULTIPLE_CHOICE' | 'TRUE_FALSE' | 'SHORT_ANSWER',
+    type: 'MULTIPLE_CHOICE' as EditableQuestionType,
     question: '',
     explanation: '',
     correctAnswer: '',
-    options: ['', '', '', ''] // For multiple choice
+    options: ['', '', '', ''], // For multiple choice
+    matchingPairs: [{ left: '', right: '' }, { left: '', right: '' }, { left: '', right: '' }], // For matching
+    orderedItems: ['', '', ''] // For ordering, entered in the correct order
   })
 
+  const isStructuredType = formData.type === 'MATCHING' || formData.type === 'ORDERING'
+
   // Load video state if needed when component mounts
   useEffect(() => {
     if (videoId && !allQuestions) {
@@ -46,7 +50,9 @@ export function QuestionEditor({ milestone, videoId, onClose, onQuestionsUpdated
       question: '',
       explanation: '',
       correctAnswer: '',
-      options: ['', '', '', '']
+      options: ['', '', '', ''],
+      matchingPairs: [{ left: '', right: '' }, { left: '', right: '' }, { left: '', right: '' }],
+      orderedItems: ['', '', '']
     })
     setShowAddForm(false)
     setError(null)
@@ -67,6 +73,34 @@ export function QuestionEditor({ milestone, videoId, onClose, onQuestionsUpdated
     }))
   }
 
+  const handleMatchingPairChange = (index: number, side: 'left' | 'right', value: string) => {
+    setFormData(prev => ({
+      ...prev,
+      matchingPairs: prev.matchingPairs.map((pair, i) => i === index ? { ...pair, [side]: value } : pair)
+    }))
+  }
+
+  const handleOrderedItemChange = (index: number, value: string) => {
+    setFormData(prev => ({
+      ...prev,
+      orderedItems: prev.orderedItems.map((item, i) => i === index ? value : item)
+    }))
+  }
+
+  const addListEntry = () => {
+    setFormData(prev => prev.type === 'MATCHING'
+      ? { ...prev, matchingPairs: [...prev.matchingPairs, { left: '', right: '' }] }
+      : { ...prev, orderedItems: [...prev.orderedItems, ''] }
+    )
+  }
+
+  const removeListEntry = (index: number) => {
+    setFormData(prev => prev.type === 'MATCHING'
+      ? { ...prev, matchingPairs: prev.matchingPairs.filter((_, i) => i !== index) }
+      : { ...prev, orderedItems: prev.orderedItems.filter((_, i) => i !== index) }
+    )
+  }
+
   const handleCorrectOptionChange = (optionText: string) => {
     setFormData(prev => ({
       ...prev,
@@ -82,11 +116,30 @@ export function QuestionEditor({ milestone, videoId, onClose, onQuestionsUpdated
       return
     }
 
-    if (!formData.correctAnswer.trim()) {
+    if (!isStructuredType && !formData.correctAnswer.trim()) {
       setError('Correct answer is required')
       return
     }
 
+    const matchingPairs = formData.matchingPairs.filter(pair => pair.left.trim() || pair.right.trim())
+    const orderedItems = formData.orderedItems.filter(item => item.trim())
+
+    if (formData.type === 'MATCHING') {
+      if (matchingPairs.length < 2) {
+        setError('At least 2 pairs are required for matching questions')
+        return
+      }
+      if (matchingPairs.some(pair => !pair.left.trim() || !pair.right.trim())) {
+        setError('Every matching pair needs both sides filled in')
+        return
+      }
+    }
+
+    if (formData.type === 'ORDERING' && orderedItems.length < 2) {
+      setError('At least 2 items are required for ordering questions')
+      return
+    }
+
     // Validate multiple choice
     if (formData.type === 'MULTIPLE_CHOICE') {
       const validOptions = formData.options.filter(opt => opt.trim())
@@ -112,7 +165,9 @@ export function QuestionEditor({ milestone, videoId, onClose, onQuestionsUpdated
         correctAnswer: formData.correctAnswer,
         options: formData.type === 'MULTIPLE_CHOICE' 
           ? formData.options.filter(opt => opt.trim())
-          : undefined
+          : undefined,
+        matchingPairs: formData.type === 'MATCHING' ? matchingPairs : undefined,
+        orderedItems: formData.type === 'ORDERING' ? orderedItems : undefined
       })
 
       // Add question through VideoStateManager - will update all subscribers
@@ -220,9 +275,11 @@ export function QuestionEditor({ milestone, videoId, onClose, onQuestionsUpdated
                               ? 'bg-blue-100 text-blue-700'
                               : question.type === 'TRUE_FALSE'
                               ? 'bg-green-100 text-green-700'
+                              : question.type === 'MATCHING' || question.type === 'ORDERING'
+                              ? 'bg-yellow-100 text-yellow-700'
                               : 'bg-purple-100 text-purple-700'
                           }`}>
-                            {question.type.replace('_', ' ')}
+                            {question.type.replace(/_/g, ' ')}
                           </span>
                         </div>
                       </div>
@@ -258,6 +315,24 @@ export function QuestionEditor({ milestone, videoId, onClose, onQuestionsUpdated
                         </div>
                       )}
                       
+                      {question.type === 'MATCHING' && question.questionData?.correctMatches && (
+                        <div className="space-y-1 mb-2">
+                          {question.questionData.correctMatches.map((match: MatchingPair, matchIndex: number) => (
+                            <div key={matchIndex} className="text-sm text-green-700">
+                              {question.questionData.leftItems?.[match.left]} → {question.questionData.rightItems?.[match.right]}
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                      
+                      {question.type === 'ORDERING' && question.questionData?.correctOrder && (
+                        <ol className="list-decimal list-inside space-y-1 mb-2 text-sm text-green-700">
+                          {question.questionData.correctOrder.map((itemIndex: number) => (
+                            <li key={itemIndex}>{question.questionData.items?.[itemIndex]}</li>
+                          ))}
+                        </ol>
+                      )}
+                      
                       {question.explanation && (
                         <p className="text-sm text-gray-600 italic">
                           Explanation: {question.explanation}
@@ -376,8 +451,40 @@ export function QuestionEditor({ milestone, videoId, onClose, onQuestionsUpdated
                           />
                         )}
                         
+                        {formData.type === 'MATCHING' && (
+                          <div className="space-y-2">
+                            {formData.matchingPairs.filter(pair => pair.left.trim()).map((pair, index) => (
+                              <div key={index} className="flex items-center space-x-2">
+                                <span className="flex-1 text-gray-700">{pair.left}</span>
+                                <select className="w-1/2 px-3 py-2 border border-gray-300 rounded-md">
+                                  <option value="">Select a match...</option>
+                                  {formData.matchingPairs.filter(p => p.right.trim()).map((p, i) => (
+                                    <option key={i} value={i}>{p.right}</option>
+                                  ))}
+                                </select>
+                              </div>
+                            ))}
+                            <p className="text-xs text-gray-500">
+                              Students see the right-hand items shuffled and earn credit for each correct pair.
+                            </p>
+                          </div>
+                        )}
+                        
+                        {formData.type === 'ORDERING' && (
+                          <div className="space-y-2">
+                            <ol className="list-decimal list-inside space-y-1 text-gray-700">
+                              {formData.orderedItems.filter(item => item.trim()).map((item, index) => (
+                                <li key={index}>{item}</li>
+                              ))}
+                            </ol>
+                            <p className="text-xs text-gray-500">
+                              Students see these items shuffled and earn credit for how close their order is.
+                            </p>
+                          </div>
+                        )}
+                        
                         {/* Show feedback */}
-                        {previewAnswer && (
+                        {previewAnswer && !isStructuredType && (
                           <div className={`mt-3 p-3 rounded-md ${
                             previewAnswer === formData.correctAnswer
                               ? 'bg-green-50 border border-green-200'
@@ -442,6 +549,8 @@ export function QuestionEditor({ milestone, videoId, onClose, onQuestionsUpdated
                         <option value="MULTIPLE_CHOICE">Multiple Choice</option>
                         <option value="TRUE_FALSE">True/False</option>
                         <option value="SHORT_ANSWER">Short Answer</option>
+                        <option value="MATCHING">Matching</option>
+                        <option value="ORDERING">Ordering</option>
                       </select>
                     </div>
 
@@ -496,8 +605,85 @@ export function QuestionEditor({ milestone, videoId, onClose, onQuestionsUpdated
                       </div>
                     )}
 
+                    {/* Pairs for Matching */}
+                    {formData.type === 'MATCHING' && (
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-2">
+                          Matching Pairs *
+                        </label>
+                        <div className="space-y-2">
+                          {formData.matchingPairs.map((pair, index) => (
+                            <div key={index} className="flex items-center space-x-2">
+                              <input
+                                type="text"
+                                value={pair.left}
+                                onChange={(e) => handleMatchingPairChange(index, 'left', e.target.value)}
+                                placeholder={`Item ${index + 1}`}
+                                className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                              />
+                              <span className="text-gray-400">→</span>
+                              <input
+                                type="text"
+                                value={pair.right}
+                                onChange={(e) => handleMatchingPairChange(index, 'right', e.target.value)}
+                                placeholder={`Match ${index + 1}`}
+                                className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                              />
+                              <button
+                                type="button"
+                                onClick={() => removeListEntry(index)}
+                                disabled={formData.matchingPairs.length <= 2}
+                                className="text-gray-400 hover:text-red-600 disabled:opacity-30"
+                                aria-label="Remove pair"
+                              >
+                                ✕
+                              </button>
+                            </div>
+                          ))}
+                        </div>
+                        <button type="button" onClick={addListEntry} className="mt-2 text-sm text-blue-600 hover:text-blue-800">
+                          + Add pair
+                        </button>
+                      </div>
+                    )}
+
+                    {/* Items for Ordering */}
+                    {formData.type === 'ORDERING' && (
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-2">
+                          Items in Correct Order *
+                        </label>
+                        <div className="space-y-2">
+                          {formData.orderedItems.map((item, index) => (
+                            <div key={index} className="flex items-center space-x-2">
+                              <span className="w-6 text-sm text-gray-500">{index + 1}.</span>
+                              <input
+                                type="text"
+                                value={item}
+                                onChange={(e) => handleOrderedItemChange(index, e.target.value)}
+                                placeholder={`Step ${index + 1}`}
+                                className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                              />
+                              <button
+                                type="button"
+                                onClick={() => removeListEntry(index)}
+                                disabled={formData.orderedItems.length <= 2}
+                                className="text-gray-400 hover:text-red-600 disabled:opacity-30"
+                                aria-label="Remove item"
+                              >
+                                ✕
+                              </button>
+                            </div>
+                          ))}
+                        </div>
+                        <button type="button" onClick={addListEntry} className="mt-2 text-sm text-blue-600 hover:text-blue-800">
+                          + Add item
+                        </button>
+                      </div>
+                    )}
+
                     {/* Correct Answer for True/False and Short Answer */}
-                    {formData.type !== 'MULTIPLE_CHOICE' && (
+                    {!isStructuredType && formData.type !== 'MULTIPLE_CHOICE' && (
                       <div>
                         <label htmlFor="correctAnswer" className="block text-sm font-medium text-gray-700 mb-1">
                           Correct Answer *
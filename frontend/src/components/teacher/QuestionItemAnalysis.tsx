@@ -0,0 +1,134 @@
+import { useEffect, useState } from 'react'
+import { analyticsService } from '../../services/analytics'
+import type { QuestionPerformanceData } from '../../services/analytics'
+import { debug } from '../../utils/debug'
+
+interface QuestionItemAnalysisProps {
+  milestoneId: string
+}
+
+const formatShare = (value: number | null) => value === null ? '—' : `${Math.round(value * 100)}%`
+
+// Conventional reading of the discrimination index
+const discriminationLabel = (value: number | null) => {
+  if (value === null) return 'Not enough students'
+  if (value >= 0.4) return 'Very good'
+  if (value >= 0.2) return 'Acceptable'
+  if (value >= 0) return 'Poor'
+  return 'Negative, review the key'
+}
+
+export function QuestionItemAnalysis({ milestoneId }: QuestionItemAnalysisProps) {
+  const [report, setReport] = useState<QuestionPerformanceData | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [exporting, setExporting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    setLoading(true)
+    setError(null)
+
+    analyticsService.getQuestionPerformance(milestoneId)
+      .then(result => {
+        if (!cancelled) setReport(result)
+      })
+      .catch(err => {
+        debug.error('Failed to load item analysis:', err)
+        if (!cancelled) setError('Failed to load item analysis')
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [milestoneId])
+
+  const handleExport = async () => {
+    setExporting(true)
+    setError(null)
+    try {
+      const csv = await analyticsService.exportQuestionPerformance(milestoneId)
+      const url = URL.createObjectURL(csv)
+      const link = document.createElement('a')
+      link.href = url
+      link.download = `item-analysis-${milestoneId}.csv`
+      link.click()
+      URL.revokeObjectURL(url)
+    } catch (err) {
+      setError((err as { message?: string }).message || 'Failed to export item analysis')
+    } finally {
+      setExporting(false)
+    }
+  }
+
+  if (loading) {
+    return <p className="mt-2 text-sm text-gray-500">Loading item analysis...</p>
+  }
+
+  return (
+    <div className="mt-3 space-y-3">
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      {report?.questions.map(item => (
+        <div key={item.questionId} className="p-3 bg-gray-50 rounded-md text-sm">
+          <div className="font-medium text-gray-900 mb-2">{item.text}</div>
+          <dl className="grid grid-cols-2 sm:grid-cols-4 gap-2 text-xs">
+            <div>
+              <dt className="text-gray-500">Difficulty</dt>
+              <dd className="text-gray-900">{formatShare(item.difficultyIndex)} correct first time</dd>
+            </div>
+            <div>
+              <dt className="text-gray-500">Discrimination</dt>
+              <dd className="text-gray-900">
+                {item.discriminationIndex === null ? '' : `${item.discriminationIndex.toFixed(2)} · `}
+                {discriminationLabel(item.discriminationIndex)}
+              </dd>
+            </div>
+            <div>
+              <dt className="text-gray-500">Median time</dt>
+              <dd className="text-gray-900">{item.medianTimeSpent === null ? '—' : `${item.medianTimeSpent}s`}</dd>
+            </div>
+            <div>
+              <dt className="text-gray-500">Hints</dt>
+              <dd className="text-gray-900">{formatShare(item.hintUsageRate)} of attempts</dd>
+            </div>
+          </dl>
+
+          {item.distractors && (
+            <ul className="mt-2 space-y-1">
+              {item.distractors.map(option => (
+                <li key={option.index} className="flex items-center text-xs">
+                  <span className={`w-40 truncate mr-2 ${option.isCorrect ? 'font-medium text-green-700' : 'text-gray-600'}`}>
+                    {option.text}
+                  </span>
+                  <div className="flex-1 h-2 bg-gray-200 rounded">
+                    <div
+                      className={`h-2 rounded ${option.isCorrect ? 'bg-green-500' : 'bg-gray-400'}`}
+                      style={{ width: `${option.rate * 100}%` }}
+                    />
+                  </div>
+                  <span className="w-10 text-right text-gray-500">{formatShare(option.rate)}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="mt-2 text-xs text-gray-500">
+            {item.students} students, {item.totalAttempts} attempts
+          </div>
+        </div>
+      ))}
+
+      <button onClick={handleExport} disabled={exporting} className="btn-secondary disabled:opacity-50">
+        {exporting ? 'Exporting...' : 'Export CSV'}
+      </button>
+    </div>
+  )
+}
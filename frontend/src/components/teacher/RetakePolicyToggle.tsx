@@ -0,0 +1,48 @@
+import { useState } from 'react'
+import { lessonService } from '../../services/lesson'
+import { debug } from '../../utils/debug'
+
+interface RetakePolicyToggleProps {
+  lessonId: string
+  allowRetakes: boolean
+  onSaved: () => void
+}
+
+export function RetakePolicyToggle({ lessonId, allowRetakes, onSaved }: RetakePolicyToggleProps) {
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleChange = async (value: boolean) => {
+    setSaving(true)
+    setError(null)
+    try {
+      await lessonService.updateLesson(lessonId, { allowRetakes: value })
+      onSaved()
+    } catch (err) {
+      debug.error('Failed to update retake policy:', err)
+      setError((err as { message?: string }).message || 'Failed to update retake policy')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div>
+      <label className="flex items-center space-x-2 text-sm font-medium text-gray-700">
+        <input
+          type="checkbox"
+          checked={allowRetakes}
+          disabled={saving}
+          onChange={e => handleChange(e.target.checked)}
+        />
+        <span>Allow retakes</span>
+      </label>
+      <p className="text-xs text-gray-500 mt-1">
+        {allowRetakes
+          ? 'Students may watch a completed video again as a new attempt. Earlier attempts stay in their history.'
+          : 'Each student watches every video once; a completed video cannot be started again.'}
+      </p>
+      {error && <p className="text-sm text-red-600 mt-1">{error}</p>}
+    </div>
+  )
+}
@@ -0,0 +1,70 @@
+import { useState } from 'react'
+import { videoService } from '../../services/video'
+import type { SeekPolicy } from '../../services/video'
+import { debug } from '../../utils/debug'
+
+interface SeekPolicySelectorProps {
+  videoId: string
+  seekPolicy: SeekPolicy
+  onSaved: () => void
+}
+
+const SEEK_POLICY_OPTIONS: { value: SeekPolicy, label: string, description: string }[] = [
+  {
+    value: 'FREE',
+    label: 'Free seek',
+    description: 'Students may jump anywhere, but not past a required milestone they have not answered.'
+  },
+  {
+    value: 'WATCHED_RANGE',
+    label: 'Seek within watched range',
+    description: 'Students may rewind and jump back to anywhere they have already watched.'
+  },
+  {
+    value: 'NO_SEEK_AHEAD',
+    label: 'No seeking ahead',
+    description: 'Students may only rewind; the video must be watched from start to finish.'
+  }
+]
+
+export function SeekPolicySelector({ videoId, seekPolicy, onSaved }: SeekPolicySelectorProps) {
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleChange = async (value: SeekPolicy) => {
+    setSaving(true)
+    setError(null)
+    try {
+      await videoService.updateVideo(videoId, { seekPolicy: value })
+      onSaved()
+    } catch (err) {
+      debug.error('Failed to update seek policy:', err)
+      setError((err as { message?: string }).message || 'Failed to update seek policy')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const selected = SEEK_POLICY_OPTIONS.find(option => option.value === seekPolicy)
+
+  return (
+    <div>
+      <label htmlFor={`seek-policy-${videoId}`} className="block text-sm font-medium text-gray-700 mb-1">
+        Seeking
+      </label>
+      <select
+        id={`seek-policy-${videoId}`}
+        className="input-field"
+        value={seekPolicy}
+        disabled={saving}
+        onChange={e => handleChange(e.target.value as SeekPolicy)}
+      >
+        {SEEK_POLICY_OPTIONS.map(option => (
+          <option key={option.value} value={option.value}>{option.label}</option>
+        ))}
+      </select>
+      {selected && <p className="text-xs text-gray-500 mt-1">{selected.description}</p>}
+      {error && <p className="text-sm text-red-600 mt-1">{error}</p>}
+    </div>
+  )
+}
@@ -0,0 +1,166 @@
+import { useEffect, useState } from 'react'
+import type { FormEvent } from 'react'
+import { captionService } from '../../services/video'
+import type { VideoCaption } from '../../services/video'
+import { debug } from '../../utils/debug'
+
+interface VideoCaptionsManagerProps {
+  videoId: string
+}
+
+const LANGUAGE_PATTERN = /^[a-z]{2,3}(-[A-Za-z0-9]{2,8})*$/
+
+export function VideoCaptionsManager({ videoId }: VideoCaptionsManagerProps) {
+  const [captions, setCaptions] = useState<VideoCaption[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [language, setLanguage] = useState('en')
+  const [label, setLabel] = useState('English')
+  const [file, setFile] = useState<File | null>(null)
+  const [fileInputKey, setFileInputKey] = useState(0)
+
+  useEffect(() => {
+    let cancelled = false
+    setLoading(true)
+    setError(null)
+
+    captionService.getCaptions(videoId)
+      .then(result => {
+        if (!cancelled) setCaptions(result.captions)
+      })
+      .catch(err => {
+        debug.error('Failed to load captions:', err)
+        if (!cancelled) setError('Failed to load captions')
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [videoId])
+
+  const handleUpload = async (e: FormEvent) => {
+    e.preventDefault()
+    if (!file) return
+
+    if (!LANGUAGE_PATTERN.test(language)) {
+      setError('Language must be a code such as "en" or "pt-BR"')
+      return
+    }
+
+    setSaving(true)
+    setError(null)
+    try {
+      const saved = await captionService.uploadCaption(videoId, language, label.trim(), file)
+      setCaptions(prev => [...prev.filter(caption => caption.language !== saved.language), saved]
+        .sort((a, b) => a.language.localeCompare(b.language)))
+      setFile(null)
+      setFileInputKey(key => key + 1)
+    } catch (err) {
+      setError((err as { message?: string }).message || 'Failed to upload caption')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async (captionLanguage: string) => {
+    if (!confirm('Delete this caption track?')) return
+
+    setError(null)
+    try {
+      await captionService.deleteCaption(videoId, captionLanguage)
+      setCaptions(prev => prev.filter(caption => caption.language !== captionLanguage))
+    } catch (err) {
+      setError((err as { message?: string }).message || 'Failed to delete caption')
+    }
+  }
+
+  return (
+    <div className="card">
+      <h2 className="text-lg font-semibold text-gray-900 mb-4">Captions</h2>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <p className="text-sm text-gray-500">Loading captions...</p>
+      ) : captions.length > 0 ? (
+        <ul className="mb-4 divide-y divide-gray-100 border rounded-lg">
+          {captions.map(caption => (
+            <li key={caption.language} className="flex items-center justify-between px-4 py-2">
+              <div>
+                <span className="font-medium text-gray-900">{caption.label}</span>
+                <span className="ml-2 text-xs text-gray-500">{caption.language}</span>
+              </div>
+              <button
+                onClick={() => handleDelete(caption.language)}
+                className="text-sm text-red-600 hover:text-red-800"
+              >
+                Delete
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="mb-4 text-sm text-gray-500">No caption tracks yet.</p>
+      )}
+
+      <form onSubmit={handleUpload} className="space-y-3">
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label htmlFor="caption-language" className="block text-sm font-medium text-gray-700 mb-1">
+              Language code
+            </label>
+            <input
+              id="caption-language"
+              type="text"
+              value={language}
+              onChange={(e) => setLanguage(e.target.value)}
+              className="input-field"
+              placeholder="en"
+              required
+            />
+          </div>
+          <div>
+            <label htmlFor="caption-label" className="block text-sm font-medium text-gray-700 mb-1">
+              Label
+            </label>
+            <input
+              id="caption-label"
+              type="text"
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+              className="input-field"
+              placeholder="English"
+              maxLength={100}
+              required
+            />
+          </div>
+        </div>
+
+        <div>
+          <input
+            key={fileInputKey}
+            type="file"
+            accept=".vtt,.srt"
+            onChange={(e) => setFile(e.target.files?.[0] || null)}
+            className="block w-full text-sm text-gray-600"
+          />
+          <p className="mt-1 text-xs text-gray-500">
+            WebVTT or SRT, up to 2MB. Uploading a language that already exists replaces it.
+          </p>
+        </div>
+
+        <button type="submit" disabled={!file || saving} className="btn-primary disabled:opacity-50">
+          {saving ? 'Uploading...' : 'Upload Captions'}
+        </button>
+      </form>
+    </div>
+  )
+}
@@ -1,7 +1,15 @@
-import React, { useState, useRef, useCallback } from 'react'
-import { videoService } from '../../services/video'
+import React, { useState, useRef, useCallback, useEffect } from 'react'
+import { resumableUploadService } from '../../services/resumableUpload'
+import { configService } from '../../services/config'
+import type { PendingUpload, UploadPhase } from '../../services/resumableUpload'
 import type { Video } from '../../services/video'
 
+// Large files are sent in resumable chunks; admins can lower this limit
+const DEFAULT_MAX_FILE_SIZE_MB = 5 * 1024 // 5GB
+
+const formatSizeLimit = (megabytes: number) =>
+  megabytes >= 1024 && megabytes % 1024 === 0 ? `${megabytes / 1024}GB` : `${megabytes}MB`
+
 interface VideoUploadFormProps {
   groupId: string
   onVideoUploaded: (video: Video) => void
@@ -14,6 +22,7 @@ interface UploadState {
   description: string
   uploading: boolean
   progress: number
+  phase: UploadPhase | null
   error: string | null
   processing: boolean
 }
@@ -21,36 +30,65 @@ interface UploadState {
 export function VideoUploadForm({ groupId, onVideoUploaded, onClose }: VideoUploadFormProps) {
   const fileInputRef = useRef<HTMLInputElement>(null)
   const [dragActive, setDragActive] = useState(false)
+  const [maxFileSizeMb, setMaxFileSizeMb] = useState(DEFAULT_MAX_FILE_SIZE_MB)
+  const [pendingUploads, setPendingUploads] = useState<PendingUpload[]>(
+    () => resumableUploadService.listPendingUploads(groupId)
+  )
   const [uploadState, setUploadState] = useState<UploadState>({
     file: null,
     title: '',
     description: '',
     uploading: false,
     progress: 0,
+    phase: null,
     error: null,
     processing: false
   })
 
-  const handleFile = (file: File) => {
+  // Only one file is chosen at a time, so the matching pending upload is the one to resume
+  const resumable = uploadState.file
+    ? resumableUploadService.findPendingUpload(groupId, uploadState.file)
+    : null
+
+  useEffect(() => {
+    configService.getPublicConfig()
+      .then(config => {
+        if (typeof config['video.maxFileSizeMb'] === 'number') {
+          setMaxFileSizeMb(config['video.maxFileSizeMb'])
+        }
+      })
+      .catch(() => {
+        // Keep the default; the server still enforces the real limit
+      })
+  }, [])
+
+  const handleFile = useCallback((file: File) => {
     // Validate file type
     if (!file.type.startsWith('video/')) {
       setUploadState(prev => ({ ...prev, error: 'Please select a valid video file' }))
       return
     }
 
-    // Validate file size (100MB limit)
-    const maxSize = 100 * 1024 * 1024 // 100MB
-    if (file.size > maxSize) {
-      setUploadState(prev => ({ ...prev, error: 'File size must be less than 100MB' }))
+    // Validate file size; the server checks it again when the upload starts
+    if (file.size === 0 || file.size > maxFileSizeMb * 1024 * 1024) {
+      setUploadState(prev => ({ ...prev, error: `File size must be between 1 byte and ${formatSizeLimit(maxFileSizeMb)}` }))
       return
     }
 
+    const pending = resumableUploadService.findPendingUpload(groupId, file)
+
     setUploadState(prev => ({
       ...prev,
       file,
-      title: prev.title || file.name.replace(/\.[^/.]+$/, ''), // Use filename as default title
+      // Resuming keeps the title the upload was started with
+      title: pending?.title || prev.title || file.name.replace(/\.[^/.]+$/, ''), // Use filename as default title
       error: null
     }))
+  }, [groupId, maxFileSizeMb])
+
+  const handleDiscardPending = async (upload: PendingUpload) => {
+    await resumableUploadService.discardPendingUpload(upload)
+    setPendingUploads(resumableUploadService.listPendingUploads(groupId))
   }
 
   const handleDrag = useCallback((e: React.DragEvent) => {
@@ -72,7 +110,7 @@ export function VideoUploadForm({ groupId, onVideoUploaded, onClose }: VideoUplo
     if (files && files.length > 0) {
       handleFile(files[0])
     }
-  }, [])
+  }, [handleFile])
 
   const handleFileInput = (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = e.target.files
@@ -92,15 +130,16 @@ export function VideoUploadForm({ groupId, onVideoUploaded, onClose }: VideoUplo
     setUploadState(prev => ({ ...prev, uploading: true, progress: 0, error: null }))
 
     try {
-      const video = await videoService.uploadVideoFile(
+      const video = await resumableUploadService.upload(
         groupId,
         uploadState.file,
         {
           title: uploadState.title.trim(),
           description: uploadState.description.trim() || undefined
         },
-        (progress) => {
-          setUploadState(prev => ({ ...prev, progress }))
+        {
+          onPhase: (phase) => setUploadState(prev => ({ ...prev, phase, progress: 0 })),
+          onProgress: (progress) => setUploadState(prev => ({ ...prev, progress }))
         }
       )
 
@@ -108,14 +147,20 @@ export function VideoUploadForm({ groupId, onVideoUploaded, onClose }: VideoUplo
       onVideoUploaded(video)
     } catch (error) {
       console.error('Upload failed:', error)
-      const message = error instanceof Error ? error.message : 'Failed to upload video'
+      const failure = error as { message?: string, data?: { code?: string } }
+      const message = failure?.data?.code === 'CHECKSUM_MISMATCH'
+        ? 'The uploaded file was corrupted in transit. Please upload it again.'
+        : failure?.message || 'Failed to upload video'
       setUploadState(prev => ({
         ...prev,
         uploading: false,
         processing: false,
         progress: 0,
+        phase: null,
         error: message
       }))
+      // A failed upload may still be resumable next time
+      setPendingUploads(resumableUploadService.listPendingUploads(groupId))
     }
   }
 
@@ -172,6 +217,30 @@ export function VideoUploadForm({ groupId, onVideoUploaded, onClose }: VideoUplo
             </div>
           )}
 
+          {/* Unfinished uploads from an earlier visit */}
+          {!uploadState.uploading && pendingUploads.length > 0 && (
+            <div className="bg-yellow-50 border border-yellow-200 rounded-md p-4 mb-6">
+              <h3 className="text-sm font-medium text-yellow-800 mb-2">Unfinished uploads</h3>
+              <p className="text-sm text-yellow-700 mb-3">Select the same file again to resume where it stopped.</p>
+              <ul className="space-y-2">
+                {pendingUploads.map(upload => (
+                  <li key={upload.videoId} className="flex items-center justify-between text-sm">
+                    <span className="text-yellow-900">
+                      {upload.title} · {upload.fileName} ({Math.round(upload.uploadedBytes * 100 / upload.size)}%)
+                    </span>
+                    <button
+                      type="button"
+                      onClick={() => handleDiscardPending(upload)}
+                      className="text-red-600 hover:text-red-800"
+                    >
+                      Discard
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
           <form onSubmit={handleSubmit} className="space-y-6">
             {/* File Upload Area */}
             {!uploadState.file ? (
@@ -210,7 +279,7 @@ export function VideoUploadForm({ groupId, onVideoUploaded, onClose }: VideoUplo
                   </div>
                   <div className="text-xs text-gray-400 space-y-1">
                     <p>Supported formats: MP4, WebM, MOV, AVI</p>
-                    <p>Maximum file size: 100MB</p>
+                    <p>Maximum file size: {formatSizeLimit(maxFileSizeMb)}</p>
                   </div>
                 </div>
               </div>
@@ -226,7 +295,10 @@ export function VideoUploadForm({ groupId, onVideoUploaded, onClose }: VideoUplo
                     </div>
                     <div>
                       <p className="font-medium text-gray-900">{uploadState.file.name}</p>
-                      <p className="text-sm text-gray-500">{formatFileSize(uploadState.file.size)}</p>
+                      <p className="text-sm text-gray-500">
+                        {formatFileSize(uploadState.file.size)}
+                        {resumable && ` · resumes at ${Math.round(resumable.uploadedBytes * 100 / resumable.size)}%`}
+                      </p>
                     </div>
                   </div>
                   {!uploadState.uploading && (
@@ -249,7 +321,11 @@ export function VideoUploadForm({ groupId, onVideoUploaded, onClose }: VideoUplo
               <div className="space-y-2">
                 <div className="flex justify-between text-sm">
                   <span className="text-gray-600">
-                    {uploadState.processing ? 'Processing video...' : `Uploading... ${uploadState.progress}%`}
+                    {uploadState.processing
+                      ? 'Processing video...'
+                      : uploadState.phase === 'hashing'
+                        ? 'Preparing upload...'
+                        : `Uploading... ${uploadState.progress}%`}
                   </span>
                   <span className="text-gray-500">
                     {uploadState.processing ? 'Please wait' : `${uploadState.progress}%`}
@@ -333,7 +409,7 @@ export function VideoUploadForm({ groupId, onVideoUploaded, onClose }: VideoUplo
               <h3 className="text-sm font-medium text-blue-800 mb-2">Upload Tips</h3>
               <ul className="text-sm text-blue-700 space-y-1">
                 <li>• Use MP4 format for best compatibility</li>
-                <li>• Keep file size under 100MB for faster uploads</li>
+                <li>• Large uploads resume automatically if your connection drops</li>
                 <li>• Choose descriptive titles for easy organization</li>
                 <li>• After upload, you can add interactive milestones</li>
               </ul>
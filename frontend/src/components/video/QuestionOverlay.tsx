@@ -1,67 +1,179 @@
-import { useState } from 'react'
-import type { Milestone } from '../../services/video'
+import { useEffect, useState } from 'react'
+import type { Milestone, MatchingPair, QuestionAnswerValue, HintReveal } from '../../services/video'
 import { debug } from '../../utils/debug'
 
+export interface AnswerResult {
+  isCorrect: boolean
+  explanation?: string
+  score?: number
+  attemptNumber?: number
+  remainingAttempts?: number
+  timedOut?: boolean
+  pending?: boolean // Saved while offline; graded once it reaches the server
+}
+
 interface QuestionOverlayProps {
   milestone: Milestone
-  onAnswerSubmit: (questionId: string, answer: string) => Promise<{ isCorrect: boolean; explanation?: string }>
+  onAnswerSubmit: (questionId: string, answer: QuestionAnswerValue) => Promise<AnswerResult>
+  onHintRequest?: (questionId: string) => Promise<HintReveal>
   onComplete: () => void
+  onQuestionShown?: (questionId: string) => void
 }
 
 export function QuestionOverlay({
   milestone,
   onAnswerSubmit,
-  onComplete
+  onHintRequest,
+  onComplete,
+  onQuestionShown
 }: QuestionOverlayProps) {
   const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0)
   const [selectedAnswer, setSelectedAnswer] = useState('')
   const [selectedAnswerText, setSelectedAnswerText] = useState('') // For display purposes
   const [isSubmitting, setIsSubmitting] = useState(false)
+  const [matchingSelections, setMatchingSelections] = useState<Record<number, number>>({})
+  const [orderingSelection, setOrderingSelection] = useState<number[] | null>(null)
   const [feedback, setFeedback] = useState<{
     isCorrect: boolean
     explanation?: string
+    score?: number
+    remainingAttempts?: number
+    timedOut?: boolean
+    limitReached?: boolean
+    pending?: boolean
     shown: boolean
   } | null>(null)
   const [completedQuestions, setCompletedQuestions] = useState<Set<number>>(new Set())
   const [showCorrectAnswer, setShowCorrectAnswer] = useState(false)
+  const [attemptStartedAt, setAttemptStartedAt] = useState(() => Date.now())
+  const [now, setNow] = useState(() => Date.now())
+  const [revealedHints, setRevealedHints] = useState<string[]>([])
+  const [isRevealingHint, setIsRevealingHint] = useState(false)
   
   const questions = milestone.questions || []
   const currentQuestion = questions[currentQuestionIndex]
+  const timeLimit = currentQuestion?.timeLimit ?? null
+
+  useEffect(() => {
+    if (currentQuestion) onQuestionShown?.(currentQuestion.id)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [currentQuestion?.id])
+
+  // Tick once a second while a timed question is being answered
+  useEffect(() => {
+    if (!timeLimit || feedback?.shown) return
+    const interval = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(interval)
+  }, [timeLimit, feedback?.shown, attemptStartedAt])
 
   if (!currentQuestion) {
     return null
   }
 
+  const matchingLeftItems: string[] = currentQuestion.questionData?.leftItems || []
+  const matchingRightItems: string[] = currentQuestion.questionData?.rightItems || []
+  const orderingItems: string[] = currentQuestion.questionData?.items || []
+  const currentOrder = orderingSelection || orderingItems.map((_, index) => index)
+
+  // Build the answer payload for the current question type, or null if incomplete
+  const buildAnswer = (): QuestionAnswerValue | null => {
+    switch (currentQuestion.type) {
+      case 'MATCHING':
+        return Object.keys(matchingSelections).length === matchingLeftItems.length
+          ? Object.entries(matchingSelections).map(([left, right]): MatchingPair => ({ left: Number(left), right }))
+          : null
+      case 'ORDERING':
+        return currentOrder.length > 0 ? currentOrder : null
+      default:
+        return selectedAnswer.trim() ? selectedAnswer : null
+    }
+  }
+
+  const canSubmit = buildAnswer() !== null && !isSubmitting
+  const secondsLeft = timeLimit
+    ? Math.max(0, timeLimit - Math.floor((now - attemptStartedAt) / 1000))
+    : null
+  const canRetry = !!feedback?.shown && !feedback.isCorrect && (feedback.remainingAttempts ?? 0) > 0
+  const totalHints = currentQuestion.hints?.length ?? 0
+  const hintPenaltyPercent = Math.round((currentQuestion.hintPenalty ?? 0) * 100)
+  const canRevealHint = !!onHintRequest && !feedback?.shown && !isRevealingHint && revealedHints.length < totalHints
+
   const handleSubmitAnswer = async () => {
-    if (!selectedAnswer.trim() || isSubmitting) return
+    const answer = buildAnswer()
+    if (answer === null || isSubmitting) return
 
     setIsSubmitting(true)
     try {
-      const result = await onAnswerSubmit(currentQuestion.id, selectedAnswer)
+      const result = await onAnswerSubmit(currentQuestion.id, answer)
       setFeedback({
         isCorrect: result.isCorrect,
         explanation: result.explanation,
+        score: result.score,
+        remainingAttempts: result.remainingAttempts,
+        timedOut: result.timedOut,
+        pending: result.pending,
         shown: true
       })
       setCompletedQuestions(prev => new Set(prev).add(currentQuestionIndex))
     } catch (error) {
       debug.error('Failed to submit answer:', error)
+      if ((error as { data?: { code?: string } })?.data?.code === 'ATTEMPT_LIMIT_REACHED') {
+        setFeedback({
+          isCorrect: false,
+          remainingAttempts: 0,
+          limitReached: true,
+          shown: true
+        })
+        setCompletedQuestions(prev => new Set(prev).add(currentQuestionIndex))
+      }
     } finally {
       setIsSubmitting(false)
     }
   }
 
+  const handleRevealHint = async () => {
+    if (!onHintRequest || !canRevealHint) return
+
+    setIsRevealingHint(true)
+    try {
+      const result = await onHintRequest(currentQuestion.id)
+      setRevealedHints(prev => [...prev, result.hint])
+    } catch (error) {
+      debug.error('Failed to reveal hint:', error)
+    } finally {
+      setIsRevealingHint(false)
+    }
+  }
+
   const handleNext = () => {
     if (currentQuestionIndex < questions.length - 1) {
       setCurrentQuestionIndex(prev => prev + 1)
       setSelectedAnswer('')
       setSelectedAnswerText('')
+      setMatchingSelections({})
+      setOrderingSelection(null)
       setFeedback(null)
+      setShowCorrectAnswer(false)
+      setRevealedHints([])
+      setAttemptStartedAt(Date.now())
+      setNow(Date.now())
     } else {
       onComplete()
     }
   }
 
+  const handleTryAgain = () => {
+    setSelectedAnswer('')
+    setSelectedAnswerText('')
+    setMatchingSelections({})
+    setOrderingSelection(null)
+    setFeedback(null)
+    setShowCorrectAnswer(false)
+    setRevealedHints([])
+    setAttemptStartedAt(Date.now())
+    setNow(Date.now())
+  }
+
   const handleOptionSelect = (option: string, index?: number) => {
     if (feedback?.shown) return
     // For multiple choice, store both the option text and index
@@ -74,6 +186,28 @@ export function QuestionOverlay({
     }
   }
 
+  const handleMatchSelect = (leftIndex: number, value: string) => {
+    if (feedback?.shown) return
+    setMatchingSelections(prev => {
+      const next = { ...prev }
+      if (value === '') {
+        delete next[leftIndex]
+      } else {
+        next[leftIndex] = Number(value)
+      }
+      return next
+    })
+  }
+
+  const handleMoveItem = (position: number, direction: -1 | 1) => {
+    if (feedback?.shown) return
+    const target = position + direction
+    if (target < 0 || target >= currentOrder.length) return
+    const next = [...currentOrder]
+    ;[next[position], next[target]] = [next[target], next[position]]
+    setOrderingSelection(next)
+  }
+
   const renderQuestionContent = () => {
     switch (currentQuestion.type) {
       case 'MULTIPLE_CHOICE': {
@@ -197,11 +331,119 @@ export function QuestionOverlay({
           </div>
         )
 
+      case 'MATCHING': {
+        const correctMatches: MatchingPair[] = currentQuestion.questionData?.correctMatches || []
+
+        return (
+          <div className="space-y-3">
+            {matchingLeftItems.map((leftItem, leftIndex) => {
+              const selected = matchingSelections[leftIndex]
+              const expected = correctMatches.find(match => match.left === leftIndex)?.right
+              const isPairCorrect = selected !== undefined && selected === expected
+
+              return (
+                <div
+                  key={leftIndex}
+                  className={`flex items-center p-3 rounded-lg border-2 ${
+                    feedback?.shown
+                      ? isPairCorrect
+                        ? 'border-green-500 bg-green-50'
+                        : 'border-red-500 bg-red-50'
+                      : 'border-gray-300'
+                  }`}
+                >
+                  <span className="flex-1 text-gray-800">{leftItem}</span>
+                  <select
+                    value={selected ?? ''}
+                    onChange={(e) => handleMatchSelect(leftIndex, e.target.value)}
+                    disabled={feedback?.shown}
+                    className="ml-3 w-1/2 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="">Select a match...</option>
+                    {matchingRightItems.map((rightItem, rightIndex) => (
+                      <option key={rightIndex} value={rightIndex}>
+                        {rightItem}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )
+            })}
+          </div>
+        )
+      }
+
+      case 'ORDERING': {
+        const correctOrder: number[] = currentQuestion.questionData?.correctOrder || []
+
+        return (
+          <ol className="space-y-2">
+            {currentOrder.map((itemIndex, position) => (
+              <li
+                key={itemIndex}
+                className={`flex items-center p-3 rounded-lg border-2 ${
+                  feedback?.shown
+                    ? correctOrder[position] === itemIndex
+                      ? 'border-green-500 bg-green-50'
+                      : 'border-red-500 bg-red-50'
+                    : 'border-gray-300'
+                }`}
+              >
+                <span className="w-6 text-sm font-medium text-gray-500">{position + 1}.</span>
+                <span className="flex-1 text-gray-800">{orderingItems[itemIndex]}</span>
+                {!feedback?.shown && (
+                  <div className="flex space-x-1">
+                    <button
+                      type="button"
+                      onClick={() => handleMoveItem(position, -1)}
+                      disabled={position === 0}
+                      aria-label="Move up"
+                      className="px-2 py-1 text-gray-600 rounded hover:bg-gray-100 disabled:opacity-30"
+                    >
+                      ↑
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleMoveItem(position, 1)}
+                      disabled={position === currentOrder.length - 1}
+                      aria-label="Move down"
+                      className="px-2 py-1 text-gray-600 rounded hover:bg-gray-100 disabled:opacity-30"
+                    >
+                      ↓
+                    </button>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ol>
+        )
+      }
+
       default:
         return null
     }
   }
 
+  const renderCorrectAnswer = () => {
+    const questionData = currentQuestion.questionData
+    switch (currentQuestion.type) {
+      case 'MULTIPLE_CHOICE':
+        return questionData?.options?.[questionData?.correctAnswerIndex]
+      case 'TRUE_FALSE':
+        return questionData?.correctAnswer ? 'True' : 'False'
+      case 'MATCHING':
+        return (questionData?.correctMatches || [])
+          .map((match: MatchingPair) => `${matchingLeftItems[match.left]} → ${matchingRightItems[match.right]}`)
+          .join('; ')
+      case 'ORDERING':
+        return (questionData?.correctOrder || [])
+          .map((itemIndex: number) => orderingItems[itemIndex])
+          .join(' → ')
+      default:
+        return questionData?.correctAnswers?.[0] || 'N/A'
+    }
+  }
+
   return (
     <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-[100]">
       <div className="bg-white rounded-lg max-w-2xl w-full mx-4 max-h-[90vh] overflow-y-auto">
@@ -212,8 +454,18 @@ export function QuestionOverlay({
               <h2 className="text-xl font-bold text-gray-900">{milestone.title}</h2>
               <p className="text-sm text-gray-600 mt-1">
                 Question {currentQuestionIndex + 1} of {questions.length}
+                {milestone.retryLimit !== undefined && (
+                  <span className="ml-2">
+                    · {milestone.retryLimit} {milestone.retryLimit === 1 ? 'attempt' : 'attempts'} allowed
+                  </span>
+                )}
               </p>
             </div>
+            {secondsLeft !== null && !feedback?.shown && (
+              <div className={`text-sm font-medium ${secondsLeft <= 10 ? 'text-red-600' : 'text-gray-600'}`}>
+                {secondsLeft > 0 ? `${secondsLeft}s left` : "Time's up"}
+              </div>
+            )}
             <div className="flex space-x-1">
               {questions.map((_, index) => (
                 <div
@@ -238,8 +490,41 @@ export function QuestionOverlay({
             {renderQuestionContent()}
           </div>
 
+          {/* Hints */}
+          {onHintRequest && totalHints > 0 && (
+            <div className="mb-6">
+              {revealedHints.length > 0 && (
+                <ul className="mb-3 space-y-2">
+                  {revealedHints.map((hint, index) => (
+                    <li key={index} className="p-3 text-sm text-yellow-800 bg-yellow-50 border border-yellow-200 rounded-lg">
+                      <strong>Hint {index + 1}:</strong> {hint}
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {canRevealHint && (
+                <button
+                  onClick={handleRevealHint}
+                  className="text-sm text-yellow-700 hover:text-yellow-900 underline"
+                >
+                  Show hint ({revealedHints.length + 1} of {totalHints})
+                  {hintPenaltyPercent > 0 && ` · costs ${hintPenaltyPercent}% of your score`}
+                </button>
+              )}
+            </div>
+          )}
+
           {/* Feedback */}
-          {feedback?.shown && (
+          {feedback?.shown && feedback.pending && (
+            <div className="p-4 rounded-lg mb-6 bg-blue-50 border border-blue-200">
+              <p className="font-semibold text-blue-800">Answer saved</p>
+              <p className="text-sm text-blue-700">
+                You appear to be offline. Your answer will be sent and graded when the connection is back.
+              </p>
+            </div>
+          )}
+
+          {feedback?.shown && !feedback.pending && (
             <div className={`p-4 rounded-lg mb-6 ${
               feedback.isCorrect ? 'bg-green-50 border border-green-200' : 'bg-red-50 border border-red-200'
             }`}>
@@ -257,10 +542,19 @@ export function QuestionOverlay({
                   <span className={`font-semibold ${
                     feedback.isCorrect ? 'text-green-800' : 'text-red-800'
                   }`}>
-                    {feedback.isCorrect ? 'Correct!' : 'Incorrect'}
+                    {feedback.isCorrect
+                      ? 'Correct!'
+                      : feedback.limitReached
+                        ? 'No attempts remaining'
+                        : feedback.timedOut ? "Time's up" : 'Incorrect'}
                   </span>
+                  {feedback.score !== undefined && feedback.score > 0 && feedback.score < 100 && (
+                    <span className="ml-2 text-sm text-gray-600">
+                      (Partial credit: {feedback.score}%)
+                    </span>
+                  )}
                 </div>
-                {!feedback.isCorrect && (
+                {!feedback.isCorrect && !canRetry && (
                   <button
                     onClick={() => setShowCorrectAnswer(!showCorrectAnswer)}
                     className="text-sm px-2 py-1 text-red-600 hover:text-red-800 underline"
@@ -270,16 +564,18 @@ export function QuestionOverlay({
                 )}
               </div>
               
-              {!feedback.isCorrect && showCorrectAnswer && (
+              {!feedback.isCorrect && feedback.remainingAttempts !== undefined && (
+                <p className="mb-2 text-sm text-gray-700">
+                  {feedback.remainingAttempts > 0
+                    ? `${feedback.remainingAttempts} ${feedback.remainingAttempts === 1 ? 'attempt' : 'attempts'} remaining`
+                    : 'You have used all attempts for this question'}
+                </p>
+              )}
+              
+              {!feedback.isCorrect && !canRetry && showCorrectAnswer && (
                 <div className="mb-3 p-2 bg-green-50 border border-green-200 rounded">
                   <p className="text-sm text-green-800">
-                    <strong>Correct answer:</strong> {
-                      currentQuestion.type === 'MULTIPLE_CHOICE' 
-                        ? currentQuestion.questionData?.options?.[currentQuestion.questionData?.correctAnswerIndex]
-                        : currentQuestion.type === 'TRUE_FALSE'
-                        ? currentQuestion.questionData?.correctAnswer ? 'True' : 'False'
-                        : currentQuestion.questionData?.correctAnswers?.[0] || 'N/A'
-                    }
+                    <strong>Correct answer:</strong> {renderCorrectAnswer()}
                   </p>
                 </div>
               )}
@@ -304,9 +600,9 @@ export function QuestionOverlay({
               {!feedback?.shown ? (
                 <button
                   onClick={handleSubmitAnswer}
-                  disabled={!selectedAnswer.trim() || isSubmitting}
+                  disabled={!canSubmit}
                   className={`px-6 py-2 rounded-lg font-medium transition-colors ${
-                    selectedAnswer.trim() && !isSubmitting
+                    canSubmit
                       ? 'bg-blue-600 text-white hover:bg-blue-700'
                       : 'bg-gray-300 text-gray-500 cursor-not-allowed'
                   }`}
@@ -314,12 +610,22 @@ export function QuestionOverlay({
                   {isSubmitting ? 'Submitting...' : 'Submit Answer'}
                 </button>
               ) : (
-                <button
-                  onClick={handleNext}
-                  className="px-6 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition-colors"
-                >
-                  {currentQuestionIndex < questions.length - 1 ? 'Next Question' : 'Continue Video'}
-                </button>
+                <>
+                  {canRetry && (
+                    <button
+                      onClick={handleTryAgain}
+                      className="px-6 py-2 border border-blue-600 text-blue-600 rounded-lg font-medium hover:bg-blue-50 transition-colors"
+                    >
+                      Try Again
+                    </button>
+                  )}
+                  <button
+                    onClick={handleNext}
+                    className="px-6 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition-colors"
+                  >
+                    {currentQuestionIndex < questions.length - 1 ? 'Next Question' : 'Continue Video'}
+                  </button>
+                </>
               )}
             </div>
           </div>
@@ -0,0 +1,96 @@
+import { useEffect, useMemo, useRef, useState } from 'react'
+import type { ReactNode } from 'react'
+import type { CaptionCue } from '../../utils/captions'
+import { formatCueTime } from '../../utils/captions'
+
+interface TranscriptPanelProps {
+  cues: CaptionCue[]
+  currentTime: number
+  onSeek: (time: number) => void
+}
+
+export function TranscriptPanel({ cues, currentTime, onSeek }: TranscriptPanelProps) {
+  const [search, setSearch] = useState('')
+  const listRef = useRef<HTMLUListElement>(null)
+  const activeRef = useRef<HTMLLIElement>(null)
+
+  const activeIndex = cues.findIndex(cue => currentTime >= cue.start && currentTime < cue.end)
+
+  const visibleCues = useMemo(() => {
+    const term = search.trim().toLowerCase()
+    return cues
+      .map((cue, index) => ({ cue, index }))
+      .filter(({ cue }) => !term || cue.text.toLowerCase().includes(term))
+  }, [cues, search])
+
+  // Keep the active cue in view while playing, but not while the user is searching
+  useEffect(() => {
+    if (search || !activeRef.current || !listRef.current) return
+    const list = listRef.current
+    const item = activeRef.current
+    if (item.offsetTop < list.scrollTop || item.offsetTop + item.offsetHeight > list.scrollTop + list.clientHeight) {
+      list.scrollTop = item.offsetTop - list.clientHeight / 3
+    }
+  }, [activeIndex, search])
+
+  const highlight = (text: string) => {
+    const term = search.trim()
+    if (!term) return text
+
+    const lower = text.toLowerCase()
+    const parts: ReactNode[] = []
+    let position = 0
+    let match = lower.indexOf(term.toLowerCase())
+    while (match !== -1) {
+      parts.push(text.slice(position, match))
+      parts.push(
+        <mark key={match} className="bg-yellow-200 rounded">
+          {text.slice(match, match + term.length)}
+        </mark>
+      )
+      position = match + term.length
+      match = lower.indexOf(term.toLowerCase(), position)
+    }
+    parts.push(text.slice(position))
+    return parts
+  }
+
+  return (
+    <div className="border-t border-gray-200 bg-white">
+      <div className="p-3 border-b border-gray-200">
+        <input
+          type="search"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search transcript..."
+          aria-label="Search transcript"
+          className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+      </div>
+
+      <ul ref={listRef} className="relative max-h-64 overflow-y-auto divide-y divide-gray-100">
+        {visibleCues.length === 0 ? (
+          <li className="p-3 text-sm text-gray-500">
+            {search ? 'No matching lines' : 'Transcript is empty'}
+          </li>
+        ) : (
+          visibleCues.map(({ cue, index }) => (
+            <li key={index} ref={index === activeIndex ? activeRef : undefined}>
+              <button
+                onClick={() => onSeek(cue.start)}
+                className={`w-full flex items-start gap-3 px-3 py-2 text-left text-sm transition-colors ${
+                  index === activeIndex ? 'bg-blue-50 text-blue-900' : 'text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                <span className="shrink-0 w-12 font-mono text-xs text-gray-500 pt-0.5">
+                  {formatCueTime(cue.start)}
+                </span>
+                <span>{highlight(cue.text)}</span>
+              </button>
+            </li>
+          ))
+        )}
+      </ul>
+    </div>
+  )
+}
@@ -1,5 +1,10 @@
 import React from 'react'
-import type { Milestone } from '../../services/video'
+import type { Milestone, VideoCaption } from '../../services/video'
+
+export interface QualityLevel {
+  index: number
+  label: string
+}
 
 interface VideoControlsProps {
   isPlaying: boolean
@@ -13,9 +18,18 @@ interface VideoControlsProps {
   onPlay: () => void
   onPause: () => void
   onSeek: (time: number) => void
+  maxSeekPosition?: number // Seeks beyond this are held back by the video's seek policy
   onVolumeChange: (volume: number) => void
   onMute: () => void
   onFullscreen: () => void
+  qualityLevels?: QualityLevel[]
+  currentQuality?: number // -1 = automatic
+  onQualityChange?: (level: number) => void
+  captionTracks?: VideoCaption[]
+  activeCaption?: string | null // null = captions off
+  onCaptionChange?: (language: string | null) => void
+  isTranscriptOpen?: boolean
+  onTranscriptToggle?: () => void
 }
 
 export function VideoControls({
@@ -30,9 +44,18 @@ export function VideoControls({
   onPlay,
   onPause,
   onSeek,
+  maxSeekPosition,
   onVolumeChange,
   onMute,
-  onFullscreen
+  onFullscreen,
+  qualityLevels = [],
+  currentQuality = -1,
+  onQualityChange,
+  captionTracks = [],
+  activeCaption = null,
+  onCaptionChange,
+  isTranscriptOpen = false,
+  onTranscriptToggle
 }: VideoControlsProps) {
   const formatTime = (seconds: number) => {
     if (isNaN(seconds)) return '0:00'
@@ -46,7 +69,7 @@ export function VideoControls({
     const clickX = e.clientX - rect.left
     const percentage = clickX / rect.width
     const newTime = percentage * duration
-    onSeek(newTime)
+    onSeek(maxSeekPosition === undefined ? newTime : Math.min(newTime, maxSeekPosition))
   }
 
   const handleVolumeClick = (e: React.MouseEvent<HTMLDivElement>) => {
@@ -57,6 +80,9 @@ export function VideoControls({
   }
 
   const progressPercentage = duration > 0 ? (currentTime / duration) * 100 : 0
+  const seekLimitPercentage = duration > 0 && maxSeekPosition !== undefined
+    ? Math.min(100, (maxSeekPosition / duration) * 100)
+    : 100
 
   return (
     <div className="bg-gray-900 p-4">
@@ -74,6 +100,15 @@ export function VideoControls({
             <div className="absolute right-0 top-1/2 transform translate-x-1/2 -translate-y-1/2 w-4 h-4 bg-blue-500 rounded-full shadow-lg opacity-0 group-hover:opacity-100 transition-opacity"></div>
           </div>
           
+          {/* Stretch the seek policy does not let the viewer jump to yet */}
+          {seekLimitPercentage < 100 && (
+            <div
+              className="absolute top-0 bottom-0 right-0 rounded-r-full bg-gray-800 bg-opacity-70 cursor-not-allowed"
+              style={{ left: `${seekLimitPercentage}%` }}
+              title="Keep watching to unlock this part of the video"
+            />
+          )}
+
           {/* Milestone Markers */}
           {milestones.map((milestone) => {
             const percentage = duration > 0 ? (milestone.timestamp / duration) * 100 : 0
@@ -200,6 +235,56 @@ export function VideoControls({
             </div>
           </div>
 
+          {/* Quality Selector (adaptive streams only) */}
+          {qualityLevels.length > 1 && onQualityChange && (
+            <select
+              value={currentQuality}
+              onChange={(e) => onQualityChange(Number(e.target.value))}
+              aria-label="Video quality"
+              className="bg-gray-800 text-white text-sm rounded px-2 py-1 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value={-1}>Auto</option>
+              {qualityLevels.map(level => (
+                <option key={level.index} value={level.index}>
+                  {level.label}
+                </option>
+              ))}
+            </select>
+          )}
+
+          {/* Caption Language Picker */}
+          {captionTracks.length > 0 && onCaptionChange && (
+            <select
+              value={activeCaption ?? ''}
+              onChange={(e) => onCaptionChange(e.target.value || null)}
+              aria-label="Captions"
+              className="bg-gray-800 text-white text-sm rounded px-2 py-1 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">CC Off</option>
+              {captionTracks.map(track => (
+                <option key={track.language} value={track.language}>
+                  {track.label}
+                </option>
+              ))}
+            </select>
+          )}
+
+          {/* Transcript Toggle */}
+          {captionTracks.length > 0 && onTranscriptToggle && (
+            <button
+              onClick={onTranscriptToggle}
+              aria-pressed={isTranscriptOpen}
+              title="Transcript"
+              className={`p-1 rounded transition-colors ${
+                isTranscriptOpen ? 'bg-white bg-opacity-20' : 'hover:bg-white hover:bg-opacity-20'
+              }`}
+            >
+              <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 20 20">
+                <path fillRule="evenodd" d="M4 4a2 2 0 012-2h4.586A2 2 0 0112 2.586L15.414 6A2 2 0 0116 7.414V16a2 2 0 01-2 2H6a2 2 0 01-2-2V4zm2 6a1 1 0 011-1h6a1 1 0 110 2H7a1 1 0 01-1-1zm1 3a1 1 0 100 2h6a1 1 0 100-2H7z" clipRule="evenodd" />
+              </svg>
+            </button>
+          )}
+
           {/* Fullscreen Button */}
           <button
             onClick={onFullscreen}
@@ -1,20 +1,36 @@
 import { useState, useRef, useEffect } from 'react'
-import type { Video, VideoSession, Milestone } from '../../services/video'
-import { videoService } from '../../services/video'
+import Hls from 'hls.js'
+import type { Video, VideoSession, Milestone, QuestionAnswerValue, HintReveal, VideoCaption } from '../../services/video'
+import { videoService, captionService } from '../../services/video'
 import { QuestionOverlay } from './QuestionOverlay'
+import type { AnswerResult } from './QuestionOverlay'
 import { MilestoneMarkers } from './MilestoneMarkers'
 import { VideoControls } from './VideoControls'
+import type { QualityLevel } from './VideoControls'
+import { TranscriptPanel } from './TranscriptPanel'
+import { parseVtt } from '../../utils/captions'
+import type { CaptionCue } from '../../utils/captions'
 import { useVideoState } from '../../hooks/useVideoState'
+import { usePlaybackUrls, withPlaybackToken } from '../../hooks/usePlaybackUrls'
+import { analyticsTracker } from '../../services/analyticsEvents'
 import { debug } from '../../utils/debug'
 // import { useVideoStateManager } from '../../contexts/VideoStateContext'
 
+// A caption track loaded for playback: the <track> needs a same-origin URL,
+// so the authenticated WebVTT response is served from a blob
+interface LoadedCaptionTrack extends VideoCaption {
+  src: string
+  cues: CaptionCue[]
+}
+
 interface VideoPlayerProps {
   video: Video
   session?: VideoSession | null
   onSessionStart: (videoId: string) => Promise<VideoSession>
   onProgressUpdate: (sessionId: string, currentTime: number, totalWatchTime: number) => Promise<void>
   onMilestoneReached: (sessionId: string, milestoneId: string, timestamp: number) => Promise<void>
-  onAnswerSubmit: (sessionId: string, questionId: string, answer: string, milestoneId: string) => Promise<{ isCorrect: boolean; explanation?: string }>
+  onAnswerSubmit: (sessionId: string, questionId: string, answer: QuestionAnswerValue, milestoneId: string) => Promise<AnswerResult>
+  onHintRequest?: (sessionId: string, questionId: string) => Promise<HintReveal>
   onSessionComplete: (sessionId: string, finalTime: number, totalWatchTime: number) => Promise<void>
 }
 
@@ -25,6 +41,7 @@ export function VideoPlayer({
   onProgressUpdate,
   onMilestoneReached,
   onAnswerSubmit,
+  onHintRequest,
   onSessionComplete
 }: VideoPlayerProps) {
   debug.video('Player initialized', {
@@ -51,6 +68,115 @@ export function VideoPlayer({
   const [isMuted, setIsMuted] = useState(false)
   const [isFullscreen, setIsFullscreen] = useState(false)
   const [loading, setLoading] = useState(false)
+  const [qualityLevels, setQualityLevels] = useState<QualityLevel[]>([])
+  const [currentQuality, setCurrentQuality] = useState(-1)
+  const hlsRef = useRef<Hls | null>(null)
+  const [captionTracks, setCaptionTracks] = useState<LoadedCaptionTrack[]>([])
+  const [activeCaption, setActiveCaption] = useState<string | null>(null)
+  const [showTranscript, setShowTranscript] = useState(false)
+  // Furthest point reached by watching; the seek policy may not allow jumping past it
+  const [furthestWatched, setFurthestWatched] = useState(session?.furthestPosition ?? session?.currentPosition ?? 0)
+  const [playbackNotice, setPlaybackNotice] = useState<string | null>(null)
+  const { urls: playbackUrls, latest: latestPlaybackUrls, error: playbackError } = usePlaybackUrls(video.id, videoRef)
+  // Use adaptive streaming when the video has been transcoded and the browser supports MSE
+  const useAdaptiveStream = videoService.hasHlsStream(video) && Hls.isSupported()
+  const hlsUrl = playbackUrls?.hlsUrl
+
+  useEffect(() => {
+    const element = videoRef.current
+    if (!element || !useAdaptiveStream || !hlsUrl) return
+
+    const hls = new Hls({
+      // Playlists and segments are fetched for as long as playback lasts, so
+      // each request carries the freshest token rather than the manifest's
+      xhrSetup: (xhr, url) => {
+        const token = latestPlaybackUrls()?.token
+        xhr.open('GET', token ? withPlaybackToken(url, token) : url, true)
+      }
+    })
+
+    hls.on(Hls.Events.MANIFEST_PARSED, (_event, data) => {
+      debug.video('HLS manifest parsed', { levels: data.levels.length })
+      setQualityLevels(data.levels.map((level, index) => ({
+        index,
+        label: level.height ? `${level.height}p` : level.name || `Level ${index + 1}`
+      })))
+    })
+
+    hls.on(Hls.Events.ERROR, (_event, data) => {
+      if (!data.fatal) return
+      debug.error('HLS playback failed, falling back to progressive stream:', data)
+      hls.destroy()
+      hlsRef.current = null
+      setQualityLevels([])
+      const latest = latestPlaybackUrls()
+      if (latest) element.src = latest.streamUrl
+    })
+
+    hls.loadSource(hlsUrl)
+    hls.attachMedia(element)
+    hlsRef.current = hls
+
+    return () => {
+      hls.destroy()
+      hlsRef.current = null
+      setQualityLevels([])
+      setCurrentQuality(-1)
+    }
+  }, [video.id, useAdaptiveStream, hlsUrl, latestPlaybackUrls])
+
+  useEffect(() => {
+    let cancelled = false
+    const objectUrls: string[] = []
+
+    const loadCaptions = async () => {
+      try {
+        const { captions, defaultLanguage } = await captionService.getCaptions(video.id)
+        const tracks = await Promise.all(captions.map(async caption => {
+          const text = await captionService.getCaptionText(video.id, caption.language)
+          const src = URL.createObjectURL(new Blob([text], { type: 'text/vtt' }))
+          objectUrls.push(src)
+          return { ...caption, src, cues: parseVtt(text) }
+        }))
+
+        if (!cancelled) {
+          setCaptionTracks(tracks)
+          setActiveCaption(defaultLanguage)
+        }
+      } catch (error) {
+        debug.warn('Failed to load captions:', error)
+      }
+    }
+
+    loadCaptions()
+
+    return () => {
+      cancelled = true
+      objectUrls.forEach(url => URL.revokeObjectURL(url))
+      setCaptionTracks([])
+      setActiveCaption(null)
+    }
+  }, [video.id])
+
+  // Show only the selected caption track
+  useEffect(() => {
+    const element = videoRef.current
+    if (!element) return
+
+    Array.from(element.textTracks).forEach(track => {
+      track.mode = track.language === activeCaption ? 'showing' : 'disabled'
+    })
+  }, [activeCaption, captionTracks])
+
+  // The transcript follows the selected track, or the first one when captions are off
+  const transcriptTrack = captionTracks.find(track => track.language === activeCaption) || captionTracks[0]
+
+  const handleQualityChange = (level: number) => {
+    if (!hlsRef.current) return
+    // -1 hands level selection back to hls.js bandwidth estimation
+    hlsRef.current.currentLevel = level
+    setCurrentQuality(level)
+  }
 
   // Progress tracking
   const progressUpdateInterval = useRef<NodeJS.Timeout | undefined>(undefined)
@@ -63,6 +189,8 @@ export function VideoPlayer({
       const watchTime = session.sessionData?.totalWatchTime || 0
       setTotalWatchTime(watchTime)
       
+      setFurthestWatched(prev => Math.max(prev, session.furthestPosition ?? session.currentPosition))
+
       // Resume video from last position
       if (videoRef.current && session.currentPosition > 0) {
         videoRef.current.currentTime = session.currentPosition
@@ -89,6 +217,8 @@ export function VideoPlayer({
     const handleTimeUpdate = () => {
       const time = video.currentTime
       setCurrentTime(time)
+      // Playing on from within the watched range extends it; seeks past it do not
+      setFurthestWatched(prev => time > prev && time - prev < 2 ? time : prev)
       
       // Check for milestones
       checkForMilestones(time)
@@ -136,6 +266,76 @@ export function VideoPlayer({
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [currentSession])
 
+  // Report playback interactions to analytics
+  useEffect(() => {
+    const element = videoRef.current
+    if (!element) return
+
+    const sessionId = currentSession?.id
+    // Position before a seek; currentTime already holds the target when 'seeking' fires
+    let lastPosition = element.currentTime
+
+    const handleTimeUpdate = () => {
+      if (!element.seeking) lastPosition = element.currentTime
+    }
+    const handlePlay = () => {
+      analyticsTracker.track('video_play', { videoId: video.id, position: element.currentTime }, sessionId)
+    }
+    const handlePause = () => {
+      // Browsers fire pause right before ended; the ended event covers that case
+      if (element.ended) return
+      analyticsTracker.track('video_pause', { videoId: video.id, position: element.currentTime }, sessionId)
+    }
+    const handleSeeked = () => {
+      analyticsTracker.track('video_seek', { videoId: video.id, from: lastPosition, to: element.currentTime }, sessionId)
+      lastPosition = element.currentTime
+    }
+    const handleRateChange = () => {
+      analyticsTracker.track('video_rate_change', {
+        videoId: video.id,
+        position: element.currentTime,
+        rate: element.playbackRate
+      }, sessionId)
+    }
+    const handleEnded = () => {
+      analyticsTracker.track('video_ended', { videoId: video.id, position: element.currentTime }, sessionId)
+    }
+
+    // Close the watched stretch when the viewer leaves mid-playback; no pause event fires then
+    const trackLeave = () => {
+      if (element.paused || element.ended) return
+      analyticsTracker.track('video_pause', { videoId: video.id, position: lastPosition }, sessionId)
+    }
+    const handlePageHide = () => {
+      trackLeave()
+      analyticsTracker.flushWithBeacon()
+    }
+
+    element.addEventListener('timeupdate', handleTimeUpdate)
+    element.addEventListener('play', handlePlay)
+    element.addEventListener('pause', handlePause)
+    element.addEventListener('seeked', handleSeeked)
+    element.addEventListener('ratechange', handleRateChange)
+    element.addEventListener('ended', handleEnded)
+    window.addEventListener('pagehide', handlePageHide)
+    // Re-subscribing mid-playback (e.g. a new session) reopens the stretch the cleanup closed
+    if (!element.paused && !element.ended) handlePlay()
+
+    return () => {
+      element.removeEventListener('timeupdate', handleTimeUpdate)
+      element.removeEventListener('play', handlePlay)
+      element.removeEventListener('pause', handlePause)
+      element.removeEventListener('seeked', handleSeeked)
+      element.removeEventListener('ratechange', handleRateChange)
+      element.removeEventListener('ended', handleEnded)
+      window.removeEventListener('pagehide', handlePageHide)
+      trackLeave()
+    }
+  }, [video.id, currentSession?.id])
+
+  // Leaving the player is a good moment to send what has been collected
+  useEffect(() => () => analyticsTracker.flushWithBeacon(), [])
+
   const startProgressTracking = () => {
     if (progressUpdateInterval.current) {
       clearInterval(progressUpdateInterval.current)
@@ -173,7 +373,8 @@ export function VideoPlayer({
   }
 
   const updateProgress = async (currentTime: number) => {
-    if (!currentSession) return
+    // A completed attempt is read-only on the server; rewatching it is not tracked
+    if (!currentSession || currentSession.status === 'COMPLETED') return
 
     const currentWatchTime = totalWatchTime + (watchStartTime ? Date.now() - watchStartTime : 0)
     
@@ -181,9 +382,37 @@ export function VideoPlayer({
       await onProgressUpdate(currentSession.id, currentTime, Math.floor(currentWatchTime / 1000))
     } catch (error) {
       debug.error('Failed to update progress:', error)
+      handlePolicyRejection(error)
     }
   }
 
+  // The server holds the playhead back when a seek broke the policy or skipped a required milestone
+  const handlePolicyRejection = (error: unknown) => {
+    const { code, details } = (error as { data?: { code?: string, details?: { maxPosition?: number, milestoneId?: string } } })?.data || {}
+    if (code !== 'SEEK_NOT_ALLOWED' && code !== 'REQUIRED_MILESTONE_PENDING') return
+    if (!videoRef.current || details?.maxPosition === undefined) return
+
+    videoRef.current.currentTime = details.maxPosition
+    setCurrentTime(details.maxPosition)
+
+    const milestone = code === 'REQUIRED_MILESTONE_PENDING'
+      ? (stateMilestones || video.milestones || []).find(m => m.id === details.milestoneId)
+      : undefined
+    if (milestone?.questions && milestone.questions.length > 0) {
+      videoRef.current.pause()
+      setCurrentMilestone(milestone)
+      setShowQuestionOverlay(true)
+    }
+    showPlaybackNotice(code === 'REQUIRED_MILESTONE_PENDING'
+      ? 'Answer the questions of this milestone before moving on'
+      : 'Seeking ahead is not allowed for this video')
+  }
+
+  const showPlaybackNotice = (message: string) => {
+    setPlaybackNotice(message)
+    setTimeout(() => setPlaybackNotice(current => current === message ? null : current), 4000)
+  }
+
   const checkForMilestones = (currentTime: number) => {
     // Use milestones from unified state instead of video prop
     const milestones = stateMilestones || video.milestones || []
@@ -229,6 +458,9 @@ export function VideoPlayer({
       prev.includes(milestone.id) ? prev : [...prev, milestone.id]
     )
 
+    // Questions are asked again only in a new attempt
+    if (currentSession.status === 'COMPLETED') return
+
     try {
       // Pause video for milestones with questions
       if (milestone.questions && milestone.questions.length > 0 && videoRef.current) {
@@ -250,13 +482,22 @@ export function VideoPlayer({
     }
   }
 
-  const handleAnswerSubmit = async (questionId: string, answer: string): Promise<{ isCorrect: boolean; explanation?: string }> => {
+  const handleAnswerSubmit = async (questionId: string, answer: QuestionAnswerValue): Promise<AnswerResult> => {
     if (!currentSession || !currentMilestone) {
       throw new Error('No active session or milestone')
     }
 
     try {
       const result = await onAnswerSubmit(currentSession.id, questionId, answer, currentMilestone.id)
+      // A queued answer is not graded yet
+      if (!result.pending) {
+        analyticsTracker.track('question_answered', {
+          videoId: video.id,
+          milestoneId: currentMilestone.id,
+          questionId,
+          isCorrect: result.isCorrect
+        }, currentSession.id)
+      }
       return result
     } catch (error) {
       debug.error('Failed to submit answer:', error)
@@ -264,6 +505,23 @@ export function VideoPlayer({
     }
   }
 
+  const handleHintRequest = async (questionId: string): Promise<HintReveal> => {
+    if (!currentSession || !onHintRequest) {
+      throw new Error('No active session')
+    }
+
+    return onHintRequest(currentSession.id, questionId)
+  }
+
+  const handleQuestionShown = (questionId: string) => {
+    if (!currentMilestone) return
+    analyticsTracker.track('question_shown', {
+      videoId: video.id,
+      milestoneId: currentMilestone.id,
+      questionId
+    }, currentSession?.id)
+  }
+
   const handleQuestionComplete = () => {
     setShowQuestionOverlay(false)
     setCurrentMilestone(null)
@@ -275,7 +533,7 @@ export function VideoPlayer({
   }
 
   const handleVideoComplete = async () => {
-    if (!currentSession) return
+    if (!currentSession || currentSession.status === 'COMPLETED') return
 
     updateWatchTime()
     const finalWatchTime = totalWatchTime + (watchStartTime ? Date.now() - watchStartTime : 0)
@@ -288,6 +546,9 @@ export function VideoPlayer({
       )
     } catch (error) {
       debug.error('Failed to complete session:', error)
+      if ((error as { data?: { code?: string } })?.data?.code === 'REQUIRED_MILESTONES_PENDING') {
+        showPlaybackNotice('Complete all required milestones to finish this video')
+      }
     }
   }
 
@@ -319,10 +580,25 @@ export function VideoPlayer({
     }
   }
 
+  // Mirrors the server's rules: the video's seek policy, and never past a required milestone not yet reached
+  const reachedMilestoneIds = [
+    ...(currentSession?.milestoneProgress?.map(mp => mp.milestoneId) || []),
+    ...locallyReachedMilestones
+  ]
+  const nextRequiredMilestone = (stateMilestones || video.milestones || [])
+    .filter(m => m.isRequired && !reachedMilestoneIds.includes(m.id))
+    .sort((a, b) => a.timestamp - b.timestamp)[0]
+  const policyLimit = video.seekPolicy === 'NO_SEEK_AHEAD'
+    ? currentTime
+    : video.seekPolicy === 'WATCHED_RANGE' ? Math.max(furthestWatched, currentTime) : undefined
+  const seekLimits = [policyLimit, nextRequiredMilestone?.timestamp].filter((limit): limit is number => limit !== undefined)
+  const maxSeekPosition = seekLimits.length > 0 ? Math.min(...seekLimits) : undefined
+
   const handleSeek = (time: number) => {
     if (videoRef.current) {
-      videoRef.current.currentTime = time
-      setCurrentTime(time)
+      const target = maxSeekPosition === undefined ? time : Math.min(time, maxSeekPosition)
+      videoRef.current.currentTime = target
+      setCurrentTime(target)
     }
   }
 
@@ -368,15 +644,37 @@ export function VideoPlayer({
           <div className="text-white">Starting session...</div>
         </div>
       )}
+
+      {playbackNotice && (
+        <div className="absolute top-4 left-1/2 transform -translate-x-1/2 bg-black bg-opacity-75 text-white text-sm px-4 py-2 rounded z-40">
+          {playbackNotice}
+        </div>
+      )}
+
+      {playbackError && !playbackUrls && (
+        <div className="absolute inset-0 flex items-center justify-center z-40">
+          <div className="text-white">{playbackError}</div>
+        </div>
+      )}
       
       <video
         ref={videoRef}
         className="w-full h-auto"
-        src={videoService.getStreamingUrl(video.id)}
-        poster={video.thumbnailUrl ? videoService.getThumbnailUrl(video.id) : undefined}
+        src={useAdaptiveStream ? undefined : playbackUrls?.streamUrl}
+        poster={playbackUrls?.thumbnailUrl ?? undefined}
         playsInline
         crossOrigin="anonymous"
-      />
+      >
+        {captionTracks.map(track => (
+          <track
+            key={track.language}
+            kind="subtitles"
+            src={track.src}
+            srcLang={track.language}
+            label={track.label}
+          />
+        ))}
+      </video>
 
       {/* Milestone Markers - Use milestones from unified state */}
       {(stateMilestones || video.milestones) && (
@@ -399,17 +697,37 @@ export function VideoPlayer({
         onPlay={handlePlay}
         onPause={handlePause}
         onSeek={handleSeek}
+        maxSeekPosition={maxSeekPosition}
         onVolumeChange={handleVolumeChange}
         onMute={handleMute}
         onFullscreen={handleFullscreen}
+        qualityLevels={qualityLevels}
+        currentQuality={currentQuality}
+        onQualityChange={handleQualityChange}
+        captionTracks={captionTracks}
+        activeCaption={activeCaption}
+        onCaptionChange={setActiveCaption}
+        isTranscriptOpen={showTranscript}
+        onTranscriptToggle={() => setShowTranscript(open => !open)}
       />
 
+      {/* Interactive Transcript */}
+      {showTranscript && transcriptTrack && (
+        <TranscriptPanel
+          cues={transcriptTrack.cues}
+          currentTime={currentTime}
+          onSeek={handleSeek}
+        />
+      )}
+
       {/* Question Overlay */}
       {showQuestionOverlay && currentMilestone && (
         <QuestionOverlay
           milestone={currentMilestone}
           onAnswerSubmit={handleAnswerSubmit}
+          onHintRequest={onHintRequest ? handleHintRequest : undefined}
           onComplete={handleQuestionComplete}
+          onQuestionShown={handleQuestionShown}
         />
       )}
 
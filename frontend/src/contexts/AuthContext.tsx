@@ -105,6 +105,7 @@ interface AuthContextType {
     login: (credentials: LoginCredentials) => Promise<void>
     register: (data: RegisterData) => Promise<void>
     logout: () => void
+    logoutEverywhere: () => Promise<void>
     refreshAuth: () => Promise<void>
     clearError: () => void
   }
@@ -279,6 +280,14 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     dispatch({ type: 'LOGOUT' })
   }, [])
 
+  const logoutEverywhere = useCallback(async () => {
+    try {
+      await authService.logoutEverywhere()
+    } finally {
+      dispatch({ type: 'LOGOUT' })
+    }
+  }, [])
+
   const refreshAuth = useCallback(async () => {
     if (refreshInProgress.current) return
     
@@ -315,6 +324,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       login,
       register,
       logout,
+      logoutEverywhere,
       refreshAuth,
       clearError
     }
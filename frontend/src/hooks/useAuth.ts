@@ -14,6 +14,7 @@ export function useAuth() {
     login: context.actions.login,
     register: context.actions.register,
     logout: context.actions.logout,
+    logoutEverywhere: context.actions.logoutEverywhere,
     refreshToken: context.actions.refreshAuth,
     tokens: null // Deprecated - tokens are managed internally
   }
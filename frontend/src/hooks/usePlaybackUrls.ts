@@ -0,0 +1,92 @@
+import { useState, useEffect, useRef, useCallback } from 'react'
+import type { RefObject } from 'react'
+import { videoService } from '../services/video'
+import type { PlaybackUrls } from '../services/video'
+import { debug } from '../utils/debug'
+
+// Refresh once this share of a token's lifetime has passed
+const REFRESH_AT = 0.8
+const RETRY_DELAY_MS = 15 * 1000
+
+// Put the current token on a URL, e.g. an HLS segment resolved from a playlist
+export function withPlaybackToken(url: string, token: string) {
+  const signed = new URL(url, window.location.href)
+  signed.searchParams.set('token', token)
+  return signed.toString()
+}
+
+/**
+ * Signed media URLs for a video, refreshed before they expire. `urls` is
+ * the first set issued and stays the same, so binding it to a media element
+ * does not restart playback; `latest()` returns the freshest set for
+ * requests made later. When `videoRef` is given, a progressive stream that
+ * fails because its URL expired is reloaded from the fresh URL at the same
+ * position.
+ */
+export function usePlaybackUrls(videoId: string, videoRef?: RefObject<HTMLVideoElement | null>) {
+  const [urls, setUrls] = useState<PlaybackUrls | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const latestRef = useRef<PlaybackUrls | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    let timer: ReturnType<typeof setTimeout> | undefined
+    latestRef.current = null
+    setUrls(null)
+    setError(null)
+
+    const refresh = async () => {
+      try {
+        const playback = await videoService.getPlaybackUrls(videoId)
+        if (cancelled) return
+
+        latestRef.current = playback
+        setUrls(current => current ?? playback)
+        const lifetime = new Date(playback.expiresAt).getTime() - Date.now()
+        timer = setTimeout(refresh, Math.max(lifetime * REFRESH_AT, RETRY_DELAY_MS))
+      } catch (err) {
+        if (cancelled) return
+        debug.error('Failed to get playback URLs:', err)
+        // Keep playing on the current URLs while they last
+        if (!latestRef.current) {
+          setError((err as { message?: string }).message || 'Failed to load video')
+        }
+        timer = setTimeout(refresh, RETRY_DELAY_MS)
+      }
+    }
+
+    refresh()
+
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [videoId])
+
+  useEffect(() => {
+    const element = videoRef?.current
+    if (!element) return
+
+    const handleError = () => {
+      const latest = latestRef.current
+      // Only progressive streams; a failure on the freshest URL is not an expired token
+      if (!latest || !element.currentSrc.includes('/stream') || element.currentSrc === latest.streamUrl) return
+
+      debug.video('Stream URL expired, reloading with a fresh one', { position: element.currentTime })
+      const position = element.currentTime
+      const wasPlaying = !element.paused
+      element.src = latest.streamUrl
+      element.addEventListener('loadedmetadata', () => {
+        element.currentTime = position
+        if (wasPlaying) element.play().catch(() => {})
+      }, { once: true })
+    }
+
+    element.addEventListener('error', handleError)
+    return () => element.removeEventListener('error', handleError)
+  }, [videoRef, urls])
+
+  const latest = useCallback(() => latestRef.current, [])
+
+  return { urls, latest, error }
+}
@@ -0,0 +1,118 @@
+import { useEffect, useState } from 'react'
+import { ComputerDesktopIcon } from '@heroicons/react/24/outline'
+import { authService } from '../../services/auth'
+import { useAuth } from '../../hooks/useAuth'
+import type { LoginSession } from '../../types/auth'
+import { debug } from '../../utils/debug'
+
+const formatLastSeen = (value: string) => {
+  const minutes = Math.floor((Date.now() - new Date(value).getTime()) / 60000)
+  if (minutes < 1) return 'Just now'
+  if (minutes < 60) return `${minutes} min ago`
+  if (minutes < 24 * 60) return `${Math.floor(minutes / 60)} h ago`
+  return new Date(value).toLocaleDateString()
+}
+
+export default function SessionsPage() {
+  const { logoutEverywhere } = useAuth()
+  const [sessions, setSessions] = useState<LoginSession[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [terminating, setTerminating] = useState<string | null>(null)
+
+  useEffect(() => {
+    authService.getSessions()
+      .then(setSessions)
+      .catch(err => {
+        debug.error('Failed to load sessions:', err)
+        setError('Failed to load your sessions')
+      })
+      .finally(() => setLoading(false))
+  }, [])
+
+  const handleTerminate = async (session: LoginSession) => {
+    if (session.current) {
+      if (!confirm('Sign out of this device?')) return
+    }
+
+    setTerminating(session.id)
+    setError(null)
+    try {
+      await authService.terminateSession(session.id)
+      setSessions(prev => prev.filter(item => item.id !== session.id))
+      if (session.current) {
+        // Our own session is gone; drop the local tokens as well
+        authService.logout()
+        window.location.assign('/login')
+      }
+    } catch (err) {
+      setError((err as { message?: string }).message || 'Failed to sign out device')
+    } finally {
+      setTerminating(null)
+    }
+  }
+
+  const handleLogoutEverywhere = async () => {
+    if (!confirm('Sign out of every device, including this one?')) return
+    await logoutEverywhere()
+  }
+
+  return (
+    <div className="p-6 max-w-3xl mx-auto">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Where you're signed in</h1>
+          <p className="text-sm text-gray-600">Devices with access to your account. Sign out any you don't recognise.</p>
+        </div>
+        <button onClick={handleLogoutEverywhere} className="btn-secondary">
+          Sign out everywhere
+        </button>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      <div className="card">
+        {loading ? (
+          <p className="text-sm text-gray-500">Loading sessions...</p>
+        ) : sessions.length === 0 ? (
+          <p className="text-sm text-gray-500">No active sessions.</p>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {sessions.map(session => (
+              <li key={session.id} className="flex items-center justify-between py-3">
+                <div className="flex items-center gap-3">
+                  <ComputerDesktopIcon className="h-8 w-8 text-gray-400" />
+                  <div>
+                    <p className="font-medium text-gray-900">
+                      {session.device}
+                      {session.current && (
+                        <span className="ml-2 px-2 py-0.5 text-xs font-medium bg-green-100 text-green-800 rounded-full">
+                          This device
+                        </span>
+                      )}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {session.ipAddress ?? 'Unknown IP'} · Last seen {formatLastSeen(session.lastUsedAt)} ·
+                      Signed in {new Date(session.createdAt).toLocaleDateString()}
+                    </p>
+                  </div>
+                </div>
+                <button
+                  onClick={() => handleTerminate(session)}
+                  disabled={terminating === session.id}
+                  className="text-sm text-red-600 hover:text-red-800 disabled:opacity-50"
+                >
+                  {terminating === session.id ? 'Signing out...' : 'Sign out'}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,98 @@
+import { useState } from 'react'
+import { Link } from 'react-router-dom'
+import { useForm } from 'react-hook-form'
+import { authService } from '../../services/auth'
+import LoadingSpinner from '../../components/ui/LoadingSpinner'
+
+interface ForgotPasswordForm {
+  email: string
+}
+
+export default function ForgotPasswordPage() {
+  const [error, setError] = useState('')
+  const [submitted, setSubmitted] = useState(false)
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors, isSubmitting },
+  } = useForm<ForgotPasswordForm>()
+
+  const onSubmit = async (data: ForgotPasswordForm) => {
+    try {
+      setError('')
+      await authService.forgotPassword(data.email)
+      setSubmitted(true)
+    } catch (err) {
+      setError((err as { message?: string }).message || 'Could not send reset link')
+    }
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        <div>
+          <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">
+            Reset your password
+          </h2>
+          <p className="mt-2 text-center text-sm text-gray-600">
+            Enter your account email and we'll send you a link to choose a new password.
+          </p>
+        </div>
+
+        {submitted ? (
+          <div className="bg-green-50 border border-green-200 rounded-md p-4">
+            <p className="text-sm text-green-700">
+              If an account exists for that email, a reset link is on its way. Check your inbox.
+            </p>
+          </div>
+        ) : (
+          <form className="space-y-6" onSubmit={handleSubmit(onSubmit)}>
+            {error && (
+              <div className="bg-red-50 border border-red-200 rounded-md p-4">
+                <p className="text-sm text-red-600">{error}</p>
+              </div>
+            )}
+
+            <div>
+              <label htmlFor="email" className="block text-sm font-medium text-gray-700">
+                Email address
+              </label>
+              <input
+                id="email"
+                {...register('email', {
+                  required: 'Email is required',
+                  pattern: {
+                    value: /^\S+@\S+$/i,
+                    message: 'Please enter a valid email address',
+                  },
+                })}
+                type="email"
+                autoComplete="email"
+                className="mt-1 input-field w-full"
+                placeholder="Enter your email"
+              />
+              {errors.email && (
+                <p className="mt-1 text-sm text-red-600">{errors.email.message}</p>
+              )}
+            </div>
+
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="w-full flex justify-center btn-primary disabled:opacity-50"
+            >
+              {isSubmitting ? <LoadingSpinner size="sm" /> : 'Send reset link'}
+            </button>
+          </form>
+        )}
+
+        <p className="text-center text-sm text-gray-600">
+          <Link to="/login" className="font-medium text-primary-600 hover:text-primary-500">
+            Back to sign in
+          </Link>
+        </p>
+      </div>
+    </div>
+  )
+}
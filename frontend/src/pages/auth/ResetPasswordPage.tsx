@@ -0,0 +1,132 @@
+import { useState } from 'react'
+import { Link, useSearchParams } from 'react-router-dom'
+import { useForm } from 'react-hook-form'
+import { authService } from '../../services/auth'
+import LoadingSpinner from '../../components/ui/LoadingSpinner'
+
+interface ResetPasswordForm {
+  password: string
+  confirmPassword: string
+}
+
+export default function ResetPasswordPage() {
+  const [searchParams] = useSearchParams()
+  const token = searchParams.get('token')
+  const [error, setError] = useState('')
+  const [completed, setCompleted] = useState(false)
+
+  const {
+    register,
+    handleSubmit,
+    watch,
+    formState: { errors, isSubmitting },
+  } = useForm<ResetPasswordForm>()
+
+  const onSubmit = async (data: ResetPasswordForm) => {
+    if (!token) return
+    try {
+      setError('')
+      await authService.resetPassword(token, data.password)
+      setCompleted(true)
+    } catch (err) {
+      setError((err as { message?: string }).message || 'Could not reset password')
+    }
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">
+          Choose a new password
+        </h2>
+
+        {!token ? (
+          <div className="bg-red-50 border border-red-200 rounded-md p-4">
+            <p className="text-sm text-red-600">
+              This reset link is incomplete. Request a new one from the{' '}
+              <Link to="/forgot-password" className="font-medium underline">forgot password</Link> page.
+            </p>
+          </div>
+        ) : completed ? (
+          <div className="bg-green-50 border border-green-200 rounded-md p-4">
+            <p className="text-sm text-green-700">
+              Your password has been reset. You can now sign in with it.
+            </p>
+          </div>
+        ) : (
+          <form className="space-y-6" onSubmit={handleSubmit(onSubmit)}>
+            {error && (
+              <div className="bg-red-50 border border-red-200 rounded-md p-4">
+                <p className="text-sm text-red-600">{error}</p>
+                <Link to="/forgot-password" className="mt-2 inline-block text-sm font-medium text-red-700 underline">
+                  Request a new link
+                </Link>
+              </div>
+            )}
+
+            <div className="space-y-4">
+              <div>
+                <label htmlFor="password" className="block text-sm font-medium text-gray-700">
+                  New password
+                </label>
+                <input
+                  id="password"
+                  {...register('password', {
+                    required: 'Password is required',
+                    minLength: {
+                      value: 8,
+                      message: 'Password must be at least 8 characters',
+                    },
+                    pattern: {
+                      value: /^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/,
+                      message: 'Password must contain a lowercase letter, an uppercase letter and a number',
+                    },
+                  })}
+                  type="password"
+                  autoComplete="new-password"
+                  className="mt-1 input-field w-full"
+                />
+                {errors.password && (
+                  <p className="mt-1 text-sm text-red-600">{errors.password.message}</p>
+                )}
+              </div>
+
+              <div>
+                <label htmlFor="confirmPassword" className="block text-sm font-medium text-gray-700">
+                  Confirm new password
+                </label>
+                <input
+                  id="confirmPassword"
+                  {...register('confirmPassword', {
+                    required: 'Please confirm your password',
+                    validate: value => value === watch('password') || 'Passwords do not match',
+                  })}
+                  type="password"
+                  autoComplete="new-password"
+                  className="mt-1 input-field w-full"
+                />
+                {errors.confirmPassword && (
+                  <p className="mt-1 text-sm text-red-600">{errors.confirmPassword.message}</p>
+                )}
+              </div>
+            </div>
+
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="w-full flex justify-center btn-primary disabled:opacity-50"
+            >
+              {isSubmitting ? <LoadingSpinner size="sm" /> : 'Reset password'}
+            </button>
+          </form>
+        )}
+
+        <p className="text-center text-sm text-gray-600">
+          <Link to="/login" className="font-medium text-primary-600 hover:text-primary-500">
+            Back to sign in
+          </Link>
+        </p>
+      </div>
+    </div>
+  )
+}
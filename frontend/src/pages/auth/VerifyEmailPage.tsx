@@ -0,0 +1,106 @@
+import { useEffect, useRef, useState } from 'react'
+import type { FormEvent } from 'react'
+import { Link, useSearchParams } from 'react-router-dom'
+import { authService } from '../../services/auth'
+import { useAuth } from '../../hooks/useAuth'
+import LoadingSpinner from '../../components/ui/LoadingSpinner'
+
+type VerifyStatus = 'verifying' | 'verified' | 'failed'
+
+export default function VerifyEmailPage() {
+  const [searchParams] = useSearchParams()
+  const token = searchParams.get('token')
+  const { user, isAuthenticated } = useAuth()
+  const [status, setStatus] = useState<VerifyStatus>(token ? 'verifying' : 'failed')
+  const [error, setError] = useState(token ? '' : 'This verification link is incomplete.')
+  const [resendEmail, setResendEmail] = useState(user?.email ?? '')
+  const [resendState, setResendState] = useState<'idle' | 'sending' | 'sent'>('idle')
+  // Tokens are single use, so never submit one twice (e.g. under StrictMode)
+  const submittedToken = useRef<string | null>(null)
+
+  useEffect(() => {
+    if (!token || submittedToken.current === token) return
+    submittedToken.current = token
+
+    authService.verifyEmail(token)
+      .then(() => setStatus('verified'))
+      .catch(err => {
+        setError((err as { message?: string }).message || 'Verification failed')
+        setStatus('failed')
+      })
+  }, [token])
+
+  const handleResend = async (e: FormEvent) => {
+    e.preventDefault()
+    setResendState('sending')
+    try {
+      await authService.resendVerification(resendEmail.trim())
+      setResendState('sent')
+    } catch (err) {
+      setError((err as { message?: string }).message || 'Could not send a new link')
+      setResendState('idle')
+    }
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8 text-center">
+        <h2 className="mt-6 text-3xl font-extrabold text-gray-900">
+          Email verification
+        </h2>
+
+        {status === 'verifying' && (
+          <div className="flex flex-col items-center space-y-3">
+            <LoadingSpinner />
+            <p className="text-sm text-gray-600">Verifying your email address...</p>
+          </div>
+        )}
+
+        {status === 'verified' && (
+          <div className="bg-green-50 border border-green-200 rounded-md p-4">
+            <p className="text-sm text-green-700">Your email address has been verified.</p>
+          </div>
+        )}
+
+        {status === 'failed' && (
+          <div className="bg-red-50 border border-red-200 rounded-md p-4 space-y-3">
+            <p className="text-sm text-red-600">{error}</p>
+            {resendState === 'sent' ? (
+              <p className="text-sm text-gray-700">
+                If that email is awaiting verification, a new link is on its way.
+              </p>
+            ) : (
+              <form onSubmit={handleResend} className="flex gap-2">
+                <input
+                  type="email"
+                  value={resendEmail}
+                  onChange={(e) => setResendEmail(e.target.value)}
+                  aria-label="Email address"
+                  placeholder="Enter your email"
+                  className="input-field flex-1"
+                  required
+                />
+                <button
+                  type="submit"
+                  disabled={resendState === 'sending'}
+                  className="btn-secondary disabled:opacity-50"
+                >
+                  {resendState === 'sending' ? 'Sending...' : 'Send a new link'}
+                </button>
+              </form>
+            )}
+          </div>
+        )}
+
+        <p className="text-sm text-gray-600">
+          <Link
+            to={isAuthenticated ? '/dashboard' : '/login'}
+            className="font-medium text-primary-600 hover:text-primary-500"
+          >
+            {isAuthenticated ? 'Go to dashboard' : 'Go to sign in'}
+          </Link>
+        </p>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,290 @@
+import { useState, useEffect, useCallback } from 'react'
+import { useParams, useNavigate } from 'react-router-dom'
+import { lessonService } from '../../services/lesson'
+import type { Gradebook, GradeScaleEntry, GradeStatus, LessonGrade } from '../../services/lesson'
+import { useAuth } from '../../hooks/useAuth'
+import { debug } from '../../utils/debug'
+
+const STATUS_STYLES: Record<GradeStatus, string> = {
+  IN_PROGRESS: 'bg-gray-100 text-gray-700',
+  COMPLETED: 'bg-green-100 text-green-800',
+  FAILED: 'bg-red-100 text-red-800',
+  RETRY_ALLOWED: 'bg-yellow-100 text-yellow-800'
+}
+
+const STATUS_LABELS: Record<GradeStatus, string> = {
+  IN_PROGRESS: 'In progress',
+  COMPLETED: 'Completed',
+  FAILED: 'Failed',
+  RETRY_ALLOWED: 'Retry allowed'
+}
+
+// Find a student's best score for one question in the stored breakdown
+function questionScore(grade: LessonGrade | null, questionId: string) {
+  for (const milestone of grade?.gradeBreakdown?.milestones || []) {
+    const entry = milestone.questions.find(question => question.questionId === questionId)
+    if (entry) return entry
+  }
+  return null
+}
+
+export default function LessonGradebookPage() {
+  const { lessonId } = useParams<{ lessonId: string }>()
+  const navigate = useNavigate()
+  const { user } = useAuth()
+
+  const [gradebook, setGradebook] = useState<Gradebook | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [scaleDraft, setScaleDraft] = useState<GradeScaleEntry[]>([])
+  const [scaleError, setScaleError] = useState<string | null>(null)
+  const [savingScale, setSavingScale] = useState(false)
+
+  const loadGradebook = useCallback(async () => {
+    if (!lessonId) return
+    setLoading(true)
+    setError(null)
+
+    try {
+      const data = await lessonService.getGradebook(lessonId)
+      setGradebook(data)
+      setScaleDraft(data.gradeScale)
+    } catch (err) {
+      debug.error('Error loading gradebook:', err)
+      setError((err as { message?: string }).message || 'Failed to load gradebook')
+    } finally {
+      setLoading(false)
+    }
+  }, [lessonId])
+
+  useEffect(() => {
+    loadGradebook()
+  }, [loadGradebook])
+
+  const handleScaleChange = (index: number, field: keyof GradeScaleEntry, value: string) => {
+    setScaleDraft(prev => prev.map((entry, i) => (
+      i === index
+        ? { ...entry, [field]: field === 'minPercent' ? Number(value) : value }
+        : entry
+    )))
+  }
+
+  const handleSaveScale = async () => {
+    if (!lessonId) return
+    setSavingScale(true)
+    setScaleError(null)
+
+    try {
+      await lessonService.updateGradeScale(lessonId, scaleDraft)
+      // Letters are recomputed server-side, so reload the grid
+      await loadGradebook()
+    } catch (err) {
+      debug.error('Error saving grade scale:', err)
+      setScaleError((err as { message?: string }).message || 'Failed to save grade scale')
+    } finally {
+      setSavingScale(false)
+    }
+  }
+
+  if (!user || (user.role !== 'TEACHER' && user.role !== 'ADMIN')) {
+    return (
+      <div className="p-6">
+        <div className="card text-center py-8">
+          <h3 className="text-lg font-semibold text-gray-900 mb-2">Access Denied</h3>
+          <p className="text-gray-600 mb-4">Only teachers and administrators can view gradebooks.</p>
+          <button onClick={() => navigate('/dashboard')} className="btn-primary">
+            Back to Dashboard
+          </button>
+        </div>
+      </div>
+    )
+  }
+
+  if (loading && !gradebook) {
+    return (
+      <div className="p-6">
+        <div className="flex items-center justify-center h-64">
+          <div className="text-center">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
+            <p className="text-gray-600">Loading gradebook...</p>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  if (error || !gradebook) {
+    return (
+      <div className="p-6">
+        <div className="card text-center py-8">
+          <h3 className="text-lg font-semibold text-gray-900 mb-2">Error Loading Gradebook</h3>
+          <p className="text-gray-600 mb-4">{error}</p>
+          <button onClick={() => navigate(`/teacher/lessons/${lessonId}`)} className="btn-primary">
+            Back to Lesson
+          </button>
+        </div>
+      </div>
+    )
+  }
+
+  const questionColumns = gradebook.columns.flatMap(column => column.questions)
+
+  return (
+    <div className="p-6">
+      {/* Header */}
+      <div className="mb-6">
+        <button
+          onClick={() => navigate(`/teacher/lessons/${lessonId}`)}
+          className="flex items-center text-blue-600 hover:text-blue-700 transition-colors mb-4"
+        >
+          <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M10 19l-7-7m0 0l7-7m-7 7h18" />
+          </svg>
+          Back to Lesson
+        </button>
+        <h1 className="text-2xl font-bold text-gray-900">Gradebook</h1>
+        <p className="text-gray-600 mt-1">
+          {gradebook.lesson.title} · {gradebook.rows.length} students · {gradebook.totalPoints} points
+        </p>
+      </div>
+
+      {/* Grade grid */}
+      <div className="card mb-6 overflow-x-auto">
+        {gradebook.rows.length === 0 ? (
+          <p className="text-center text-gray-500 py-8">No students have started this lesson yet.</p>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th rowSpan={2} className="px-3 py-2 text-left font-medium text-gray-700">Student</th>
+                {gradebook.columns.map(column => (
+                  <th
+                    key={column.milestoneId}
+                    colSpan={column.questions.length}
+                    className="px-3 py-2 text-center font-medium text-gray-700 border-l border-gray-200"
+                  >
+                    {column.title}
+                  </th>
+                ))}
+                <th rowSpan={2} className="px-3 py-2 text-right font-medium text-gray-700 border-l border-gray-200">Score</th>
+                <th rowSpan={2} className="px-3 py-2 text-center font-medium text-gray-700">Grade</th>
+                <th rowSpan={2} className="px-3 py-2 text-left font-medium text-gray-700">Status</th>
+              </tr>
+              <tr>
+                {questionColumns.map((question, index) => (
+                  <th
+                    key={question.id}
+                    title={question.text}
+                    className="px-3 py-1 text-center text-xs font-normal text-gray-500 border-l border-gray-200"
+                  >
+                    Q{index + 1} ({question.points} pt{question.points === 1 ? '' : 's'})
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {gradebook.rows.map(row => (
+                <tr key={row.student.id} className="hover:bg-gray-50">
+                  <td className="px-3 py-2 whitespace-nowrap">
+                    <div className="font-medium text-gray-900">{row.student.lastName}, {row.student.firstName}</div>
+                    <div className="text-xs text-gray-500">{row.student.email}</div>
+                  </td>
+                  {questionColumns.map(question => {
+                    const entry = questionScore(row.grade, question.id)
+                    return (
+                      <td
+                        key={question.id}
+                        title={entry ? `${entry.attempts} attempt${entry.attempts === 1 ? '' : 's'}` : 'Not attempted'}
+                        className={`px-3 py-2 text-center border-l border-gray-100 ${
+                          !entry || entry.bestScore === null
+                            ? 'text-gray-400'
+                            : entry.passed ? 'text-green-700' : 'text-red-700'
+                        }`}
+                      >
+                        {entry && entry.bestScore !== null ? `${Math.round(entry.bestScore)}%` : '—'}
+                      </td>
+                    )
+                  })}
+                  <td className="px-3 py-2 text-right border-l border-gray-100 whitespace-nowrap">
+                    {row.grade ? `${row.grade.percentageScore.toFixed(1)}%` : '—'}
+                  </td>
+                  <td className="px-3 py-2 text-center font-semibold text-gray-900">
+                    {row.grade?.letterGrade || '—'}
+                  </td>
+                  <td className="px-3 py-2">
+                    {row.grade ? (
+                      <span className={`px-2 py-1 rounded-full text-xs font-medium ${STATUS_STYLES[row.grade.status]}`}>
+                        {STATUS_LABELS[row.grade.status]}
+                      </span>
+                    ) : (
+                      <span className="text-gray-400">—</span>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {/* Letter-grade scale */}
+      <div className="card max-w-md">
+        <h2 className="text-lg font-semibold text-gray-900 mb-1">Letter Grade Scale</h2>
+        <p className="text-sm text-gray-600 mb-4">Minimum percentage for each letter. The lowest band must start at 0.</p>
+
+        <div className="space-y-2">
+          {scaleDraft.map((entry, index) => (
+            <div key={index} className="flex items-center space-x-2">
+              <input
+                type="text"
+                value={entry.letter}
+                onChange={(e) => handleScaleChange(index, 'letter', e.target.value)}
+                maxLength={5}
+                className="w-20 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <input
+                type="number"
+                min={0}
+                max={100}
+                value={entry.minPercent}
+                onChange={(e) => handleScaleChange(index, 'minPercent', e.target.value)}
+                className="w-24 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <span className="text-sm text-gray-500">% and above</span>
+              <button
+                type="button"
+                onClick={() => setScaleDraft(prev => prev.filter((_, i) => i !== index))}
+                disabled={scaleDraft.length <= 1}
+                className="text-sm text-red-600 hover:text-red-800 disabled:opacity-30"
+              >
+                Remove
+              </button>
+            </div>
+          ))}
+        </div>
+
+        {scaleError && (
+          <p className="mt-3 text-sm text-red-600">{scaleError}</p>
+        )}
+
+        <div className="flex justify-between mt-4">
+          <button
+            type="button"
+            onClick={() => setScaleDraft(prev => [...prev, { letter: '', minPercent: 0 }])}
+            className="btn-secondary"
+          >
+            Add Band
+          </button>
+          <button
+            type="button"
+            onClick={handleSaveScale}
+            disabled={savingScale}
+            className="btn-primary"
+          >
+            {savingScale ? 'Saving...' : 'Save Scale'}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
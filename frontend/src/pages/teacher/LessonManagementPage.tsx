@@ -13,6 +13,10 @@ import { VideoUploadForm } from '../../components/teacher/VideoUploadForm'
 import { MilestoneEditor } from '../../components/teacher/MilestoneEditor'
 import { QuestionEditor } from '../../components/teacher/QuestionEditor'
 import { AIQuestionGenerator } from '../../components/teacher/AIQuestionGenerator'
+import { VideoCaptionsManager } from '../../components/teacher/VideoCaptionsManager'
+import { EngagementHeatmap } from '../../components/teacher/EngagementHeatmap'
+import { SeekPolicySelector } from '../../components/teacher/SeekPolicySelector'
+import { RetakePolicyToggle } from '../../components/teacher/RetakePolicyToggle'
 
 // Wrapper component to handle VideoGroup creation
 interface VideoUploadFormWrapperProps {
@@ -285,6 +289,12 @@ export default function LessonManagementPage() {
             >
               Preview Lesson
             </button>
+            <button
+              onClick={() => navigate(`/teacher/lessons/${lesson.id}/gradebook`)}
+              className="btn-secondary"
+            >
+              Gradebook
+            </button>
             <button
               onClick={() => setShowVideoUpload(true)}
               className="btn-primary"
@@ -309,6 +319,15 @@ export default function LessonManagementPage() {
               onUploadClick={() => setShowVideoUpload(true)}
             />
           </div>
+
+          <div className="card mt-6">
+            <h2 className="text-lg font-semibold text-gray-900 mb-4">Lesson Settings</h2>
+            <RetakePolicyToggle
+              lessonId={lesson.id}
+              allowRetakes={lesson.allowRetakes ?? true}
+              onSaved={refreshLesson}
+            />
+          </div>
         </div>
 
         {/* Video Details & Milestones */}
@@ -336,9 +355,20 @@ export default function LessonManagementPage() {
                       Preview Video
                     </button>
                   </div>
+                  <SeekPolicySelector
+                    videoId={videoState.video.id}
+                    seekPolicy={videoState.video.seekPolicy || 'FREE'}
+                    onSaved={() => manager.loadVideo(videoState.video.id, true)}
+                  />
                 </div>
               </div>
 
+              {/* Captions */}
+              <VideoCaptionsManager videoId={videoState.video.id} />
+
+              {/* Engagement */}
+              <EngagementHeatmap videoId={videoState.video.id} />
+
               {/* Milestones */}
               <div className="card">
                 <div className="flex items-center justify-between mb-4">
@@ -2,10 +2,11 @@ import { useState, useEffect } from 'react'
 import { useParams, useNavigate } from 'react-router-dom'
 import { VideoPlayer } from '../../components/video/VideoPlayer'
 import { sessionService } from '../../services/video'
-import type { VideoSession } from '../../services/video'
+import type { VideoSession, QuestionAnswerValue, VideoAttempts } from '../../services/video'
 import { useVideoState, useSessionState } from '../../hooks/useVideoState'
 import { useVideoStateManager } from '../../contexts/VideoStateContext'
 import { ProgressCalculator } from '../../utils/progressCalculator'
+import { debug } from '../../utils/debug'
 
 export default function VideoPlayerPage() {
   const { videoId } = useParams<{ videoId: string }>()
@@ -47,6 +48,8 @@ export default function VideoPlayerPage() {
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [completionMessage, setCompletionMessage] = useState<string | null>(null)
+  const [attempts, setAttempts] = useState<VideoAttempts | null>(null)
+  const [retakeError, setRetakeError] = useState<string | null>(null)
 
   useEffect(() => {
     if (!videoId) {
@@ -58,6 +61,15 @@ export default function VideoPlayerPage() {
     loadSession()
   }, [videoId])
 
+  // A finished attempt may be followed by another, if the lesson allows retakes
+  useEffect(() => {
+    if (!videoId || session?.status !== 'COMPLETED') return
+
+    sessionService.getAttempts(videoId)
+      .then(setAttempts)
+      .catch(err => debug.error('Failed to load attempts:', err))
+  }, [videoId, session?.status])
+
   const loadSession = async () => {
     if (!videoId) return
 
@@ -102,6 +114,21 @@ export default function VideoPlayerPage() {
     return sessionState.session
   }
 
+  const handleRetake = async () => {
+    if (!videoId) return
+    setRetakeError(null)
+
+    try {
+      await sessionService.startRetake(videoId)
+      const sessionState = await manager.startOrResumeSession(videoId)
+      setSessionId(sessionState.session.id)
+      setCompletionMessage(null)
+    } catch (err) {
+      debug.error('Failed to start a new attempt:', err)
+      setRetakeError((err as { message?: string }).message || 'Failed to start a new attempt')
+    }
+  }
+
   const handleProgressUpdate = async (sessionId: string, currentTime: number, totalWatchTime: number) => {
     await manager.updateSessionProgress(sessionId, currentTime, totalWatchTime)
   }
@@ -110,15 +137,22 @@ export default function VideoPlayerPage() {
     await manager.markMilestoneReached(sessionId, milestoneId, timestamp)
   }
 
-  const handleAnswerSubmit = async (sessionId: string, questionId: string, answer: string, milestoneId: string) => {
+  const handleAnswerSubmit = async (sessionId: string, questionId: string, answer: QuestionAnswerValue, milestoneId: string) => {
     return await manager.submitAnswer(sessionId, questionId, answer, milestoneId)
   }
 
+  const handleHintRequest = async (sessionId: string, questionId: string) => {
+    return await manager.revealHint(sessionId, questionId)
+  }
+
   const handleSessionComplete = async (sessionId: string, finalTime: number, totalWatchTime: number) => {
-    const response = await sessionService.completeSession(sessionId, {
-      finalTime,
-      totalWatchTime
-    })
+    const response = await manager.completeSession(sessionId, finalTime, totalWatchTime)
+
+    if (!response) {
+      setCompletionMessage(`You've reached the end of ${video?.title || 'this video'}. Your completion will be saved when you're back online.`)
+      setTimeout(() => setCompletionMessage(null), 5000)
+      return
+    }
     
     // Show completion message
     if (response.status === 'COMPLETED') {
@@ -209,6 +243,20 @@ export default function VideoPlayerPage() {
         </div>
       )}
 
+      {/* Writes waiting for the connection */}
+      {!!sessionMeta?.pendingSync && (
+        <div className="mb-4 p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+          Offline: {sessionMeta.pendingSync} {sessionMeta.pendingSync === 1 ? 'change is' : 'changes are'} saved on this device and will sync automatically.
+        </div>
+      )}
+
+      {/* A write made offline that the server refused */}
+      {sessionMeta?.syncError && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800">
+          {sessionMeta.syncError}
+        </div>
+      )}
+
       {/* Completion Message */}
       {completionMessage && (
         <div className="mb-4 p-4 bg-green-50 border border-green-200 rounded-lg">
@@ -278,14 +326,34 @@ export default function VideoPlayerPage() {
         )
       })()}
 
-      {/* Interactive Video Player */}
+      {/* Retake */}
+      {session?.status === 'COMPLETED' && attempts?.allowRetakes && (
+        <div className="mb-6 card flex items-center justify-between">
+          <div>
+            <p className="font-medium text-gray-900">
+              You completed attempt {session.attemptNumber ?? 1} of this video.
+            </p>
+            <p className="text-sm text-gray-600">
+              Watch it again as a new attempt; your earlier attempts are kept.
+            </p>
+            {retakeError && <p className="text-sm text-red-600 mt-1">{retakeError}</p>}
+          </div>
+          <button onClick={handleRetake} className="btn-primary">
+            Watch Again
+          </button>
+        </div>
+      )}
+
+      {/* Interactive Video Player - a new attempt starts from a fresh player */}
       <VideoPlayer
+        key={session?.attemptNumber ?? 1}
         video={video}
         session={session}
         onSessionStart={handleSessionStart}
         onProgressUpdate={handleProgressUpdate}
         onMilestoneReached={handleMilestoneReached}
         onAnswerSubmit={handleAnswerSubmit}
+        onHintRequest={handleHintRequest}
         onSessionComplete={handleSessionComplete}
       />
       
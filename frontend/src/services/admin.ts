@@ -0,0 +1,205 @@
+import { apiService } from './api'
+import type { ApiResponse } from './video'
+
+export type AuditAction = 'CREATE' | 'UPDATE' | 'DELETE' | 'LOGIN' | 'LOGOUT' | 'VIEW' | 'DOWNLOAD' | 'UPLOAD'
+
+export const AUDIT_ACTIONS: AuditAction[] = ['CREATE', 'UPDATE', 'DELETE', 'LOGIN', 'LOGOUT', 'VIEW', 'DOWNLOAD', 'UPLOAD']
+
+export const AUDIT_RESOURCES = ['lesson', 'video', 'caption', 'milestone', 'question', 'user', 'session', 'ai_configuration', 'system_config'] as const
+
+export type AuditResource = typeof AUDIT_RESOURCES[number]
+
+export interface AuditLogEntry {
+  id: string
+  userId: string | null
+  action: AuditAction
+  resource: AuditResource
+  resourceId: string | null
+  changes: {
+    before?: Record<string, unknown>
+    after?: Record<string, unknown>
+  } | null
+  metadata: Record<string, unknown> | null
+  ipAddress: string | null
+  userAgent: string | null
+  createdAt: string
+  user: {
+    id: string
+    email: string
+    firstName: string
+    lastName: string
+    role: string
+  } | null
+}
+
+export interface AuditLogFilters {
+  page?: number
+  limit?: number
+  userId?: string
+  resource?: AuditResource
+  resourceId?: string
+  action?: AuditAction
+  from?: string // ISO 8601
+  to?: string // ISO 8601
+  search?: string
+}
+
+interface AuditLogResponse extends ApiResponse<{ logs: AuditLogEntry[] }> {
+  pagination: {
+    page: number
+    limit: number
+    total: number
+    totalPages: number
+  }
+}
+
+export const auditService = {
+  // Browse the audit trail, newest first (admin only)
+  async getAuditLogs(filters: AuditLogFilters = {}) {
+    const searchParams = new URLSearchParams()
+    for (const [key, value] of Object.entries(filters)) {
+      if (value !== undefined && value !== '') searchParams.append(key, String(value))
+    }
+
+    const response = await apiService.get<AuditLogResponse>(`/admin/audit?${searchParams}`)
+    return {
+      logs: response.data.logs,
+      pagination: response.pagination
+    }
+  }
+}
+
+export type AIConfigurationProvider = 'OPENAI' | 'CLAUDE' | 'CUSTOM'
+
+export const AI_CONFIGURATION_PROVIDERS: AIConfigurationProvider[] = ['OPENAI', 'CLAUDE', 'CUSTOM']
+
+export interface AIConfiguration {
+  id: string
+  provider: AIConfigurationProvider
+  name: string
+  endpoint: string | null
+  model: string
+  parameters: Record<string, unknown> | null
+  isActive: boolean
+  rateLimit: number | null // Requests per minute
+  maxTokens: number | null
+  costPerToken: number | null
+  monthlyBudget: number | null
+  hasApiKey: boolean
+  apiKeyPreview: string | null // Last characters only; the key itself is never returned
+  createdAt: string
+  updatedAt: string
+}
+
+export interface AIConfigurationInput {
+  provider: AIConfigurationProvider
+  name: string
+  model: string
+  apiKey?: string | null // Omit to keep the stored key, null to clear it
+  endpoint?: string | null
+  isActive?: boolean
+  rateLimit?: number | null
+  maxTokens?: number | null
+  costPerToken?: number | null
+  monthlyBudget?: number | null
+}
+
+export interface AIUsageTotals {
+  requests: number
+  failedRequests: number
+  tokensUsed: number
+  cost: number
+  averageResponseTime: number // Milliseconds
+}
+
+export interface AIUsageReport {
+  range: {
+    from: string
+    to: string
+  }
+  total: AIUsageTotals
+  byUser: (AIUsageTotals & {
+    user: {
+      id: string
+      firstName: string
+      lastName: string
+      email: string
+      role: string
+    } | null
+  })[]
+  byConfiguration: (AIUsageTotals & {
+    configurationId: string | null
+    provider: string
+    name: string | null // Null for environment providers and deleted configurations
+    model: string | null
+    budget: {
+      monthlyBudget: number
+      spentThisMonth: number
+    } | null
+  })[]
+}
+
+export const aiConfigService = {
+  // AI provider configurations (admin only)
+  async getConfigurations() {
+    const response = await apiService.get<ApiResponse<{ configurations: AIConfiguration[] }>>('/admin/ai/configurations')
+    return response.data.configurations
+  },
+
+  async createConfiguration(input: AIConfigurationInput) {
+    const response = await apiService.post<ApiResponse<AIConfiguration>>('/admin/ai/configurations', input)
+    return response.data
+  },
+
+  async updateConfiguration(id: string, input: Partial<AIConfigurationInput>) {
+    const response = await apiService.put<ApiResponse<AIConfiguration>>(`/admin/ai/configurations/${id}`, input)
+    return response.data
+  },
+
+  async deleteConfiguration(id: string) {
+    await apiService.delete<ApiResponse<void>>(`/admin/ai/configurations/${id}`)
+  },
+
+  // Usage per teacher and per configuration for a date range
+  async getUsageReport(range: { from?: string, to?: string } = {}) {
+    const searchParams = new URLSearchParams()
+    if (range.from) searchParams.append('from', range.from)
+    if (range.to) searchParams.append('to', range.to)
+
+    const response = await apiService.get<ApiResponse<AIUsageReport>>(`/admin/ai/usage?${searchParams}`)
+    return response.data
+  }
+}
+
+export type SettingType = 'integer' | 'boolean' | 'json'
+
+export interface RuntimeSetting {
+  key: string
+  category: string
+  description: string
+  type: SettingType
+  isPublic: boolean
+  value: unknown
+  defaultValue: unknown
+  overridden: boolean
+  updatedAt: string | null
+}
+
+export const settingsService = {
+  // Runtime settings stored in SystemConfig (admin only)
+  async getSettings() {
+    const response = await apiService.get<ApiResponse<{ settings: RuntimeSetting[] }>>('/admin/settings')
+    return response.data.settings
+  },
+
+  async updateSetting(key: string, value: unknown) {
+    const response = await apiService.put<ApiResponse<RuntimeSetting>>(`/admin/settings/${encodeURIComponent(key)}`, { value })
+    return response.data
+  },
+
+  // Drop the override so the default applies again
+  async resetSetting(key: string) {
+    const response = await apiService.delete<ApiResponse<RuntimeSetting>>(`/admin/settings/${encodeURIComponent(key)}`)
+    return response.data
+  }
+}
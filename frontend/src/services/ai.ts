@@ -1,6 +1,15 @@
 import { apiService } from './api'
 import type { ApiResponse } from './video'
 
+export type AIProviderName = 'OPENAI' | 'CLAUDE' | 'CUSTOM' | 'FIXTURE'
+
+export const AI_PROVIDER_LABELS: Record<AIProviderName, string> = {
+  OPENAI: 'OpenAI GPT',
+  CLAUDE: 'Anthropic Claude',
+  CUSTOM: 'Local model (OpenAI-compatible)',
+  FIXTURE: 'Fixture questions (offline)'
+}
+
 export interface GeneratedQuestion {
   type: 'MULTIPLE_CHOICE' | 'TRUE_FALSE' | 'SHORT_ANSWER'
   question: string
@@ -17,7 +26,7 @@ export interface GenerateQuestionsRequest {
   questionCount?: number
   questionTypes?: ('MULTIPLE_CHOICE' | 'TRUE_FALSE' | 'SHORT_ANSWER')[]
   difficulty?: 'EASY' | 'MEDIUM' | 'HARD'
-  provider?: 'OPENAI' | 'CLAUDE'
+  provider?: AIProviderName
 }
 
 export interface GenerateQuestionsResponse {
@@ -26,8 +35,35 @@ export interface GenerateQuestionsResponse {
   questions: GeneratedQuestion[]
 }
 
+export interface TranscriptQuestionsRequest {
+  milestoneId?: string
+  startTime?: number
+  endTime?: number
+  language?: string
+  questionCount?: number
+  questionTypes?: ('MULTIPLE_CHOICE' | 'TRUE_FALSE' | 'SHORT_ANSWER')[]
+  difficulty?: 'EASY' | 'MEDIUM' | 'HARD'
+  provider?: AIProviderName
+}
+
+export interface TranscriptQuestionsResponse extends GenerateQuestionsResponse {
+  transcriptWindow: {
+    start: number
+    end: number
+    language: string
+  }
+}
+
+export interface AcceptedMilestone {
+  id: string
+  timestamp: number
+  title: string
+  questionCount: number
+  created: boolean
+}
+
 export interface AIProvidersResponse {
-  providers: string[]
+  providers: AIProviderName[]
   hasAISupport: boolean
 }
 
@@ -55,7 +91,7 @@ export const aiService = {
     questionCount?: number
     questionTypes?: ('MULTIPLE_CHOICE' | 'TRUE_FALSE' | 'SHORT_ANSWER')[]
     difficulty?: 'EASY' | 'MEDIUM' | 'HARD'
-    provider?: 'OPENAI' | 'CLAUDE'
+    provider?: AIProviderName
   }) {
     const response = await apiService.post<ApiResponse<{ questionsAdded: number; milestone: any }>>(`/ai/generate-for-milestone/${milestoneId}`, request)
     
@@ -74,6 +110,23 @@ export const aiService = {
       throw new Error(response.error || 'Failed to generate milestone with questions')
     }
     
+    return response.data
+  },
+
+  // Generate question suggestions from the video's caption transcript
+  async generateFromTranscript(videoId: string, request: TranscriptQuestionsRequest): Promise<TranscriptQuestionsResponse> {
+    const response = await apiService.post<ApiResponse<TranscriptQuestionsResponse>>(`/ai/videos/${videoId}/transcript-questions`, request)
+    return response.data
+  },
+
+  // Save accepted suggestions into a milestone, or into new milestones at their suggested timestamps
+  async acceptSuggestions(videoId: string, request: {
+    questions: GeneratedQuestion[]
+    milestoneId?: string
+    milestoneTitle?: string
+    milestoneDescription?: string
+  }) {
+    const response = await apiService.post<ApiResponse<{ milestones: AcceptedMilestone[] }>>(`/ai/videos/${videoId}/suggestions/accept`, request)
     return response.data
   }
-}
\ No newline at end of file
+}
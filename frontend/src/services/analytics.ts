@@ -0,0 +1,179 @@
+import { apiService } from './api'
+import type { ApiResponse, ViewingAttempt } from './video'
+
+export interface DateRange {
+  from?: string // ISO 8601
+  to?: string // ISO 8601
+}
+
+export interface AdminDashboardData {
+  range: {
+    from: string
+    to: string
+  }
+  users: {
+    total: number
+    byRole: Record<'STUDENT' | 'TEACHER' | 'ADMIN', number>
+    byStatus: Record<'ACTIVE' | 'INACTIVE' | 'SUSPENDED' | 'PENDING_VERIFICATION', number>
+    newInRange: number
+    activeInRange: number
+  }
+  lessons: {
+    total: number
+    byStatus: Record<'DRAFT' | 'PUBLISHED' | 'ARCHIVED', number>
+    createdInRange: number
+  }
+  videos: {
+    total: number
+    byStatus: Record<'UPLOADING' | 'PROCESSING' | 'READY' | 'ERROR' | 'DRAFT', number>
+    uploadedInRange: number
+  }
+  storage: {
+    videoBytes: number
+    videoFiles: number
+    disk: {
+      totalBytes: number
+      freeBytes: number
+    } | null
+  }
+  processing: {
+    failedVideos: number
+    deadJobs: number
+    recentFailures: {
+      videoId: string
+      title: string
+      processingStatus: string | null
+      failedAt: string
+    }[]
+  }
+  ai: {
+    requests: number
+    failedRequests: number
+    tokensUsed: number
+    cost: number
+  }
+  recentActivity: {
+    id: string
+    action: string
+    resource: string
+    resourceId: string | null
+    createdAt: string
+    user: {
+      id: string
+      firstName: string
+      lastName: string
+      email: string
+    } | null
+  }[]
+}
+
+export interface HeatmapBucket {
+  second: number
+  views: number // Every pass over the second, rewatches included
+  viewers: number // Distinct viewers who watched the second
+  dropOffs: number // Viewers who stopped watching at this second
+}
+
+export interface EngagementHeatmapData {
+  videoId: string
+  duration: number
+  totalViewers: number
+  buckets: HeatmapBucket[]
+  milestones: {
+    id: string
+    title: string
+    timestamp: number
+    questions: {
+      id: string
+      text: string
+      attempts: number
+      accuracy: number | null
+    }[]
+  }[]
+}
+
+export interface ItemAnalysis {
+  questionId: string
+  text: string
+  type: string
+  students: number
+  totalAttempts: number
+  difficultyIndex: number | null // Share of students correct on their first attempt, 0-1
+  discriminationIndex: number | null // Upper minus lower scoring group, -1 to 1
+  distractors: {
+    index: number
+    text: string
+    isCorrect: boolean
+    selections: number
+    rate: number
+  }[] | null
+  otherSelections: number
+  medianTimeSpent: number | null
+  hintUsageRate: number | null
+  averageHintsUsed: number | null
+  correctAnswers: number
+  accuracy: number
+}
+
+export interface QuestionPerformanceData {
+  milestoneId: string
+  milestoneTitle: string
+  questions: ItemAnalysis[]
+}
+
+export interface StudentDashboardData {
+  lessonsEnrolled: number
+  lessonsCompleted: number
+  totalWatchTime: number // Seconds
+  averageScore: number
+  streak: number
+  recentProgress: {
+    videoId: string
+    lessonTitle: string
+    videoTitle: string
+    progress: number // Current attempt, percent
+    timestamp: string
+    attempts: ViewingAttempt[] // Oldest first
+  }[]
+  achievements: {
+    title: string
+    description: string
+    earnedAt: string
+  }[]
+}
+
+export const analyticsService = {
+  // The signed-in student's progress summary
+  async getStudentDashboard() {
+    const response = await apiService.get<ApiResponse<StudentDashboardData>>('/analytics/dashboard/student')
+    return response.data
+  },
+
+
+  // Platform-wide statistics for a date range (admin only)
+  async getAdminDashboard(range: DateRange = {}) {
+    const searchParams = new URLSearchParams()
+    if (range.from) searchParams.append('from', range.from)
+    if (range.to) searchParams.append('to', range.to)
+
+    const response = await apiService.get<ApiResponse<AdminDashboardData>>(`/analytics/dashboard/admin?${searchParams}`)
+    return response.data
+  },
+
+  // Second-by-second engagement for a video (lesson creator or admin)
+  async getEngagementHeatmap(videoId: string) {
+    const response = await apiService.get<ApiResponse<EngagementHeatmapData>>(`/analytics/engagement/heatmap/${videoId}`)
+    return response.data
+  },
+
+  // Item analysis for the questions of a milestone (lesson creator or admin)
+  async getQuestionPerformance(milestoneId: string) {
+    const response = await apiService.get<ApiResponse<QuestionPerformanceData>>(`/analytics/questions/${milestoneId}/performance`)
+    return response.data
+  },
+
+  // The same report as a CSV file
+  async exportQuestionPerformance(milestoneId: string) {
+    return apiService.get<Blob>(`/analytics/questions/${milestoneId}/performance?format=csv`, { responseType: 'blob' })
+  }
+}
@@ -0,0 +1,129 @@
+import { apiService } from './api'
+import type { ApiResponse } from './video'
+import TokenManager from './tokenManager'
+import { debug } from '../utils/debug'
+
+// Mirrors the server's event catalogue (src/services/analytics/eventCatalogue.ts)
+export interface AnalyticsEventPayloads {
+  video_play: { videoId: string, position: number }
+  video_pause: { videoId: string, position: number }
+  video_seek: { videoId: string, from: number, to: number }
+  video_rate_change: { videoId: string, position: number, rate: number }
+  video_ended: { videoId: string, position: number }
+  question_shown: { videoId: string, milestoneId: string, questionId: string }
+  question_answered: { videoId: string, milestoneId: string, questionId: string, isCorrect: boolean }
+}
+
+export type AnalyticsEventType = keyof AnalyticsEventPayloads
+
+interface QueuedEvent {
+  type: AnalyticsEventType
+  occurredAt: string
+  sessionId?: string
+  data: AnalyticsEventPayloads[AnalyticsEventType]
+}
+
+interface IngestResult {
+  enabled: boolean
+  accepted: number
+}
+
+const EVENTS_URL = `${import.meta.env.VITE_API_URL || 'http://localhost:3000/api/v1'}/analytics/events`
+const FLUSH_INTERVAL_MS = 30000
+const FLUSH_THRESHOLD = 25
+// Matches the server's batch limit; older events are dropped if the buffer overflows
+const MAX_BUFFER_SIZE = 100
+
+/**
+ * Buffers analytics events and sends them in batches: on a timer, when the
+ * buffer fills up, and with navigator.sendBeacon when the page is hidden or
+ * closed. Stops collecting once the server reports that analytics are off
+ * for this user.
+ */
+class AnalyticsTracker {
+  private buffer: QueuedEvent[] = []
+  private timer: ReturnType<typeof setTimeout> | null = null
+  private enabled = true
+  private listening = false
+
+  track<T extends AnalyticsEventType>(type: T, data: AnalyticsEventPayloads[T], sessionId?: string) {
+    if (!this.enabled) return
+
+    this.listen()
+    this.buffer.push({ type, occurredAt: new Date().toISOString(), sessionId, data })
+    if (this.buffer.length > MAX_BUFFER_SIZE) {
+      this.buffer.splice(0, this.buffer.length - MAX_BUFFER_SIZE)
+    }
+
+    if (this.buffer.length >= FLUSH_THRESHOLD) {
+      void this.flush()
+    } else if (!this.timer) {
+      this.timer = setTimeout(() => void this.flush(), FLUSH_INTERVAL_MS)
+    }
+  }
+
+  // Send buffered events now; failed batches are put back for the next attempt
+  async flush() {
+    this.clearTimer()
+    if (this.buffer.length === 0) return
+
+    const events = this.buffer.splice(0, MAX_BUFFER_SIZE)
+    try {
+      const response = await apiService.post<ApiResponse<IngestResult>>('/analytics/events', { events })
+      if (!response.data.enabled) {
+        this.disable()
+      }
+    } catch (error) {
+      debug.warn('Failed to send analytics events:', error)
+      const status = (error as { status?: number }).status
+      // Malformed batches will never be accepted; anything else can be retried
+      if (status !== 400 && status !== 401 && status !== 403) {
+        this.buffer.unshift(...events.slice(0, MAX_BUFFER_SIZE - this.buffer.length))
+      }
+    }
+  }
+
+  // Last-chance delivery while the page is going away; fetch may be cancelled, beacons are not
+  flushWithBeacon() {
+    this.clearTimer()
+    if (this.buffer.length === 0) return
+
+    const accessToken = TokenManager.getAccessToken()
+    if (!accessToken || typeof navigator.sendBeacon !== 'function') {
+      void this.flush()
+      return
+    }
+
+    const events = this.buffer.splice(0, MAX_BUFFER_SIZE)
+    const body = new Blob([JSON.stringify({ accessToken, events })], { type: 'text/plain' })
+    if (!navigator.sendBeacon(EVENTS_URL, body)) {
+      this.buffer.unshift(...events)
+      void this.flush()
+    }
+  }
+
+  private disable() {
+    this.enabled = false
+    this.buffer = []
+    this.clearTimer()
+  }
+
+  private clearTimer() {
+    if (this.timer) {
+      clearTimeout(this.timer)
+      this.timer = null
+    }
+  }
+
+  private listen() {
+    if (this.listening) return
+    this.listening = true
+
+    window.addEventListener('pagehide', () => this.flushWithBeacon())
+    document.addEventListener('visibilitychange', () => {
+      if (document.visibilityState === 'hidden') this.flushWithBeacon()
+    })
+  }
+}
+
+export const analyticsTracker = new AnalyticsTracker()
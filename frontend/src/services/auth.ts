@@ -1,6 +1,6 @@
 import { apiService } from './api'
 import TokenManager from './tokenManager'
-import type { AuthResponse, LoginCredentials, RegisterData, User } from '../types/auth'
+import type { AuthResponse, LoginCredentials, LoginSession, RegisterData, User } from '../types/auth'
 import { debug } from '../utils/debug'
 
 class AuthService {
@@ -129,20 +129,81 @@ class AuthService {
     }
   }
 
+  /**
+   * Verify email address with the token from a verification link
+   */
+  async verifyEmail(token: string): Promise<void> {
+    await apiService.post('/auth/verify-email', { token })
+  }
+
+  /**
+   * Email a new verification link. Like password resets, the server does not
+   * reveal whether the email is registered.
+   */
+  async resendVerification(email: string): Promise<void> {
+    await apiService.post('/auth/resend-verification', { email })
+  }
+
+  /**
+   * Request a password reset link. The server answers the same way whether
+   * or not the email is registered.
+   */
+  async forgotPassword(email: string): Promise<void> {
+    await apiService.post('/auth/forgot-password', { email })
+  }
+
+  /**
+   * Set a new password with the token from a reset link
+   */
+  async resetPassword(token: string, password: string): Promise<void> {
+    await apiService.post('/auth/reset-password', { token, password })
+  }
+
   /**
    * Logout user and clear tokens
    */
   logout(): void {
+    const refreshToken = TokenManager.getRefreshToken()
+
     // Clear tokens using TokenManager
     TokenManager.clearTokens()
     
     // Remove auth token from API service
     apiService.removeAuthToken()
     
-    // Optional: Call logout endpoint to invalidate server-side session
-    apiService.post('/auth/logout').catch(() => {
-      // Ignore logout API errors
-    })
+    // Revoke this session on the server so the refresh token cannot be reused
+    if (refreshToken) {
+      apiService.post('/auth/logout', { refreshToken }).catch(() => {
+        // Ignore logout API errors
+      })
+    }
+  }
+
+  /**
+   * Revoke every session of the current user, then clear local tokens
+   */
+  async logoutEverywhere(): Promise<void> {
+    try {
+      await apiService.post('/auth/logout-all')
+    } finally {
+      TokenManager.clearTokens()
+      apiService.removeAuthToken()
+    }
+  }
+
+  /**
+   * Devices the current user is signed in on
+   */
+  async getSessions(): Promise<LoginSession[]> {
+    const response = await apiService.get<{ success: boolean; data: LoginSession[] }>('/auth/sessions')
+    return response.data
+  }
+
+  /**
+   * Sign out one of the current user's devices
+   */
+  async terminateSession(sessionId: string): Promise<void> {
+    await apiService.delete(`/auth/sessions/${sessionId}`)
   }
 
   /**
@@ -0,0 +1,24 @@
+import { apiService } from './api'
+import type { ApiResponse } from './video'
+
+// Settings served by GET /config/public; admins change them at runtime
+export interface PublicConfig {
+  'video.maxFileSizeMb'?: number
+  'analytics.enabled'?: boolean
+  [key: string]: unknown
+}
+
+let publicConfig: Promise<PublicConfig> | null = null
+
+export const configService = {
+  // Fetched once per page load; a failed request is retried on the next call
+  getPublicConfig(): Promise<PublicConfig> {
+    publicConfig ??= apiService.get<ApiResponse<PublicConfig>>('/config/public')
+      .then(response => response.data)
+      .catch(err => {
+        publicConfig = null
+        throw err
+      })
+    return publicConfig
+  }
+}
@@ -71,6 +71,7 @@ export interface Lesson {
   difficulty: 'beginner' | 'intermediate' | 'advanced' | null
   tags: string[]
   metadata: any | null
+  allowRetakes?: boolean // Students may rewatch a completed video as a new attempt
   createdAt: string
   updatedAt: string
   publishedAt: string | null
@@ -104,6 +105,7 @@ export interface CreateLessonRequest {
   difficulty?: 'beginner' | 'intermediate' | 'advanced'
   tags?: string[]
   order?: number
+  allowRetakes?: boolean
 }
 
 export interface UpdateLessonRequest {
@@ -115,9 +117,83 @@ export interface UpdateLessonRequest {
   difficulty?: 'beginner' | 'intermediate' | 'advanced'
   tags?: string[]
   order?: number
+  allowRetakes?: boolean
   status?: 'DRAFT' | 'PUBLISHED' | 'ARCHIVED'
 }
 
+export interface GradeScaleEntry {
+  letter: string
+  minPercent: number
+}
+
+export type GradeStatus = 'IN_PROGRESS' | 'COMPLETED' | 'FAILED' | 'RETRY_ALLOWED'
+
+export interface QuestionGradeBreakdown {
+  questionId: string
+  points: number
+  passThreshold: number
+  attempts: number
+  bestScore: number | null
+  passed: boolean
+  earnedPoints: number
+  remainingAttempts: number
+}
+
+export interface LessonGrade {
+  id: string
+  studentId: string
+  totalPoints: number
+  earnedPoints: number
+  percentageScore: number
+  letterGrade: string | null
+  status: GradeStatus
+  totalAttempts: number
+  remainingAttempts: number
+  gradeBreakdown: {
+    earnedPoints: number
+    scale: GradeScaleEntry[]
+    milestones: {
+      milestoneId: string
+      title: string
+      totalPoints: number
+      earnedPoints: number
+      questions: QuestionGradeBreakdown[]
+    }[]
+  } | null
+  updatedAt: string
+  finalizedAt: string | null
+}
+
+export interface Gradebook {
+  lesson: {
+    id: string
+    title: string
+  }
+  gradeScale: GradeScaleEntry[]
+  totalPoints: number
+  columns: {
+    milestoneId: string
+    title: string
+    questions: { id: string; text: string; points: number }[]
+  }[]
+  rows: {
+    student: {
+      id: string
+      firstName: string
+      lastName: string
+      email: string
+    }
+    progress: {
+      isCompleted: boolean
+      completionPercent: number
+      averageScore: number
+      totalAttempts: number
+      successfulAttempts: number
+    }
+    grade: LessonGrade | null
+  }[]
+}
+
 export const lessonService = {
   // Create a new lesson
   async createLesson(data: CreateLessonRequest): Promise<Lesson> {
@@ -206,5 +282,27 @@ export const lessonService = {
     if (!response.success) {
       throw new Error(response.error || 'Failed to delete lesson')
     }
+  },
+
+  // Get the gradebook for a lesson (teachers only)
+  async getGradebook(id: string): Promise<Gradebook> {
+    const response = await apiService.get<ApiResponse<Gradebook>>(`/lessons/${id}/gradebook`)
+    
+    if (!response.success) {
+      throw new Error(response.error || 'Failed to fetch gradebook')
+    }
+    
+    return response.data
+  },
+
+  // Replace the lesson's letter-grade scale
+  async updateGradeScale(id: string, gradeScale: GradeScaleEntry[]): Promise<GradeScaleEntry[]> {
+    const response = await apiService.put<ApiResponse<GradeScaleEntry[]>>(`/lessons/${id}/grade-scale`, { gradeScale })
+    
+    if (!response.success) {
+      throw new Error(response.error || 'Failed to update grade scale')
+    }
+    
+    return response.data
   }
 }
\ No newline at end of file
@@ -0,0 +1,200 @@
+import { createSHA256 } from 'hash-wasm'
+import { videoService } from './video'
+import type { Video } from './video'
+import { debug } from '../utils/debug'
+
+// Chunks are small enough to retry cheaply and well under the server's limit
+const CHUNK_SIZE = 8 * 1024 * 1024
+const HASH_BLOCK_SIZE = 16 * 1024 * 1024
+const MAX_CHUNK_RETRIES = 5
+const STORAGE_PREFIX = 'pendingVideoUpload:'
+
+// What we remember about an unfinished upload so it survives a page reload
+export interface PendingUpload {
+  videoId: string
+  groupId: string
+  title: string
+  fileName: string
+  size: number
+  lastModified: number
+  uploadedBytes: number
+}
+
+export type UploadPhase = 'hashing' | 'uploading'
+
+// Shape of errors thrown by apiService for failed chunk requests
+interface ChunkUploadError {
+  status?: number
+  data?: {
+    code?: string
+    details?: { offset: number }
+  }
+}
+
+interface UploadCallbacks {
+  onPhase?: (phase: UploadPhase) => void
+  onProgress?: (percent: number) => void
+}
+
+const storageKey = (groupId: string, file: { name: string, size: number, lastModified: number }) =>
+  `${STORAGE_PREFIX}${groupId}:${file.name}:${file.size}:${file.lastModified}`
+
+const savePending = (upload: PendingUpload) => {
+  localStorage.setItem(
+    storageKey(upload.groupId, { name: upload.fileName, size: upload.size, lastModified: upload.lastModified }),
+    JSON.stringify(upload)
+  )
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+export const resumableUploadService = {
+  // Unfinished uploads started in this browser for a video group
+  listPendingUploads(groupId: string): PendingUpload[] {
+    const uploads: PendingUpload[] = []
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i)
+      if (!key?.startsWith(`${STORAGE_PREFIX}${groupId}:`)) continue
+      try {
+        uploads.push(JSON.parse(localStorage.getItem(key)!))
+      } catch {
+        localStorage.removeItem(key)
+      }
+    }
+    return uploads
+  },
+
+  // The pending upload for this exact file, if any
+  findPendingUpload(groupId: string, file: File): PendingUpload | null {
+    const stored = localStorage.getItem(storageKey(groupId, file))
+    return stored ? JSON.parse(stored) : null
+  },
+
+  // Forget an unfinished upload and delete its partial video on the server
+  async discardPendingUpload(upload: PendingUpload) {
+    localStorage.removeItem(
+      storageKey(upload.groupId, { name: upload.fileName, size: upload.size, lastModified: upload.lastModified })
+    )
+    try {
+      await videoService.deleteVideo(upload.videoId)
+    } catch (error) {
+      debug.warn('Could not delete abandoned upload:', error)
+    }
+  },
+
+  // SHA-256 of the whole file, read in blocks so large videos never sit in memory
+  async computeChecksum(file: File, onProgress?: (percent: number) => void): Promise<string> {
+    const hasher = await createSHA256()
+    hasher.init()
+    for (let offset = 0; offset < file.size; offset += HASH_BLOCK_SIZE) {
+      const block = await file.slice(offset, offset + HASH_BLOCK_SIZE).arrayBuffer()
+      hasher.update(new Uint8Array(block))
+      onProgress?.(Math.round(Math.min(offset + HASH_BLOCK_SIZE, file.size) * 100 / file.size))
+    }
+    return hasher.digest('hex')
+  },
+
+  /**
+   * Upload a file in chunks, resuming a previous attempt for the same file if
+   * the server still has it. Resolves with the video once the server has
+   * verified the checksum.
+   */
+  async upload(
+    groupId: string,
+    file: File,
+    data: { title: string, description?: string },
+    callbacks: UploadCallbacks = {}
+  ): Promise<Video> {
+    let pending = this.findPendingUpload(groupId, file)
+    let offset = 0
+
+    if (pending) {
+      try {
+        const status = await videoService.getUploadStatus(pending.videoId)
+        if (status.status === 'UPLOADING') {
+          offset = status.offset
+        } else {
+          pending = null
+        }
+      } catch (error) {
+        debug.warn('Previous upload is no longer available, starting over:', error)
+        pending = null
+      }
+      if (!pending) {
+        localStorage.removeItem(storageKey(groupId, file))
+      }
+    }
+
+    if (!pending) {
+      callbacks.onPhase?.('hashing')
+      const checksum = await this.computeChecksum(file, callbacks.onProgress)
+
+      const { video } = await videoService.startResumableUpload(groupId, {
+        title: data.title,
+        description: data.description,
+        fileName: file.name,
+        size: file.size,
+        mimeType: file.type,
+        checksum
+      })
+
+      pending = {
+        videoId: video.id,
+        groupId,
+        title: data.title,
+        fileName: file.name,
+        size: file.size,
+        lastModified: file.lastModified,
+        uploadedBytes: 0
+      }
+      savePending(pending)
+    }
+
+    callbacks.onPhase?.('uploading')
+    callbacks.onProgress?.(Math.round(offset * 100 / file.size))
+
+    let failures = 0
+    while (true) {
+      const chunk = file.slice(offset, offset + CHUNK_SIZE)
+
+      try {
+        const result = await videoService.uploadChunk(pending.videoId, offset, chunk, (loaded) => {
+          callbacks.onProgress?.(Math.round((offset + loaded) * 100 / file.size))
+        })
+
+        offset = result.upload.offset
+        failures = 0
+        pending.uploadedBytes = offset
+        savePending(pending)
+
+        if (result.video) {
+          localStorage.removeItem(storageKey(groupId, file))
+          return result.video
+        }
+      } catch (error) {
+        const failure = error as ChunkUploadError
+        const code = failure?.data?.code
+
+        if (code === 'UPLOAD_OFFSET_MISMATCH' && failure.data?.details) {
+          // The server has a different byte count (e.g. a chunk landed partially); continue from there
+          offset = failure.data.details.offset
+          continue
+        }
+
+        if (code === 'CHECKSUM_MISMATCH' || code === 'UPLOAD_NOT_ACTIVE' || failure?.status === 404) {
+          localStorage.removeItem(storageKey(groupId, file))
+          throw error
+        }
+
+        failures++
+        if (failures > MAX_CHUNK_RETRIES) {
+          throw error
+        }
+
+        debug.warn(`Chunk upload failed, retrying (${failures}/${MAX_CHUNK_RETRIES}):`, error)
+        await sleep(1000 * 2 ** failures)
+        offset = (await videoService.getUploadStatus(pending.videoId).catch(() => ({ offset }))).offset
+      }
+    }
+  }
+}
@@ -46,6 +46,9 @@ export interface VideoGroup {
   }
 }
 
+// How far students may seek; the server rejects progress that breaks it
+export type SeekPolicy = 'FREE' | 'NO_SEEK_AHEAD' | 'WATCHED_RANGE'
+
 export interface Video {
   id: string
   title: string
@@ -68,7 +71,9 @@ export interface Video {
   updatedAt?: string
   uploadedAt?: string
   processedAt?: string | null
+  seekPolicy?: SeekPolicy
   milestones?: Milestone[]
+  captions?: VideoCaption[]
   videoGroup?: {
     id: string
     title: string
@@ -94,6 +99,8 @@ export interface Milestone {
   title: string
   description: string | null
   type: 'PAUSE' | 'QUIZ' | 'CHECKPOINT'
+  isRequired?: boolean
+  retryLimit?: number
   createdAt: string
   questions?: Question[]
   _count?: {
@@ -101,15 +108,32 @@ export interface Milestone {
   }
 }
 
+export type QuestionType = 'MULTIPLE_CHOICE' | 'TRUE_FALSE' | 'SHORT_ANSWER' | 'FILL_IN_BLANK' | 'MATCHING' | 'ORDERING'
+
+// Types the teacher question editor can author
+export type EditableQuestionType = Exclude<QuestionType, 'FILL_IN_BLANK'>
+
+export interface MatchingPair {
+  left: number
+  right: number
+}
+
+// Answer payload: choice/text questions send a string, ORDERING sends item
+// indices in the chosen order and MATCHING sends left/right index pairs
+export type QuestionAnswerValue = string | number[] | MatchingPair[]
+
 export interface Question {
   id: string
   milestoneId: string
-  type: 'MULTIPLE_CHOICE' | 'TRUE_FALSE' | 'SHORT_ANSWER' | 'FILL_IN_BLANK'
+  type: QuestionType
   text: string  // Backend returns 'text', not 'question'
   explanation: string | null
   questionData: any  // Contains correctAnswer, options, etc. based on type
   points?: number
   passThreshold?: number
+  timeLimit?: number | null  // Seconds allowed per attempt
+  hints?: string[]
+  hintPenalty?: number  // Fraction of the score deducted per revealed hint
   createdAt: string
   createdById?: string
   status?: 'DRAFT' | 'PUBLISHED' | 'ARCHIVED'
@@ -128,7 +152,9 @@ export interface VideoSession {
   videoId: string
   studentId: string
   currentPosition: number
+  furthestPosition?: number // Furthest point reached by watching rather than seeking
   status: 'ACTIVE' | 'PAUSED' | 'COMPLETED'
+  attemptNumber?: number // Viewing attempt of the video, from 1
   completedAt: string | null
   createdAt: string
   lastSeenAt: string
@@ -142,6 +168,25 @@ export interface VideoSession {
   questionAttempts?: QuestionAttempt[]
 }
 
+// One viewing attempt of a video in a student's history
+export interface ViewingAttempt {
+  sessionId: string
+  attemptNumber: number
+  status: 'ACTIVE' | 'PAUSED' | 'COMPLETED' | 'ABANDONED'
+  isCurrent: boolean
+  startedAt: string
+  completedAt: string | null
+  lastSeenAt: string
+  progress: number // Percent of the video
+  answers: number
+  score: number | null // Percent of answers correct
+}
+
+export interface VideoAttempts {
+  allowRetakes: boolean
+  attempts: ViewingAttempt[]
+}
+
 export interface MilestoneProgress {
   id: string
   sessionId: string
@@ -171,6 +216,62 @@ export interface QuestionAttempt {
   question?: Question
 }
 
+export interface HintReveal {
+  hint: string
+  hintNumber: number
+  totalHints: number
+  hintsRemaining: number
+  hintPenalty: number
+  scoreDeduction: number
+}
+
+export interface QuestionAttemptHistory {
+  questionId: string
+  retryLimit: number
+  timeLimit: number | null
+  students: {
+    student: {
+      id: string
+      firstName: string
+      lastName: string
+      email: string
+    }
+    attempts: QuestionAttempt[]
+    bestScore: number
+    attemptsUsed: number
+    remainingAttempts: number
+  }[]
+}
+
+export interface VideoCaption {
+  language: string
+  label: string
+  updatedAt?: string
+}
+
+export interface VideoCaptionList {
+  captions: VideoCaption[]
+  // Track to show by default, from the viewer's subtitle preference (null = off)
+  defaultLanguage: string | null
+}
+
+// Short-lived signed URLs for one video's media, see POST /videos/:id/playback-token
+export interface PlaybackUrls {
+  token: string
+  expiresAt: string
+  streamUrl: string
+  hlsUrl: string | null // Present once the video has been transcoded
+  thumbnailUrl: string | null
+}
+
+export interface ResumableUploadStatus {
+  videoId: string
+  status: string
+  offset: number
+  size: number
+  maxChunkSize: number
+}
+
 // Video Groups API
 export const videoService = {
   // Get all video groups (paginated)
@@ -285,21 +386,57 @@ export const videoService = {
     return response.data
   },
 
-  // Get video streaming URL with authentication token
-  getStreamingUrl(videoId: string) {
-    const baseUrl = `${import.meta.env.VITE_API_URL || 'http://localhost:3000/api/v1'}/videos/${videoId}/stream`
-    const token = localStorage.getItem('accessToken')
-    
-    if (token) {
-      return `${baseUrl}?token=${encodeURIComponent(token)}`
-    }
-    
-    return baseUrl
+  // Start a resumable (chunked) upload; the video stays UPLOADING until every chunk arrives
+  async startResumableUpload(groupId: string, data: {
+    title: string
+    description?: string
+    fileName: string
+    size: number
+    mimeType: string
+    checksum: string
+  }) {
+    const { title, description, ...upload } = data
+    const response = await apiService.post<ApiResponse<{ video: Video, upload: ResumableUploadStatus }>>(
+      `/videos/groups/${groupId}/videos`,
+      { title, description, upload }
+    )
+    return response.data
+  },
+
+  // Get how many bytes of a resumable upload the server has received
+  async getUploadStatus(videoId: string) {
+    const response = await apiService.get<ApiResponse<ResumableUploadStatus>>(`/videos/${videoId}/upload`)
+    return response.data
+  },
+
+  // Append one chunk of a resumable upload at the given byte offset
+  async uploadChunk(videoId: string, offset: number, chunk: Blob, onProgress?: (loaded: number) => void) {
+    const response = await apiService.patch<ApiResponse<{ upload: ResumableUploadStatus, video: Video | null }>>(
+      `/videos/${videoId}/upload`,
+      chunk,
+      {
+        headers: {
+          'Content-Type': 'application/offset+octet-stream',
+          'Upload-Offset': String(offset)
+        },
+        timeout: 5 * 60 * 1000, // Chunks can take a while on slow connections
+        onUploadProgress: (progressEvent) => {
+          onProgress?.(progressEvent.loaded)
+        }
+      }
+    )
+    return response.data
+  },
+
+  // Issue signed stream, HLS and thumbnail URLs; media elements cannot send the bearer header
+  async getPlaybackUrls(videoId: string) {
+    const response = await apiService.post<ApiResponse<PlaybackUrls>>(`/videos/${videoId}/playback-token`)
+    return response.data
   },
 
-  // Get video thumbnail URL
-  getThumbnailUrl(videoId: string) {
-    return `${import.meta.env.VITE_API_URL || 'http://localhost:3000/api/v1'}/videos/${videoId}/thumbnail`
+  // Whether the video has been transcoded into an HLS rendition ladder
+  hasHlsStream(video: Video) {
+    return !!video.metadata?.hls?.masterPlaylist
   },
 
   // Get specific video
@@ -316,6 +453,7 @@ export const videoService = {
     videoUrl?: string
     duration?: number
     thumbnailUrl?: string
+    seekPolicy?: SeekPolicy
   }) {
     const response = await apiService.put<ApiResponse<Video>>(`/videos/${videoId}`, data)
     return response.data
@@ -328,16 +466,58 @@ export const videoService = {
   }
 }
 
+// Shuffle a list and report where each original index ended up, so students
+// cannot read the answer off the stored item order
+function shuffleWithIndexMap<T>(items: T[]): { shuffled: T[]; newIndexOf: number[] } {
+  const order = items.map((_, index) => index)
+  for (let i = order.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1))
+    ;[order[i], order[j]] = [order[j], order[i]]
+  }
+  const newIndexOf: number[] = []
+  order.forEach((originalIndex, position) => {
+    newIndexOf[originalIndex] = position
+  })
+  return { shuffled: order.map(index => items[index]), newIndexOf }
+}
+
+// Build backend questionData for MATCHING/ORDERING from teacher input given
+// in the correct order (pairs side by side, items first to last)
+function buildStructuredQuestionData(type: 'MATCHING' | 'ORDERING', data: {
+  matchingPairs?: { left: string; right: string }[]
+  orderedItems?: string[]
+}) {
+  if (type === 'MATCHING') {
+    const pairs = data.matchingPairs || []
+    const { shuffled, newIndexOf } = shuffleWithIndexMap(pairs.map(pair => pair.right))
+    return {
+      leftItems: pairs.map(pair => pair.left),
+      rightItems: shuffled,
+      correctMatches: pairs.map((_, index) => ({ left: index, right: newIndexOf[index] }))
+    }
+  }
+
+  const items = data.orderedItems || []
+  const { shuffled, newIndexOf } = shuffleWithIndexMap(items)
+  return {
+    items: shuffled,
+    correctOrder: items.map((_, index) => newIndexOf[index]),
+    scoringMethod: 'kendall'
+  }
+}
+
 // Question API
 export const questionService = {
   // Create question
   async createQuestion(data: {
     milestoneId: string
-    type: 'MULTIPLE_CHOICE' | 'TRUE_FALSE' | 'SHORT_ANSWER'
+    type: EditableQuestionType
     question: string
     correctAnswer: string
     explanation?: string
     options?: string[]
+    matchingPairs?: { left: string; right: string }[]
+    orderedItems?: string[]
   }) {
     // Transform frontend data to match backend expectations
     let questionData: any = {}
@@ -364,6 +544,10 @@ export const questionService = {
           caseSensitive: false
         }
         break
+      case 'MATCHING':
+      case 'ORDERING':
+        questionData = buildStructuredQuestionData(data.type, data)
+        break
     }
     
     const requestData = {
@@ -384,13 +568,21 @@ export const questionService = {
     return (response as any).data
   },
 
+  // Get every student's attempts for a question (teachers only)
+  async getQuestionAttempts(questionId: string): Promise<QuestionAttemptHistory> {
+    const response = await apiService.get<ApiResponse<QuestionAttemptHistory>>(`/questions/${questionId}/attempts`)
+    return (response as any).data
+  },
+
   // Update question
   async updateQuestion(questionId: string, data: {
-    type?: 'MULTIPLE_CHOICE' | 'TRUE_FALSE' | 'SHORT_ANSWER'
+    type?: EditableQuestionType
     question?: string
     correctAnswer?: string
     explanation?: string
     options?: string[]
+    matchingPairs?: { left: string; right: string }[]
+    orderedItems?: string[]
   }) {
     // Transform frontend data to match backend expectations
     const requestData: any = {}
@@ -399,7 +591,8 @@ export const questionService = {
     if (data.explanation !== undefined) requestData.explanation = data.explanation
     
     // Only set questionData if we have relevant data to update
-    if ((data.correctAnswer !== undefined || data.options !== undefined) && data.type) {
+    if ((data.correctAnswer !== undefined || data.options !== undefined ||
+         data.matchingPairs !== undefined || data.orderedItems !== undefined) && data.type) {
       let questionData: any = {}
       
       switch (data.type) {
@@ -422,6 +615,10 @@ export const questionService = {
             caseSensitive: false
           }
           break
+        case 'MATCHING':
+        case 'ORDERING':
+          questionData = buildStructuredQuestionData(data.type, data)
+          break
       }
       
       requestData.questionData = questionData
@@ -488,6 +685,45 @@ export const milestoneService = {
   }
 }
 
+// Caption API
+export const captionService = {
+  // List caption tracks for a video
+  async getCaptions(videoId: string) {
+    const response = await apiService.get<ApiResponse<VideoCaptionList>>(`/videos/${videoId}/captions`)
+    return response.data
+  },
+
+  // Get the WebVTT text of a caption track
+  async getCaptionText(videoId: string, language: string) {
+    return apiService.get<string>(`/videos/${videoId}/captions/${language}`, { responseType: 'text' })
+  },
+
+  // Upload or replace a caption track (WebVTT or SRT)
+  async uploadCaption(videoId: string, language: string, label: string, file: File) {
+    const formData = new FormData()
+    formData.append('caption', file)
+    formData.append('label', label)
+
+    const response = await apiService.put<ApiResponse<VideoCaption>>(`/videos/${videoId}/captions/${language}`, formData)
+    return response.data
+  },
+
+  // Delete a caption track
+  async deleteCaption(videoId: string, language: string) {
+    const response = await apiService.delete<ApiResponse<{ message: string }>>(`/videos/${videoId}/captions/${language}`)
+    return response.data
+  }
+}
+
+// Lets the server recognise a retried write and answer it without running it twice.
+// A write replayed from the offline queue also says how long ago it was made.
+const idempotencyConfig = (key?: string, operationAgeMs?: number) => {
+  const headers: Record<string, string> = {}
+  if (key) headers['Idempotency-Key'] = key
+  if (operationAgeMs !== undefined) headers['Operation-Age'] = String(Math.max(0, Math.round(operationAgeMs)))
+  return Object.keys(headers).length > 0 ? { headers } : undefined
+}
+
 // Session API
 export const sessionService = {
   // Start or resume session
@@ -501,8 +737,8 @@ export const sessionService = {
   async updateProgress(sessionId: string, data: {
     currentTime: number
     totalWatchTime?: number
-  }) {
-    const response = await apiService.put<ApiResponse<VideoSession>>(`/sessions/${sessionId}/progress`, data)
+  }, idempotencyKey?: string, operationAgeMs?: number) {
+    const response = await apiService.put<ApiResponse<VideoSession>>(`/sessions/${sessionId}/progress`, data, idempotencyConfig(idempotencyKey, operationAgeMs))
     // apiService already unwraps, so response is the ApiResponse object
     return (response as any).data
   },
@@ -511,32 +747,43 @@ export const sessionService = {
   async markMilestoneReached(sessionId: string, data: {
     milestoneId: string
     timestamp: number
-  }) {
-    const response = await apiService.post<ApiResponse<MilestoneProgress>>(`/sessions/${sessionId}/milestone`, data)
+  }, idempotencyKey?: string, operationAgeMs?: number) {
+    const response = await apiService.post<ApiResponse<MilestoneProgress>>(`/sessions/${sessionId}/milestone`, data, idempotencyConfig(idempotencyKey, operationAgeMs))
     return (response as any).data
   },
 
   // Submit question answer
   async submitAnswer(sessionId: string, data: {
     questionId: string
-    answer: string
+    answer: QuestionAnswerValue
     milestoneId: string
-  }) {
+  }, idempotencyKey?: string, operationAgeMs?: number) {
     const response = await apiService.post<ApiResponse<{
       answer: QuestionAttempt
       isCorrect: boolean
       score: number
       explanation?: string
-    }>>(`/sessions/${sessionId}/question`, data)
-    return (response as any).data
+      status: QuestionAttempt['status']
+      attemptNumber: number
+      retryLimit: number
+      remainingAttempts: number
+      hintsUsed: number
+    }>>(`/sessions/${sessionId}/question`, data, idempotencyConfig(idempotencyKey, operationAgeMs))
+    return response.data
+  },
+
+  // Reveal the next hint for a question
+  async revealHint(sessionId: string, questionId: string): Promise<HintReveal> {
+    const response = await apiService.post<ApiResponse<HintReveal>>(`/sessions/${sessionId}/question/${questionId}/hint`)
+    return response.data
   },
 
   // Complete session
   async completeSession(sessionId: string, data: {
     finalTime: number
     totalWatchTime: number
-  }) {
-    const response = await apiService.put<ApiResponse<VideoSession>>(`/sessions/${sessionId}/complete`, data)
+  }, idempotencyKey?: string, operationAgeMs?: number) {
+    const response = await apiService.put<ApiResponse<VideoSession>>(`/sessions/${sessionId}/complete`, data, idempotencyConfig(idempotencyKey, operationAgeMs))
     return (response as any).data
   },
 
@@ -551,6 +798,18 @@ export const sessionService = {
     }
   },
 
+  // Viewing attempts of a video, oldest first
+  async getAttempts(videoId: string) {
+    const response = await apiService.get<ApiResponse<VideoAttempts>>(`/sessions/video/${videoId}/attempts`)
+    return response.data
+  },
+
+  // Start a new attempt of a completed video, if the lesson allows retakes
+  async startRetake(videoId: string) {
+    const response = await apiService.post<ApiResponse<VideoSession>>(`/sessions/video/${videoId}/retake`)
+    return response.data
+  },
+
   // Get user sessions
   async getUserSessions(params: {
     page?: number
@@ -2,20 +2,37 @@ import type {
   Video, 
   Milestone, 
   Question, 
-  VideoSession
+  VideoSession,
+  QuestionAnswerValue,
+  QuestionAttempt,
+  HintReveal
 } from '../services/video'
 
 // Define QuestionAnswer type locally
 interface QuestionAnswer {
   questionId: string
-  answer: string
+  answer: QuestionAnswerValue
   isCorrect: boolean
   timestamp?: number
+  pending?: boolean // Queued offline, not graded yet
+}
+
+// What the server returns for a submitted answer
+interface SubmitAnswerResult {
+  isCorrect: boolean
+  explanation?: string
+  score?: number
+  attemptNumber?: number
+  remainingAttempts?: number
+  status?: QuestionAttempt['status']
 }
 import {
   videoService,
   sessionService
 } from '../services/video'
+import { SyncQueue } from './syncQueue'
+import type { SyncOperation } from './syncQueue'
+import { debug } from '../utils/debug'
 
 export interface VideoState {
   video: Video
@@ -40,6 +57,8 @@ export interface SessionState {
     correctAnswers: number
     totalAnswers: number
     completionPercentage: number
+    pendingSync: number // Writes waiting for the server to be reachable again
+    syncError: string | null // Why a write made offline was refused once the connection was back
     lastUpdated: Date
   }
 }
@@ -60,8 +79,17 @@ class VideoStateManager {
   private listeners: Set<StateListener> = new Set()
   private videoListeners: Map<string, Set<VideoStateListener>> = new Map()
   private sessionListeners: Map<string, Set<SessionStateListener>> = new Map()
+  private syncQueue: SyncQueue
+  private resyncing: Set<string> = new Set() // Sessions being reloaded after a refused write
   
-  private constructor() {}
+  private constructor() {
+    this.syncQueue = new SyncQueue({
+      send: operation => this.sendOperation(operation),
+      onReplayed: (operation, result) => this.applyReplayedOperation(operation, result),
+      onDropped: (operation, error) => this.resyncAfterRefusedOperation(operation, error),
+      onPendingChange: sessionId => this.updatePendingSync(sessionId)
+    })
+  }
   
   static getInstance(): VideoStateManager {
     if (!VideoStateManager.instance) {
@@ -452,6 +480,8 @@ class VideoStateManager {
           correctAnswers,
           totalAnswers: questionAnswers.size,
           completionPercentage,
+          pendingSync: this.syncQueue.pendingCount(session.id),
+          syncError: null,
           lastUpdated: new Date()
         }
       }
@@ -466,49 +496,49 @@ class VideoStateManager {
     }
   }
   
+  // Session writes go through the sync queue, so they survive a dropped connection.
+  // Local state is updated either way; the server's copy replaces it once it arrives.
   async updateSessionProgress(sessionId: string, currentTime: number, totalWatchTime: number): Promise<void> {
     const state = this.sessions.get(sessionId)
     if (!state) return
-    
-    const updatedSession = await sessionService.updateProgress(sessionId, {
-      currentTime,
-      totalWatchTime
-    })
-    
-    const videoState = this.videos.get(updatedSession.videoId)
-    const completionPercentage = videoState?.video.duration 
-      ? Math.round((currentTime / videoState.video.duration) * 100)
-      : 0
-    
-    this.sessions.set(sessionId, {
-      ...state,
-      session: updatedSession,
-      metadata: {
-        ...state.metadata,
-        completionPercentage,
-        lastUpdated: new Date()
-      }
+
+    const outcome = await this.syncQueue.enqueue({
+      type: 'progress',
+      sessionId,
+      payload: { currentTime, totalWatchTime }
     })
-    
-    this.notifySessionListeners(sessionId)
-    this.notifyListeners()
+
+    const current = this.sessions.get(sessionId)
+    if (!current) return
+
+    this.applySession(sessionId, outcome.sent
+      ? outcome.result as VideoSession
+      : { ...current.session, currentPosition: currentTime })
   }
-  
+
+  async revealHint(sessionId: string, questionId: string): Promise<HintReveal> {
+    if (!this.sessions.has(sessionId)) throw new Error('Session not found')
+    return sessionService.revealHint(sessionId, questionId)
+  }
+
   async markMilestoneReached(sessionId: string, milestoneId: string, timestamp: number): Promise<void> {
+    if (!this.sessions.has(sessionId)) return
+
+    await this.syncQueue.enqueue({
+      type: 'milestone',
+      sessionId,
+      payload: { milestoneId, timestamp }
+    })
+
     const state = this.sessions.get(sessionId)
     if (!state) return
-    
-    await sessionService.markMilestoneReached(sessionId, {
-      milestoneId,
-      timestamp
-    })
-    
+
     state.milestoneProgress.add(milestoneId)
-    
+
     // Find the milestone
     const videoState = this.videos.get(state.session.videoId)
     const milestone = videoState?.milestones.find(m => m.id === milestoneId)
-    
+
     this.sessions.set(sessionId, {
       ...state,
       currentMilestone: milestone || null,
@@ -517,38 +547,167 @@ class VideoStateManager {
         lastUpdated: new Date()
       }
     })
-    
+
     this.notifySessionListeners(sessionId)
     this.notifyListeners()
   }
-  
+
   async submitAnswer(
-    sessionId: string, 
-    questionId: string, 
-    answer: string, 
+    sessionId: string,
+    questionId: string,
+    answer: QuestionAnswerValue,
     milestoneId: string
-  ): Promise<{ isCorrect: boolean; explanation?: string }> {
-    const state = this.sessions.get(sessionId)
-    if (!state) throw new Error('Session not found')
-    
-    const result = await sessionService.submitAnswer(sessionId, {
-      questionId,
-      answer,
-      milestoneId
+  ): Promise<{
+    isCorrect: boolean
+    explanation?: string
+    score?: number
+    attemptNumber?: number
+    remainingAttempts?: number
+    timedOut?: boolean
+    pending?: boolean
+  }> {
+    if (!this.sessions.has(sessionId)) throw new Error('Session not found')
+
+    const outcome = await this.syncQueue.enqueue({
+      type: 'answer',
+      sessionId,
+      payload: { questionId, answer, milestoneId }
     })
-    
-    // Create QuestionAnswer from the result
-    const questionAnswer: QuestionAnswer = {
-      questionId,
-      answer,
-      isCorrect: result.isCorrect
+
+    // Graded once the queue gets it to the server
+    if (!outcome.sent) {
+      this.recordAnswer(sessionId, { questionId, answer, isCorrect: false, pending: true })
+      return { isCorrect: false, pending: true }
     }
-    
-    state.questionAnswers.set(questionId, questionAnswer)
-    
+
+    const result = outcome.result as SubmitAnswerResult
+    this.recordAnswer(sessionId, { questionId, answer, isCorrect: result.isCorrect })
+
+    return {
+      isCorrect: result.isCorrect,
+      explanation: result.explanation,
+      score: result.score,
+      attemptNumber: result.attemptNumber,
+      remainingAttempts: result.remainingAttempts,
+      timedOut: result.status === 'TIMEOUT'
+    }
+  }
+
+  // Returns the completed session, or null when completion is queued until the connection is back
+  async completeSession(sessionId: string, finalTime: number, totalWatchTime: number): Promise<VideoSession | null> {
+    const outcome = await this.syncQueue.enqueue({
+      type: 'complete',
+      sessionId,
+      payload: { finalTime, totalWatchTime }
+    })
+    if (!outcome.sent) return null
+
+    const session = outcome.result as VideoSession
+    this.applySession(sessionId, session)
+    return session
+  }
+
+  private sendOperation(operation: SyncOperation): Promise<unknown> {
+    // The server judges watching and answer times by when the write was made, not when it arrives
+    const age = Date.now() - operation.queuedAt
+
+    switch (operation.type) {
+      case 'progress':
+        return sessionService.updateProgress(operation.sessionId, operation.payload, operation.id, age)
+      case 'milestone':
+        return sessionService.markMilestoneReached(operation.sessionId, operation.payload, operation.id, age)
+      case 'answer':
+        return sessionService.submitAnswer(operation.sessionId, operation.payload, operation.id, age)
+      case 'complete':
+        return sessionService.completeSession(operation.sessionId, operation.payload, operation.id, age)
+    }
+  }
+
+  // The server refused a write replayed after its caller had moved on. Reload
+  // the session so the page shows what was actually saved, and say why.
+  private async resyncAfterRefusedOperation(operation: SyncOperation, error: unknown) {
+    debug.warn('Queued session write was refused by the server', { type: operation.type, error })
+
+    const state = this.sessions.get(operation.sessionId)
+    if (!state || this.resyncing.has(operation.sessionId)) return
+
+    // Writes queued behind a refused one are often refused too; one reload covers them all
+    this.resyncing.add(operation.sessionId)
+    try {
+      await this.startOrResumeSession(state.session.videoId)
+    } catch (resyncError) {
+      debug.error('Failed to reload the session after a refused write:', resyncError)
+    } finally {
+      this.resyncing.delete(operation.sessionId)
+    }
+
+    const current = this.sessions.get(operation.sessionId)
+    if (!current) return
+
+    const reason = (error as { data?: { error?: string } } | null)?.data?.error || 'the server refused it'
+    this.sessions.set(operation.sessionId, {
+      ...current,
+      metadata: {
+        ...current.metadata,
+        syncError: `A change made while offline could not be saved: ${reason}. Your progress was reloaded from the server.`
+      }
+    })
+
+    this.notifySessionListeners(operation.sessionId)
+    this.notifyListeners()
+  }
+
+  // A queued write reached the server after its caller had moved on
+  private applyReplayedOperation(operation: SyncOperation, result: unknown) {
+    if (!this.sessions.has(operation.sessionId)) return
+
+    switch (operation.type) {
+      case 'progress':
+      case 'complete':
+        this.applySession(operation.sessionId, result as VideoSession)
+        break
+      case 'answer':
+        this.recordAnswer(operation.sessionId, {
+          questionId: operation.payload.questionId,
+          answer: operation.payload.answer,
+          isCorrect: (result as SubmitAnswerResult).isCorrect
+        })
+        break
+    }
+  }
+
+  private applySession(sessionId: string, session: VideoSession) {
+    const state = this.sessions.get(sessionId)
+    if (!state) return
+
+    const videoState = this.videos.get(session.videoId)
+    const completionPercentage = videoState?.video.duration
+      ? Math.round((session.currentPosition / videoState.video.duration) * 100)
+      : 0
+
+    this.sessions.set(sessionId, {
+      ...state,
+      session,
+      metadata: {
+        ...state.metadata,
+        completionPercentage,
+        lastUpdated: new Date()
+      }
+    })
+
+    this.notifySessionListeners(sessionId)
+    this.notifyListeners()
+  }
+
+  private recordAnswer(sessionId: string, questionAnswer: QuestionAnswer) {
+    const state = this.sessions.get(sessionId)
+    if (!state) return
+
+    state.questionAnswers.set(questionAnswer.questionId, questionAnswer)
+
     const correctAnswers = Array.from(state.questionAnswers.values())
       .filter(a => a.isCorrect).length
-    
+
     this.sessions.set(sessionId, {
       ...state,
       metadata: {
@@ -558,16 +717,26 @@ class VideoStateManager {
         lastUpdated: new Date()
       }
     })
-    
+
     this.notifySessionListeners(sessionId)
     this.notifyListeners()
-    
-    return {
-      isCorrect: result.isCorrect,
-      explanation: result.explanation
-    }
   }
-  
+
+  private updatePendingSync(sessionId: string) {
+    const state = this.sessions.get(sessionId)
+    if (!state) return
+
+    this.sessions.set(sessionId, {
+      ...state,
+      metadata: {
+        ...state.metadata,
+        pendingSync: this.syncQueue.pendingCount(sessionId)
+      }
+    })
+
+    this.notifySessionListeners(sessionId)
+  }
+
   // Utility methods
   getVideoState(videoId: string): VideoState | undefined {
     return this.videos.get(videoId)
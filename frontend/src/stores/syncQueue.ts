@@ -0,0 +1,269 @@
+import type { QuestionAnswerValue } from '../services/video'
+import { debug } from '../utils/debug'
+
+const DB_NAME = 'interactive-learning-sync'
+const STORE_NAME = 'operations'
+const RETRY_BASE_MS = 2 * 1000
+const RETRY_MAX_MS = 60 * 1000
+
+export type SyncOperationInput =
+  | { type: 'progress', sessionId: string, payload: { currentTime: number, totalWatchTime: number } }
+  | { type: 'milestone', sessionId: string, payload: { milestoneId: string, timestamp: number } }
+  | { type: 'answer', sessionId: string, payload: { questionId: string, answer: QuestionAnswerValue, milestoneId: string } }
+  | { type: 'complete', sessionId: string, payload: { finalTime: number, totalWatchTime: number } }
+
+export type SyncOperation = SyncOperationInput & {
+  id: string // Sent as the Idempotency-Key, so a replay is not counted twice
+  seq: number // Order the operation was queued in
+  queuedAt: number // When the write was made; a replay tells the server how long ago that was
+  attempts: number
+  retryAt: number
+}
+
+// Sent now, with the server's response, or kept to be sent once the connection is back
+export type SyncOutcome = { sent: true, result: unknown } | { sent: false }
+
+interface SyncQueueHandlers {
+  send: (operation: SyncOperation) => Promise<unknown>
+  // An operation that was queued earlier, possibly in another page load, reached the server
+  onReplayed?: (operation: SyncOperation, result: unknown) => void
+  // The server refused a queued operation; it will not be retried
+  onDropped?: (operation: SyncOperation, error: unknown) => void
+  onPendingChange?: (sessionId: string) => void
+}
+
+// No response at all, or one that asks to try again later
+export function isRetryableError(error: unknown) {
+  const { status, data } = (error as { status?: number, data?: { code?: string } } | null) || {}
+  if (status === undefined) return true
+  return status === 401 || status === 408 || status === 429 || status >= 500 ||
+    data?.code === 'IDEMPOTENCY_KEY_IN_USE'
+}
+
+// crypto.randomUUID needs a secure context, which a classroom server on plain HTTP is not
+function newOperationId() {
+  if (typeof crypto.randomUUID === 'function') return crypto.randomUUID()
+  return Array.from(crypto.getRandomValues(new Uint8Array(16)), byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+function openDatabase(): Promise<IDBDatabase | null> {
+  if (typeof indexedDB === 'undefined') return Promise.resolve(null)
+
+  return new Promise(resolve => {
+    const request = indexedDB.open(DB_NAME, 1)
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME, { keyPath: 'id' })
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => {
+      debug.error('Sync queue storage unavailable, keeping operations in memory:', request.error)
+      resolve(null)
+    }
+  })
+}
+
+/**
+ * Outbound queue for session writes that must survive a dropped connection
+ * or a closed tab. Operations are kept in IndexedDB until the server has
+ * them, sent one at a time and in order within a session, and retried with
+ * exponential backoff while the network or server is failing. Each carries
+ * an idempotency key, so a retry of a request whose response was lost is
+ * answered from the server's record instead of being applied again.
+ * Progress writes are all kept rather than only the latest: the server
+ * allows each step only as much watching as the time since the previous one.
+ */
+export class SyncQueue {
+  private handlers: SyncQueueHandlers
+  private operations: SyncOperation[] = []
+  private waiters = new Map<string, { resolve: (outcome: SyncOutcome) => void, reject: (error: unknown) => void }>()
+  private inFlight = new Set<string>()
+  private db: Promise<IDBDatabase | null>
+  private ready: Promise<void>
+  private seq = 0
+  private flushing = false
+  private flushAgain = false
+  private retryTimer: ReturnType<typeof setTimeout> | undefined
+
+  constructor(handlers: SyncQueueHandlers) {
+    this.handlers = handlers
+    this.db = openDatabase()
+    this.ready = this.load()
+
+    window.addEventListener('online', () => this.flush(true))
+    this.ready.then(() => this.flush())
+  }
+
+  /**
+   * Queue an operation and try to send it. Resolves once it is sent, or as
+   * soon as it has to wait for the connection; rejects if the server refuses
+   * it, as it would have without the queue.
+   */
+  async enqueue(input: SyncOperationInput): Promise<SyncOutcome> {
+    await this.ready
+
+    const operation = {
+      ...input,
+      id: newOperationId(),
+      seq: ++this.seq,
+      queuedAt: Date.now(),
+      attempts: 0,
+      retryAt: 0
+    } as SyncOperation
+
+    this.operations.push(operation)
+    this.persist(operation)
+    this.handlers.onPendingChange?.(operation.sessionId)
+
+    const outcome = new Promise<SyncOutcome>((resolve, reject) => {
+      this.waiters.set(operation.id, { resolve, reject })
+    })
+    this.flush()
+    return outcome
+  }
+
+  // Operations of a session held back by a failed send; ones simply in flight do not count
+  pendingCount(sessionId: string) {
+    const sessionOperations = this.operations.filter(operation => operation.sessionId === sessionId)
+    return sessionOperations[0]?.attempts ? sessionOperations.length : 0
+  }
+
+  /**
+   * Send what is due, every session in parallel. `force` skips the backoff,
+   * for when the browser reports it is back online.
+   */
+  async flush(force = false) {
+    await this.ready
+    if (force) {
+      this.operations.forEach(operation => { operation.retryAt = 0 })
+    }
+    if (this.flushing) {
+      this.flushAgain = true
+      return
+    }
+
+    this.flushing = true
+    try {
+      do {
+        this.flushAgain = false
+        const sessionIds = [...new Set(this.operations.map(operation => operation.sessionId))]
+        await Promise.all(sessionIds.map(sessionId => this.flushSession(sessionId)))
+      } while (this.flushAgain)
+    } finally {
+      this.flushing = false
+    }
+  }
+
+  private async flushSession(sessionId: string) {
+    for (;;) {
+      const operation = this.operations.find(queued => queued.sessionId === sessionId)
+      if (!operation) return
+
+      if (operation.retryAt > Date.now()) {
+        this.releaseWaiters(sessionId)
+        this.scheduleRetry(operation.retryAt)
+        return
+      }
+
+      this.inFlight.add(operation.id)
+      try {
+        const result = await this.handlers.send(operation)
+        this.inFlight.delete(operation.id)
+        this.remove(operation)
+        this.settle(operation, waiter => waiter.resolve({ sent: true, result }), () => {
+          this.handlers.onReplayed?.(operation, result)
+        })
+      } catch (error) {
+        this.inFlight.delete(operation.id)
+
+        if (!isRetryableError(error)) {
+          debug.error('Sync operation refused, dropping it:', { type: operation.type, error })
+          this.remove(operation)
+          this.settle(operation, waiter => waiter.reject(error), () => {
+            this.handlers.onDropped?.(operation, error)
+          })
+          continue
+        }
+
+        operation.attempts += 1
+        const backoff = Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** (operation.attempts - 1))
+        operation.retryAt = Date.now() + backoff + Math.random() * 1000
+        this.persist(operation)
+        this.handlers.onPendingChange?.(sessionId)
+        debug.warn('Sync operation failed, will retry', { type: operation.type, attempts: operation.attempts })
+
+        // Later operations of the session wait behind this one
+        this.releaseWaiters(sessionId)
+        this.scheduleRetry(operation.retryAt)
+        return
+      }
+    }
+  }
+
+  // Answer whoever is waiting for the operation, or report it as a background replay
+  private settle(
+    operation: SyncOperation,
+    withWaiter: (waiter: { resolve: (outcome: SyncOutcome) => void, reject: (error: unknown) => void }) => void,
+    withoutWaiter: () => void
+  ) {
+    const waiter = this.waiters.get(operation.id)
+    this.waiters.delete(operation.id)
+    if (waiter) {
+      withWaiter(waiter)
+    } else {
+      withoutWaiter()
+    }
+  }
+
+  // Tell callers of a blocked session that their operations are queued
+  private releaseWaiters(sessionId: string) {
+    for (const operation of this.operations) {
+      if (operation.sessionId !== sessionId) continue
+      this.waiters.get(operation.id)?.resolve({ sent: false })
+      this.waiters.delete(operation.id)
+    }
+  }
+
+  private scheduleRetry(at: number) {
+    clearTimeout(this.retryTimer)
+    const next = Math.min(at, ...this.operations.map(operation => operation.retryAt).filter(retryAt => retryAt > Date.now()))
+    this.retryTimer = setTimeout(() => this.flush(), Math.max(0, next - Date.now()))
+  }
+
+  private remove(operation: SyncOperation) {
+    this.operations = this.operations.filter(queued => queued.id !== operation.id)
+    this.handlers.onPendingChange?.(operation.sessionId)
+
+    this.db.then(db => {
+      if (!db) return
+      db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).delete(operation.id)
+    }).catch(error => debug.error('Failed to remove sync operation:', error))
+  }
+
+  private persist(operation: SyncOperation) {
+    this.db.then(db => {
+      if (!db) return
+      db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).put(operation)
+    }).catch(error => debug.error('Failed to store sync operation:', error))
+  }
+
+  // Pick up what an earlier page load could not send
+  private async load() {
+    const db = await this.db
+    if (!db) return
+
+    const stored = await new Promise<SyncOperation[]>(resolve => {
+      const request = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).getAll()
+      request.onsuccess = () => resolve(request.result as SyncOperation[])
+      request.onerror = () => {
+        debug.error('Failed to load sync operations:', request.error)
+        resolve([])
+      }
+    })
+
+    this.operations = stored.sort((a, b) => a.seq - b.seq)
+    this.seq = this.operations.reduce((max, operation) => Math.max(max, operation.seq), 0)
+    if (this.operations.length > 0) {
+      debug.video('Resuming queued session operations', { count: this.operations.length })
+    }
+  }
+}
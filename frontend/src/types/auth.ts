@@ -13,6 +13,17 @@ export interface User {
   createdAt: string
 }
 
+// A device the user is signed in on
+export interface LoginSession {
+  id: string
+  device: string
+  userAgent: string | null
+  ipAddress: string | null
+  createdAt: string
+  lastUsedAt: string
+  current: boolean
+}
+
 export interface LoginCredentials {
   email: string
   password: string
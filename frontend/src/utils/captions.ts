@@ -0,0 +1,54 @@
+export interface CaptionCue {
+  start: number
+  end: number
+  text: string
+}
+
+const TIMING_LINE = /^((?:\d+:)?\d{2}:\d{2}\.\d{3})\s+-->\s+((?:\d+:)?\d{2}:\d{2}\.\d{3})/
+
+// "01:02:03.500" or "02:03.500" -> seconds
+const parseTimestamp = (value: string): number => {
+  const parts = value.split(':').map(Number)
+  return parts.reduce((total, part) => total * 60 + part, 0)
+}
+
+/**
+ * Parse WebVTT text into plain-text cues for the transcript. Voice and
+ * styling tags are stripped; NOTE, STYLE and REGION blocks are skipped.
+ */
+export function parseVtt(vtt: string): CaptionCue[] {
+  const cues: CaptionCue[] = []
+  const blocks = vtt.replace(/\r\n?/g, '\n').split(/\n{2,}/)
+
+  for (const block of blocks) {
+    const lines = block.trim().split('\n')
+    const timingIndex = lines.findIndex(line => TIMING_LINE.test(line))
+    if (timingIndex === -1) continue
+
+    const match = lines[timingIndex].match(TIMING_LINE)!
+    const text = lines
+      .slice(timingIndex + 1)
+      .join(' ')
+      .replace(/<[^>]+>/g, '')
+      .replace(/&amp;/g, '&')
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .trim()
+
+    if (text) {
+      cues.push({ start: parseTimestamp(match[1]), end: parseTimestamp(match[2]), text })
+    }
+  }
+
+  return cues
+}
+
+// Format seconds as m:ss or h:mm:ss for transcript timestamps
+export function formatCueTime(seconds: number): string {
+  const hours = Math.floor(seconds / 3600)
+  const minutes = Math.floor((seconds % 3600) / 60)
+  const secs = Math.floor(seconds % 60).toString().padStart(2, '0')
+  return hours > 0
+    ? `${hours}:${minutes.toString().padStart(2, '0')}:${secs}`
+    : `${minutes}:${secs}`
+}
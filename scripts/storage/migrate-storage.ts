@@ -0,0 +1,72 @@
+import { prisma } from '../../src/config/database'
+import { createStorageDriver } from '../../src/services/storage/fileStorage'
+import { migrateStorage } from '../../src/services/storage/storageMigration'
+import { STORAGE_DRIVERS, StorageDriverName } from '../../src/services/storage/storageDriver'
+
+// Copy existing video files between storage drivers, e.g.
+//   npm run storage:migrate -- --from local --to s3 --dry-run
+//   npm run storage:migrate -- --from local --to s3 --delete-source
+const USAGE = `Usage: migrate-storage --from <${STORAGE_DRIVERS.join('|')}> --to <${STORAGE_DRIVERS.join('|')}> [--video <id>]... [--dry-run] [--delete-source]`
+
+const parseArgs = (args: string[]) => {
+  const options = { from: '', to: '', videoIds: [] as string[], dryRun: false, deleteSource: false }
+
+  for (let i = 0; i < args.length; i++) {
+    switch (args[i]) {
+      case '--from':
+        options.from = args[++i] ?? ''
+        break
+      case '--to':
+        options.to = args[++i] ?? ''
+        break
+      case '--video':
+        options.videoIds.push(args[++i] ?? '')
+        break
+      case '--dry-run':
+        options.dryRun = true
+        break
+      case '--delete-source':
+        options.deleteSource = true
+        break
+      default:
+        throw new Error(`Unknown argument ${args[i]}`)
+    }
+  }
+
+  const isDriver = (name: string): name is StorageDriverName => (STORAGE_DRIVERS as readonly string[]).includes(name)
+  if (!isDriver(options.from) || !isDriver(options.to)) {
+    throw new Error('Both --from and --to must name a storage driver')
+  }
+
+  return { ...options, from: options.from, to: options.to }
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2))
+
+  console.log(`Migrating video files from ${options.from} to ${options.to}${options.dryRun ? ' (dry run)' : ''}`)
+
+  const summary = await migrateStorage(createStorageDriver(options.from), createStorageDriver(options.to), {
+    dryRun: options.dryRun,
+    deleteSource: options.deleteSource,
+    videoIds: options.videoIds.length > 0 ? options.videoIds : undefined,
+    log: message => console.log(`  ${message}`)
+  })
+
+  console.log(`\n${summary.videos} videos: ${summary.copied} files copied, ${summary.skipped} already present, ${summary.missing} missing, ${summary.failed} failed`)
+
+  if (summary.failed > 0) {
+    console.log(`Videos with failures, run again to retry: ${summary.failedVideoIds.join(', ')}`)
+    process.exitCode = 1
+  } else if (!options.dryRun) {
+    console.log(`Done. Set STORAGE_DRIVER=${options.to} and restart the API to serve files from the new storage.`)
+  }
+}
+
+main()
+  .catch(error => {
+    console.error(error instanceof Error ? error.message : error)
+    console.error(USAGE)
+    process.exitCode = 1
+  })
+  .finally(() => prisma.$disconnect())
@@ -25,6 +25,17 @@ const envSchema = z.object({
   GOOGLE_CLOUD_STORAGE_BUCKET: z.string().optional(),
   GOOGLE_APPLICATION_CREDENTIALS: z.string().optional(),
 
+  // File storage for videos, thumbnails, HLS renditions and captions
+  STORAGE_DRIVER: z.enum(['local', 'gcs', 's3']).default('local'),
+  STORAGE_LOCAL_ROOT: z.string().default('uploads'),
+  // S3-compatible storage; set the endpoint for MinIO or other non-AWS services
+  S3_BUCKET: z.string().optional(),
+  S3_REGION: z.string().default('us-east-1'),
+  S3_ENDPOINT: z.string().url().optional(),
+  S3_ACCESS_KEY_ID: z.string().optional(),
+  S3_SECRET_ACCESS_KEY: z.string().optional(),
+  S3_FORCE_PATH_STYLE: z.string().default('false').transform(value => value === 'true'),
+
   // Redis Configuration
   REDIS_URL: z.string().url().default('redis://localhost:6379'),
   REDIS_PASSWORD: z.string().optional(),
@@ -34,12 +45,27 @@ const envSchema = z.object({
   OPENAI_API_KEY: z.string().optional(),
   ANTHROPIC_API_KEY: z.string().optional(),
   GOOGLE_PALM_API_KEY: z.string().optional(),
+  AI_FIXTURE_PROVIDER: z.string().default('false').transform(value => value === 'true'),
+  AI_REQUEST_TIMEOUT_MS: z.coerce.number().default(60000),
+  AI_KEY_ENCRYPTION_SECRET: z.string().min(32).optional(),
 
   // Email Configuration (Optional)
   SMTP_HOST: z.string().optional(),
   SMTP_PORT: z.coerce.number().optional(),
   SMTP_USER: z.string().email().optional(),
   SMTP_PASS: z.string().optional(),
+  MAIL_TRANSPORT: z.enum(['console', 'file', 'smtp']).default('console'),
+  MAIL_FILE_DIR: z.string().default('logs/mail'),
+  MAIL_FROM: z.string().default('Interactive Learning <no-reply@localhost>'),
+
+  // Email verification and password reset tokens
+  EMAIL_VERIFICATION_TTL_HOURS: z.coerce.number().default(48),
+  PASSWORD_RESET_TTL_MINUTES: z.coerce.number().default(60),
+
+  // Signed playback URLs for streams, HLS files and thumbnails
+  PLAYBACK_TOKEN_SECRET: z.string().min(32).optional(),
+  PLAYBACK_TOKEN_TTL_MINUTES: z.coerce.number().min(1).default(10),
+  PLAYBACK_TOKEN_BIND_IP: z.string().default('false').transform(value => value === 'true'),
 
   // Rate Limiting
   RATE_LIMIT_WINDOW: z.coerce.number().default(15),
@@ -61,9 +87,23 @@ const envSchema = z.object({
   ENABLE_ANALYTICS: z.coerce.boolean().default(true),
   ANALYTICS_RETENTION_DAYS: z.coerce.number().default(90),
 
+  // Background Job Queue
+  JOB_WORKER_ENABLED: z.string().default('true').transform(value => value !== 'false'),
+  JOB_POLL_INTERVAL_MS: z.coerce.number().default(2000),
+  JOB_LOCK_TIMEOUT_MINUTES: z.coerce.number().default(30),
+
   // CORS Configuration
   CORS_ORIGINS: z.string().default('http://localhost:3000,http://localhost:3001'),
   FRONTEND_URL: z.string().url().default('http://localhost:3000'),
+}).superRefine((values, ctx) => {
+  // Verification and password reset links would only reach the log
+  if (values.NODE_ENV === 'production' && values.MAIL_TRANSPORT === 'console') {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['MAIL_TRANSPORT'],
+      message: 'The console mail transport cannot be used in production',
+    });
+  }
 });
 
 // Parse and validate environment variables
@@ -108,6 +148,19 @@ export const config = {
     storageBucket: env.GOOGLE_CLOUD_STORAGE_BUCKET,
     credentials: env.GOOGLE_APPLICATION_CREDENTIALS,
   },
+
+  storage: {
+    driver: env.STORAGE_DRIVER,
+    localRoot: env.STORAGE_LOCAL_ROOT,
+    s3: {
+      bucket: env.S3_BUCKET,
+      region: env.S3_REGION,
+      endpoint: env.S3_ENDPOINT,
+      accessKeyId: env.S3_ACCESS_KEY_ID,
+      secretAccessKey: env.S3_SECRET_ACCESS_KEY,
+      forcePathStyle: env.S3_FORCE_PATH_STYLE,
+    },
+  },
   
   redis: {
     url: env.REDIS_URL,
@@ -125,6 +178,10 @@ export const config = {
     googlePalm: {
       apiKey: env.GOOGLE_PALM_API_KEY,
     },
+    fixtureProvider: env.AI_FIXTURE_PROVIDER,
+    requestTimeoutMs: env.AI_REQUEST_TIMEOUT_MS,
+    // Encrypts API keys stored in AI configurations; changing it makes stored keys unreadable
+    keyEncryptionSecret: env.AI_KEY_ENCRYPTION_SECRET ?? env.JWT_SECRET,
   },
   
   email: {
@@ -132,6 +189,20 @@ export const config = {
     port: env.SMTP_PORT,
     user: env.SMTP_USER,
     password: env.SMTP_PASS,
+    transport: env.MAIL_TRANSPORT,
+    fileDir: env.MAIL_FILE_DIR,
+    from: env.MAIL_FROM,
+  },
+
+  authTokens: {
+    emailVerificationTtlMs: env.EMAIL_VERIFICATION_TTL_HOURS * 60 * 60 * 1000, // Convert hours to milliseconds
+    passwordResetTtlMs: env.PASSWORD_RESET_TTL_MINUTES * 60 * 1000, // Convert minutes to milliseconds
+  },
+
+  playback: {
+    tokenSecret: env.PLAYBACK_TOKEN_SECRET ?? env.JWT_SECRET,
+    tokenTtlMs: env.PLAYBACK_TOKEN_TTL_MINUTES * 60 * 1000, // Convert minutes to milliseconds
+    bindIp: env.PLAYBACK_TOKEN_BIND_IP, // Reject signed URLs used from another address
   },
   
   rateLimit: {
@@ -158,6 +229,12 @@ export const config = {
     enabled: env.ENABLE_ANALYTICS,
     retentionDays: env.ANALYTICS_RETENTION_DAYS,
   },
+
+  jobs: {
+    workerEnabled: env.JOB_WORKER_ENABLED,
+    pollIntervalMs: env.JOB_POLL_INTERVAL_MS,
+    lockTimeoutMs: env.JOB_LOCK_TIMEOUT_MINUTES * 60 * 1000, // Convert minutes to milliseconds
+  },
   
   cors: {
     origins: env.CORS_ORIGINS.split(','),
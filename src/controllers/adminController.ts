@@ -0,0 +1,349 @@
+import { Response } from 'express';
+import { AuditAction, JobStatus } from '@prisma/client';
+import { AuthenticatedRequest } from '../middleware/auth/authMiddleware';
+import { AppError } from '../types';
+import { logger } from '../utils/logger';
+import { jobQueue } from '../services/jobs/jobQueue';
+import { auditRecorder } from '../services/audit/auditRecorder';
+import { aiConfigurationService, AIConfigurationInput } from '../services/ai/aiConfigurationService';
+import { aiUsageService } from '../services/ai/aiUsageService';
+import { resolveDashboardRange, MAX_RANGE_DAYS } from '../services/analytics/dashboardRange';
+import { settingsService } from '../services/settings/settingsService';
+
+const sendAppError = (res: Response, error: AppError): void => {
+  res.status(error.statusCode).json({
+    success: false,
+    error: error.message,
+    code: error.code
+  });
+};
+
+export const adminController = {
+  // List audit log entries, newest first
+  async listAuditLogs(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { page = 1, limit = 50, userId, resource, resourceId, action, from, to, search } = req.query;
+
+      const result = await auditRecorder.list({
+        userId: userId as string | undefined,
+        resource: resource as string | undefined,
+        resourceId: resourceId as string | undefined,
+        action: action as AuditAction | undefined,
+        from: from ? new Date(from as string) : undefined,
+        to: to ? new Date(to as string) : undefined,
+        search: (search as string | undefined)?.trim() || undefined,
+        page: Number(page),
+        limit: Number(limit)
+      });
+
+      res.json({
+        success: true,
+        data: {
+          logs: result.logs
+        },
+        pagination: {
+          page: Number(page),
+          limit: Number(limit),
+          total: result.total,
+          totalPages: Math.ceil(result.total / Number(limit))
+        }
+      });
+    } catch (error) {
+      logger.error('Error fetching audit logs:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch audit logs'
+      });
+      return;
+    }
+  },
+
+  // List background jobs
+  async listJobs(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { page = 1, limit = 20, status, type } = req.query;
+
+      const result = await jobQueue.listJobs({
+        status: status as JobStatus | undefined,
+        type: type as string | undefined,
+        page: Number(page),
+        limit: Number(limit)
+      });
+
+      res.json({
+        success: true,
+        data: {
+          jobs: result.jobs,
+          counts: result.counts
+        },
+        pagination: {
+          page: Number(page),
+          limit: Number(limit),
+          total: result.total,
+          totalPages: Math.ceil(result.total / Number(limit))
+        }
+      });
+    } catch (error) {
+      logger.error('Error fetching jobs:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch jobs'
+      });
+      return;
+    }
+  },
+
+  // Requeue a dead or cancelled job
+  async retryJob(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const job = await jobQueue.retryJob(req.params.id);
+
+      logger.info(`Job ${job.id} requeued by ${req.user!.email}`);
+
+      res.json({
+        success: true,
+        data: job,
+        message: 'Job queued for retry'
+      });
+    } catch (error) {
+      if (error instanceof AppError) {
+        sendAppError(res, error);
+        return;
+      }
+
+      logger.error('Error retrying job:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to retry job'
+      });
+      return;
+    }
+  },
+
+  // Cancel a pending or running job
+  async cancelJob(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const job = await jobQueue.cancelJob(req.params.id);
+
+      logger.info(`Job ${job.id} cancelled by ${req.user!.email}`);
+
+      res.json({
+        success: true,
+        data: job,
+        message: 'Job cancelled'
+      });
+    } catch (error) {
+      if (error instanceof AppError) {
+        sendAppError(res, error);
+        return;
+      }
+
+      logger.error('Error cancelling job:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to cancel job'
+      });
+      return;
+    }
+  },
+
+  // List AI provider configurations, without their keys
+  async listAIConfigurations(_req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const configurations = await aiConfigurationService.list();
+
+      res.json({
+        success: true,
+        data: { configurations }
+      });
+    } catch (error) {
+      logger.error('Error fetching AI configurations:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch AI configurations'
+      });
+      return;
+    }
+  },
+
+  // Add an AI provider configuration
+  async createAIConfiguration(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const configuration = await aiConfigurationService.create(req.body as AIConfigurationInput, req.user!.id);
+
+      logger.info(`AI configuration ${configuration.id} created by ${req.user!.email}`);
+
+      res.status(201).json({
+        success: true,
+        data: configuration,
+        message: 'AI configuration created'
+      });
+    } catch (error) {
+      if (error instanceof AppError) {
+        sendAppError(res, error);
+        return;
+      }
+
+      logger.error('Error creating AI configuration:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to create AI configuration'
+      });
+      return;
+    }
+  },
+
+  // Change an AI provider configuration; omitting apiKey keeps the stored key
+  async updateAIConfiguration(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const configuration = await aiConfigurationService.update(
+        req.params.id,
+        req.body as Partial<AIConfigurationInput>,
+        req.user!.id
+      );
+
+      logger.info(`AI configuration ${configuration.id} updated by ${req.user!.email}`);
+
+      res.json({
+        success: true,
+        data: configuration,
+        message: 'AI configuration updated'
+      });
+    } catch (error) {
+      if (error instanceof AppError) {
+        sendAppError(res, error);
+        return;
+      }
+
+      logger.error('Error updating AI configuration:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to update AI configuration'
+      });
+      return;
+    }
+  },
+
+  // Delete an AI provider configuration
+  async deleteAIConfiguration(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      await aiConfigurationService.delete(req.params.id, req.user!.id);
+
+      logger.info(`AI configuration ${req.params.id} deleted by ${req.user!.email}`);
+
+      res.json({
+        success: true,
+        message: 'AI configuration deleted'
+      });
+    } catch (error) {
+      if (error instanceof AppError) {
+        sendAppError(res, error);
+        return;
+      }
+
+      logger.error('Error deleting AI configuration:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to delete AI configuration'
+      });
+      return;
+    }
+  },
+
+  // AI usage per teacher and per configuration for a date range
+  async getAIUsageReport(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const range = resolveDashboardRange(req.query.from as string | undefined, req.query.to as string | undefined);
+      if (!range) {
+        res.status(400).json({
+          success: false,
+          error: `Date range must start before it ends and span at most ${MAX_RANGE_DAYS} days`
+        });
+        return;
+      }
+
+      const report = await aiUsageService.getUsageReport(range);
+
+      res.json({
+        success: true,
+        data: report
+      });
+    } catch (error) {
+      logger.error('Error fetching AI usage report:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch AI usage report'
+      });
+      return;
+    }
+  },
+
+  // List runtime settings with their effective and default values
+  async listSettings(_req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const settings = await settingsService.list();
+
+      res.json({
+        success: true,
+        data: { settings }
+      });
+    } catch (error) {
+      logger.error('Error fetching settings:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch settings'
+      });
+      return;
+    }
+  },
+
+  // Override a runtime setting
+  async updateSetting(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const setting = await settingsService.set(req.params.key, req.body.value, req.user!.id);
+
+      res.json({
+        success: true,
+        data: setting,
+        message: 'Setting updated'
+      });
+    } catch (error) {
+      if (error instanceof AppError) {
+        sendAppError(res, error);
+        return;
+      }
+
+      logger.error('Error updating setting:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to update setting'
+      });
+      return;
+    }
+  },
+
+  // Drop a setting's override so its default applies again
+  async resetSetting(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const setting = await settingsService.reset(req.params.key, req.user!.id);
+
+      res.json({
+        success: true,
+        data: setting,
+        message: 'Setting reset to its default'
+      });
+    } catch (error) {
+      if (error instanceof AppError) {
+        sendAppError(res, error);
+        return;
+      }
+
+      logger.error('Error resetting setting:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to reset setting'
+      });
+      return;
+    }
+  }
+};
@@ -2,6 +2,8 @@ import { Response } from 'express';
 import { PrismaClient, LessonStatus } from '@prisma/client';
 import { AuthenticatedRequest } from '../middleware/auth/authMiddleware';
 import { logger } from '../utils/logger';
+import { GradebookService } from '../services/GradebookService';
+import { auditRecorder } from '../services/audit/auditRecorder';
 
 const prisma = new PrismaClient();
 
@@ -273,7 +275,8 @@ export const lessonController = {
         estimatedTime,
         difficulty,
         tags = [],
-        order
+        order,
+        allowRetakes
       } = req.body;
       
       const currentUser = req.user!;
@@ -288,6 +291,7 @@ export const lessonController = {
           difficulty,
           tags,
           order,
+          allowRetakes,
           createdById: currentUser.id,
           tenantId: currentUser.tenantId,
           status: LessonStatus.DRAFT
@@ -304,6 +308,14 @@ export const lessonController = {
         }
       });
 
+      await auditRecorder.record({
+        userId: currentUser.id,
+        action: 'CREATE',
+        resource: 'lesson',
+        resourceId: lesson.id,
+        after: lesson
+      });
+
       logger.info(`Lesson created: ${lesson.title} by ${currentUser.email}`);
 
       res.status(201).json({
@@ -340,6 +352,15 @@ export const lessonController = {
         where.createdById = currentUser.id;
       }
 
+      const existingLesson = await prisma.lesson.findFirst({ where });
+      if (!existingLesson) {
+        res.status(404).json({
+          success: false,
+          error: 'Lesson not found or access denied'
+        });
+        return;
+      }
+
       const lesson = await prisma.lesson.update({
         where,
         data: updateData,
@@ -355,6 +376,15 @@ export const lessonController = {
         }
       });
 
+      await auditRecorder.record({
+        userId: currentUser.id,
+        action: 'UPDATE',
+        resource: 'lesson',
+        resourceId: lesson.id,
+        before: existingLesson,
+        after: lesson
+      });
+
       logger.info(`Lesson updated: ${lesson.title} by ${currentUser.email}`);
 
       res.json({
@@ -449,6 +479,16 @@ export const lessonController = {
         }
       });
 
+      await auditRecorder.record({
+        userId: currentUser.id,
+        action: 'UPDATE',
+        resource: 'lesson',
+        resourceId: lesson.id,
+        before: { ...lessonWithContent, videoGroups: undefined },
+        after: lesson,
+        metadata: { event: 'publish' }
+      });
+
       logger.info(`Lesson published: ${lesson.title} by ${currentUser.email}`);
 
       res.json({
@@ -514,6 +554,14 @@ export const lessonController = {
 
       await prisma.lesson.delete({ where: { id } });
 
+      await auditRecorder.record({
+        userId: currentUser.id,
+        action: 'DELETE',
+        resource: 'lesson',
+        resourceId: id,
+        before: { ...lessonWithProgress, _count: undefined }
+      });
+
       logger.info(`Lesson deleted: ${lessonWithProgress.title} by ${currentUser.email}`);
 
       res.json({
@@ -548,6 +596,15 @@ export const lessonController = {
         where.createdById = currentUser.id;
       }
 
+      const existingLesson = await prisma.lesson.findFirst({ where });
+      if (!existingLesson) {
+        res.status(404).json({
+          success: false,
+          error: 'Lesson not found or access denied'
+        });
+        return;
+      }
+
       const lesson = await prisma.lesson.update({
         where,
         data: {
@@ -564,6 +621,16 @@ export const lessonController = {
         }
       });
 
+      await auditRecorder.record({
+        userId: currentUser.id,
+        action: 'UPDATE',
+        resource: 'lesson',
+        resourceId: lesson.id,
+        before: existingLesson,
+        after: lesson,
+        metadata: { event: 'archive' }
+      });
+
       logger.info(`Lesson archived: ${lesson.title} by ${currentUser.email}`);
 
       res.json({
@@ -587,5 +654,74 @@ export const lessonController = {
       });
       return;
     }
+  },
+
+  // Get lesson gradebook
+  async getGradebook(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const gradebook = await GradebookService.getLessonGradebook(req.params.id, req.user!);
+
+      res.json({
+        success: true,
+        data: gradebook
+      });
+    } catch (error: any) {
+      if (error.message === 'Lesson not found' || error.message === 'Access denied') {
+        res.status(404).json({
+          success: false,
+          error: 'Lesson not found or access denied'
+        });
+        return;
+      }
+
+      logger.error('Error fetching gradebook:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch gradebook'
+      });
+      return;
+    }
+  },
+
+  // Update lesson letter-grade scale
+  async updateGradeScale(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const gradeScale = await GradebookService.updateGradeScale(
+        req.params.id,
+        req.body.gradeScale,
+        req.user!
+      );
+
+      logger.info(`Grade scale updated for lesson ${req.params.id} by ${req.user!.email}`);
+
+      res.json({
+        success: true,
+        data: gradeScale,
+        message: 'Grade scale updated successfully'
+      });
+    } catch (error: any) {
+      if (error.message === 'Lesson not found' || error.message === 'Access denied') {
+        res.status(404).json({
+          success: false,
+          error: 'Lesson not found or access denied'
+        });
+        return;
+      }
+
+      if (error.message.startsWith('Grade scale')) {
+        res.status(400).json({
+          success: false,
+          error: error.message
+        });
+        return;
+      }
+
+      logger.error('Error updating grade scale:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to update grade scale'
+      });
+      return;
+    }
   }
 };
\ No newline at end of file
@@ -2,6 +2,8 @@ import { Response } from 'express';
 import { PrismaClient, UserRole, UserStatus } from '@prisma/client';
 import bcrypt from 'bcrypt';
 import { AuthenticatedRequest } from '../middleware/auth/authMiddleware';
+import { refreshTokenService } from '../services/auth/refreshTokenService';
+import { auditRecorder } from '../services/audit/auditRecorder';
 import { logger } from '../utils/logger';
 
 const prisma = new PrismaClient();
@@ -192,6 +194,14 @@ export const userController = {
         }
       });
 
+      await auditRecorder.record({
+        userId: currentUser.id,
+        action: 'CREATE',
+        resource: 'user',
+        resourceId: user.id,
+        after: user
+      });
+
       logger.info(`User created: ${user.email} by ${currentUser.email}`);
 
       res.status(201).json({
@@ -251,6 +261,15 @@ export const userController = {
         where.tenantId = currentUser.tenantId;
       }
 
+      const existingUser = await prisma.user.findFirst({ where });
+      if (!existingUser) {
+        res.status(404).json({
+          success: false,
+          error: 'User not found'
+        });
+        return;
+      }
+
       const user = await prisma.user.update({
         where,
         data: updateData,
@@ -268,6 +287,15 @@ export const userController = {
         }
       });
 
+      await auditRecorder.record({
+        userId: currentUser.id,
+        action: 'UPDATE',
+        resource: 'user',
+        resourceId: user.id,
+        before: existingUser,
+        after: user
+      });
+
       logger.info(`User updated: ${user.email} by ${currentUser.email}`);
 
       res.json({
@@ -355,6 +383,14 @@ export const userController = {
         }
       });
 
+      await auditRecorder.record({
+        userId: currentUser.id,
+        action: 'UPDATE',
+        resource: 'user',
+        resourceId: id,
+        metadata: { event: 'password_change' }
+      });
+
       logger.info(`Password changed for user: ${user.email} by ${currentUser.email}`);
 
       res.json({
@@ -423,6 +459,53 @@ export const userController = {
     }
   },
 
+  // Revoke all sessions of a user (Admin only)
+  async revokeSessions(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const currentUser = req.user!;
+
+      const where: any = { id };
+      if (currentUser.tenantId) {
+        where.tenantId = currentUser.tenantId;
+      }
+
+      const user = await prisma.user.findFirst({ where });
+      if (!user) {
+        res.status(404).json({
+          success: false,
+          error: 'User not found'
+        });
+        return;
+      }
+
+      const revoked = await refreshTokenService.revokeAllForUser(id, 'ADMIN');
+
+      await auditRecorder.record({
+        userId: currentUser.id,
+        action: 'LOGOUT',
+        resource: 'session',
+        resourceId: id,
+        metadata: { event: 'admin_revoke', revoked }
+      });
+
+      logger.info(`Sessions revoked for user: ${user.email} by ${currentUser.email}`, { revoked });
+
+      res.json({
+        success: true,
+        data: { revoked },
+        message: 'Sessions revoked successfully'
+      });
+    } catch (error) {
+      logger.error('Error revoking sessions:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to revoke sessions'
+      });
+      return;
+    }
+  },
+
   // Delete user (Admin only)
   async deleteUser(req: AuthenticatedRequest, res: Response): Promise<void> {
     try {
@@ -454,6 +537,14 @@ export const userController = {
 
       await prisma.user.delete({ where: { id } });
 
+      await auditRecorder.record({
+        userId: currentUser.id,
+        action: 'DELETE',
+        resource: 'user',
+        resourceId: id,
+        before: user
+      });
+
       logger.info(`User deleted: ${user.email} by ${currentUser.email}`);
 
       res.json({
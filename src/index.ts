@@ -14,14 +14,19 @@ import { logger } from './utils/logger';
 // Import middleware
 import { errorHandler } from './middleware/error/errorHandler';
 import { notFoundHandler } from './middleware/error/notFoundHandler';
-import { requestLogger } from './middleware/logger/requestLogger';
+import { requestLogger, redactUrl } from './middleware/logger/requestLogger';
 import { corsMiddleware } from './middleware/security/corsMiddleware';
 import { securityMiddleware } from './middleware/security/securityMiddleware';
 import { rateLimitMiddleware } from './middleware/security/rateLimitMiddleware';
+import { auditContextMiddleware } from './middleware/audit/auditContextMiddleware';
 
 // Import routes
 import routes from './routes';
 
+// Import background jobs
+import { jobWorker } from './services/jobs/jobWorker';
+import { registerJobHandlers } from './services/jobs/handlers';
+
 // Load environment variables
 dotenv.config();
 
@@ -77,6 +82,7 @@ app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
 // Apply logging middleware
 if (environment.server.nodeEnv !== 'test') {
+  morgan.token('url', (req: express.Request) => redactUrl(req.originalUrl || req.url));
   app.use(morgan('combined', { 
     stream: { 
       write: (message: string) => logger.info(message.trim()) 
@@ -84,6 +90,7 @@ if (environment.server.nodeEnv !== 'test') {
   }));
 }
 app.use(requestLogger);
+app.use(auditContextMiddleware);
 
 // Health check endpoint
 app.get('/health', (_req, res) => {
@@ -106,6 +113,9 @@ app.use(errorHandler);
 // Graceful shutdown handler
 const gracefulShutdown = async (signal: string) => {
   logger.info(`Received ${signal}, shutting down gracefully`);
+
+  // Let the job in progress finish; unfinished work stays queued
+  await jobWorker.stop();
   
   server.close(() => {
     logger.info('HTTP server closed');
@@ -145,6 +155,12 @@ const startServer = async () => {
       logger.info(`🚀 Backend running locally with hot reload enabled!`);
     });
 
+    // Start processing background jobs
+    if (environment.jobs.workerEnabled) {
+      registerJobHandlers(jobWorker);
+      jobWorker.start();
+    }
+
   } catch (error) {
     logger.error('Failed to start server:', error);
     process.exit(1);
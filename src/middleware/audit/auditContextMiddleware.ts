@@ -0,0 +1,21 @@
+import { Request, Response, NextFunction } from 'express';
+import { runWithAuditContext } from '../../services/audit/auditContext';
+import { extractDeviceInfo } from '../auth/sessionMiddleware';
+
+/**
+ * Make the client's IP and user agent available to audit entries recorded
+ * anywhere while the request is handled.
+ *
+ * Stream-based middleware such as multer resumes in the socket's async
+ * context, so routes that parse uploads mount this again after the upload
+ * middleware to restore it.
+ */
+export const auditContextMiddleware = (req: Request, _res: Response, next: NextFunction) => {
+  const { ipAddress, userAgent } = extractDeviceInfo(req);
+
+  runWithAuditContext({
+    ipAddress,
+    userAgent,
+    requestId: req.headers['x-request-id'] as string | undefined
+  }, next);
+};
@@ -1,6 +1,9 @@
 import { Request, Response, NextFunction } from 'express';
 import { UserRole } from '@prisma/client';
 import { jwtService } from '../../services/auth/jwtService';
+import { refreshTokenService } from '../../services/auth/refreshTokenService';
+import { verifyPlaybackToken } from '../../services/auth/playbackToken';
+import { config } from '../../config/environment';
 import { prisma } from '../../config/database';
 import { logger } from '../../utils/logger';
 import { AppError } from '../../types';
@@ -21,6 +24,7 @@ export interface AuthenticatedRequest extends Request {
     emailVerified?: Date;
     createdAt: Date;
   };
+  sessionId?: string; // Refresh-token family of the access token, if any
 }
 
 /**
@@ -70,6 +74,12 @@ export const authenticate = async (
       throw new AppError('Account is not active', 403);
     }
 
+    // Access tokens die with their session (logout, log out everywhere, revocation)
+    if (payload.familyId && !(await refreshTokenService.isFamilyActive(payload.familyId))) {
+      throw new AppError('Session has been revoked', 401);
+    }
+    req.sessionId = payload.familyId;
+
     // Add user to request object
     req.user = {
       id: user.id,
@@ -150,7 +160,10 @@ export const optionalAuthenticate = async (
       }
     });
 
-    if (user && user.status === 'ACTIVE') {
+    const sessionActive = !payload.familyId || await refreshTokenService.isFamilyActive(payload.familyId);
+
+    if (user && user.status === 'ACTIVE' && sessionActive) {
+      req.sessionId = payload.familyId;
       req.user = {
         id: user.id,
         email: user.email,
@@ -179,6 +192,89 @@ export const optionalAuthenticate = async (
   }
 };
 
+/**
+ * Playback authentication middleware - Accepts a bearer token or a signed
+ * playback URL (`?token=`) issued for the video in the `id` route param.
+ * Media elements cannot send headers, so this is how streams, HLS files and
+ * thumbnails authenticate without putting the access token in the URL.
+ */
+export const authenticatePlayback = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  if (req.headers.authorization) {
+    return authenticate(req, res, next);
+  }
+
+  try {
+    const token = typeof req.query.token === 'string' ? req.query.token : undefined;
+    if (!token) {
+      throw new AppError('Authentication required', 401);
+    }
+
+    const result = verifyPlaybackToken(token, config.playback.tokenSecret, {
+      videoId: req.params.id,
+      ip: req.ip,
+      now: Date.now()
+    });
+
+    if (!result.ok) {
+      logger.debug('Playback token rejected', {
+        reason: result.reason,
+        videoId: req.params.id,
+        ip: req.ip
+      });
+      throw new AppError('Invalid or expired playback URL', 401, true, 'INVALID_PLAYBACK_TOKEN');
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: result.claims.userId },
+      select: {
+        id: true,
+        email: true,
+        username: true,
+        firstName: true,
+        lastName: true,
+        avatar: true,
+        role: true,
+        status: true,
+        tenantId: true,
+        lastLoginAt: true,
+        emailVerified: true,
+        createdAt: true
+      }
+    });
+
+    if (!user || user.status !== 'ACTIVE') {
+      throw new AppError('Invalid or expired playback URL', 401, true, 'INVALID_PLAYBACK_TOKEN');
+    }
+
+    req.user = {
+      id: user.id,
+      email: user.email,
+      username: user.username || undefined,
+      firstName: user.firstName,
+      lastName: user.lastName,
+      avatar: user.avatar || undefined,
+      role: user.role,
+      status: user.status.toString(),
+      tenantId: user.tenantId || undefined,
+      lastLoginAt: user.lastLoginAt || undefined,
+      emailVerified: user.emailVerified || undefined,
+      createdAt: user.createdAt
+    };
+
+    next();
+  } catch (error) {
+    if (error instanceof AppError) {
+      return next(error);
+    }
+
+    next(new AppError('Authentication failed', 401));
+  }
+};
+
 /**
  * Role-based authorization middleware factory
  */
@@ -1,8 +1,9 @@
-import { Response, NextFunction } from 'express';
+import { Request, Response, NextFunction } from 'express';
 import { AuthenticatedRequest } from './authMiddleware';
+import { DeviceInfo } from '../../services/auth/refreshTokenService';
 import { prisma } from '../../config/database';
 import { logger } from '../../utils/logger';
-import { environment } from '../../config/environment';
+import { settingsService } from '../../services/settings/settingsService';
 
 /**
  * Session validation middleware - Checks if user session is still valid
@@ -18,7 +19,8 @@ export const validateSession = async (
 
   try {
     const userId = req.user.id;
-    const sessionTimeout = environment.session.timeoutMinutes * 60 * 1000; // Convert to milliseconds
+    const timeoutMinutes = await settingsService.get('session.timeoutMinutes');
+    const sessionTimeout = timeoutMinutes * 60 * 1000; // Convert to milliseconds
     const now = new Date();
     
     // Check if user's last activity was within session timeout
@@ -39,7 +41,7 @@ export const validateSession = async (
       logger.info('Session expired due to inactivity', {
         userId,
         lastActivity: lastActivity.toISOString(),
-        sessionTimeout: `${environment.session.timeoutMinutes} minutes`
+        sessionTimeout: `${timeoutMinutes} minutes`
       });
       
       // Don't update lastLoginAt here as session is expired
@@ -77,56 +79,13 @@ export const validateSession = async (
 };
 
 /**
- * Concurrent session limit middleware
+ * Device details recorded on login sessions. Concurrent session limits are
+ * enforced at login, see sessionService.admitLogin.
  */
-export const checkConcurrentSessions = async (
-  req: AuthenticatedRequest,
-  _res: Response,
-  next: NextFunction
-) => {
-  if (!req.user) {
-    return next();
-  }
-
-  try {
-    const userId = req.user.id;
-    const maxConcurrentSessions = 3; // Allow maximum 3 concurrent sessions
-    const sessionTimeout = environment.session.timeoutMinutes * 60 * 1000;
-    const cutoffTime = new Date(Date.now() - sessionTimeout);
-
-    // Count active student sessions for this user
-    const activeSessions = await prisma.studentSession.count({
-      where: {
-        studentId: userId,
-        lastSeenAt: {
-          gte: cutoffTime
-        },
-        status: 'ACTIVE'
-      }
-    });
-
-    if (activeSessions > maxConcurrentSessions) {
-      logger.warn('Too many concurrent sessions', {
-        userId,
-        activeSessions,
-        maxAllowed: maxConcurrentSessions
-      });
-
-      // Optionally, you could terminate the oldest sessions here
-      // For now, just warn and continue
-    }
-
-    next();
-  } catch (error) {
-    logger.error('Concurrent session check error', {
-      error: error instanceof Error ? error.message : 'Unknown error',
-      userId: req.user.id,
-      requestId: req.headers['x-request-id']
-    });
-    
-    next();
-  }
-};
+export const extractDeviceInfo = (req: Request): DeviceInfo => ({
+  userAgent: req.headers['user-agent']?.slice(0, 512),
+  ipAddress: req.ip
+});
 
 /**
  * Device fingerprinting middleware for session security
@@ -143,10 +102,9 @@ export const captureDeviceInfo = (
   try {
     // Capture device and browser information
     const deviceInfo = {
-      userAgent: req.headers['user-agent'],
+      ...extractDeviceInfo(req),
       acceptLanguage: req.headers['accept-language'],
       acceptEncoding: req.headers['accept-encoding'],
-      ip: req.ip,
       timestamp: new Date().toISOString()
     };
 
@@ -176,11 +134,11 @@ export const captureDeviceInfo = (
  */
 export const cleanupExpiredSessions = async () => {
   try {
-    const sessionTimeout = environment.session.timeoutMinutes * 60 * 1000;
+    const sessionTimeout = (await settingsService.get('session.timeoutMinutes')) * 60 * 1000;
     const cutoffTime = new Date(Date.now() - sessionTimeout);
 
-    // Clean up expired student sessions
-    const deletedSessions = await prisma.studentSession.deleteMany({
+    // Mark expired student sessions abandoned; they are viewing history, and resume when reopened
+    const abandonedSessions = await prisma.studentSession.updateMany({
       where: {
         lastSeenAt: {
           lt: cutoffTime
@@ -188,12 +146,15 @@ export const cleanupExpiredSessions = async () => {
         status: {
           in: ['ACTIVE', 'PAUSED']
         }
+      },
+      data: {
+        status: 'ABANDONED'
       }
     });
 
-    if (deletedSessions.count > 0) {
-      logger.info('Cleaned up expired sessions', {
-        deletedCount: deletedSessions.count,
+    if (abandonedSessions.count > 0) {
+      logger.info('Marked expired sessions abandoned', {
+        abandonedCount: abandonedSessions.count,
         cutoffTime: cutoffTime.toISOString()
       });
     }
@@ -0,0 +1,79 @@
+import { Response, NextFunction } from 'express';
+import { AuthenticatedRequest } from '../auth/authMiddleware';
+import { idempotencyService } from '../../services/idempotency/idempotencyService';
+import { isValidIdempotencyKey, requestFingerprint } from '../../services/idempotency/idempotencyKeys';
+import { logger } from '../../utils/logger';
+import { AppError } from '../../types';
+
+/**
+ * Idempotency middleware - A request sent with an `Idempotency-Key` header
+ * runs once per user and key; retries get the first response again, marked
+ * with `Idempotent-Replayed: true`. Reusing a key with another method, path
+ * or body is refused with 422. Requests without the header run as usual.
+ * Mount after `authenticate`. Server errors are not stored, so they can be
+ * retried with the same key.
+ */
+export const idempotent = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const key = req.header('idempotency-key');
+  if (!key || !req.user) {
+    return next();
+  }
+
+  const userId = req.user.id;
+
+  try {
+    if (!isValidIdempotencyKey(key)) {
+      throw new AppError('Invalid idempotency key', 400, true, 'INVALID_IDEMPOTENCY_KEY');
+    }
+
+    const stored = await idempotencyService.begin(userId, key, requestFingerprint(req.method, req.originalUrl, req.body));
+    if (stored) {
+      res.setHeader('Idempotent-Replayed', 'true');
+      res.status(stored.statusCode).json(stored.body);
+      return;
+    }
+  } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+        code: error.code
+      });
+      return;
+    }
+    return next(error);
+  }
+
+  let settled = false;
+  const settle = (statusCode: number, body: unknown) => {
+    if (settled) return;
+    settled = true;
+
+    const saved = statusCode >= 500
+      ? idempotencyService.release(userId, key)
+      // Stored as the client received it, with dates as strings
+      : idempotencyService.complete(userId, key, { statusCode, body: JSON.parse(JSON.stringify(body ?? null)) });
+
+    saved.catch(error => {
+      logger.error('Failed to save idempotent response', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        requestId: req.headers['x-request-id']
+      });
+    });
+  };
+
+  const json = res.json.bind(res);
+  res.json = (body?: unknown) => {
+    settle(res.statusCode, body);
+    return json(body);
+  };
+
+  // Responses not sent as JSON, or not sent at all, leave the key free for a retry
+  res.on('close', () => settle(500, null));
+
+  next();
+};
@@ -6,6 +6,10 @@ interface RequestWithTiming extends Request {
   startTime?: number;
 }
 
+// Signed playback URLs carry their credential in the query string
+export const redactUrl = (url: string): string =>
+  url.replace(/([?&]token=)[^&#]*/g, '$1[REDACTED]');
+
 export const requestLogger = (req: RequestWithTiming, res: Response, next: NextFunction) => {
   const startTime = performance.now();
   req.startTime = startTime;
@@ -21,7 +25,7 @@ export const requestLogger = (req: RequestWithTiming, res: Response, next: NextF
   logger.info('Request started', {
     requestId,
     method: req.method,
-    url: req.originalUrl,
+    url: redactUrl(req.originalUrl),
     ip: realIp,
     userAgent,
     userId: userId || 'anonymous',
@@ -47,7 +51,7 @@ export const requestLogger = (req: RequestWithTiming, res: Response, next: NextF
     logger[logLevel]('Request completed', {
       requestId,
       method: req.method,
-      url: req.originalUrl,
+      url: redactUrl(req.originalUrl),
       statusCode: res.statusCode,
       duration: `${duration}ms`,
       contentLength: res.getHeader('content-length'),
@@ -62,7 +66,7 @@ export const requestLogger = (req: RequestWithTiming, res: Response, next: NextF
       logger.warn('Slow request detected', {
         requestId,
         method: req.method,
-        url: req.originalUrl,
+        url: redactUrl(req.originalUrl),
         duration: `${duration}ms`,
         statusCode: res.statusCode,
         userId: userId || 'anonymous'
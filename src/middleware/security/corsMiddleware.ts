@@ -36,7 +36,10 @@ const corsOptions: cors.CorsOptions = {
     'Authorization',
     'X-API-Key',
     'X-Client-Version',
-    'X-Request-ID'
+    'X-Request-ID',
+    'Upload-Offset',
+    'Idempotency-Key',
+    'Operation-Age'
   ],
   
   exposedHeaders: [
@@ -45,7 +48,9 @@ const corsOptions: cors.CorsOptions = {
     'X-Current-Page',
     'X-Per-Page',
     'X-Rate-Limit-Remaining',
-    'X-Rate-Limit-Reset'
+    'X-Rate-Limit-Reset',
+    'Upload-Offset',
+    'Idempotent-Replayed'
   ],
   
   credentials: true,
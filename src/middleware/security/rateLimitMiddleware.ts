@@ -2,6 +2,7 @@ import rateLimit from 'express-rate-limit';
 import { Request, Response } from 'express';
 import { environment } from '../../config/environment';
 import { logger } from '../../utils/logger';
+import { settingsService } from '../../services/settings/settingsService';
 
 // Custom key generator for rate limiting
 const keyGenerator = (req: Request): string => {
@@ -24,6 +25,16 @@ const skipFunction = (req: Request): boolean => {
     return true;
   }
   
+  // Skip resumable upload chunks; a large video legitimately takes many requests
+  if (req.method === 'PATCH' && /\/videos\/[^/]+\/upload$/.test(req.path)) {
+    return true;
+  }
+  
+  // Analytics batches have their own per-user limit, see analyticsRateLimitMiddleware
+  if (req.method === 'POST' && req.path.endsWith('/analytics/events')) {
+    return true;
+  }
+  
   // Skip for internal requests (if they have special header)
   if (req.headers['x-internal-request'] === 'true') {
     return true;
@@ -55,7 +66,8 @@ const rateLimitHandler = (req: Request, res: Response) => {
 // Default rate limit configuration
 export const rateLimitMiddleware = rateLimit({
   windowMs: environment.rateLimit.windowMs,
-  max: environment.rateLimit.maxRequests,
+  // Admins can raise or lower the limit at runtime, see settingsService
+  max: () => settingsService.get('rateLimit.maxRequests'),
   keyGenerator,
   skip: skipFunction,
   handler: rateLimitHandler,
@@ -151,4 +163,31 @@ export const aiRateLimitMiddleware = rateLimit({
   },
   standardHeaders: true,
   legacyHeaders: false
-});
\ No newline at end of file
+});
+// Rate limit for analytics event batches, applied after authentication so it counts per user
+export const analyticsRateLimitMiddleware = rateLimit({
+  windowMs: 60 * 1000, // 1 minute
+  max: 30, // 30 batches per minute
+  keyGenerator,
+  skip: (req: Request) => req.headers['x-internal-request'] === 'true',
+  handler: (req: Request, res: Response) => {
+    const identifier = keyGenerator(req);
+    logger.warn(`Analytics rate limit exceeded for ${identifier}`, {
+      identifier,
+      path: req.path,
+      method: req.method,
+      userAgent: req.headers['user-agent'],
+      ip: req.ip
+    });
+
+    res.status(429).json({
+      error: {
+        code: 'ANALYTICS_RATE_LIMIT_EXCEEDED',
+        message: 'Too many analytics requests. Please slow down.',
+        retryAfter: 60
+      }
+    });
+  },
+  standardHeaders: true,
+  legacyHeaders: false
+});
@@ -1,8 +1,11 @@
 import multer from 'multer'
 import path from 'path'
 import fs from 'fs/promises'
-import { Request } from 'express'
+import { Request, Response, NextFunction } from 'express'
 import { v4 as uuidv4 } from 'uuid'
+import { fileStorage, STAGING_DIR } from '../../services/storage/fileStorage'
+import { storageKeys } from '../../services/storage/storageDriver'
+import { settingsService } from '../../services/settings/settingsService'
 
 // Supported video formats
 const SUPPORTED_VIDEO_TYPES = [
@@ -14,37 +17,24 @@ const SUPPORTED_VIDEO_TYPES = [
   'video/webm'
 ]
 
-// Maximum file size (500MB)
-const MAX_FILE_SIZE = 500 * 1024 * 1024
+// Caption files are small text files, kept in memory until validated
+const SUPPORTED_CAPTION_EXTENSIONS = ['.vtt', '.srt']
+const MAX_CAPTION_FILE_SIZE = 2 * 1024 * 1024
 
-// Video upload directory
-const UPLOAD_DIR = path.join(process.cwd(), 'uploads', 'videos')
-const THUMBNAIL_DIR = path.join(process.cwd(), 'uploads', 'thumbnails')
-
-// Ensure upload directories exist
-const ensureUploadDirectories = async () => {
-  try {
-    await fs.access(UPLOAD_DIR)
-  } catch {
-    await fs.mkdir(UPLOAD_DIR, { recursive: true })
-  }
-  
-  try {
-    await fs.access(THUMBNAIL_DIR)
-  } catch {
-    await fs.mkdir(THUMBNAIL_DIR, { recursive: true })
-  }
+// Ensure the staging directory exists
+const ensureStagingDirectory = async () => {
+  await fs.mkdir(STAGING_DIR, { recursive: true })
 }
 
 // Initialize directories on module load
-ensureUploadDirectories().catch(console.error)
+ensureStagingDirectory().catch(console.error)
 
 // Multer storage configuration for videos
 const storage = multer.diskStorage({
   destination: async (_req, _file, cb) => {
     try {
-      await ensureUploadDirectories()
-      cb(null, UPLOAD_DIR)
+      await ensureStagingDirectory()
+      cb(null, STAGING_DIR)
     } catch (error) {
       cb(error as Error | null, '')
     }
@@ -68,17 +58,46 @@ const fileFilter = (_req: Request, file: Express.Multer.File, cb: multer.FileFil
 }
 
 // Multer configuration
-const upload = multer({
+const videoUpload = (maxFileSizeMb: number) => multer({
   storage,
   fileFilter,
   limits: {
-    fileSize: MAX_FILE_SIZE,
+    fileSize: maxFileSizeMb * 1024 * 1024,
     files: 1 // Only one video file at a time
   }
-})
+}).single('video')
+
+// Middleware for single video upload. The size limit is an admin setting,
+// so it is read for each upload; handleUploadErrors reports it from res.locals
+export const uploadVideoMiddleware = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const maxFileSizeMb = await settingsService.get('video.maxFileSizeMb')
+    res.locals.maxFileSizeMb = maxFileSizeMb
+    videoUpload(maxFileSizeMb)(req, res, next)
+  } catch (error) {
+    next(error)
+  }
+}
 
-// Middleware for single video upload
-export const uploadVideoMiddleware = upload.single('video')
+// Move a video received by uploadVideoMiddleware from staging into storage,
+// under the same generated file name
+export const storeUploadedVideo = async (req: Request, res: Response, next: NextFunction) => {
+  if (!req.file) {
+    return next()
+  }
+
+  try {
+    await fileStorage.moveFile(storageKeys.video(req.file.filename), req.file.path, { contentType: req.file.mimetype })
+    next()
+  } catch (error) {
+    console.error('Error storing uploaded video:', error)
+    await fs.unlink(req.file.path).catch(() => {})
+    res.status(500).json({
+      success: false,
+      error: 'Failed to store uploaded video'
+    })
+  }
+}
 
 // Middleware for handling multer errors
 export const handleUploadErrors = (error: any, _req: Request, res: any, next: any) => {
@@ -87,7 +106,7 @@ export const handleUploadErrors = (error: any, _req: Request, res: any, next: an
       case 'LIMIT_FILE_SIZE':
         return res.status(400).json({
           success: false,
-          error: 'File too large. Maximum size is 500MB.'
+          error: `File too large. Maximum size is ${res.locals.maxFileSizeMb}MB.`
         })
       case 'LIMIT_UNEXPECTED_FILE':
         return res.status(400).json({
@@ -112,34 +131,49 @@ export const handleUploadErrors = (error: any, _req: Request, res: any, next: an
   next(error)
 }
 
-// Utility function to get video file path
-export const getVideoFilePath = (filename: string): string => {
-  return path.join(UPLOAD_DIR, filename)
-}
+// Multer configuration for caption files (WebVTT or SRT)
+const captionUpload = multer({
+  storage: multer.memoryStorage(),
+  fileFilter: (_req, file, cb) => {
+    if (SUPPORTED_CAPTION_EXTENSIONS.includes(path.extname(file.originalname).toLowerCase())) {
+      cb(null, true)
+    } else {
+      cb(new Error(`Unsupported caption file. Supported types: ${SUPPORTED_CAPTION_EXTENSIONS.join(', ')}`))
+    }
+  },
+  limits: {
+    fileSize: MAX_CAPTION_FILE_SIZE,
+    files: 1
+  }
+})
 
-// Utility function to get thumbnail file path
-export const getThumbnailFilePath = (filename: string): string => {
-  return path.join(THUMBNAIL_DIR, filename)
-}
+// Middleware for single caption upload
+export const uploadCaptionMiddleware = captionUpload.single('caption')
 
-// Utility function to delete video file
-export const deleteVideoFile = async (filename: string): Promise<void> => {
-  try {
-    const filePath = getVideoFilePath(filename)
-    await fs.unlink(filePath)
-  } catch (error) {
-    console.error('Error deleting video file:', error)
+// Middleware for handling caption upload errors
+export const handleCaptionUploadErrors = (error: any, _req: Request, res: any, next: any) => {
+  if (error instanceof multer.MulterError) {
+    return res.status(400).json({
+      success: false,
+      error: error.code === 'LIMIT_FILE_SIZE'
+        ? 'Caption file too large. Maximum size is 2MB.'
+        : `Upload error: ${error.message}`
+    })
   }
-}
 
-// Utility function to delete thumbnail file
-export const deleteThumbnailFile = async (filename: string): Promise<void> => {
-  try {
-    const filePath = getThumbnailFilePath(filename)
-    await fs.unlink(filePath)
-  } catch (error) {
-    console.error('Error deleting thumbnail file:', error)
+  if (error.message.includes('Unsupported caption file')) {
+    return res.status(400).json({
+      success: false,
+      error: error.message
+    })
   }
+
+  next(error)
+}
+
+// Utility function to get the staging path of a resumable upload in progress
+export const getStagedFilePath = (filename: string): string => {
+  return path.join(STAGING_DIR, filename)
 }
 
-export { UPLOAD_DIR, THUMBNAIL_DIR, SUPPORTED_VIDEO_TYPES, MAX_FILE_SIZE }
\ No newline at end of file
+export { SUPPORTED_VIDEO_TYPES }
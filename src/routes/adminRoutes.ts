@@ -0,0 +1,255 @@
+import { Router } from 'express';
+import { adminController } from '../controllers/adminController';
+import { authenticate, authorize } from '../middleware/auth/authMiddleware';
+import { body, param, query } from 'express-validator';
+import { AuditAction } from '@prisma/client';
+import { validateRequest } from '../middleware/validation/validateRequest';
+import { AUDIT_RESOURCES } from '../services/audit/auditRecorder';
+import { CONFIGURABLE_AI_PROVIDERS } from '../services/ai/types';
+import { SETTING_KEYS } from '../services/settings/settingDefinitions';
+
+const router = Router();
+
+// Every admin route requires an authenticated administrator
+router.use(authenticate, authorize(['ADMIN']));
+
+// Validation schemas
+const jobIdValidation = [
+  param('id')
+    .isString()
+    .isLength({ min: 1 })
+    .withMessage('Job ID is required')
+];
+
+const listJobsValidation = [
+  query('page')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Page must be a positive integer'),
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage('Limit must be between 1 and 100'),
+  query('status')
+    .optional()
+    .isIn(['PENDING', 'RUNNING', 'COMPLETED', 'DEAD', 'CANCELLED'])
+    .withMessage('Status must be PENDING, RUNNING, COMPLETED, DEAD, or CANCELLED'),
+  query('type')
+    .optional()
+    .isString()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Type must be 1-100 characters')
+];
+
+const listAuditLogsValidation = [
+  query('page')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Page must be a positive integer'),
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage('Limit must be between 1 and 100'),
+  query('userId')
+    .optional()
+    .isString()
+    .isLength({ min: 1 })
+    .withMessage('User ID must be a non-empty string'),
+  query('resource')
+    .optional()
+    .isIn(AUDIT_RESOURCES)
+    .withMessage(`Resource must be one of: ${AUDIT_RESOURCES.join(', ')}`),
+  query('resourceId')
+    .optional()
+    .isString()
+    .isLength({ min: 1 })
+    .withMessage('Resource ID must be a non-empty string'),
+  query('action')
+    .optional()
+    .isIn(Object.values(AuditAction))
+    .withMessage(`Action must be one of: ${Object.values(AuditAction).join(', ')}`),
+  query('from')
+    .optional()
+    .isISO8601()
+    .withMessage('From must be an ISO 8601 date'),
+  query('to')
+    .optional()
+    .isISO8601()
+    .withMessage('To must be an ISO 8601 date'),
+  query('search')
+    .optional()
+    .isString()
+    .isLength({ max: 200 })
+    .withMessage('Search must be at most 200 characters')
+];
+
+const aiConfigurationIdValidation = [
+  param('id')
+    .isString()
+    .isLength({ min: 1 })
+    .withMessage('Configuration ID is required')
+];
+
+// Shared by create and update; create additionally requires provider, name and model
+const aiConfigurationFieldValidation = [
+  body('provider')
+    .optional()
+    .isIn(CONFIGURABLE_AI_PROVIDERS)
+    .withMessage(`Provider must be one of: ${CONFIGURABLE_AI_PROVIDERS.join(', ')}`),
+  body('name')
+    .optional()
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Name must be 1-100 characters'),
+  body('model')
+    .optional()
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Model must be 1-100 characters'),
+  body('apiKey')
+    .optional({ values: 'null' })
+    .isString()
+    .isLength({ min: 1, max: 500 })
+    .withMessage('API key must be 1-500 characters'),
+  body('endpoint')
+    .optional({ values: 'null' })
+    .isURL({ require_tld: false, protocols: ['http', 'https'] })
+    .withMessage('Endpoint must be an http(s) URL'),
+  body('parameters')
+    .optional({ values: 'null' })
+    .isObject()
+    .withMessage('Parameters must be an object'),
+  body('isActive')
+    .optional()
+    .isBoolean()
+    .withMessage('isActive must be a boolean')
+    .toBoolean(),
+  body(['rateLimit', 'maxTokens'])
+    .optional({ values: 'null' })
+    .isInt({ min: 1 })
+    .withMessage('Must be a positive integer')
+    .toInt(),
+  body(['costPerToken', 'monthlyBudget'])
+    .optional({ values: 'null' })
+    .isFloat({ min: 0 })
+    .withMessage('Must be a non-negative number')
+    .toFloat()
+];
+
+const createAIConfigurationValidation = [
+  body('provider').exists().withMessage('Provider is required'),
+  body('name').exists().withMessage('Name is required'),
+  body('model').exists().withMessage('Model is required'),
+  ...aiConfigurationFieldValidation
+];
+
+const aiUsageValidation = [
+  query('from')
+    .optional()
+    .isISO8601()
+    .withMessage('From must be an ISO 8601 date'),
+  query('to')
+    .optional()
+    .isISO8601()
+    .withMessage('To must be an ISO 8601 date')
+];
+
+const settingKeyValidation = [
+  param('key')
+    .isIn(SETTING_KEYS)
+    .withMessage(`Setting must be one of: ${SETTING_KEYS.join(', ')}`)
+];
+
+const updateSettingValidation = [
+  ...settingKeyValidation,
+  body('value')
+    .exists()
+    .withMessage('Value is required')
+];
+
+// Routes
+
+// GET /api/admin/audit - Browse the audit trail
+router.get('/audit',
+  listAuditLogsValidation,
+  validateRequest,
+  adminController.listAuditLogs
+);
+
+// GET /api/admin/jobs - List background jobs
+router.get('/jobs',
+  listJobsValidation,
+  validateRequest,
+  adminController.listJobs
+);
+
+// POST /api/admin/jobs/:id/retry - Requeue a dead or cancelled job
+router.post('/jobs/:id/retry',
+  jobIdValidation,
+  validateRequest,
+  adminController.retryJob
+);
+
+// POST /api/admin/jobs/:id/cancel - Cancel a pending or running job
+router.post('/jobs/:id/cancel',
+  jobIdValidation,
+  validateRequest,
+  adminController.cancelJob
+);
+
+// GET /api/admin/ai/configurations - List AI provider configurations
+router.get('/ai/configurations',
+  adminController.listAIConfigurations
+);
+
+// POST /api/admin/ai/configurations - Add an AI provider configuration
+router.post('/ai/configurations',
+  createAIConfigurationValidation,
+  validateRequest,
+  adminController.createAIConfiguration
+);
+
+// PUT /api/admin/ai/configurations/:id - Change an AI provider configuration
+router.put('/ai/configurations/:id',
+  aiConfigurationIdValidation,
+  aiConfigurationFieldValidation,
+  validateRequest,
+  adminController.updateAIConfiguration
+);
+
+// DELETE /api/admin/ai/configurations/:id - Delete an AI provider configuration
+router.delete('/ai/configurations/:id',
+  aiConfigurationIdValidation,
+  validateRequest,
+  adminController.deleteAIConfiguration
+);
+
+// GET /api/admin/ai/usage - AI usage per teacher and per configuration
+router.get('/ai/usage',
+  aiUsageValidation,
+  validateRequest,
+  adminController.getAIUsageReport
+);
+
+// GET /api/admin/settings - List runtime settings
+router.get('/settings',
+  adminController.listSettings
+);
+
+// PUT /api/admin/settings/:key - Override a runtime setting
+router.put('/settings/:key',
+  updateSettingValidation,
+  validateRequest,
+  adminController.updateSetting
+);
+
+// DELETE /api/admin/settings/:key - Reset a runtime setting to its default
+router.delete('/settings/:key',
+  settingKeyValidation,
+  validateRequest,
+  adminController.resetSetting
+);
+
+export default router;
@@ -1,23 +1,34 @@
 import { Router, Response } from 'express'
 import { body } from 'express-validator'
 import { validationResult } from 'express-validator'
-import { validateCUIDParam } from '../utils/validators'
+import { validateCUIDParam, isCUID } from '../utils/validators'
 import { authenticate } from '../middleware/auth/authMiddleware'
 // import { roleMiddleware } from '../middleware/role' // TODO: Create this middleware
 import { AIQuestionService } from '../services/AIQuestionService'
 import { AuthenticatedRequest } from '../middleware/auth/authMiddleware'
+import { AppError } from '../types'
 
 const router = Router()
 
+// Rate limit and budget refusals carry their own status and code
+const sendAppError = (res: Response, error: AppError) => {
+  return res.status(error.statusCode).json({
+    success: false,
+    error: error.message,
+    code: error.code,
+    details: error.details
+  })
+}
+
 // Apply authentication middleware to all routes
 router.use(authenticate)
 
 // GET /api/ai/providers - Get available AI providers
 router.get('/providers', 
   // roleMiddleware(['TEACHER', 'ADMIN']), // TODO: Create this middleware
-  (_req: AuthenticatedRequest, res) => {
+  async (_req: AuthenticatedRequest, res: Response) => {
     try {
-      const providers = AIQuestionService.getAvailableProviders()
+      const providers = await AIQuestionService.getAvailableProviders()
       return res.json({
         success: true,
         data: {
@@ -43,7 +54,7 @@ router.post('/generate-questions',
   body('questionCount').optional().isInt({ min: 1, max: 10 }).withMessage('Question count must be between 1 and 10'),
   body('questionTypes').optional().isArray().withMessage('Question types must be an array'),
   body('difficulty').optional().isIn(['EASY', 'MEDIUM', 'HARD']).withMessage('Invalid difficulty level'),
-  body('provider').optional().isIn(['OPENAI', 'CLAUDE']).withMessage('Invalid AI provider'),
+  body('provider').optional().isIn(['OPENAI', 'CLAUDE', 'CUSTOM', 'FIXTURE']).withMessage('Invalid AI provider'),
   async (req: AuthenticatedRequest, res: Response) => {
     try {
       const errors = validationResult(req)
@@ -63,7 +74,7 @@ router.post('/generate-questions',
         questionTypes: req.body.questionTypes || ['MULTIPLE_CHOICE', 'TRUE_FALSE', 'SHORT_ANSWER'],
         difficulty: req.body.difficulty || 'MEDIUM',
         provider: req.body.provider
-      })
+      }, { userId: req.user!.id })
 
       return res.json({
         success: true,
@@ -73,6 +84,10 @@ router.post('/generate-questions',
 
     } catch (error: any) {
       console.error('Error generating questions:', error)
+
+      if (error instanceof AppError) {
+        return sendAppError(res, error)
+      }
       
       // Handle specific error types
       if (error.message.includes('No AI provider')) {
@@ -108,7 +123,7 @@ router.post('/generate-for-milestone/:milestoneId',
   body('questionCount').optional().isInt({ min: 1, max: 10 }).withMessage('Question count must be between 1 and 10'),
   body('questionTypes').optional().isArray().withMessage('Question types must be an array'),
   body('difficulty').optional().isIn(['EASY', 'MEDIUM', 'HARD']).withMessage('Invalid difficulty level'),
-  body('provider').optional().isIn(['OPENAI', 'CLAUDE']).withMessage('Invalid AI provider'),
+  body('provider').optional().isIn(['OPENAI', 'CLAUDE', 'CUSTOM', 'FIXTURE']).withMessage('Invalid AI provider'),
   async (req: AuthenticatedRequest, res: Response) => {
     try {
       const errors = validationResult(req)
@@ -136,6 +151,10 @@ router.post('/generate-for-milestone/:milestoneId',
 
     } catch (error: any) {
       console.error('Error generating questions for milestone:', error)
+
+      if (error instanceof AppError) {
+        return sendAppError(res, error)
+      }
       
       if (error.message === 'Milestone not found') {
         return res.status(404).json({
@@ -169,7 +188,7 @@ router.post('/generate-milestone-with-questions/:videoId',
   body('questionCount').optional().isInt({ min: 1, max: 10 }).withMessage('Question count must be between 1 and 10'),
   body('questionTypes').optional().isArray().withMessage('Question types must be an array'),
   body('difficulty').optional().isIn(['EASY', 'MEDIUM', 'HARD']).withMessage('Invalid difficulty level'),
-  body('provider').optional().isIn(['OPENAI', 'CLAUDE']).withMessage('Invalid AI provider'),
+  body('provider').optional().isIn(['OPENAI', 'CLAUDE', 'CUSTOM', 'FIXTURE']).withMessage('Invalid AI provider'),
   async (req: AuthenticatedRequest, res: Response) => {
     try {
       const errors = validationResult(req)
@@ -199,6 +218,10 @@ router.post('/generate-milestone-with-questions/:videoId',
 
     } catch (error: any) {
       console.error('Error generating milestone with questions:', error)
+
+      if (error instanceof AppError) {
+        return sendAppError(res, error)
+      }
       
       if (error.message.includes('No AI provider')) {
         return res.status(503).json({
@@ -216,4 +239,143 @@ router.post('/generate-milestone-with-questions/:videoId',
   }
 )
 
+const sendTranscriptError = (res: Response, error: any, fallback: string) => {
+  if (error instanceof AppError) {
+    return sendAppError(res, error)
+  }
+
+  if (error.message === 'Video not found' || error.message === 'Milestone not found') {
+    return res.status(404).json({
+      success: false,
+      error: error.message
+    })
+  }
+
+  if (error.message === 'Access denied') {
+    return res.status(403).json({
+      success: false,
+      error: 'Access denied'
+    })
+  }
+
+  if (error.message.startsWith('Transcript window') || error.message.startsWith('Transcript has no speech')) {
+    return res.status(400).json({
+      success: false,
+      error: error.message
+    })
+  }
+
+  if (error.message === 'No transcript available for this video') {
+    return res.status(422).json({
+      success: false,
+      error: error.message,
+      message: 'Upload captions for this video to generate questions from its transcript'
+    })
+  }
+
+  if (error.message.includes('No AI provider')) {
+    return res.status(503).json({
+      success: false,
+      error: 'AI service unavailable'
+    })
+  }
+
+  return res.status(500).json({
+    success: false,
+    error: fallback,
+    message: error.message || 'An unexpected error occurred'
+  })
+}
+
+// POST /api/ai/videos/:videoId/transcript-questions - Generate question suggestions from the video transcript
+router.post('/videos/:videoId/transcript-questions',
+  validateCUIDParam('videoId', 'Invalid video ID'),
+  body('milestoneId').optional().custom(isCUID).withMessage('Invalid milestone ID'),
+  body('startTime').optional().isFloat({ min: 0 }).withMessage('Start time must be a positive number'),
+  body('endTime').optional().isFloat({ min: 0 }).withMessage('End time must be a positive number'),
+  body('language').optional().matches(/^[a-z]{2,3}(-[A-Za-z0-9]{2,8})*$/).withMessage('Invalid caption language'),
+  body('questionCount').optional().isInt({ min: 1, max: 10 }).withMessage('Question count must be between 1 and 10'),
+  body('questionTypes').optional().isArray().withMessage('Question types must be an array'),
+  body('difficulty').optional().isIn(['EASY', 'MEDIUM', 'HARD']).withMessage('Invalid difficulty level'),
+  body('provider').optional().isIn(['OPENAI', 'CLAUDE', 'CUSTOM', 'FIXTURE']).withMessage('Invalid AI provider'),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const errors = validationResult(req)
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: 'Validation failed',
+          details: errors.array()
+        })
+      }
+
+      const result = await AIQuestionService.generateFromTranscript(req.params.videoId, {
+        milestoneId: req.body.milestoneId,
+        startTime: req.body.startTime !== undefined ? Number(req.body.startTime) : undefined,
+        endTime: req.body.endTime !== undefined ? Number(req.body.endTime) : undefined,
+        language: req.body.language,
+        questionCount: req.body.questionCount || 3,
+        questionTypes: req.body.questionTypes || ['MULTIPLE_CHOICE', 'TRUE_FALSE', 'SHORT_ANSWER'],
+        difficulty: req.body.difficulty || 'MEDIUM',
+        provider: req.body.provider
+      }, req.user!)
+
+      return res.json({
+        success: true,
+        data: result,
+        message: 'Questions generated from transcript'
+      })
+
+    } catch (error: any) {
+      console.error('Error generating questions from transcript:', error)
+      return sendTranscriptError(res, error, 'Failed to generate questions from transcript')
+    }
+  }
+)
+
+// POST /api/ai/videos/:videoId/suggestions/accept - Save accepted suggestions, creating milestones at their timestamps
+router.post('/videos/:videoId/suggestions/accept',
+  validateCUIDParam('videoId', 'Invalid video ID'),
+  body('milestoneId').optional().custom(isCUID).withMessage('Invalid milestone ID'),
+  body('milestoneTitle').optional().trim().isLength({ max: 200 }),
+  body('milestoneDescription').optional().trim(),
+  body('questions').isArray({ min: 1, max: 20 }).withMessage('Between 1 and 20 questions are required'),
+  body('questions.*.type').isIn(['MULTIPLE_CHOICE', 'TRUE_FALSE', 'SHORT_ANSWER']).withMessage('Invalid question type'),
+  body('questions.*.question').isString().notEmpty().withMessage('Question text is required'),
+  body('questions.*.correctAnswer').isString().notEmpty().withMessage('Correct answer is required'),
+  body('questions.*.options').optional().isArray(),
+  body('questions.*.suggestedTimestamp')
+    .if(body('milestoneId').not().exists())
+    .isFloat({ min: 0 }).withMessage('Each question needs a suggested timestamp'),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const errors = validationResult(req)
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: 'Validation failed',
+          details: errors.array()
+        })
+      }
+
+      const result = await AIQuestionService.acceptSuggestions(req.params.videoId, {
+        questions: req.body.questions,
+        milestoneId: req.body.milestoneId,
+        milestoneTitle: req.body.milestoneTitle,
+        milestoneDescription: req.body.milestoneDescription
+      }, req.user!)
+
+      return res.status(201).json({
+        success: true,
+        data: result,
+        message: 'Suggestions added to milestones'
+      })
+
+    } catch (error: any) {
+      console.error('Error accepting question suggestions:', error)
+      return sendTranscriptError(res, error, 'Failed to save suggested questions')
+    }
+  }
+)
+
 export default router
\ No newline at end of file
@@ -1,14 +1,76 @@
-import { Router, Response } from 'express'
-import { query } from 'express-validator'
+import express, { Router, Request, Response, NextFunction } from 'express'
+import { body, query } from 'express-validator'
 import { validationResult } from 'express-validator'
 import { validateCUIDParam, validateCUIDQuery } from '../utils/validators'
 import { authenticate } from '../middleware/auth/authMiddleware'
 // import { roleMiddleware } from '../middleware/role' // TODO: Create this middleware
 import { AnalyticsService } from '../services/AnalyticsService'
+import { resolveDashboardRange, MAX_RANGE_DAYS } from '../services/analytics/dashboardRange'
 import { AuthenticatedRequest } from '../middleware/auth/authMiddleware'
+import { analyticsRateLimitMiddleware } from '../middleware/security/rateLimitMiddleware'
+import { analyticsEventService } from '../services/analytics/analyticsEventService'
+import { MAX_EVENT_BATCH_SIZE } from '../services/analytics/eventCatalogue'
+import { itemAnalysisToCsv } from '../services/analytics/itemAnalysis'
 
 const router = Router()
 
+// navigator.sendBeacon cannot set headers, and only a text/plain body avoids
+// a CORS preflight, so beacons send JSON as text with the access token inside
+const parseBeaconBody = (req: Request, res: Response, next: NextFunction) => {
+  if (typeof req.body !== 'string') return next()
+
+  try {
+    const { accessToken, ...payload } = JSON.parse(req.body)
+    if (typeof accessToken === 'string' && !req.headers.authorization) {
+      req.headers.authorization = `Bearer ${accessToken}`
+    }
+    req.body = payload
+    next()
+  } catch {
+    res.status(400).json({
+      success: false,
+      error: 'Invalid JSON body'
+    })
+  }
+}
+
+// POST /api/analytics/events - Record a batch of playback and question events
+router.post('/events',
+  express.text({ type: 'text/plain', limit: '256kb' }),
+  parseBeaconBody,
+  authenticate,
+  analyticsRateLimitMiddleware,
+  body('events').isArray({ min: 1, max: MAX_EVENT_BATCH_SIZE }).withMessage(`Events must be an array of 1-${MAX_EVENT_BATCH_SIZE} items`),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const errors = validationResult(req)
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: 'Validation failed',
+          details: errors.array()
+        })
+      }
+
+      const result = await analyticsEventService.ingest(req.user!.id, req.body.events, {
+        userAgent: req.headers['user-agent']?.slice(0, 512)
+      })
+
+      return res.status(202).json({
+        success: true,
+        data: result
+      })
+
+    } catch (error) {
+      console.error('Error recording analytics events:', error)
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to record analytics events'
+      })
+    }
+  }
+)
+
 // Apply authentication middleware to all routes
 router.use(authenticate)
 
@@ -211,6 +273,54 @@ router.get('/dashboard/teacher',
   }
 )
 
+// GET /api/analytics/dashboard/admin - Get platform-wide statistics (admins only)
+router.get('/dashboard/admin',
+  query('from').optional().isISO8601().withMessage('From must be an ISO 8601 date'),
+  query('to').optional().isISO8601().withMessage('To must be an ISO 8601 date'),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const errors = validationResult(req)
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: 'Validation failed',
+          details: errors.array()
+        })
+      }
+
+      const range = resolveDashboardRange(req.query.from as string | undefined, req.query.to as string | undefined)
+      if (!range) {
+        return res.status(400).json({
+          success: false,
+          error: `Date range must start before it ends and span at most ${MAX_RANGE_DAYS} days`
+        })
+      }
+
+      const dashboardData = await AnalyticsService.getAdminDashboard(req.user!, range)
+
+      return res.json({
+        success: true,
+        data: dashboardData
+      })
+
+    } catch (error: any) {
+      console.error('Error fetching admin dashboard:', error)
+
+      if (error.message === 'Access denied') {
+        return res.status(403).json({
+          success: false,
+          error: 'Access denied'
+        })
+      }
+
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to fetch admin dashboard data'
+      })
+    }
+  }
+)
+
 // GET /api/analytics/dashboard/student - Get student dashboard analytics
 router.get('/dashboard/student',
   async (req: AuthenticatedRequest, res: Response) => {
@@ -271,9 +381,10 @@ router.get('/engagement/heatmap/:videoId',
   }
 )
 
-// GET /api/analytics/questions/:milestoneId/performance - Get question performance analytics
+// GET /api/analytics/questions/:milestoneId/performance - Get item analysis for a milestone's questions
 router.get('/questions/:milestoneId/performance',
   validateCUIDParam('milestoneId', 'Invalid milestone ID'),
+  query('format').optional().isIn(['json', 'csv']).withMessage('Format must be json or csv'),
   async (req: AuthenticatedRequest, res: Response) => {
     try {
       const errors = validationResult(req)
@@ -287,6 +398,11 @@ router.get('/questions/:milestoneId/performance',
 
       const performance = await AnalyticsService.getQuestionPerformance(req.params.milestoneId, req.user!)
 
+      if (req.query.format === 'csv') {
+        res.attachment(`item-analysis-${performance.milestoneId}.csv`)
+        return res.type('text/csv').send(itemAnalysisToCsv(performance.milestoneTitle, performance.questions))
+      }
+
       return res.json({
         success: true,
         data: performance
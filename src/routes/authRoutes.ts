@@ -1,9 +1,12 @@
 import { Router, Request, Response } from 'express';
 import authService from '../services/auth/authService';
-import { body } from 'express-validator';
+import { body, param } from 'express-validator';
 import { validateRequest } from '../middleware/validation/validateRequest';
 import { logger } from '../utils/logger';
 import { authenticate, AuthenticatedRequest } from '../middleware/auth/authMiddleware';
+import { authRateLimitMiddleware } from '../middleware/security/rateLimitMiddleware';
+import { extractDeviceInfo } from '../middleware/auth/sessionMiddleware';
+import sessionService from '../services/auth/sessionService';
 import { AppError } from '../types';
 
 const router = Router();
@@ -19,6 +22,13 @@ const loginValidation = [
     .withMessage('Password is required')
 ];
 
+const newPasswordRule = (field: string) =>
+  body(field)
+    .isLength({ min: 8 })
+    .withMessage('Password must be at least 8 characters')
+    .matches(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/)
+    .withMessage('Password must contain at least one lowercase letter, one uppercase letter, and one number');
+
 const registerValidation = [
   body('email')
     .isEmail()
@@ -32,11 +42,7 @@ const registerValidation = [
     .trim()
     .isLength({ min: 1, max: 50 })
     .withMessage('Last name must be 1-50 characters'),
-  body('password')
-    .isLength({ min: 8 })
-    .withMessage('Password must be at least 8 characters')
-    .matches(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/)
-    .withMessage('Password must contain at least one lowercase letter, one uppercase letter, and one number'),
+  newPasswordRule('password'),
   body('username')
     .optional()
     .trim()
@@ -55,6 +61,35 @@ const refreshTokenValidation = [
     .withMessage('Refresh token is required')
 ];
 
+const verifyEmailValidation = [
+  body('token')
+    .isString()
+    .notEmpty()
+    .withMessage('Verification token is required')
+];
+
+const emailValidation = [
+  body('email')
+    .isEmail()
+    .normalizeEmail()
+    .withMessage('Valid email is required')
+];
+
+const resetPasswordValidation = [
+  body('token')
+    .isString()
+    .notEmpty()
+    .withMessage('Reset token is required'),
+  newPasswordRule('password')
+];
+
+const sessionIdValidation = [
+  param('sessionId')
+    .isString()
+    .isLength({ min: 1, max: 50 })
+    .withMessage('Valid session ID is required')
+];
+
 // Routes
 
 // POST /api/auth/login - User login
@@ -65,7 +100,7 @@ router.post('/login',
     try {
       const { email, password } = req.body;
       
-      const result = await authService.login({ email, password });
+      const result = await authService.login({ email, password }, extractDeviceInfo(req));
 
       logger.info(`User logged in: ${email}`, {
         userId: result.user?.id,
@@ -110,7 +145,7 @@ router.post('/register',
     try {
       const registrationData = req.body;
       
-      const result = await authService.register(registrationData);
+      const result = await authService.register(registrationData, extractDeviceInfo(req));
 
       logger.info(`User registered: ${registrationData.email}`, {
         userId: result.user?.id,
@@ -155,7 +190,7 @@ router.post('/refresh',
     try {
       const { refreshToken } = req.body;
       
-      const result = await authService.refreshToken(refreshToken);
+      const result = await authService.refreshToken(refreshToken, extractDeviceInfo(req));
 
       return res.json({
         success: true,
@@ -185,26 +220,203 @@ router.post('/refresh',
   }
 );
 
-// POST /api/auth/logout - User logout
+// POST /api/auth/logout - User logout (revokes the session of the refresh token)
 router.post('/logout',
+  refreshTokenValidation,
+  validateRequest,
+  async (req: Request, res: Response) => {
+    try {
+      await authService.logout(req.body.refreshToken);
+
+      return res.json({
+        success: true,
+        message: 'Logout successful'
+      });
+    } catch (error) {
+      logger.error('Logout error:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  }
+);
+
+// POST /api/auth/logout-all - Log out everywhere (revokes every session of the current user)
+router.post('/logout-all',
   authenticate,
   async (req: AuthenticatedRequest, res: Response) => {
     try {
-      const userId = req.user!.id;
-      
-      // In a more sophisticated implementation, you would invalidate the refresh token
-      // For now, we just log the logout event
-      logger.info(`User logged out: ${req.user!.email}`, {
-        userId,
+      const revoked = await authService.logoutAll(req.user!.id);
+
+      logger.info(`User logged out everywhere: ${req.user!.email}`, {
+        userId: req.user!.id,
+        revoked,
         ip: req.ip
       });
 
       return res.json({
         success: true,
-        message: 'Logout successful'
+        data: { revoked },
+        message: 'Logged out of all sessions'
       });
     } catch (error) {
-      logger.error('Logout error:', error);
+      logger.error('Logout everywhere error:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  }
+);
+
+// GET /api/auth/sessions - Devices the current user is signed in on
+router.get('/sessions',
+  authenticate,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const sessions = await sessionService.listSessions(req.user!.id, req.sessionId);
+
+      return res.json({
+        success: true,
+        data: sessions
+      });
+    } catch (error) {
+      logger.error('List sessions error:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  }
+);
+
+// DELETE /api/auth/sessions/:sessionId - Sign out one of the current user's devices
+router.delete('/sessions/:sessionId',
+  authenticate,
+  sessionIdValidation,
+  validateRequest,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      await sessionService.terminateSession(req.user!.id, req.params.sessionId);
+
+      return res.json({
+        success: true,
+        message: 'Session terminated'
+      });
+    } catch (error) {
+      logger.error('Terminate session error:', error);
+
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: error.message
+        });
+      }
+
+      return res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  }
+);
+
+// POST /api/auth/verify-email - Verify email address with an emailed token
+router.post('/verify-email',
+  verifyEmailValidation,
+  validateRequest,
+  async (req: Request, res: Response) => {
+    try {
+      await authService.verifyEmail(req.body.token);
+
+      return res.json({
+        success: true,
+        message: 'Email verified successfully'
+      });
+    } catch (error) {
+      logger.error('Email verification error:', error);
+
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: error.message
+        });
+      }
+
+      return res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  }
+);
+
+// POST /api/auth/resend-verification - Email a new verification link
+router.post('/resend-verification',
+  authRateLimitMiddleware,
+  emailValidation,
+  validateRequest,
+  async (req: Request, res: Response) => {
+    try {
+      await authService.resendVerification(req.body.email);
+    } catch (error) {
+      logger.error('Resend verification error:', error);
+    }
+
+    return res.json({
+      success: true,
+      message: 'If that email is awaiting verification, a new link has been sent'
+    });
+  }
+);
+
+// POST /api/auth/forgot-password - Email a password reset link
+router.post('/forgot-password',
+  authRateLimitMiddleware,
+  emailValidation,
+  validateRequest,
+  async (req: Request, res: Response) => {
+    try {
+      await authService.requestPasswordReset(req.body.email);
+    } catch (error) {
+      // Same response either way so the endpoint cannot be used to probe accounts
+      logger.error('Forgot password error:', error);
+    }
+
+    return res.json({
+      success: true,
+      message: 'If an account exists for that email, a password reset link has been sent'
+    });
+  }
+);
+
+// POST /api/auth/reset-password - Set a new password with an emailed token
+router.post('/reset-password',
+  resetPasswordValidation,
+  validateRequest,
+  async (req: Request, res: Response) => {
+    try {
+      const { token, password } = req.body;
+
+      await authService.resetPassword(token, password);
+
+      logger.info('Password reset completed', { ip: req.ip });
+
+      return res.json({
+        success: true,
+        message: 'Password reset successfully'
+      });
+    } catch (error) {
+      logger.error('Password reset error:', error);
+
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: error.message
+        });
+      }
+
       return res.status(500).json({
         success: false,
         error: 'Internal server error'
@@ -0,0 +1,25 @@
+import { Router, Request, Response } from 'express'
+import { settingsService } from '../services/settings/settingsService'
+import { logger } from '../utils/logger'
+
+const router = Router()
+
+// GET /api/config/public - Settings the frontend needs before sign-in, no authentication
+router.get('/public', async (_req: Request, res: Response) => {
+  try {
+    const settings = await settingsService.getPublic()
+
+    return res.json({
+      success: true,
+      data: settings
+    })
+  } catch (error) {
+    logger.error('Error fetching public settings:', error)
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to fetch public settings'
+    })
+  }
+})
+
+export default router
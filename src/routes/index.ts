@@ -8,6 +8,8 @@ import questionRoutes from './questionRoutes';
 import sessionRoutes from './sessionRoutes';
 import aiRoutes from './aiRoutes';
 import analyticsRoutes from './analyticsRoutes';
+import adminRoutes from './adminRoutes';
+import configRoutes from './configRoutes';
 
 const router = Router();
 
@@ -31,5 +33,7 @@ router.use('/questions', questionRoutes);
 router.use('/sessions', sessionRoutes);
 router.use('/ai', aiRoutes);
 router.use('/analytics', analyticsRoutes);
+router.use('/admin', adminRoutes);
+router.use('/config', configRoutes);
 
 export default router;
\ No newline at end of file
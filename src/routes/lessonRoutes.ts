@@ -52,7 +52,11 @@ const createLessonValidation = [
   body('order')
     .optional()
     .isInt({ min: 0 })
-    .withMessage('Order must be a non-negative integer')
+    .withMessage('Order must be a non-negative integer'),
+  body('allowRetakes')
+    .optional()
+    .isBoolean({ strict: true })
+    .withMessage('Allow retakes must be a boolean')
 ];
 
 const updateLessonValidation = [
@@ -102,6 +106,10 @@ const updateLessonValidation = [
     .optional()
     .isInt({ min: 0 })
     .withMessage('Order must be a non-negative integer'),
+  body('allowRetakes')
+    .optional()
+    .isBoolean({ strict: true })
+    .withMessage('Allow retakes must be a boolean'),
   body('status')
     .optional()
     .isIn(['DRAFT', 'PUBLISHED', 'ARCHIVED'])
@@ -115,6 +123,21 @@ const lessonIdValidation = [
     .withMessage('Lesson ID is required')
 ];
 
+const gradeScaleValidation = [
+  body('gradeScale')
+    .isArray({ min: 1, max: 20 })
+    .withMessage('Grade scale must be an array of 1-20 entries'),
+  body('gradeScale.*.letter')
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 5 })
+    .withMessage('Each grade letter must be 1-5 characters'),
+  body('gradeScale.*.minPercent')
+    .isFloat({ min: 0, max: 100 })
+    .toFloat()
+    .withMessage('Each minimum percent must be between 0 and 100')
+];
+
 const queryValidation = [
   query('page')
     .optional()
@@ -198,6 +221,25 @@ router.post('/:id/archive',
   lessonController.archiveLesson
 );
 
+// GET /api/lessons/:id/gradebook - Get lesson gradebook (Teacher/Admin only)
+router.get('/:id/gradebook',
+  authenticate,
+  authorize(['TEACHER', 'ADMIN']),
+  lessonIdValidation,
+  validateRequest,
+  lessonController.getGradebook
+);
+
+// PUT /api/lessons/:id/grade-scale - Update letter-grade scale (Teacher/Admin only)
+router.put('/:id/grade-scale',
+  authenticate,
+  authorize(['TEACHER', 'ADMIN']),
+  lessonIdValidation,
+  gradeScaleValidation,
+  validateRequest,
+  lessonController.updateGradeScale
+);
+
 // DELETE /api/lessons/:id - Delete lesson (Teacher/Admin only)
 router.delete('/:id',
   authenticate,
@@ -21,6 +21,8 @@ router.post('/',
   body('difficulty').optional().isIn(['easy', 'medium', 'hard']).withMessage('Invalid difficulty level'),
   body('points').optional().isInt({ min: 1 }).withMessage('Points must be a positive integer'),
   body('passThreshold').optional().isFloat({ min: 0, max: 1 }).withMessage('Pass threshold must be between 0 and 1'),
+  body('timeLimit').optional({ values: 'null' }).isInt({ min: 5 }).withMessage('Time limit must be at least 5 seconds'),
+  body('hintPenalty').optional().isFloat({ min: 0, max: 1 }).withMessage('Hint penalty must be between 0 and 1'),
   body('questionData').notEmpty().withMessage('Question data is required'),
   async (req: AuthenticatedRequest, res: Response) => {
     try {
@@ -42,6 +44,8 @@ router.post('/',
         difficulty: req.body.difficulty,
         points: req.body.points,
         passThreshold: req.body.passThreshold,
+        timeLimit: req.body.timeLimit,
+        hintPenalty: req.body.hintPenalty,
         questionData: req.body.questionData
       }
 
@@ -171,6 +175,8 @@ router.put('/:id',
   body('difficulty').optional().isIn(['easy', 'medium', 'hard']).withMessage('Invalid difficulty level'),
   body('points').optional().isInt({ min: 1 }).withMessage('Points must be a positive integer'),
   body('passThreshold').optional().isFloat({ min: 0, max: 1 }).withMessage('Pass threshold must be between 0 and 1'),
+  body('timeLimit').optional({ values: 'null' }).isInt({ min: 5 }).withMessage('Time limit must be at least 5 seconds'),
+  body('hintPenalty').optional().isFloat({ min: 0, max: 1 }).withMessage('Hint penalty must be between 0 and 1'),
   body('status').optional().isIn(['DRAFT', 'APPROVED', 'ARCHIVED']).withMessage('Invalid status'),
   async (req: AuthenticatedRequest, res: Response) => {
     try {
@@ -190,6 +196,8 @@ router.put('/:id',
         difficulty: req.body.difficulty,
         points: req.body.points,
         passThreshold: req.body.passThreshold,
+        timeLimit: req.body.timeLimit,
+        hintPenalty: req.body.hintPenalty,
         questionData: req.body.questionData,
         status: req.body.status
       }
@@ -336,6 +344,52 @@ router.post('/:id/approve',
   }
 )
 
+// GET /api/questions/:id/attempts - Get per-student attempt history (teachers only)
+router.get('/:id/attempts',
+  validateCUIDParam('id', 'Invalid question ID'),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const errors = validationResult(req)
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: 'Validation failed',
+          details: errors.array()
+        })
+      }
+
+      const history = await QuestionService.getQuestionAttempts(req.params.id, req.user!)
+
+      return res.json({
+        success: true,
+        data: history
+      })
+
+    } catch (error: any) {
+      console.error('Error fetching question attempts:', error)
+      
+      if (error.message === 'Question not found') {
+        return res.status(404).json({
+          success: false,
+          error: 'Question not found'
+        })
+      }
+      
+      if (error.message === 'Access denied') {
+        return res.status(403).json({
+          success: false,
+          error: 'Access denied'
+        })
+      }
+
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to fetch question attempts'
+      })
+    }
+  }
+)
+
 // GET /api/questions/templates - Get question type templates (for UI reference)
 router.get('/templates',
   async (_req: AuthenticatedRequest, res) => {
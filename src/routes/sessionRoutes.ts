@@ -1,16 +1,22 @@
 import { Router, Response } from 'express'
-import { body, query } from 'express-validator'
+import { body, header, query } from 'express-validator'
 import { validationResult } from 'express-validator'
-import { validateCUIDParam, validateCUIDBody } from '../utils/validators'
+import { validateCUIDParam, validateCUIDBody, isAnswerPayload } from '../utils/validators'
 import { authenticate } from '../middleware/auth/authMiddleware'
+import { idempotent } from '../middleware/idempotency/idempotencyMiddleware'
 import { VideoSessionService } from '../services/VideoSessionService'
 import { AuthenticatedRequest } from '../middleware/auth/authMiddleware'
+import { AppError } from '../types'
 
 const router = Router()
 
 // Apply authentication middleware to all routes
 router.use(authenticate)
 
+// Writes replayed from the client's offline queue say how long ago, in milliseconds, they were made
+const validateOperationAge = header('operation-age').optional().isInt({ min: 0 }).withMessage('Operation age must be a whole number of milliseconds')
+const operationAge = (req: AuthenticatedRequest) => Number(req.header('operation-age') ?? 0)
+
 // POST /api/sessions/start - Start or resume video session
 router.post('/start',
   validateCUIDBody('videoId', 'Valid video ID is required'),
@@ -64,8 +70,11 @@ router.post('/start',
 )
 
 // PUT /api/sessions/:sessionId/progress - Update session progress
+// Session writes accept an Idempotency-Key, so the client's offline queue can replay them safely
 router.put('/:sessionId/progress',
+  idempotent,
   validateCUIDParam('sessionId', 'Invalid session ID'),
+  validateOperationAge,
   body('currentTime').isNumeric().withMessage('Current time must be a number'),
   body('totalWatchTime').optional().isNumeric().withMessage('Total watch time must be a number'),
   async (req: AuthenticatedRequest, res: Response) => {
@@ -87,7 +96,8 @@ router.put('/:sessionId/progress',
       const session = await VideoSessionService.updateProgress(
         req.params.sessionId,
         progressData,
-        req.user!.id
+        req.user!.id,
+        operationAge(req)
       )
 
       // Convert BigInt fields to strings for JSON serialization
@@ -107,7 +117,16 @@ router.put('/:sessionId/progress',
 
     } catch (error: any) {
       console.error('Error updating progress:', error)
-      
+
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+          code: error.code,
+          details: error.details
+        })
+      }
+
       if (error.message === 'Session not found') {
         return res.status(404).json({
           success: false,
@@ -132,7 +151,9 @@ router.put('/:sessionId/progress',
 
 // POST /api/sessions/:sessionId/milestone - Mark milestone as reached
 router.post('/:sessionId/milestone',
+  idempotent,
   validateCUIDParam('sessionId', 'Invalid session ID'),
+  validateOperationAge,
   validateCUIDBody('milestoneId', 'Valid milestone ID is required'),
   body('timestamp').isNumeric().withMessage('Timestamp must be a number'),
   async (req: AuthenticatedRequest, res: Response) => {
@@ -150,7 +171,8 @@ router.post('/:sessionId/milestone',
         req.params.sessionId,
         req.body.milestoneId,
         Math.floor(Number(req.body.timestamp)),
-        req.user!.id
+        req.user!.id,
+        operationAge(req)
       )
 
       return res.json({
@@ -161,7 +183,16 @@ router.post('/:sessionId/milestone',
 
     } catch (error: any) {
       console.error('Error marking milestone:', error)
-      
+
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+          code: error.code,
+          details: error.details
+        })
+      }
+
       if (error.message === 'Session not found') {
         return res.status(404).json({
           success: false,
@@ -193,9 +224,11 @@ router.post('/:sessionId/milestone',
 
 // POST /api/sessions/:sessionId/question - Submit question answer
 router.post('/:sessionId/question',
+  idempotent,
   validateCUIDParam('sessionId', 'Invalid session ID'),
+  validateOperationAge,
   validateCUIDBody('questionId', 'Valid question ID is required'),
-  body('answer').notEmpty().trim().withMessage('Answer is required'),
+  body('answer').custom(isAnswerPayload).withMessage('Answer is required'),
   validateCUIDBody('milestoneId', 'Valid milestone ID is required'),
   async (req: AuthenticatedRequest, res: Response) => {
     try {
@@ -217,7 +250,8 @@ router.post('/:sessionId/question',
       const result = await VideoSessionService.submitAnswer(
         req.params.sessionId,
         answerData,
-        req.user!.id
+        req.user!.id,
+        operationAge(req)
       )
 
       return res.json({
@@ -228,6 +262,15 @@ router.post('/:sessionId/question',
 
     } catch (error: any) {
       console.error('Error submitting answer:', error)
+
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+          code: error.code,
+          details: error.details
+        })
+      }
       
       if (error.message === 'Session not found') {
         return res.status(404).json({
@@ -258,9 +301,72 @@ router.post('/:sessionId/question',
   }
 )
 
+// POST /api/sessions/:sessionId/question/:questionId/hint - Reveal the next hint
+router.post('/:sessionId/question/:questionId/hint',
+  validateCUIDParam('sessionId', 'Invalid session ID'),
+  validateCUIDParam('questionId', 'Invalid question ID'),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const errors = validationResult(req)
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: 'Validation failed',
+          details: errors.array()
+        })
+      }
+
+      const result = await VideoSessionService.revealHint(
+        req.params.sessionId,
+        req.params.questionId,
+        req.user!.id
+      )
+
+      return res.json({
+        success: true,
+        data: result,
+        message: 'Hint revealed'
+      })
+
+    } catch (error: any) {
+      console.error('Error revealing hint:', error)
+
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+          code: error.code,
+          details: error.details
+        })
+      }
+      
+      if (error.message === 'Session not found') {
+        return res.status(404).json({
+          success: false,
+          error: 'Session not found'
+        })
+      }
+
+      if (error.message === 'Question not found') {
+        return res.status(404).json({
+          success: false,
+          error: 'Question not found'
+        })
+      }
+
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to reveal hint'
+      })
+    }
+  }
+)
+
 // PUT /api/sessions/:sessionId/complete - Mark session as completed
 router.put('/:sessionId/complete',
+  idempotent,
   validateCUIDParam('sessionId', 'Invalid session ID'),
+  validateOperationAge,
   body('finalTime').isNumeric().withMessage('Final time must be a number'),
   body('totalWatchTime').isNumeric().withMessage('Total watch time must be a number'),
   async (req: AuthenticatedRequest, res: Response) => {
@@ -282,7 +388,8 @@ router.put('/:sessionId/complete',
       const session = await VideoSessionService.completeSession(
         req.params.sessionId,
         completionData,
-        req.user!.id
+        req.user!.id,
+        operationAge(req)
       )
 
       // Convert BigInt fields to strings for JSON serialization
@@ -302,7 +409,16 @@ router.put('/:sessionId/complete',
 
     } catch (error: any) {
       console.error('Error completing session:', error)
-      
+
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+          code: error.code,
+          details: error.details
+        })
+      }
+
       if (error.message === 'Session not found') {
         return res.status(404).json({
           success: false,
@@ -377,11 +493,105 @@ router.get('/video/:videoId',
   }
 )
 
+// GET /api/sessions/video/:videoId/attempts - Get user's viewing attempts of a video
+router.get('/video/:videoId/attempts',
+  validateCUIDParam('videoId', 'Invalid video ID'),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const errors = validationResult(req)
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: 'Validation failed',
+          details: errors.array()
+        })
+      }
+
+      const result = await VideoSessionService.getAttempts(
+        req.params.videoId,
+        req.user!.id
+      )
+
+      return res.json({
+        success: true,
+        data: result
+      })
+
+    } catch (error: any) {
+      console.error('Error fetching attempts:', error)
+
+      if (error.message === 'Video not found') {
+        return res.status(404).json({
+          success: false,
+          error: 'Video not found'
+        })
+      }
+
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to fetch attempts'
+      })
+    }
+  }
+)
+
+// POST /api/sessions/video/:videoId/retake - Start a new viewing attempt of a completed video
+router.post('/video/:videoId/retake',
+  validateCUIDParam('videoId', 'Invalid video ID'),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const errors = validationResult(req)
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: 'Validation failed',
+          details: errors.array()
+        })
+      }
+
+      const session = await VideoSessionService.startRetake(
+        req.params.videoId,
+        req.user!.id
+      )
+
+      return res.status(201).json({
+        success: true,
+        data: session,
+        message: 'New attempt started'
+      })
+
+    } catch (error: any) {
+      console.error('Error starting retake:', error)
+
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+          code: error.code,
+          details: error.details
+        })
+      }
+
+      if (error.message === 'Session not found') {
+        return res.status(404).json({
+          success: false,
+          error: 'Session not found'
+        })
+      }
+
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to start a new attempt'
+      })
+    }
+  }
+)
+
 // GET /api/sessions/user - Get user's video sessions (paginated)
 router.get('/user',
   query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
   query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Limit must be between 1 and 100'),
-  query('status').optional().isIn(['ACTIVE', 'COMPLETED', 'PAUSED']).withMessage('Invalid status'),
+  query('status').optional().isIn(['ACTIVE', 'COMPLETED', 'PAUSED', 'ABANDONED']).withMessage('Invalid status'),
   async (req: AuthenticatedRequest, res: Response) => {
     try {
       const errors = validationResult(req)
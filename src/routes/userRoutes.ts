@@ -204,6 +204,15 @@ router.put('/:id/preferences',
   userController.updatePreferences
 );
 
+// POST /api/users/:id/revoke-sessions - Revoke all sessions of a user (Admin only)
+router.post('/:id/revoke-sessions',
+  authenticate,
+  authorize(['ADMIN']),
+  userIdValidation,
+  validateRequest,
+  userController.revokeSessions
+);
+
 // DELETE /api/users/:id - Delete user (Admin only)
 router.delete('/:id',
   authenticate,
@@ -1,79 +1,143 @@
 import { Router, Response } from 'express'
-import { body, query } from 'express-validator'
+import { SeekPolicy } from '@prisma/client'
+import { body, param, query } from 'express-validator'
 import { validationResult } from 'express-validator'
 import { validateCUIDParam, validateCUIDBody } from '../utils/validators'
-import { authenticate } from '../middleware/auth/authMiddleware'
+import { authenticate, authenticatePlayback } from '../middleware/auth/authMiddleware'
 // import { roleMiddleware } from '../middleware/role' // TODO: Create this middleware
 import { VideoService } from '../services/VideoService'
+import { VideoUploadService, UPLOAD_CHUNK_CONTENT_TYPE } from '../services/VideoUploadService'
+import { CaptionService } from '../services/CaptionService'
+import { CaptionFormatError } from '../services/captions/captionFormat'
+import { AppError } from '../types'
 import { AuthenticatedRequest } from '../middleware/auth/authMiddleware'
-import { uploadVideoMiddleware, handleUploadErrors } from '../middleware/upload/videoUploadMiddleware'
+import {
+  uploadVideoMiddleware,
+  handleUploadErrors,
+  storeUploadedVideo,
+  uploadCaptionMiddleware,
+  handleCaptionUploadErrors
+} from '../middleware/upload/videoUploadMiddleware'
+import { auditContextMiddleware } from '../middleware/audit/auditContextMiddleware'
 import { VideoProcessingService } from '../services/VideoProcessingService'
-import fs from 'fs'
-import path from 'path'
-import jwt from 'jsonwebtoken'
+import { fileStorage } from '../services/storage/fileStorage'
+import { ByteRange } from '../services/storage/storageDriver'
 
 const router = Router()
 
-// Custom authentication middleware for video streaming that supports query params
-const streamingAuthenticate = async (req: AuthenticatedRequest, res: any, next: any) => {
-  // Try header authentication first
-  const authHeader = req.headers.authorization
-  if (authHeader && authHeader.startsWith('Bearer ')) {
-    const token = authHeader.substring(7)
-    try {
-      const decoded = jwt.verify(token, process.env.JWT_SECRET!) as any
-      // Map userId to id for consistency with regular auth
-      req.user = {
-        id: decoded.userId || decoded.id,
-        email: decoded.email,
-        firstName: decoded.firstName || '',
-        lastName: decoded.lastName || '',
-        role: decoded.role,
-        status: 'ACTIVE',
-        createdAt: new Date()
-      }
-      return next()
-    } catch (error) {
-      // Fall through to query param auth
-    }
+// Convert BigInt values to strings to avoid serialization issues
+const serializeVideo = (video: unknown) => JSON.parse(JSON.stringify(video, (_key, value) =>
+  typeof value === 'bigint' ? value.toString() : value
+))
+
+// Parse a single "bytes=start-end" range. null means send the whole object:
+// there is no Range header, or one we ignore as invalid. 'unsatisfiable' means
+// the range asks for no byte of the object at all.
+const parseByteRange = (header: string | undefined, size: number): ByteRange | 'unsatisfiable' | null => {
+  const match = header?.match(/^bytes=(\d*)-(\d*)$/)
+  if (!match || (match[1] === '' && match[2] === '')) {
+    return null
   }
-  
-  // Try query parameter authentication for video streaming
-  const token = req.query.token as string
-  if (token) {
-    try {
-      const decoded = jwt.verify(token, process.env.JWT_SECRET!) as any
-      // Map userId to id for consistency with regular auth
-      req.user = {
-        id: decoded.userId || decoded.id,
-        email: decoded.email,
-        firstName: decoded.firstName || '',
-        lastName: decoded.lastName || '',
-        role: decoded.role,
-        status: 'ACTIVE',
-        createdAt: new Date()
-      }
-      console.log('Streaming auth successful:', req.user)
-      return next()
-    } catch (error) {
-      return res.status(401).json({
-        success: false,
-        error: 'Invalid authentication token'
-      })
-    }
+
+  // "bytes=-500" asks for the last 500 bytes
+  if (match[1] === '') {
+    const suffixLength = Number(match[2])
+    return suffixLength > 0 && size > 0 ? { start: Math.max(0, size - suffixLength), end: size - 1 } : 'unsatisfiable'
+  }
+
+  const start = Number(match[1])
+  if (match[2] !== '' && Number(match[2]) < start) {
+    return null
+  }
+  if (start >= size) {
+    return 'unsatisfiable'
+  }
+
+  const end = match[2] === '' ? size - 1 : Math.min(Number(match[2]), size - 1)
+  return { start, end }
+}
+
+// Send an object from storage, honouring a Range header so players can
+// seek. Returns null when the object does not exist.
+const sendStoredObject = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  key: string,
+  contentType: string
+): Promise<Response | null> => {
+  const object = await fileStorage.stat(key)
+  if (!object) {
+    return null
+  }
+
+  const range = parseByteRange(req.headers.range, object.size)
+  if (range === 'unsatisfiable') {
+    res.writeHead(416, {
+      'Content-Range': `bytes */${object.size}`,
+      'Accept-Ranges': 'bytes'
+    })
+    return res.end()
+  }
+
+  const stream = await fileStorage.createReadStream(key, range ?? undefined)
+  stream.on('error', error => {
+    console.error('Error reading stored file:', error)
+    res.destroy(error)
+  })
+
+  if (range) {
+    res.writeHead(206, {
+      'Content-Range': `bytes ${range.start}-${range.end}/${object.size}`,
+      'Accept-Ranges': 'bytes',
+      'Content-Length': range.end - range.start + 1,
+      'Content-Type': contentType
+    })
+  } else {
+    res.writeHead(200, {
+      'Accept-Ranges': 'bytes',
+      'Content-Length': object.size,
+      'Content-Type': contentType
+    })
+  }
+
+  return stream.pipe(res)
+}
+
+const sendUploadError = (res: Response, error: any, fallback: string) => {
+  if (error instanceof AppError) {
+    return res.status(error.statusCode).json({
+      success: false,
+      error: error.message,
+      code: error.code,
+      details: error.details
+    })
+  }
+
+  if (error.message === 'Video not found') {
+    return res.status(404).json({
+      success: false,
+      error: 'Video not found'
+    })
+  }
+
+  if (error.message === 'Access denied') {
+    return res.status(403).json({
+      success: false,
+      error: 'Access denied'
+    })
   }
-  
-  // No valid authentication found
-  return res.status(401).json({
+
+  return res.status(500).json({
     success: false,
-    error: 'Authentication required'
+    error: fallback
   })
 }
 
-// Apply authentication middleware to all routes except streaming
+// Apply authentication middleware to all routes except playback
 router.use((req, res, next) => {
-  // Skip authentication middleware for streaming endpoint
-  if (req.path.match(/\/[^\/]+\/stream$/)) {
+  // Stream, HLS and thumbnail requests come from media elements that cannot
+  // send headers; they authenticate with a signed playback URL instead
+  if (req.method === 'GET' && req.path.match(/\/[^\/]+\/(stream|thumbnail|hls\/.+)$/)) {
     return next()
   }
   return authenticate(req, res, next)
@@ -282,7 +346,8 @@ router.put('/groups/:id',
   }
 )
 
-// POST /api/videos/groups/:groupId/videos - Upload video to group or add video URL
+// POST /api/videos/groups/:groupId/videos - Upload video to group, add video URL,
+// or start a resumable upload (JSON body with an `upload` descriptor)
 router.post('/groups/:groupId/videos',
   // Conditionally apply upload middleware only for multipart requests
   (req, res, next) => {
@@ -297,6 +362,8 @@ router.post('/groups/:groupId/videos',
       next()
     }
   },
+  storeUploadedVideo,
+  auditContextMiddleware,
   validateCUIDParam('groupId', 'Invalid group ID'),
   body('title').notEmpty().trim().withMessage('Title is required'),
   body('description').optional().trim(),
@@ -304,6 +371,10 @@ router.post('/groups/:groupId/videos',
   body('videoUrl').optional().isURL().withMessage('Video URL must be valid'),
   body('duration').optional().isInt({ min: 1 }).withMessage('Duration must be positive'),
   body('thumbnailUrl').optional().isURL().withMessage('Thumbnail URL must be valid'),
+  body('upload.fileName').if(body('upload').exists()).isString().notEmpty().withMessage('Upload file name is required'),
+  body('upload.size').if(body('upload').exists()).isInt({ min: 1 }).withMessage('Upload size must be a positive integer'),
+  body('upload.mimeType').if(body('upload').exists()).isString().notEmpty().withMessage('Upload MIME type is required'),
+  body('upload.checksum').if(body('upload').exists()).isHash('sha256').withMessage('Upload checksum must be a SHA-256 hex digest'),
   async (req: AuthenticatedRequest, res: Response) => {
     try {
       const errors = validationResult(req)
@@ -315,6 +386,26 @@ router.post('/groups/:groupId/videos',
         })
       }
 
+      if (req.body.upload !== undefined) {
+        const result = await VideoUploadService.createUpload(req.params.groupId, {
+          title: req.body.title,
+          description: req.body.description || null,
+          fileName: req.body.upload.fileName,
+          size: Number(req.body.upload.size),
+          mimeType: req.body.upload.mimeType,
+          checksum: req.body.upload.checksum
+        }, req.user!)
+
+        return res.status(201).json({
+          success: true,
+          data: {
+            video: serializeVideo(result.video),
+            upload: result.upload
+          },
+          message: 'Upload started'
+        })
+      }
+
       const isFileUpload = req.file !== undefined
       const isUrlVideo = req.body.videoUrl !== undefined
 
@@ -363,19 +454,22 @@ router.post('/groups/:groupId/videos',
 
       const video = await VideoService.createVideo(videoData, req.user!)
 
-      // Convert BigInt values to strings to avoid serialization issues
-      const processedVideo = JSON.parse(JSON.stringify(video, (key, value) =>
-        typeof value === 'bigint' ? value.toString() : value
-      ))
-
       return res.status(201).json({
         success: true,
-        data: processedVideo,
+        data: serializeVideo(video),
         message: 'Video added successfully'
       })
 
     } catch (error: any) {
       console.error('Error creating video:', error)
+
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+          code: error.code
+        })
+      }
       
       if (error.message === 'Video group not found') {
         return res.status(404).json({
@@ -399,6 +493,85 @@ router.post('/groups/:groupId/videos',
   }
 )
 
+// GET /api/videos/:id/upload - Resumable upload progress (uploader or admin only)
+router.get('/:id/upload',
+  validateCUIDParam('id', 'Invalid video ID'),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const errors = validationResult(req)
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: 'Validation failed',
+          details: errors.array()
+        })
+      }
+
+      const upload = await VideoUploadService.getUploadStatus(req.params.id, req.user!)
+
+      res.setHeader('Upload-Offset', String(upload.offset))
+      res.setHeader('Cache-Control', 'no-store')
+      return res.json({
+        success: true,
+        data: upload
+      })
+
+    } catch (error: any) {
+      console.error('Error fetching upload status:', error)
+      return sendUploadError(res, error, 'Failed to fetch upload status')
+    }
+  }
+)
+
+// PATCH /api/videos/:id/upload - Append a chunk at Upload-Offset (uploader or admin only)
+router.patch('/:id/upload',
+  validateCUIDParam('id', 'Invalid video ID'),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const errors = validationResult(req)
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: 'Validation failed',
+          details: errors.array()
+        })
+      }
+
+      if (req.headers['content-type'] !== UPLOAD_CHUNK_CONTENT_TYPE) {
+        return res.status(415).json({
+          success: false,
+          error: `Chunks must be sent as ${UPLOAD_CHUNK_CONTENT_TYPE}`
+        })
+      }
+
+      const offset = Number(req.headers['upload-offset'])
+      const contentLength = Number(req.headers['content-length'])
+      if (!Number.isInteger(offset) || offset < 0 || !Number.isInteger(contentLength) || contentLength < 1) {
+        return res.status(400).json({
+          success: false,
+          error: 'Upload-Offset and Content-Length headers are required'
+        })
+      }
+
+      const result = await VideoUploadService.appendChunk(req.params.id, offset, contentLength, req, req.user!)
+
+      res.setHeader('Upload-Offset', String(result.upload.offset))
+      return res.json({
+        success: true,
+        data: {
+          upload: result.upload,
+          video: result.video ? serializeVideo(result.video) : null
+        },
+        message: result.video ? 'Upload complete' : 'Chunk received'
+      })
+
+    } catch (error: any) {
+      console.error('Error uploading chunk:', error)
+      return sendUploadError(res, error, 'Failed to upload chunk')
+    }
+  }
+)
+
 // GET /api/videos/:id - Get specific video with milestones
 router.get('/:id',
   validateCUIDParam('id', 'Invalid video ID'),
@@ -452,6 +625,7 @@ router.put('/:id',
   validateCUIDParam('id', 'Invalid video ID'),
   body('title').optional().notEmpty().trim().withMessage('Title cannot be empty'),
   body('description').optional().trim(),
+  body('seekPolicy').optional().isIn(Object.values(SeekPolicy)).withMessage('Invalid seek policy'),
   async (req: AuthenticatedRequest, res: Response) => {
     try {
       const errors = validationResult(req)
@@ -465,7 +639,8 @@ router.put('/:id',
 
       const updateData = {
         title: req.body.title,
-        description: req.body.description
+        description: req.body.description,
+        seekPolicy: req.body.seekPolicy
       }
 
       const video = await VideoService.updateVideo(
@@ -505,7 +680,7 @@ router.put('/:id',
   }
 )
 
-// POST /api/videos/:id/process - Process video to extract metadata (uploader or admin only)
+// POST /api/videos/:id/process - Re-run metadata extraction and thumbnailing (uploader or admin only)
 router.post('/:id/process',
   validateCUIDParam('id', 'Invalid video ID'),
   async (req: AuthenticatedRequest, res: Response) => {
@@ -519,16 +694,16 @@ router.post('/:id/process',
         })
       }
 
-      const video = await VideoService.processVideoMetadata(req.params.id)
+      const result = await VideoService.reprocessVideo(req.params.id, req.user!)
 
-      return res.json({
+      return res.status(202).json({
         success: true,
-        data: video,
-        message: 'Video metadata processed successfully'
+        data: result,
+        message: 'Video queued for processing'
       })
 
     } catch (error: any) {
-      console.error('Error processing video metadata:', error)
+      console.error('Error queueing video processing:', error)
       
       if (error.message === 'Video not found') {
         return res.status(404).json({
@@ -537,9 +712,77 @@ router.post('/:id/process',
         })
       }
       
+      if (error.message === 'Access denied') {
+        return res.status(403).json({
+          success: false,
+          error: 'Access denied'
+        })
+      }
+
+      if (error.message === 'Video file path not found') {
+        return res.status(400).json({
+          success: false,
+          error: 'Video has no source file to process'
+        })
+      }
+
       return res.status(500).json({
         success: false,
-        error: 'Failed to process video metadata'
+        error: 'Failed to queue video processing'
+      })
+    }
+  }
+)
+
+// POST /api/videos/:id/transcode - Re-run HLS transcoding (uploader or admin only)
+router.post('/:id/transcode',
+  validateCUIDParam('id', 'Invalid video ID'),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const errors = validationResult(req)
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: 'Validation failed',
+          details: errors.array()
+        })
+      }
+
+      const result = await VideoService.retranscodeVideo(req.params.id, req.user!)
+
+      return res.status(202).json({
+        success: true,
+        data: result,
+        message: 'Video queued for transcoding'
+      })
+
+    } catch (error: any) {
+      console.error('Error queueing video transcode:', error)
+      
+      if (error.message === 'Video not found') {
+        return res.status(404).json({
+          success: false,
+          error: 'Video not found'
+        })
+      }
+      
+      if (error.message === 'Access denied') {
+        return res.status(403).json({
+          success: false,
+          error: 'Access denied'
+        })
+      }
+
+      if (error.message === 'Video file path not found') {
+        return res.status(400).json({
+          success: false,
+          error: 'Video has no source file to transcode'
+        })
+      }
+
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to queue video transcode'
       })
     }
   }
@@ -591,9 +834,57 @@ router.delete('/:id',
   }
 )
 
+// POST /api/videos/:id/playback-token - Issue short-lived signed URLs for the player
+router.post('/:id/playback-token',
+  validateCUIDParam('id', 'Invalid video ID'),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const errors = validationResult(req)
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: 'Validation failed',
+          details: errors.array()
+        })
+      }
+
+      const playback = await VideoService.issuePlaybackToken(req.params.id, req.user!.id, req.ip)
+
+      if (!playback) {
+        return res.status(404).json({
+          success: false,
+          error: 'Video not found or access denied'
+        })
+      }
+
+      const baseUrl = `${req.protocol}://${req.get('host')}${req.baseUrl}/${req.params.id}`
+      const query = `?token=${encodeURIComponent(playback.token)}`
+
+      // Signed URLs must not be cached beyond their lifetime
+      res.setHeader('Cache-Control', 'no-store')
+      return res.json({
+        success: true,
+        data: {
+          token: playback.token,
+          expiresAt: playback.expiresAt,
+          streamUrl: `${baseUrl}/stream${query}`,
+          hlsUrl: playback.hasHls ? `${baseUrl}/hls/master.m3u8${query}` : null,
+          thumbnailUrl: playback.hasThumbnail ? `${baseUrl}/thumbnail${query}` : null
+        }
+      })
+    } catch (error) {
+      console.error('Error issuing playback token:', error)
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to issue playback token'
+      })
+    }
+  }
+)
+
 // GET /api/videos/:id/stream - Stream video file (authenticated users with access)
 router.get('/:id/stream',
-  streamingAuthenticate, // Use custom auth middleware for streaming
+  authenticatePlayback,
   validateCUIDParam('id', 'Invalid video ID'),
   async (req: AuthenticatedRequest, res: Response) => {
     // Set CORS headers specifically for video streaming
@@ -610,14 +901,9 @@ router.get('/:id/stream',
         })
       }
 
-      const videoPath = await VideoService.getVideoStreamPath(req.params.id, req.user!.id)
-      console.log('Video streaming request:', {
-        videoId: req.params.id,
-        userId: req.user!.id,
-        videoPath
-      })
+      const videoKey = await VideoService.getVideoStreamKey(req.params.id, req.user!.id)
 
-      if (!videoPath) {
+      if (!videoKey) {
         console.error('Video not found in database or access denied')
         return res.status(404).json({
           success: false,
@@ -625,59 +911,269 @@ router.get('/:id/stream',
         })
       }
 
-      // Check if file exists
-      if (!fs.existsSync(videoPath)) {
-        console.error('Video file not found on disk:', videoPath)
+      const sent = await sendStoredObject(req, res, videoKey, VideoProcessingService.getMimeType(videoKey))
+      if (!sent) {
+        console.error('Video file not found in storage:', videoKey)
         return res.status(404).json({
           success: false,
           error: 'Video file not found'
         })
       }
 
-      const stat = fs.statSync(videoPath)
-      const fileSize = stat.size
-      const range = req.headers.range
+      return sent
+    } catch (error) {
+      console.error('Error streaming video:', error)
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to stream video'
+      })
+    }
+  }
+)
 
-      if (range) {
-        // Handle range requests for video streaming
-        const parts = range.replace(/bytes=/, "").split("-")
-        const start = parseInt(parts[0], 10)
-        const end = parts[1] ? parseInt(parts[1], 10) : fileSize - 1
-        const chunkSize = (end - start) + 1
-        const file = fs.createReadStream(videoPath, { start, end })
+// Serve an HLS playlist or segment once access has been checked
+const sendHlsFile = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  rendition: string | null,
+  fileName: string
+) => {
+  res.setHeader('Access-Control-Allow-Origin', req.headers.origin || 'http://localhost:3002');
+  res.setHeader('Access-Control-Allow-Credentials', 'true');
+  res.setHeader('Cross-Origin-Resource-Policy', 'cross-origin');
+  try {
+    const errors = validationResult(req)
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      })
+    }
 
-        const head = {
-          'Content-Range': `bytes ${start}-${end}/${fileSize}`,
-          'Accept-Ranges': 'bytes',
-          'Content-Length': chunkSize,
-          'Content-Type': 'video/mp4'
-        }
+    const fileKey = await VideoService.getHlsFileKey(req.params.id, req.user!.id, rendition, fileName)
+    const notFound = () => res.status(404).json({
+      success: false,
+      error: 'Stream not found or access denied'
+    })
 
-        res.writeHead(206, head)
-        return file.pipe(res)
-      } else {
-        // Send entire file
-        const head = {
-          'Content-Length': fileSize,
-          'Content-Type': VideoProcessingService.getMimeType(videoPath)
-        }
+    if (!fileKey) {
+      return notFound()
+    }
+
+    const isPlaylist = fileName.endsWith('.m3u8')
+    // Segments never change once written; playlists may be regenerated
+    res.setHeader('Cache-Control', isPlaylist ? 'no-cache' : 'private, max-age=86400')
+    const sent = await sendStoredObject(req, res, fileKey, isPlaylist ? 'application/vnd.apple.mpegurl' : 'video/mp2t')
+    if (!sent) {
+      res.removeHeader('Cache-Control')
+      return notFound()
+    }
+
+    return sent
+
+  } catch (error) {
+    console.error('Error serving HLS file:', error)
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to stream video'
+    })
+  }
+}
+
+// GET /api/videos/:id/hls/master.m3u8 - Adaptive streaming manifest
+router.get('/:id/hls/master.m3u8',
+  authenticatePlayback,
+  validateCUIDParam('id', 'Invalid video ID'),
+  (req: AuthenticatedRequest, res: Response) => sendHlsFile(req, res, null, 'master.m3u8')
+)
+
+// GET /api/videos/:id/hls/:rendition/:file - Rendition playlist or media segment
+router.get('/:id/hls/:rendition/:file',
+  authenticatePlayback,
+  validateCUIDParam('id', 'Invalid video ID'),
+  (req: AuthenticatedRequest, res: Response) => sendHlsFile(req, res, req.params.rendition, req.params.file)
+)
+
+// Caption languages are BCP 47 tags such as "en", "es" or "pt-BR"
+const validateCaptionLanguage = () =>
+  param('lang').matches(/^[a-z]{2,3}(-[A-Za-z0-9]{2,8})*$/).withMessage('Invalid caption language')
+
+const sendCaptionError = (res: Response, error: any, fallback: string) => {
+  if (error instanceof CaptionFormatError) {
+    return res.status(400).json({
+      success: false,
+      error: error.message
+    })
+  }
+
+  if (error.message === 'Video not found' || error.message === 'Caption not found') {
+    return res.status(404).json({
+      success: false,
+      error: error.message
+    })
+  }
+
+  if (error.message === 'Access denied') {
+    return res.status(403).json({
+      success: false,
+      error: 'Access denied'
+    })
+  }
+
+  return res.status(500).json({
+    success: false,
+    error: fallback
+  })
+}
+
+// GET /api/videos/:id/captions - List caption tracks and the viewer's default track
+router.get('/:id/captions',
+  validateCUIDParam('id', 'Invalid video ID'),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const errors = validationResult(req)
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: 'Validation failed',
+          details: errors.array()
+        })
+      }
+
+      const result = await CaptionService.listCaptions(req.params.id, req.user!.id)
+
+      return res.json({
+        success: true,
+        data: result
+      })
+
+    } catch (error: any) {
+      console.error('Error listing captions:', error)
+      return sendCaptionError(res, error, 'Failed to fetch captions')
+    }
+  }
+)
+
+// GET /api/videos/:id/captions/:lang - Serve a WebVTT caption track
+router.get('/:id/captions/:lang',
+  validateCUIDParam('id', 'Invalid video ID'),
+  validateCaptionLanguage(),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const errors = validationResult(req)
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: 'Validation failed',
+          details: errors.array()
+        })
+      }
 
-        res.writeHead(200, head)
-        return fs.createReadStream(videoPath).pipe(res)
+      const captionKey = await CaptionService.getCaptionStreamKey(req.params.id, req.params.lang, req.user!.id)
+      const sent = captionKey && await sendStoredObject(req, res, captionKey, 'text/vtt; charset=utf-8')
+
+      if (!sent) {
+        return res.status(404).json({
+          success: false,
+          error: 'Caption not found'
+        })
       }
 
+      return sent
+
     } catch (error) {
-      console.error('Error streaming video:', error)
+      console.error('Error serving caption:', error)
       return res.status(500).json({
         success: false,
-        error: 'Failed to stream video'
+        error: 'Failed to serve caption'
       })
     }
   }
 )
 
+// PUT /api/videos/:id/captions/:lang - Upload or replace a caption track (uploader or admin only)
+router.put('/:id/captions/:lang',
+  (req: AuthenticatedRequest, res: Response, next: any) => {
+    uploadCaptionMiddleware(req, res, (err: any) => {
+      if (err) {
+        return handleCaptionUploadErrors(err, req, res, next)
+      }
+      next()
+    })
+  },
+  auditContextMiddleware,
+  validateCUIDParam('id', 'Invalid video ID'),
+  validateCaptionLanguage(),
+  body('label').notEmpty().trim().isLength({ max: 100 }).withMessage('Label is required'),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const errors = validationResult(req)
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: 'Validation failed',
+          details: errors.array()
+        })
+      }
+
+      if (!req.file) {
+        return res.status(400).json({
+          success: false,
+          error: 'Caption file is required'
+        })
+      }
+
+      const caption = await CaptionService.saveCaption(req.params.id, req.params.lang, {
+        label: req.body.label,
+        content: req.file.buffer
+      }, req.user!)
+
+      return res.json({
+        success: true,
+        data: caption,
+        message: 'Caption saved successfully'
+      })
+
+    } catch (error: any) {
+      console.error('Error saving caption:', error)
+      return sendCaptionError(res, error, 'Failed to save caption')
+    }
+  }
+)
+
+// DELETE /api/videos/:id/captions/:lang - Remove a caption track (uploader or admin only)
+router.delete('/:id/captions/:lang',
+  validateCUIDParam('id', 'Invalid video ID'),
+  validateCaptionLanguage(),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const errors = validationResult(req)
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: 'Validation failed',
+          details: errors.array()
+        })
+      }
+
+      await CaptionService.deleteCaption(req.params.id, req.params.lang, req.user!)
+
+      return res.json({
+        success: true,
+        message: 'Caption deleted successfully'
+      })
+
+    } catch (error: any) {
+      console.error('Error deleting caption:', error)
+      return sendCaptionError(res, error, 'Failed to delete caption')
+    }
+  }
+)
+
 // GET /api/videos/:id/thumbnail - Serve video thumbnail (authenticated users with access)
 router.get('/:id/thumbnail',
+  authenticatePlayback,
   validateCUIDParam('id', 'Invalid video ID'),
   async (req: AuthenticatedRequest, res: Response) => {
     try {
@@ -690,25 +1186,24 @@ router.get('/:id/thumbnail',
         })
       }
 
-      const thumbnailPath = await VideoService.getThumbnailStreamPath(req.params.id, req.user!.id)
+      const thumbnailKey = await VideoService.getThumbnailStreamKey(req.params.id, req.user!.id)
 
-      if (!thumbnailPath) {
+      if (!thumbnailKey) {
         return res.status(404).json({
           success: false,
           error: 'Thumbnail not found or access denied'
         })
       }
 
-      // Check if file exists
-      if (!fs.existsSync(thumbnailPath)) {
+      const sent = await sendStoredObject(req, res, thumbnailKey, 'image/jpeg')
+      if (!sent) {
         return res.status(404).json({
           success: false,
           error: 'Thumbnail file not found'
         })
       }
 
-      // Send thumbnail file
-      return res.sendFile(path.resolve(thumbnailPath))
+      return sent
 
     } catch (error) {
       console.error('Error serving thumbnail:', error)
@@ -1,9 +1,26 @@
-import OpenAI from 'openai'
-import Anthropic from '@anthropic-ai/sdk'
-import { PrismaClient } from '@prisma/client'
+import { Prisma, PrismaClient } from '@prisma/client'
+import { User } from '../types/auth'
+import { VideoService } from './VideoService'
+import { CaptionService } from './CaptionService'
+import {
+  formatTranscriptForPrompt,
+  selectTranscriptWindow,
+  snapToCueStart
+} from './captions/transcript'
+import { aiProviderRegistry } from './ai/providerRegistry'
+import { aiUsageService } from './ai/aiUsageService'
+import { meterTokens, usageCost } from './ai/usageMetering'
+import { AICompletion, AIProviderName } from './ai/types'
 
 const prisma = new PrismaClient()
 
+// How much transcript before a milestone is used when generating for it
+const MILESTONE_TRANSCRIPT_LEAD_SECONDS = 120
+const DEFAULT_TRANSCRIPT_WINDOW_SECONDS = 300
+const MAX_TRANSCRIPT_WINDOW_SECONDS = 900
+// Completion length cap; a configuration's maxTokens can lower it
+const DEFAULT_MAX_TOKENS = 2000
+
 interface GenerateQuestionsRequest {
   videoTitle: string
   videoDescription?: string
@@ -11,7 +28,31 @@ interface GenerateQuestionsRequest {
   questionCount?: number
   questionTypes?: ('MULTIPLE_CHOICE' | 'TRUE_FALSE' | 'SHORT_ANSWER')[]
   difficulty?: 'EASY' | 'MEDIUM' | 'HARD'
-  provider?: 'OPENAI' | 'CLAUDE'
+  provider?: AIProviderName
+  // Set when content is a timestamped transcript excerpt
+  transcriptWindow?: { start: number; end: number }
+}
+
+// Who a generation request is billed to in the AI usage log
+interface UsageContext {
+  userId?: string
+  resourceId?: string // Video or milestone the questions are for
+}
+
+type GenerationOptions = Pick<GenerateQuestionsRequest, 'questionCount' | 'questionTypes' | 'difficulty' | 'provider'>
+
+interface TranscriptQuestionsRequest extends GenerationOptions {
+  milestoneId?: string
+  startTime?: number
+  endTime?: number
+  language?: string
+}
+
+interface AcceptSuggestionsRequest {
+  questions: GeneratedQuestion[]
+  milestoneId?: string
+  milestoneTitle?: string
+  milestoneDescription?: string
 }
 
 interface GeneratedQuestion {
@@ -30,48 +71,83 @@ interface AIResponse {
 }
 
 export class AIQuestionService {
-  private static openai: OpenAI | null = null
-  private static anthropic: Anthropic | null = null
-
   static initialize() {
-    // Initialize OpenAI if API key is available
-    if (process.env.OPENAI_API_KEY) {
-      this.openai = new OpenAI({
-        apiKey: process.env.OPENAI_API_KEY
+    aiProviderRegistry.initialize()
+  }
+
+  /**
+   * Generate questions with the requested or preferred provider. Every call
+   * is logged to the AI usage log with its tokens, cost and latency, and
+   * refused up front once the configuration's rate limit or monthly budget
+   * is reached.
+   */
+  static async generateQuestions(request: GenerateQuestionsRequest, usage: UsageContext = {}): Promise<AIResponse> {
+    const { provider, configuration } = await aiProviderRegistry.resolve(request.provider)
+    await aiUsageService.assertWithinLimits(configuration)
+
+    const prompt = this.buildPrompt(request)
+    const maxTokens = Math.min(DEFAULT_MAX_TOKENS, configuration?.maxTokens ?? DEFAULT_MAX_TOKENS)
+    const startedAt = Date.now()
+    const logUsage = (completion: AICompletion | null, error?: string) => {
+      const { tokensUsed, estimated } = meterTokens(completion?.usage ?? null, prompt, completion?.content)
+      return aiUsageService.record({
+        configurationId: configuration?.id ?? null,
+        provider: provider.name,
+        model: provider.model,
+        requestType: 'question_generation',
+        tokensUsed,
+        cost: usageCost(tokensUsed, configuration?.costPerToken ?? null),
+        responseTime: Date.now() - startedAt,
+        success: !error,
+        errorMessage: error,
+        userId: usage.userId,
+        resourceId: usage.resourceId,
+        metadata: { tokensEstimated: estimated, questionCount: request.questionCount || 3 }
       })
     }
 
-    // Initialize Claude if API key is available
-    if (process.env.ANTHROPIC_API_KEY) {
-      this.anthropic = new Anthropic({
-        apiKey: process.env.ANTHROPIC_API_KEY
+    let completion: AICompletion
+    try {
+      completion = await provider.complete({
+        systemPrompt: 'You are an expert educational content creator. Always respond with valid JSON only.',
+        prompt,
+        temperature: 0.7,
+        maxTokens,
+        spec: {
+          videoTitle: request.videoTitle,
+          questionCount: request.questionCount || 3,
+          questionTypes: request.questionTypes || ['MULTIPLE_CHOICE', 'TRUE_FALSE', 'SHORT_ANSWER'],
+          difficulty: request.difficulty || 'MEDIUM',
+          transcriptWindow: request.transcriptWindow
+        }
       })
+    } catch (error) {
+      console.error(`${provider.name} API error:`, error)
+      await logUsage(null, error instanceof Error ? error.message : 'Unknown error')
+      throw new Error(`Failed to generate questions with ${provider.name}`)
     }
-  }
 
-  static async generateQuestions(request: GenerateQuestionsRequest): Promise<AIResponse> {
-    const provider = request.provider || this.getPreferredProvider()
-    
-    switch (provider) {
-      case 'OPENAI':
-        return this.generateWithOpenAI(request)
-      case 'CLAUDE':
-        return this.generateWithClaude(request)
-      default:
-        throw new Error('No AI provider available. Please configure OPENAI_API_KEY or ANTHROPIC_API_KEY.')
+    try {
+      const parsed = this.parseAIResponse(completion.content)
+      await logUsage(completion)
+      return parsed
+    } catch (error) {
+      // The tokens were spent even though the answer is unusable
+      await logUsage(completion, (error as Error).message)
+      throw error
     }
   }
 
-  private static getPreferredProvider(): 'OPENAI' | 'CLAUDE' {
-    if (this.openai) return 'OPENAI'
-    if (this.anthropic) return 'CLAUDE'
-    throw new Error('No AI provider configured')
-  }
-
   private static buildPrompt(request: GenerateQuestionsRequest): string {
     const questionTypes = request.questionTypes || ['MULTIPLE_CHOICE', 'TRUE_FALSE', 'SHORT_ANSWER']
     const questionCount = request.questionCount || 3
     const difficulty = request.difficulty || 'MEDIUM'
+    const timestampRequirement = request.transcriptWindow
+      ? `Base every question on the transcript. Each transcript line starts with the second it is spoken at, e.g. "[95s]"; set suggestedTimestamp to that number for the line the question is based on`
+      : 'Suggest appropriate timestamps (in seconds) where these questions might appear in the video'
+    const contentLabel = request.transcriptWindow
+      ? `Transcript (${request.transcriptWindow.start}s to ${request.transcriptWindow.end}s of the video)`
+      : 'Content/Transcript'
 
     return `
 You are an expert educational content creator. Based on the video content provided, generate ${questionCount} high-quality interactive questions for students.
@@ -79,7 +155,8 @@ You are an expert educational content creator. Based on the video content provid
 Video Information:
 - Title: ${request.videoTitle}
 - Description: ${request.videoDescription || 'Not provided'}
-- Content/Transcript: ${request.content}
+- ${contentLabel}:
+${request.content}
 
 Requirements:
 1. Generate exactly ${questionCount} questions
@@ -89,7 +166,7 @@ Requirements:
 5. Each question should be clear and unambiguous
 6. For multiple choice, provide 4 options with only one correct answer
 7. Include brief explanations for correct answers
-8. Suggest appropriate timestamps (in seconds) where these questions might appear in the video
+8. ${timestampRequirement}
 
 Response format (JSON only):
 {
@@ -125,70 +202,6 @@ Important: Return only valid JSON. No additional text or markdown formatting.
 `
   }
 
-  private static async generateWithOpenAI(request: GenerateQuestionsRequest): Promise<AIResponse> {
-    if (!this.openai) {
-      throw new Error('OpenAI not initialized')
-    }
-
-    try {
-      const completion = await this.openai.chat.completions.create({
-        model: process.env.OPENAI_MODEL || 'gpt-4',
-        messages: [
-          {
-            role: 'system',
-            content: 'You are an expert educational content creator. Always respond with valid JSON only.'
-          },
-          {
-            role: 'user',
-            content: this.buildPrompt(request)
-          }
-        ],
-        temperature: 0.7,
-        max_tokens: 2000
-      })
-
-      const content = completion.choices[0]?.message?.content
-      if (!content) {
-        throw new Error('No response from OpenAI')
-      }
-
-      return this.parseAIResponse(content)
-    } catch (error) {
-      console.error('OpenAI API error:', error)
-      throw new Error('Failed to generate questions with OpenAI')
-    }
-  }
-
-  private static async generateWithClaude(request: GenerateQuestionsRequest): Promise<AIResponse> {
-    if (!this.anthropic) {
-      throw new Error('Claude not initialized')
-    }
-
-    try {
-      const message = await this.anthropic.messages.create({
-        model: process.env.ANTHROPIC_MODEL || 'claude-3-sonnet-20240229',
-        max_tokens: 2000,
-        temperature: 0.7,
-        messages: [
-          {
-            role: 'user',
-            content: this.buildPrompt(request)
-          }
-        ]
-      })
-
-      const content = message.content[0]?.type === 'text' ? message.content[0].text : ''
-      if (!content) {
-        throw new Error('No response from Claude')
-      }
-
-      return this.parseAIResponse(content)
-    } catch (error) {
-      console.error('Claude API error:', error)
-      throw new Error('Failed to generate questions with Claude')
-    }
-  }
-
   private static parseAIResponse(content: string): AIResponse {
     try {
       // Clean up the response to ensure it's valid JSON
@@ -268,38 +281,10 @@ Important: Return only valid JSON. No additional text or markdown formatting.
       videoTitle: milestone.video.title,
       videoDescription: milestone.video.description || undefined,
       content
-    })
+    }, { userId, resourceId: milestoneId })
 
     // Create questions in the database
-    for (const questionData of generatedContent.questions) {
-      const question = await prisma.question.create({
-        data: {
-          milestoneId,
-          type: questionData.type,
-          text: questionData.question,
-          questionData: {
-            correctAnswer: questionData.correctAnswer,
-            options: questionData.options || []
-          },
-          explanation: questionData.explanation || null,
-          createdById: userId
-        }
-      })
-
-      // Create options for multiple choice questions
-      if (questionData.type === 'MULTIPLE_CHOICE' && questionData.options) {
-        const optionData = questionData.options.map((optionText, index) => ({
-          questionId: question.id,
-          text: optionText,
-          isCorrect: optionText === questionData.correctAnswer,
-          order: index + 1
-        }))
-
-        await prisma.questionOption.createMany({
-          data: optionData
-        })
-      }
-    }
+    await this.createQuestions(prisma, milestoneId, generatedContent.questions, userId)
   }
 
   // Generate milestone and questions from content
@@ -308,7 +293,7 @@ Important: Return only valid JSON. No additional text or markdown formatting.
     request: GenerateQuestionsRequest,
     userId: string
   ): Promise<{ milestoneId: string; questionCount: number }> {
-    const generatedContent = await this.generateQuestions(request)
+    const generatedContent = await this.generateQuestions(request, { userId, resourceId: videoId })
 
     // Create milestone
     const suggestedTimestamp = generatedContent.questions[0]?.suggestedTimestamp || 60
@@ -325,11 +310,145 @@ Important: Return only valid JSON. No additional text or markdown formatting.
     })
 
     // Create questions
-    let questionCount = 0
-    for (const questionData of generatedContent.questions) {
-      const question = await prisma.question.create({
+    const questionCount = await this.createQuestions(prisma, milestone.id, generatedContent.questions, userId)
+
+    return {
+      milestoneId: milestone.id,
+      questionCount
+    }
+  }
+
+  /**
+   * Generate questions from the video's own transcript. The window is either
+   * the stretch leading up to a milestone or an explicit start/end range, and
+   * every suggestedTimestamp is snapped to the transcript segment it cites.
+   */
+  static async generateFromTranscript(videoId: string, request: TranscriptQuestionsRequest, user: User) {
+    const video = await VideoService.getManagedVideo(videoId, user)
+
+    let start = request.startTime ?? 0
+    let end = request.endTime ?? start + DEFAULT_TRANSCRIPT_WINDOW_SECONDS
+
+    if (request.milestoneId) {
+      const milestone = await prisma.milestone.findFirst({
+        where: { id: request.milestoneId, videoId }
+      })
+      if (!milestone) {
+        throw new Error('Milestone not found')
+      }
+      if (request.startTime === undefined && request.endTime === undefined) {
+        start = Math.max(0, milestone.timestamp - MILESTONE_TRANSCRIPT_LEAD_SECONDS)
+        end = milestone.timestamp
+      }
+    }
+
+    if (end <= start || end - start > MAX_TRANSCRIPT_WINDOW_SECONDS) {
+      throw new Error(`Transcript window must be between 1 and ${MAX_TRANSCRIPT_WINDOW_SECONDS} seconds`)
+    }
+
+    const transcript = await CaptionService.getTranscript(videoId, request.language)
+    if (!transcript) {
+      throw new Error('No transcript available for this video')
+    }
+
+    const cues = selectTranscriptWindow(transcript.cues, start, end)
+    if (cues.length === 0) {
+      throw new Error('Transcript has no speech in the selected window')
+    }
+
+    const generated = await this.generateQuestions({
+      ...request,
+      videoTitle: video.title,
+      videoDescription: video.description || undefined,
+      content: formatTranscriptForPrompt(cues),
+      transcriptWindow: { start, end }
+    }, { userId: user.id, resourceId: request.milestoneId ?? videoId })
+
+    return {
+      ...generated,
+      questions: generated.questions.map(question => ({
+        ...question,
+        suggestedTimestamp: snapToCueStart(question.suggestedTimestamp, cues)
+      })),
+      transcriptWindow: { start, end, language: transcript.language }
+    }
+  }
+
+  /**
+   * Save suggestions the teacher accepted. Questions go into the given
+   * milestone, or into one QUIZ milestone per suggested timestamp, reusing a
+   * milestone that already sits at that time.
+   */
+  static async acceptSuggestions(videoId: string, request: AcceptSuggestionsRequest, user: User) {
+    await VideoService.getManagedVideo(videoId, user)
+
+    if (request.milestoneId) {
+      const milestone = await prisma.milestone.findFirst({
+        where: { id: request.milestoneId, videoId }
+      })
+      if (!milestone) {
+        throw new Error('Milestone not found')
+      }
+
+      const questionCount = await this.createQuestions(prisma, milestone.id, request.questions, user.id)
+      return {
+        milestones: [{ id: milestone.id, timestamp: milestone.timestamp, title: milestone.title, questionCount, created: false }]
+      }
+    }
+
+    const groups = new Map<number, GeneratedQuestion[]>()
+    for (const question of request.questions) {
+      const timestamp = Math.max(0, Math.floor(question.suggestedTimestamp ?? 0))
+      groups.set(timestamp, [...(groups.get(timestamp) || []), question])
+    }
+
+    const baseTitle = request.milestoneTitle || 'Interactive Quiz'
+
+    const milestones = await prisma.$transaction(async tx => {
+      const maxOrder = await tx.milestone.aggregate({
+        where: { videoId },
+        _max: { order: true }
+      })
+      let nextOrder = (maxOrder._max.order || 0) + 1
+
+      const results = []
+      for (const [timestamp, questions] of Array.from(groups.entries()).sort(([a], [b]) => a - b)) {
+        let milestone = await tx.milestone.findFirst({ where: { videoId, timestamp } })
+        const created = !milestone
+
+        if (!milestone) {
+          milestone = await tx.milestone.create({
+            data: {
+              videoId,
+              timestamp,
+              title: groups.size > 1 ? `${baseTitle} (${this.formatTimestamp(timestamp)})` : baseTitle,
+              description: request.milestoneDescription || null,
+              type: 'QUIZ',
+              order: nextOrder++
+            }
+          })
+        }
+
+        const questionCount = await this.createQuestions(tx, milestone.id, questions, user.id)
+        results.push({ id: milestone.id, timestamp, title: milestone.title, questionCount, created })
+      }
+
+      return results
+    })
+
+    return { milestones }
+  }
+
+  private static async createQuestions(
+    client: Prisma.TransactionClient,
+    milestoneId: string,
+    questions: GeneratedQuestion[],
+    userId: string
+  ): Promise<number> {
+    for (const questionData of questions) {
+      const question = await client.question.create({
         data: {
-          milestoneId: milestone.id,
+          milestoneId,
           type: questionData.type,
           text: questionData.question,
           questionData: {
@@ -350,25 +469,23 @@ Important: Return only valid JSON. No additional text or markdown formatting.
           order: index + 1
         }))
 
-        await prisma.questionOption.createMany({
+        await client.questionOption.createMany({
           data: optionData
         })
       }
-
-      questionCount++
     }
 
-    return {
-      milestoneId: milestone.id,
-      questionCount
-    }
+    return questions.length
+  }
+
+  private static formatTimestamp(seconds: number): string {
+    const mins = Math.floor(seconds / 60)
+    const secs = Math.floor(seconds % 60)
+    return `${mins}:${secs.toString().padStart(2, '0')}`
   }
 
-  static getAvailableProviders(): string[] {
-    const providers: string[] = []
-    if (this.openai) providers.push('OPENAI')
-    if (this.anthropic) providers.push('CLAUDE')
-    return providers
+  static async getAvailableProviders(): Promise<AIProviderName[]> {
+    return aiProviderRegistry.getAvailableProviders()
   }
 }
 
@@ -1,8 +1,19 @@
-import { PrismaClient } from '@prisma/client'
+import fs from 'fs/promises'
+import { LessonStatus, PrismaClient, UserRole, UserStatus, VideoStatus } from '@prisma/client'
 import { User } from '../types/auth'
+import { DashboardRange, countByValue } from './analytics/dashboardRange'
+import { config } from '../config/environment'
+import { LOCAL_STORAGE_ROOT } from './storage/fileStorage'
+import { VideoService } from './VideoService'
+import { buildEngagementHeatmap, buildWatchedIntervals, PlaybackEvent } from './analytics/engagementHeatmap'
+import { analyseItem } from './analytics/itemAnalysis'
+import { buildAttemptTimeline, ViewingAttemptRecord, ViewingAttemptSummary } from './playback/attemptTimeline'
 
 const prisma = new PrismaClient()
 
+// Events that move the playhead, the input of the engagement heatmap
+const PLAYBACK_EVENT_TYPES = ['video_play', 'video_pause', 'video_seek', 'video_ended']
+
 interface VideoStats {
   totalViews: number
   uniqueViewers: number
@@ -39,6 +50,7 @@ interface StudentProgress {
     progress: number
     completedAt: string | null
     score: number | null
+    attempts: ViewingAttemptSummary[] // Every viewing attempt, oldest first; the figures above are the current one's
   }[]
 }
 
@@ -87,10 +99,12 @@ interface StudentDashboard {
   averageScore: number
   streak: number
   recentProgress: {
+    videoId: string
     lessonTitle: string
     videoTitle: string
     progress: number
     timestamp: string
+    attempts: ViewingAttemptSummary[] // Oldest first; progress is the current attempt's
   }[]
   achievements: {
     title: string
@@ -99,6 +113,67 @@ interface StudentDashboard {
   }[]
 }
 
+interface AdminDashboard {
+  range: {
+    from: string
+    to: string
+  }
+  users: {
+    total: number
+    byRole: Record<UserRole, number>
+    byStatus: Record<UserStatus, number>
+    newInRange: number
+    activeInRange: number
+  }
+  lessons: {
+    total: number
+    byStatus: Record<LessonStatus, number>
+    createdInRange: number
+  }
+  videos: {
+    total: number
+    byStatus: Record<VideoStatus, number>
+    uploadedInRange: number
+  }
+  storage: {
+    videoBytes: number
+    videoFiles: number
+    disk: {
+      totalBytes: number
+      freeBytes: number
+    } | null
+  }
+  processing: {
+    failedVideos: number
+    deadJobs: number
+    recentFailures: {
+      videoId: string
+      title: string
+      processingStatus: string | null
+      failedAt: string
+    }[]
+  }
+  ai: {
+    requests: number
+    failedRequests: number
+    tokensUsed: number
+    cost: number
+  }
+  recentActivity: {
+    id: string
+    action: string
+    resource: string
+    resourceId: string | null
+    createdAt: string
+    user: {
+      id: string
+      firstName: string
+      lastName: string
+      email: string
+    } | null
+  }[]
+}
+
 export class AnalyticsService {
   static async getVideoStats(videoId: string, user: User): Promise<VideoStats> {
     // Check if user has access to video
@@ -286,20 +361,25 @@ export class AnalyticsService {
       throw new Error('Student not found')
     }
 
-    // Get student's video sessions
+    // Get student's video sessions, every viewing attempt included
     const whereClause: any = {
-      userId: studentId
+      studentId
     }
 
     if (videoGroupId) {
       whereClause.video = {
         videoGroupId
       }
-    } else if (user.role === 'TEACHER') {
+    }
+
+    if (user.role === 'TEACHER' && user.id !== studentId) {
       // Teachers can only see sessions for their videos
       whereClause.video = {
+        ...whereClause.video,
         videoGroup: {
-          createdBy: user.id
+          lesson: {
+            createdById: user.id
+          }
         }
       }
     }
@@ -312,7 +392,10 @@ export class AnalyticsService {
             videoGroup: true
           }
         },
-        questionAttempts: true
+        questionAttempts: {
+          where: { status: { not: 'IN_PROGRESS' } }
+        },
+        viewing: { select: { currentSessionId: true } }
       },
       orderBy: { lastSeenAt: 'desc' }
     })
@@ -333,19 +416,21 @@ export class AnalyticsService {
       ? sessions[0].lastSeenAt.toISOString()
       : new Date(0).toISOString()
 
-    const progressByVideo = sessions.map(session => {
-      const answers = session.questionAttempts
+    // One entry per video, for its current attempt, with the full attempt history
+    const progressByVideo = this.groupAttemptsByVideo(sessions).map(({ current, attempts }) => {
+      const answers = current.questionAttempts
       const correctCount = answers.filter(a => a.isCorrect).length
       const score = answers.length > 0 ? (correctCount / answers.length) * 100 : null
 
       return {
-        videoId: session.video.id,
-        videoTitle: session.video.title,
-        progress: session.video.duration 
-          ? (session.currentPosition / session.video.duration) * 100 
+        videoId: current.video.id,
+        videoTitle: current.video.title,
+        progress: current.video.duration 
+          ? (current.currentPosition / current.video.duration) * 100 
           : 0,
-        completedAt: session.status === 'COMPLETED' ? session.completedAt?.toISOString() || null : null,
-        score
+        completedAt: current.status === 'COMPLETED' ? current.completedAt?.toISOString() || null : null,
+        score,
+        attempts
       }
     })
 
@@ -516,6 +601,137 @@ export class AnalyticsService {
     }
   }
 
+  /**
+   * Platform-wide statistics for administrators. Totals and status
+   * breakdowns describe the platform as it is now; the "in range" figures,
+   * failures, AI spend and activity cover the requested window.
+   */
+  static async getAdminDashboard(user: User, range: DashboardRange): Promise<AdminDashboard> {
+    if (user.role !== 'ADMIN') {
+      throw new Error('Access denied')
+    }
+
+    const inRange = { gte: range.from, lte: range.to }
+
+    const [
+      usersByRole,
+      usersByStatus,
+      newUsers,
+      activeUsers,
+      lessonsByStatus,
+      lessonsCreated,
+      videosByStatus,
+      videosUploaded,
+      storedVideos,
+      deadJobs,
+      recentFailures,
+      aiUsage,
+      failedAiRequests,
+      recentActivity,
+      disk
+    ] = await Promise.all([
+      prisma.user.groupBy({ by: ['role'], _count: { _all: true } }),
+      prisma.user.groupBy({ by: ['status'], _count: { _all: true } }),
+      prisma.user.count({ where: { createdAt: inRange } }),
+      prisma.user.count({ where: { lastLoginAt: inRange } }),
+      prisma.lesson.groupBy({ by: ['status'], _count: { _all: true } }),
+      prisma.lesson.count({ where: { createdAt: inRange } }),
+      prisma.video.groupBy({ by: ['status'], _count: { _all: true } }),
+      prisma.video.count({ where: { uploadedAt: inRange } }),
+      prisma.video.aggregate({
+        where: { filePath: { not: null } },
+        _sum: { size: true },
+        _count: { _all: true }
+      }),
+      prisma.job.count({ where: { status: 'DEAD', updatedAt: inRange } }),
+      prisma.video.findMany({
+        where: { status: 'ERROR', updatedAt: inRange },
+        select: { id: true, title: true, processingStatus: true, updatedAt: true },
+        orderBy: { updatedAt: 'desc' },
+        take: 5
+      }),
+      prisma.aIUsageLog.aggregate({
+        where: { createdAt: inRange },
+        _sum: { tokensUsed: true, cost: true },
+        _count: { _all: true }
+      }),
+      prisma.aIUsageLog.count({ where: { createdAt: inRange, success: false } }),
+      prisma.auditLog.findMany({
+        where: { createdAt: inRange },
+        select: {
+          id: true,
+          action: true,
+          resource: true,
+          resourceId: true,
+          createdAt: true,
+          user: {
+            select: { id: true, firstName: true, lastName: true, email: true }
+          }
+        },
+        orderBy: { createdAt: 'desc' },
+        take: 10
+      }),
+      // Disk figures are best effort, and only meaningful while files are stored locally
+      config.storage.driver === 'local' ? fs.statfs(LOCAL_STORAGE_ROOT).catch(() => null) : null
+    ])
+
+    const failedVideos = videosByStatus.find(row => row.status === 'ERROR')?._count._all ?? 0
+
+    return {
+      range: {
+        from: range.from.toISOString(),
+        to: range.to.toISOString()
+      },
+      users: {
+        total: usersByRole.reduce((sum, row) => sum + row._count._all, 0),
+        byRole: countByValue(Object.values(UserRole), usersByRole.map(row => ({ value: row.role, count: row._count._all }))),
+        byStatus: countByValue(Object.values(UserStatus), usersByStatus.map(row => ({ value: row.status, count: row._count._all }))),
+        newInRange: newUsers,
+        activeInRange: activeUsers
+      },
+      lessons: {
+        total: lessonsByStatus.reduce((sum, row) => sum + row._count._all, 0),
+        byStatus: countByValue(Object.values(LessonStatus), lessonsByStatus.map(row => ({ value: row.status, count: row._count._all }))),
+        createdInRange: lessonsCreated
+      },
+      videos: {
+        total: videosByStatus.reduce((sum, row) => sum + row._count._all, 0),
+        byStatus: countByValue(Object.values(VideoStatus), videosByStatus.map(row => ({ value: row.status, count: row._count._all }))),
+        uploadedInRange: videosUploaded
+      },
+      storage: {
+        videoBytes: Number(storedVideos._sum.size ?? 0),
+        videoFiles: storedVideos._count._all,
+        disk: disk
+          ? {
+              totalBytes: disk.blocks * disk.bsize,
+              freeBytes: disk.bavail * disk.bsize
+            }
+          : null
+      },
+      processing: {
+        failedVideos,
+        deadJobs,
+        recentFailures: recentFailures.map(video => ({
+          videoId: video.id,
+          title: video.title,
+          processingStatus: video.processingStatus,
+          failedAt: video.updatedAt.toISOString()
+        }))
+      },
+      ai: {
+        requests: aiUsage._count._all,
+        failedRequests: failedAiRequests,
+        tokensUsed: aiUsage._sum.tokensUsed ?? 0,
+        cost: aiUsage._sum.cost ?? 0
+      },
+      recentActivity: recentActivity.map(entry => ({
+        ...entry,
+        createdAt: entry.createdAt.toISOString()
+      }))
+    }
+  }
+
   static async getStudentDashboard(user: User): Promise<StudentDashboard> {
     const sessions = await prisma.studentSession.findMany({
       where: { studentId: user.id },
@@ -525,7 +741,10 @@ export class AnalyticsService {
             videoGroup: true
           }
         },
-        questionAttempts: true
+        questionAttempts: {
+          where: { status: { not: 'IN_PROGRESS' } }
+        },
+        viewing: { select: { currentSessionId: true } }
       },
       orderBy: { lastSeenAt: 'desc' }
     })
@@ -548,14 +767,16 @@ export class AnalyticsService {
     ).size
     const streak = Math.min(activeDays, 30) // Cap at 30 days
 
-    // Recent progress
-    const recentProgress = sessions.slice(0, 5).map(session => ({
-      lessonTitle: session.video.videoGroup.title,
-      videoTitle: session.video.title,
-      progress: session.video.duration 
-        ? (session.currentPosition / session.video.duration) * 100 
+    // Recent progress, one entry per video
+    const recentProgress = this.groupAttemptsByVideo(sessions).slice(0, 5).map(({ current, attempts }) => ({
+      videoId: current.video.id,
+      lessonTitle: current.video.videoGroup.title,
+      videoTitle: current.video.title,
+      progress: current.video.duration 
+        ? (current.currentPosition / current.video.duration) * 100 
         : 0,
-      timestamp: session.lastSeenAt.toISOString()
+      timestamp: current.lastSeenAt.toISOString(),
+      attempts
     }))
 
     // Achievements (simplified)
@@ -586,65 +807,122 @@ export class AnalyticsService {
     }
   }
 
+  /**
+   * Second-by-second engagement for a video (lesson creator or admin),
+   * rebuilt from the play, pause, seek and ended events each viewer's
+   * player reported, with milestone positions and question accuracy to
+   * overlay on the chart
+   */
   static async getEngagementHeatmap(videoId: string, user: User) {
-    // Check access first
-    await this.getVideoStats(videoId, user)
-
-    const sessions = await prisma.studentSession.findMany({
-      where: { videoId },
-      // No milestone progress relation needed for heatmap
-    })
+    await VideoService.getManagedVideo(videoId, user)
+
+    const [video, events] = await Promise.all([
+      prisma.video.findUniqueOrThrow({
+        where: { id: videoId },
+        select: {
+          duration: true,
+          milestones: {
+            orderBy: { timestamp: 'asc' },
+            select: {
+              id: true,
+              title: true,
+              timestamp: true,
+              questions: {
+                select: { id: true, text: true }
+              }
+            }
+          }
+        }
+      }),
+      prisma.analyticsEvent.findMany({
+        where: {
+          eventType: { in: PLAYBACK_EVENT_TYPES },
+          eventData: { path: ['videoId'], equals: videoId },
+          userId: { not: null }
+        },
+        select: { userId: true, eventType: true, eventData: true, timestamp: true },
+        orderBy: { timestamp: 'asc' }
+      })
+    ])
+
+    const eventsByViewer = new Map<string, PlaybackEvent[]>()
+    for (const event of events) {
+      const viewerEvents = eventsByViewer.get(event.userId!) ?? []
+      viewerEvents.push({
+        type: event.eventType,
+        timestamp: event.timestamp,
+        data: event.eventData as PlaybackEvent['data']
+      })
+      eventsByViewer.set(event.userId!, viewerEvents)
+    }
+    const intervalsByViewer = [...eventsByViewer.values()].map(buildWatchedIntervals)
 
-    // Create engagement heatmap data (simplified)
-    const heatmapData = Array(100).fill(0).map((_, index) => {
-      const timePoint = (index / 99) * 100 // Percentage through video
-      const engagement = sessions.filter(session => {
-        const sessionProgress = session.video?.duration 
-          ? (session.currentPosition / session.video.duration) * 100 
-          : 0
-        return sessionProgress >= timePoint
-      }).length
+    // Fall back to the furthest watched position for videos whose metadata job has not run
+    const duration = video.duration ??
+      Math.ceil(intervalsByViewer.flat().reduce((furthest, interval) => Math.max(furthest, interval.end), 0))
 
-      return {
-        timePoint,
-        engagement: sessions.length > 0 ? (engagement / sessions.length) * 100 : 0
-      }
-    })
+    const questionIds = video.milestones.flatMap(milestone => milestone.questions.map(question => question.id))
+    const attempts = questionIds.length > 0
+      ? await prisma.questionAttempt.groupBy({
+          by: ['questionId', 'isCorrect'],
+          where: { questionId: { in: questionIds }, isCorrect: { not: null } },
+          _count: { _all: true }
+        })
+      : []
 
-    return heatmapData
+    return {
+      videoId,
+      ...buildEngagementHeatmap(intervalsByViewer, duration),
+      milestones: video.milestones.map(milestone => ({
+        id: milestone.id,
+        title: milestone.title,
+        timestamp: milestone.timestamp,
+        questions: milestone.questions.map(question => {
+          const answered = attempts.filter(row => row.questionId === question.id)
+          const total = answered.reduce((sum, row) => sum + row._count._all, 0)
+          const correct = answered.find(row => row.isCorrect)?._count._all ?? 0
+          return {
+            id: question.id,
+            text: question.text,
+            attempts: total,
+            accuracy: total > 0 ? (correct / total) * 100 : null
+          }
+        })
+      }))
+    }
   }
 
+  /**
+   * Item analysis for the questions of a milestone (lesson creator or
+   * admin): difficulty and discrimination from students' first attempts,
+   * option selection rates for multiple choice, median time and hint usage
+   */
   static async getQuestionPerformance(milestoneId: string, user: User) {
-    const milestone = await prisma.milestone.findFirst({
-      where: {
-        id: milestoneId,
-        video: {
-          OR: [
-            { uploadedBy: user.id },
-            { videoGroup: { createdBy: user.id } },
-            user.role === 'ADMIN' ? {} : {
-              videoGroup: {
-                OR: [
-                  { isPublic: true },
-                  {
-                    videos: {
-                      some: {
-                        studentSessions: {
-                          some: { studentId: user.id }
-                        }
-                      }
-                    }
-                  }
-                ]
+    const milestone = await prisma.milestone.findUnique({
+      where: { id: milestoneId },
+      select: {
+        id: true,
+        title: true,
+        videoId: true,
+        questions: {
+          where: { status: { not: 'ARCHIVED' } },
+          orderBy: { createdAt: 'asc' },
+          select: {
+            id: true,
+            text: true,
+            type: true,
+            questionData: true,
+            attempts: {
+              where: { status: { not: 'IN_PROGRESS' } },
+              select: {
+                studentId: true,
+                attemptNumber: true,
+                isCorrect: true,
+                timeSpent: true,
+                hintsUsed: true,
+                studentAnswer: true
               }
             }
-          ]
-        }
-      },
-      include: {
-        questions: {
-          include: {
-            questionAttempts: true
           }
         }
       }
@@ -654,26 +932,68 @@ export class AnalyticsService {
       throw new Error('Milestone not found')
     }
 
-    const performance = milestone.questions.map(question => {
-      const answers = question.questionAttempts
-      const correctCount = answers.filter(a => a.isCorrect).length
-      const accuracy = answers.length > 0 ? (correctCount / answers.length) * 100 : 0
+    const video = await VideoService.getManagedVideo(milestone.videoId, user)
+
+    // Overall lesson percentage of everyone who answered, for the discrimination groups
+    const studentIds = [...new Set(milestone.questions.flatMap(question => question.attempts.map(a => a.studentId)))]
+    const grades = studentIds.length > 0
+      ? await prisma.grade.findMany({
+          where: {
+            studentId: { in: studentIds },
+            studentProgress: { lessonId: video.videoGroup.lessonId }
+          },
+          orderBy: { updatedAt: 'asc' },
+          select: { studentId: true, percentageScore: true }
+        })
+      : []
+    const lessonScores = new Map(grades.map(grade => [grade.studentId, grade.percentageScore]))
+
+    const questions = milestone.questions.map(question => {
+      const attempts = question.attempts.map(attempt => ({
+        ...attempt,
+        hintsUsed: attempt.hintsUsed.length
+      }))
+      const correctAnswers = attempts.filter(attempt => attempt.isCorrect).length
 
       return {
-        questionId: question.id,
-        question: question.question,
-        type: question.type,
-        totalAnswers: answers.length,
-        correctAnswers: correctCount,
-        accuracy,
-        averageTime: 0 // Could calculate from timestamps
+        ...analyseItem(question, attempts, lessonScores),
+        correctAnswers,
+        accuracy: attempts.length > 0 ? (correctAnswers / attempts.length) * 100 : 0
       }
     })
 
     return {
       milestoneId,
       milestoneTitle: milestone.title,
-      questions: performance
+      questions
+    }
+  }
+
+  /**
+   * Group a student's sessions by video, keeping the order they arrive in,
+   * and pair each video's current attempt with its attempt timeline
+   */
+  private static groupAttemptsByVideo<T extends Omit<ViewingAttemptRecord, 'isCurrent' | 'answers'> & {
+    videoId: string
+    viewing: { currentSessionId: string } | null
+    questionAttempts: { isCorrect: boolean | null }[]
+    video: { duration: number | null }
+  }>(sessions: T[]) {
+    const byVideo = new Map<string, T[]>()
+    for (const session of sessions) {
+      byVideo.set(session.videoId, [...(byVideo.get(session.videoId) ?? []), session])
     }
+
+    return Array.from(byVideo.values()).map(videoSessions => ({
+      current: videoSessions.find(session => session.viewing !== null) ?? videoSessions[0],
+      attempts: buildAttemptTimeline(
+        videoSessions.map(session => ({
+          ...session,
+          isCurrent: session.viewing !== null,
+          answers: session.questionAttempts
+        })),
+        videoSessions[0].video.duration
+      )
+    }))
   }
-}
\ No newline at end of file
+}
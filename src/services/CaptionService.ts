@@ -0,0 +1,152 @@
+import { PrismaClient } from '@prisma/client'
+import { User } from '../types/auth'
+import { VideoService } from './VideoService'
+import { toWebVtt } from './captions/captionFormat'
+import { parseTranscript } from './captions/transcript'
+import { auditRecorder } from './audit/auditRecorder'
+import { fileStorage } from './storage/fileStorage'
+import { storageKeys } from './storage/storageDriver'
+
+const prisma = new PrismaClient()
+
+interface SaveCaptionData {
+  label: string
+  content: Buffer
+}
+
+export class CaptionService {
+  /**
+   * List a video's caption tracks together with the track the viewer's
+   * subtitle preference asks for (null when subtitles are off)
+   */
+  static async listCaptions(videoId: string, userId: string) {
+    const video = await VideoService.getVideoById(videoId, userId)
+    if (!video) {
+      throw new Error('Video not found')
+    }
+
+    const preference = await prisma.userPreference.findUnique({
+      where: { userId },
+      select: { subtitles: true, language: true }
+    })
+
+    let defaultLanguage: string | null = null
+    if (preference?.subtitles && video.captions.length > 0) {
+      const preferred = video.captions.find(caption =>
+        caption.language === preference.language ||
+        caption.language.split('-')[0] === preference.language
+      )
+      defaultLanguage = (preferred ?? video.captions[0]).language
+    }
+
+    return {
+      captions: video.captions,
+      defaultLanguage
+    }
+  }
+
+  /**
+   * Get the storage key of a caption track's WebVTT file
+   */
+  static async getCaptionStreamKey(videoId: string, language: string, userId: string): Promise<string | null> {
+    const video = await VideoService.getVideoById(videoId, userId)
+    if (!video) {
+      return null
+    }
+
+    const caption = await prisma.videoCaption.findUnique({
+      where: { videoId_language: { videoId, language } }
+    })
+
+    return caption ? storageKeys.caption(caption.filePath) : null
+  }
+
+  /**
+   * Load a caption track as transcript cues, in the requested language or
+   * the first available one. Returns null when the video has no captions.
+   * Callers are responsible for checking access to the video.
+   */
+  static async getTranscript(videoId: string, language?: string) {
+    const caption = await prisma.videoCaption.findFirst({
+      where: { videoId, ...(language ? { language } : {}) },
+      orderBy: { language: 'asc' }
+    })
+
+    if (!caption) {
+      return null
+    }
+
+    const vtt = (await fileStorage.read(storageKeys.caption(caption.filePath))).toString('utf8')
+
+    return {
+      language: caption.language,
+      cues: parseTranscript(vtt)
+    }
+  }
+
+  /**
+   * Add or replace the caption track for a language (lesson creator or admin).
+   * SRT uploads are converted to WebVTT before they are stored.
+   */
+  static async saveCaption(videoId: string, language: string, data: SaveCaptionData, user: User) {
+    await VideoService.getManagedVideo(videoId, user)
+
+    const vtt = toWebVtt(data.content.toString('utf8'))
+    const fileName = `${videoId}/${language}.vtt`
+
+    await fileStorage.put(storageKeys.caption(fileName), vtt)
+
+    const caption = await prisma.videoCaption.upsert({
+      where: { videoId_language: { videoId, language } },
+      create: {
+        videoId,
+        language,
+        label: data.label,
+        filePath: fileName
+      },
+      update: {
+        label: data.label,
+        filePath: fileName
+      },
+      select: { language: true, label: true, updatedAt: true }
+    })
+
+    await auditRecorder.record({
+      userId: user.id,
+      action: 'UPLOAD',
+      resource: 'caption',
+      resourceId: videoId,
+      metadata: { language, label: data.label }
+    })
+
+    return caption
+  }
+
+  /**
+   * Remove the caption track for a language (lesson creator or admin)
+   */
+  static async deleteCaption(videoId: string, language: string, user: User) {
+    await VideoService.getManagedVideo(videoId, user)
+
+    const caption = await prisma.videoCaption.findUnique({
+      where: { videoId_language: { videoId, language } }
+    })
+
+    if (!caption) {
+      throw new Error('Caption not found')
+    }
+
+    await prisma.videoCaption.delete({ where: { id: caption.id } })
+    await fileStorage.delete(storageKeys.caption(caption.filePath)).catch(() => {})
+
+    await auditRecorder.record({
+      userId: user.id,
+      action: 'DELETE',
+      resource: 'caption',
+      resourceId: videoId,
+      before: caption
+    })
+
+    return true
+  }
+}
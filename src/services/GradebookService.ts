@@ -0,0 +1,288 @@
+import { Prisma, PrismaClient } from '@prisma/client'
+import { User } from '../types/auth'
+import {
+  computeLessonGrade,
+  GradeScaleEntry,
+  normalizeGradeScale,
+  resolveGradeScale
+} from './grading/lessonGrade'
+
+const prisma = new PrismaClient()
+
+export class GradebookService {
+  /**
+   * Recalculate a student's grade for the lesson a video belongs to
+   */
+  static async recalculateForVideo(studentId: string, videoId: string) {
+    const video = await prisma.video.findUnique({
+      where: { id: videoId },
+      select: {
+        videoGroup: {
+          select: { lessonId: true }
+        }
+      }
+    })
+
+    if (!video) {
+      return null
+    }
+
+    return this.recalculateLessonGrade(studentId, video.videoGroup.lessonId)
+  }
+
+  /**
+   * Recalculate a student's lesson grade and performance metrics from their
+   * submitted attempts
+   */
+  static async recalculateLessonGrade(studentId: string, lessonId: string) {
+    const lesson = await prisma.lesson.findUnique({
+      where: { id: lessonId },
+      select: { id: true, metadata: true }
+    })
+
+    if (!lesson) {
+      throw new Error('Lesson not found')
+    }
+
+    const questions = await this.getLessonQuestions(lessonId)
+
+    const attempts = await prisma.questionAttempt.findMany({
+      where: {
+        studentId,
+        questionId: { in: questions.map(question => question.id) },
+        status: { not: 'IN_PROGRESS' }
+      },
+      select: {
+        questionId: true,
+        score: true,
+        isCorrect: true
+      }
+    })
+
+    const scale = resolveGradeScale(lesson.metadata)
+    const result = computeLessonGrade(
+      questions.map(question => ({
+        id: question.id,
+        milestoneId: question.milestoneId,
+        milestoneTitle: question.milestone.title,
+        points: question.points,
+        passThreshold: question.passThreshold,
+        retryLimit: question.milestone.retryLimit
+      })),
+      attempts,
+      scale
+    )
+
+    const averageScore = attempts.length > 0
+      ? attempts.reduce((sum, attempt) => sum + attempt.score, 0) / attempts.length
+      : 0
+
+    const progress = await prisma.studentProgress.upsert({
+      where: {
+        studentId_lessonId: { studentId, lessonId }
+      },
+      update: {
+        averageScore,
+        totalAttempts: attempts.length,
+        successfulAttempts: attempts.filter(attempt => attempt.isCorrect).length
+      },
+      create: {
+        studentId,
+        lessonId,
+        averageScore,
+        totalAttempts: attempts.length,
+        successfulAttempts: attempts.filter(attempt => attempt.isCorrect).length,
+        startedAt: new Date()
+      }
+    })
+
+    const isFinal = result.status === 'COMPLETED' || result.status === 'FAILED'
+    const gradeData = {
+      totalPoints: result.totalPoints,
+      earnedPoints: Math.round(result.earnedPoints),
+      percentageScore: result.percentageScore,
+      letterGrade: result.letterGrade,
+      status: result.status,
+      totalAttempts: result.totalAttempts,
+      remainingAttempts: result.remainingAttempts,
+      gradeBreakdown: {
+        earnedPoints: result.earnedPoints,
+        scale,
+        milestones: result.milestones
+      } as unknown as Prisma.InputJsonValue
+    }
+
+    const existing = await prisma.grade.findFirst({
+      where: { studentProgressId: progress.id },
+      orderBy: { createdAt: 'desc' }
+    })
+
+    if (existing) {
+      return prisma.grade.update({
+        where: { id: existing.id },
+        data: {
+          ...gradeData,
+          // Keep the original finalization time while the grade stays final
+          finalizedAt: isFinal ? existing.finalizedAt ?? new Date() : null
+        }
+      })
+    }
+
+    return prisma.grade.create({
+      data: {
+        ...gradeData,
+        studentId,
+        studentProgressId: progress.id,
+        finalizedAt: isFinal ? new Date() : null
+      }
+    })
+  }
+
+  /**
+   * Get the gradebook grid for a lesson (lesson creator or admin only)
+   */
+  static async getLessonGradebook(lessonId: string, user: User) {
+    const lesson = await this.getManagedLesson(lessonId, user)
+    const questions = await this.getLessonQuestions(lessonId)
+
+    const progressRecords = await prisma.studentProgress.findMany({
+      where: { lessonId },
+      include: {
+        student: {
+          select: {
+            id: true,
+            firstName: true,
+            lastName: true,
+            email: true
+          }
+        },
+        grades: {
+          orderBy: { createdAt: 'desc' },
+          take: 1
+        }
+      },
+      orderBy: [
+        { student: { lastName: 'asc' } },
+        { student: { firstName: 'asc' } }
+      ]
+    })
+
+    // Group question columns under their milestones, in playback order
+    const columns: Array<{
+      milestoneId: string
+      title: string
+      questions: Array<{ id: string, text: string, points: number }>
+    }> = []
+    for (const question of questions) {
+      let column = columns.find(entry => entry.milestoneId === question.milestoneId)
+      if (!column) {
+        column = { milestoneId: question.milestoneId, title: question.milestone.title, questions: [] }
+        columns.push(column)
+      }
+      column.questions.push({ id: question.id, text: question.text, points: question.points })
+    }
+
+    return {
+      lesson: {
+        id: lesson.id,
+        title: lesson.title
+      },
+      gradeScale: resolveGradeScale(lesson.metadata),
+      totalPoints: questions.reduce((sum, question) => sum + question.points, 0),
+      columns,
+      rows: progressRecords.map(progress => ({
+        student: progress.student,
+        progress: {
+          isCompleted: progress.isCompleted,
+          completionPercent: progress.completionPercent,
+          averageScore: progress.averageScore,
+          totalAttempts: progress.totalAttempts,
+          successfulAttempts: progress.successfulAttempts
+        },
+        grade: progress.grades[0] ?? null
+      }))
+    }
+  }
+
+  /**
+   * Replace a lesson's letter-grade scale and regrade every enrolled student
+   */
+  static async updateGradeScale(lessonId: string, scale: GradeScaleEntry[], user: User) {
+    const lesson = await this.getManagedLesson(lessonId, user)
+    const gradeScale = normalizeGradeScale(scale)
+
+    const metadata = (lesson.metadata && typeof lesson.metadata === 'object' && !Array.isArray(lesson.metadata))
+      ? lesson.metadata as Prisma.JsonObject
+      : {}
+
+    await prisma.lesson.update({
+      where: { id: lessonId },
+      data: {
+        metadata: {
+          ...metadata,
+          gradeScale: gradeScale as unknown as Prisma.InputJsonValue
+        }
+      }
+    })
+
+    const progressRecords = await prisma.studentProgress.findMany({
+      where: { lessonId },
+      select: { studentId: true }
+    })
+
+    for (const progress of progressRecords) {
+      await this.recalculateLessonGrade(progress.studentId, lessonId)
+    }
+
+    return gradeScale
+  }
+
+  private static async getManagedLesson(lessonId: string, user: User) {
+    const lesson = await prisma.lesson.findUnique({
+      where: { id: lessonId },
+      select: {
+        id: true,
+        title: true,
+        metadata: true,
+        createdById: true
+      }
+    })
+
+    if (!lesson) {
+      throw new Error('Lesson not found')
+    }
+
+    if (lesson.createdById !== user.id && user.role !== 'ADMIN') {
+      throw new Error('Access denied')
+    }
+
+    return lesson
+  }
+
+  private static async getLessonQuestions(lessonId: string) {
+    return prisma.question.findMany({
+      where: {
+        status: { not: 'ARCHIVED' },
+        milestone: {
+          video: {
+            videoGroup: { lessonId }
+          }
+        }
+      },
+      include: {
+        milestone: {
+          select: {
+            title: true,
+            timestamp: true,
+            retryLimit: true
+          }
+        }
+      },
+      orderBy: [
+        { milestone: { video: { order: 'asc' } } },
+        { milestone: { timestamp: 'asc' } },
+        { createdAt: 'asc' }
+      ]
+    })
+  }
+}
@@ -1,5 +1,6 @@
 import { PrismaClient } from '@prisma/client'
 import { User } from '../types/auth'
+import { auditRecorder } from './audit/auditRecorder'
 
 const prisma = new PrismaClient()
 
@@ -96,6 +97,14 @@ export class MilestoneService {
       }
     })
 
+    await auditRecorder.record({
+      userId: user.id,
+      action: 'CREATE',
+      resource: 'milestone',
+      resourceId: milestone.id,
+      after: milestone
+    })
+
     return milestone
   }
 
@@ -202,6 +211,15 @@ export class MilestoneService {
       }
     })
 
+    await auditRecorder.record({
+      userId: user.id,
+      action: 'UPDATE',
+      resource: 'milestone',
+      resourceId: milestoneId,
+      before: { ...existingMilestone, video: undefined },
+      after: milestone
+    })
+
     return milestone
   }
 
@@ -238,6 +256,14 @@ export class MilestoneService {
       where: { id: milestoneId }
     })
 
+    await auditRecorder.record({
+      userId: user.id,
+      action: 'DELETE',
+      resource: 'milestone',
+      resourceId: milestoneId,
+      before: { ...existingMilestone, video: undefined }
+    })
+
     return true
   }
 
@@ -287,6 +313,14 @@ export class MilestoneService {
       }
     })
 
+    await auditRecorder.record({
+      userId: user.id,
+      action: 'CREATE',
+      resource: 'question',
+      resourceId: question.id,
+      after: question
+    })
+
     return question
   }
 }
\ No newline at end of file
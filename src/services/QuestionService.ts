@@ -1,5 +1,6 @@
 import { PrismaClient, QuestionType, QuestionStatus } from '@prisma/client'
 import { User } from '../types/auth'
+import { auditRecorder } from './audit/auditRecorder'
 
 const prisma = new PrismaClient()
 
@@ -12,6 +13,8 @@ interface CreateQuestionData {
   difficulty?: string
   points?: number
   passThreshold?: number
+  timeLimit?: number | null // Seconds allowed per attempt
+  hintPenalty?: number // Fraction of the score deducted per revealed hint
   questionData: any // Flexible JSON for different question types
 }
 
@@ -22,6 +25,8 @@ interface UpdateQuestionData {
   difficulty?: string
   points?: number
   passThreshold?: number
+  timeLimit?: number | null
+  hintPenalty?: number
   questionData?: any
   status?: QuestionStatus
 }
@@ -73,6 +78,8 @@ export class QuestionService {
         questionData: data.questionData,
         points: data.points || 1,
         passThreshold: data.passThreshold || 0.7,
+        timeLimit: data.timeLimit ?? null,
+        hintPenalty: data.hintPenalty ?? 0.1,
         createdById: user.id,
         status: 'DRAFT'
       },
@@ -95,6 +102,14 @@ export class QuestionService {
       }
     })
 
+    await auditRecorder.record({
+      userId: user.id,
+      action: 'CREATE',
+      resource: 'question',
+      resourceId: question.id,
+      after: question
+    })
+
     return question
   }
 
@@ -258,6 +273,8 @@ export class QuestionService {
     if (data.difficulty !== undefined) updateData.difficulty = data.difficulty
     if (data.points !== undefined) updateData.points = data.points
     if (data.passThreshold !== undefined) updateData.passThreshold = data.passThreshold
+    if (data.timeLimit !== undefined) updateData.timeLimit = data.timeLimit
+    if (data.hintPenalty !== undefined) updateData.hintPenalty = data.hintPenalty
     if (data.questionData !== undefined) updateData.questionData = data.questionData
     if (data.status !== undefined) updateData.status = data.status
 
@@ -283,6 +300,15 @@ export class QuestionService {
       }
     })
 
+    await auditRecorder.record({
+      userId: user.id,
+      action: 'UPDATE',
+      resource: 'question',
+      resourceId: questionId,
+      before: { ...existingQuestion, milestone: undefined },
+      after: question
+    })
+
     return question
   }
 
@@ -327,6 +353,14 @@ export class QuestionService {
       where: { id: questionId }
     })
 
+    await auditRecorder.record({
+      userId: user.id,
+      action: 'DELETE',
+      resource: 'question',
+      resourceId: questionId,
+      before: { ...existingQuestion, milestone: undefined }
+    })
+
     return true
   }
 
@@ -393,9 +427,106 @@ export class QuestionService {
       }
     })
 
+    await auditRecorder.record({
+      userId: user.id,
+      action: 'UPDATE',
+      resource: 'question',
+      resourceId: questionId,
+      before: { ...existingQuestion, milestone: undefined },
+      after: question,
+      metadata: { approved: true }
+    })
+
     return question
   }
 
+  /**
+   * Get every student's attempt history for a question (lesson creator or admin only)
+   */
+  static async getQuestionAttempts(questionId: string, user: User) {
+    const question = await prisma.question.findUnique({
+      where: { id: questionId },
+      include: {
+        milestone: {
+          include: {
+            video: {
+              include: {
+                videoGroup: {
+                  include: {
+                    lesson: true
+                  }
+                }
+              }
+            }
+          }
+        }
+      }
+    })
+
+    if (!question) {
+      throw new Error('Question not found')
+    }
+
+    if (
+      question.milestone.video.videoGroup.lesson.createdById !== user.id &&
+      user.role !== 'ADMIN'
+    ) {
+      throw new Error('Access denied')
+    }
+
+    const attempts = await prisma.questionAttempt.findMany({
+      where: {
+        questionId,
+        status: { not: 'IN_PROGRESS' }
+      },
+      orderBy: [
+        { studentId: 'asc' },
+        { attemptNumber: 'asc' }
+      ],
+      include: {
+        student: {
+          select: {
+            id: true,
+            firstName: true,
+            lastName: true,
+            email: true
+          }
+        }
+      }
+    })
+
+    // Group attempts per student so the latest and best scores are easy to read
+    const byStudent = new Map<string, {
+      student: typeof attempts[number]['student']
+      attempts: typeof attempts
+      bestScore: number
+      attemptsUsed: number
+      remainingAttempts: number
+    }>()
+
+    for (const attempt of attempts) {
+      const entry = byStudent.get(attempt.studentId) ?? {
+        student: attempt.student,
+        attempts: [],
+        bestScore: 0,
+        attemptsUsed: 0,
+        remainingAttempts: question.milestone.retryLimit
+      }
+      entry.attempts.push(attempt)
+      entry.bestScore = Math.max(entry.bestScore, attempt.score)
+      entry.attemptsUsed = entry.attempts.length
+      entry.remainingAttempts = Math.max(0, question.milestone.retryLimit - entry.attemptsUsed)
+      byStudent.set(attempt.studentId, entry)
+    }
+
+    return {
+      questionId,
+      retryLimit: question.milestone.retryLimit,
+      timeLimit: question.timeLimit,
+      students: Array.from(byStudent.values())
+    }
+  }
+
   /**
    * Get question data templates for different question types
    */
@@ -438,7 +569,7 @@ export class QuestionService {
         }
       },
       MATCHING: {
-        description: 'Match items from two lists',
+        description: 'Match items from two lists (partial credit per correct pair)',
         example: {
           leftItems: ['Item 1', 'Item 2', 'Item 3'],
           rightItems: ['Match A', 'Match B', 'Match C'],
@@ -450,10 +581,11 @@ export class QuestionService {
         }
       },
       ORDERING: {
-        description: 'Put items in correct order',
+        description: 'Put items in correct order (partial credit by relative order or position)',
         example: {
           items: ['First item', 'Second item', 'Third item'],
-          correctOrder: [0, 1, 2]
+          correctOrder: [0, 1, 2],
+          scoringMethod: 'kendall' // or 'position'
         }
       }
     }
@@ -500,6 +632,42 @@ export class QuestionService {
         }
         break
 
+      case 'MATCHING': {
+        if (!Array.isArray(questionData.leftItems) || !Array.isArray(questionData.rightItems) ||
+            questionData.leftItems.length < 2) {
+          throw new Error('Matching questions must have at least 2 left and right items')
+        }
+        if (!Array.isArray(questionData.correctMatches) || questionData.correctMatches.length === 0) {
+          throw new Error('Matching questions must have correct matches')
+        }
+        const invalidMatch = questionData.correctMatches.some((match: any) =>
+          !Number.isInteger(match?.left) || match.left < 0 || match.left >= questionData.leftItems.length ||
+          !Number.isInteger(match?.right) || match.right < 0 || match.right >= questionData.rightItems.length
+        )
+        if (invalidMatch) {
+          throw new Error('Matching questions must have correct matches that reference existing items')
+        }
+        break
+      }
+
+      case 'ORDERING': {
+        if (!Array.isArray(questionData.items) || questionData.items.length < 2) {
+          throw new Error('Ordering questions must have at least 2 items')
+        }
+        const order = questionData.correctOrder
+        const isPermutation = Array.isArray(order) &&
+          order.length === questionData.items.length &&
+          new Set(order).size === order.length &&
+          order.every((index: any) => Number.isInteger(index) && index >= 0 && index < questionData.items.length)
+        if (!isPermutation) {
+          throw new Error('Ordering questions must have a correct order covering every item')
+        }
+        if (questionData.scoringMethod !== undefined && !['kendall', 'position'].includes(questionData.scoringMethod)) {
+          throw new Error('Ordering questions must have a scoring method of kendall or position')
+        }
+        break
+      }
+
       default:
         // For other question types, allow flexible validation
         break
@@ -2,7 +2,6 @@ import path from 'path'
 import fs from 'fs/promises'
 import { exec } from 'child_process'
 import { promisify } from 'util'
-import { getThumbnailFilePath } from '../middleware/upload/videoUploadMiddleware'
 
 const execAsync = promisify(exec)
 
@@ -17,26 +16,17 @@ interface VideoMetadata {
 
 export class VideoProcessingService {
   /**
-   * Generate thumbnail for video file using ffprobe and ffmpeg (if available)
-   * Falls back to placeholder if ffmpeg is not available
+   * Generate a thumbnail for a video file using ffmpeg (if available), written
+   * to outputPath. Returns false when ffmpeg is not available.
    */
-  static async generateThumbnail(videoPath: string, filename: string): Promise<string | null> {
+  static async generateThumbnail(videoPath: string, outputPath: string): Promise<boolean> {
     try {
-      const thumbnailName = `${path.parse(filename).name}.jpg`
-      const thumbnailPath = getThumbnailFilePath(thumbnailName)
-      
-      // Try to use ffmpeg to generate thumbnail
-      try {
-        // Generate thumbnail at 1 second mark
-        await execAsync(`ffmpeg -i "${videoPath}" -ss 00:00:01 -vframes 1 -y "${thumbnailPath}"`)
-        return thumbnailName
-      } catch (ffmpegError) {
-        console.warn('ffmpeg not available, skipping thumbnail generation:', ffmpegError)
-        return null
-      }
-    } catch (error) {
-      console.error('Error generating thumbnail:', error)
-      return null
+      // Generate thumbnail at 1 second mark
+      await execAsync(`ffmpeg -i "${videoPath}" -ss 00:00:01 -vframes 1 -y "${outputPath}"`)
+      return true
+    } catch (ffmpegError) {
+      console.warn('ffmpeg not available, skipping thumbnail generation:', ffmpegError)
+      return false
     }
   }
 
@@ -1,7 +1,14 @@
-import { PrismaClient } from '@prisma/client'
+import { Prisma, PrismaClient, SeekPolicy } from '@prisma/client'
 import { User } from '../types/auth'
+import path from 'path'
 import { VideoProcessingService } from './VideoProcessingService'
-import { getVideoFilePath, getThumbnailFilePath, deleteVideoFile, deleteThumbnailFile } from '../middleware/upload/videoUploadMiddleware'
+import { MASTER_PLAYLIST, RENDITION_LADDER } from './VideoTranscodingService'
+import { enqueueVideoMetadata, enqueueVideoProcessing, enqueueVideoTranscode } from './jobs/videoJobs'
+import { auditRecorder } from './audit/auditRecorder'
+import { createStagingPath, fileStorage } from './storage/fileStorage'
+import { storageKeys } from './storage/storageDriver'
+import { signPlaybackToken } from './auth/playbackToken'
+import { config } from '../config/environment'
 
 const prisma = new PrismaClient()
 
@@ -30,6 +37,8 @@ interface CreateVideoData {
   originalName?: string
   filePath?: string
   mimeType?: string
+  // Resumable upload state; the video stays UPLOADING until every chunk arrives
+  upload?: Prisma.InputJsonObject
 }
 
 interface UpdateVideoData {
@@ -40,6 +49,7 @@ interface UpdateVideoData {
   mimeType?: string
   duration?: number
   thumbnailPath?: string
+  seekPolicy?: SeekPolicy
 }
 
 interface GetVideoGroupsOptions {
@@ -290,40 +300,6 @@ export class VideoService {
 
       const nextOrder = (maxOrder._max.order || 0) + 1
 
-      // Process video to extract metadata
-      let duration: number | null = null
-      let size: number | null = null
-      let thumbnailPath: string | null = null
-
-      if (data.filePath) {
-        try {
-          console.log('📹 Processing video metadata for:', data.filePath)
-          
-          // Get full file path for processing
-          const fullVideoPath = getVideoFilePath(data.filePath)
-          console.log('📂 Full video path:', fullVideoPath)
-          
-          // Extract video metadata (duration, dimensions, etc.)
-          const metadata = await VideoProcessingService.getVideoMetadata(fullVideoPath)
-          duration = metadata.duration
-          console.log('📊 Extracted video duration:', duration)
-          
-          // Get file size
-          size = await VideoProcessingService.getFileSize(fullVideoPath)
-          console.log('📏 Extracted video size:', size)
-          
-          // Generate thumbnail (optional - don't fail if this doesn't work)
-          if (data.originalName || data.filename) {
-            thumbnailPath = await VideoProcessingService.generateThumbnail(fullVideoPath, (data.originalName || data.filename)!)
-            console.log('🖼️ Generated thumbnail:', thumbnailPath)
-          }
-        } catch (processingError) {
-          console.warn('⚠️ Video processing failed, creating video without metadata:', processingError)
-          // Continue without metadata rather than failing completely
-        }
-      }
-
-      // Create video with extracted metadata
       const video = await prisma.video.create({
         data: {
           title: data.title,
@@ -333,20 +309,35 @@ export class VideoService {
           filePath: data.filePath,
           fileName: data.originalName || data.filename,
           mimeType: data.mimeType,
-          duration: duration,
-          size: size,
-          thumbnailPath: thumbnailPath,
-          uploadedAt: new Date(),
-          processedAt: duration ? new Date() : null, // Mark as processed if we got metadata
-          processingStatus: duration ? 'COMPLETED' : 'FAILED',
-          status: 'READY'
+          ...(data.upload
+            ? {
+                status: 'UPLOADING',
+                metadata: { upload: data.upload }
+              }
+            : {
+                uploadedAt: new Date(),
+                // Metadata, thumbnail and HLS ladder are produced by background jobs
+                processingStatus: data.filePath ? 'QUEUED' : 'FAILED',
+                status: data.filePath ? 'PROCESSING' : 'READY'
+              })
         }
       })
 
-      console.log('✅ Video created successfully with metadata:', {
+      if (video.filePath && video.status === 'PROCESSING') {
+        await enqueueVideoProcessing(video.id)
+      }
+
+      // Resumable uploads are recorded as UPLOAD once their last chunk arrives
+      await auditRecorder.record({
+        userId: user.id,
+        action: video.filePath && !data.upload ? 'UPLOAD' : 'CREATE',
+        resource: 'video',
+        resourceId: video.id,
+        after: video
+      })
+
+      console.log('✅ Video created successfully:', {
         id: video.id,
-        duration: video.duration,
-        size: video.size,
         processingStatus: video.processingStatus
       })
 
@@ -371,7 +362,7 @@ export class VideoService {
   }
 
   /**
-   * Process existing video to extract missing metadata
+   * Extract duration, size and stream details from a video's source file
    */
   static async processVideoMetadata(videoId: string) {
     try {
@@ -389,19 +380,12 @@ export class VideoService {
 
       console.log('📹 Processing existing video metadata for:', video.id)
 
-      // Get full file path using the helper function
-      const fullVideoPath = getVideoFilePath(video.filePath)
-      console.log('📂 Full video path:', fullVideoPath)
+      const videoKey = storageKeys.video(video.filePath)
 
       // Extract video metadata
-      const metadata = await VideoProcessingService.getVideoMetadata(fullVideoPath)
-      const size = await VideoProcessingService.getFileSize(fullVideoPath)
-      
-      // Generate thumbnail if missing
-      let thumbnailPath = video.thumbnailPath
-      if (!thumbnailPath && video.fileName) {
-        thumbnailPath = await VideoProcessingService.generateThumbnail(fullVideoPath, video.fileName)
-      }
+      const metadata = await fileStorage.withLocalFile(videoKey, filePath => VideoProcessingService.getVideoMetadata(filePath))
+      const size = (await fileStorage.stat(videoKey))?.size ?? 0
+      const existingMetadata = (video.metadata ?? {}) as Prisma.JsonObject
 
       // Update video with extracted metadata
       const updatedVideo = await prisma.video.update({
@@ -409,10 +393,9 @@ export class VideoService {
         data: {
           duration: metadata.duration,
           size: size,
-          thumbnailPath: thumbnailPath,
           processedAt: new Date(),
-          processingStatus: metadata.duration ? 'COMPLETED' : 'FAILED',
           metadata: {
+            ...existingMetadata,
             width: metadata.width,
             height: metadata.height,
             bitrate: metadata.bitrate,
@@ -425,28 +408,68 @@ export class VideoService {
       console.log('✅ Video metadata processed successfully:', {
         id: updatedVideo.id,
         duration: updatedVideo.duration,
-        size: updatedVideo.size,
-        processingStatus: updatedVideo.processingStatus
+        size: updatedVideo.size
       })
 
       return updatedVideo
 
     } catch (error: any) {
       console.error('Error processing video metadata:', error)
-      
-      // Update processing status to failed
-      await prisma.video.update({
-        where: { id: videoId },
-        data: {
-          processingStatus: 'FAILED',
-          processedAt: new Date()
-        }
-      }).catch(() => {}) // Ignore update errors
-      
       throw error
     }
   }
 
+  /**
+   * Generate a poster frame for a video from its source file
+   */
+  static async generateVideoThumbnail(videoId: string) {
+    const video = await prisma.video.findUnique({
+      where: { id: videoId }
+    })
+
+    if (!video) {
+      throw new Error('Video not found')
+    }
+
+    if (!video.filePath) {
+      throw new Error('Video file path not found')
+    }
+
+    // Named after the stored file, which is unique, rather than the upload's original name
+    const thumbnailPath = `${path.parse(video.filePath).name}.jpg`
+    const stagingPath = await createStagingPath(thumbnailPath)
+
+    const generated = await fileStorage.withLocalFile(
+      storageKeys.video(video.filePath),
+      sourcePath => VideoProcessingService.generateThumbnail(sourcePath, stagingPath)
+    )
+
+    if (!generated) {
+      throw new Error('Thumbnail generation failed')
+    }
+
+    await fileStorage.moveFile(storageKeys.thumbnail(thumbnailPath), stagingPath, { contentType: 'image/jpeg' })
+
+    return prisma.video.update({
+      where: { id: videoId },
+      data: { thumbnailPath }
+    })
+  }
+
+  /**
+   * Queue metadata extraction and thumbnailing again (lesson creator or admin only)
+   */
+  static async reprocessVideo(videoId: string, user: User) {
+    await this.getManagedVideoWithSource(videoId, user)
+
+    const jobs = await enqueueVideoMetadata(videoId)
+
+    return {
+      id: videoId,
+      jobs: jobs.map(job => ({ id: job.id, type: job.type }))
+    }
+  }
+
   static async getVideoById(videoId: string, userId: string) {
     try {
       const video = await prisma.video.findFirst({
@@ -480,6 +503,10 @@ export class VideoService {
               }
             }
           },
+          captions: {
+            select: { language: true, label: true },
+            orderBy: { language: 'asc' }
+          },
           videoGroup: {
             select: {
               id: true,
@@ -537,6 +564,7 @@ export class VideoService {
       if (data.mimeType !== undefined) updateData.mimeType = data.mimeType
       if (data.duration !== undefined) updateData.duration = data.duration
       if (data.thumbnailPath !== undefined) updateData.thumbnailPath = data.thumbnailPath
+      if (data.seekPolicy !== undefined) updateData.seekPolicy = data.seekPolicy
 
       const video = await prisma.video.update({
         where: { id: videoId },
@@ -570,6 +598,15 @@ export class VideoService {
         }
       })
 
+      await auditRecorder.record({
+        userId: user.id,
+        action: 'UPDATE',
+        resource: 'video',
+        resourceId: videoId,
+        before: { ...existingVideo, videoGroup: undefined },
+        after: video
+      })
+
       return video
     } catch (error: any) {
       console.error('Error in updateVideo:', error)
@@ -615,44 +652,181 @@ export class VideoService {
     }
 
     // Delete associated files before deleting from database
-    if (existingVideo.fileName) {
-      await deleteVideoFile(existingVideo.fileName)
-    }
-    
-    if (existingVideo.thumbnailPath) {
-      await deleteThumbnailFile(existingVideo.thumbnailPath)
-    }
+    await this.deleteStoredFiles(existingVideo)
 
     await prisma.video.delete({
       where: { id: videoId }
     })
 
+    await auditRecorder.record({
+      userId: user.id,
+      action: 'DELETE',
+      resource: 'video',
+      resourceId: videoId,
+      before: { ...existingVideo, videoGroup: undefined }
+    })
+
     return true
   }
 
   /**
-   * Get video file serving path for streaming
+   * Get the storage key of a video's source file for streaming
    */
-  static async getVideoStreamPath(videoId: string, userId: string): Promise<string | null> {
+  static async getVideoStreamKey(videoId: string, userId: string): Promise<string | null> {
     const video = await this.getVideoById(videoId, userId)
     
-    if (!video || !video.filePath) {
+    // Partially uploaded files are not playable
+    if (!video || !video.filePath || video.status === 'UPLOADING') {
+      return null
+    }
+
+    return storageKeys.video(video.filePath)
+  }
+
+  /**
+   * Get the storage key of an HLS playlist or segment for streaming. Only
+   * the master playlist and files inside a known rendition are served.
+   */
+  static async getHlsFileKey(
+    videoId: string,
+    userId: string,
+    rendition: string | null,
+    fileName: string
+  ): Promise<string | null> {
+    if (rendition === null && fileName !== MASTER_PLAYLIST) {
+      return null
+    }
+
+    if (rendition !== null) {
+      const knownRendition = RENDITION_LADDER.some(rung => rung.name === rendition)
+      if (!knownRendition || !/^(index\.m3u8|segment_\d+\.ts)$/.test(fileName)) {
+        return null
+      }
+    }
+
+    const video = await this.getVideoById(videoId, userId)
+    if (!video || !(video.metadata as any)?.hls) {
       return null
     }
 
-    return getVideoFilePath(video.filePath)
+    return rendition ? storageKeys.hls(videoId, rendition, fileName) : storageKeys.hls(videoId, fileName)
+  }
+
+  /**
+   * Re-run HLS transcoding for a video (lesson creator or admin only)
+   */
+  static async retranscodeVideo(videoId: string, user: User) {
+    await this.getManagedVideoWithSource(videoId, user)
+
+    await prisma.video.update({
+      where: { id: videoId },
+      data: { processingStatus: 'QUEUED' }
+    })
+
+    const job = await enqueueVideoTranscode(videoId)
+
+    return { id: videoId, processingStatus: 'QUEUED', jobId: job.id }
+  }
+
+  /**
+   * Load a video that the user may manage (lesson creator or admin)
+   */
+  static async getManagedVideo(videoId: string, user: User) {
+    const video = await prisma.video.findUnique({
+      where: { id: videoId },
+      include: {
+        videoGroup: {
+          include: {
+            lesson: true
+          }
+        }
+      }
+    })
+
+    if (!video) {
+      throw new Error('Video not found')
+    }
+
+    if (video.videoGroup.lesson.createdById !== user.id && user.role !== 'ADMIN') {
+      throw new Error('Access denied')
+    }
+
+    return video
   }
 
   /**
-   * Get thumbnail serving path
+   * Load a video with a source file that the user may manage (lesson creator or admin)
    */
-  static async getThumbnailStreamPath(videoId: string, userId: string): Promise<string | null> {
+  static async getManagedVideoWithSource(videoId: string, user: User) {
+    const video = await this.getManagedVideo(videoId, user)
+
+    if (!video.filePath) {
+      throw new Error('Video file path not found')
+    }
+
+    return video
+  }
+
+  /**
+   * Get the storage key of a video's thumbnail
+   */
+  static async getThumbnailStreamKey(videoId: string, userId: string): Promise<string | null> {
     const video = await this.getVideoById(videoId, userId)
     
     if (!video || !video.thumbnailPath) {
       return null
     }
 
-    return getThumbnailFilePath(video.thumbnailPath)
+    return storageKeys.thumbnail(video.thumbnailPath)
+  }
+
+  /**
+   * Issue a signed playback token for a video the user can watch. The token
+   * authorises the stream, HLS and thumbnail routes of that video only and
+   * is bound to the client address when PLAYBACK_TOKEN_BIND_IP is set.
+   */
+  static async issuePlaybackToken(videoId: string, userId: string, ip?: string) {
+    const video = await this.getVideoById(videoId, userId)
+
+    // Partially uploaded files are not playable
+    if (!video || !video.filePath || video.status === 'UPLOADING') {
+      return null
+    }
+
+    const expiresAt = Date.now() + config.playback.tokenTtlMs
+    const token = signPlaybackToken({
+      videoId,
+      userId,
+      expiresAt,
+      ...(config.playback.bindIp && ip ? { ip } : {})
+    }, config.playback.tokenSecret)
+
+    return {
+      token,
+      expiresAt: new Date(expiresAt),
+      hasHls: !!(video.metadata as any)?.hls,
+      hasThumbnail: !!video.thumbnailPath
+    }
+  }
+
+  /**
+   * Remove a video's source file, thumbnail, HLS renditions and captions
+   * from storage. Failures are logged; a leftover file must not block
+   * deleting the video.
+   */
+  private static async deleteStoredFiles(video: { id: string, filePath: string | null, thumbnailPath: string | null }) {
+    const deletions = [
+      video.filePath ? fileStorage.delete(storageKeys.video(video.filePath)) : null,
+      video.thumbnailPath ? fileStorage.delete(storageKeys.thumbnail(video.thumbnailPath)) : null,
+      fileStorage.deletePrefix(storageKeys.hls(video.id)),
+      fileStorage.deletePrefix(storageKeys.captionPrefix(video.id))
+    ]
+
+    const results = await Promise.allSettled(deletions)
+    for (const result of results) {
+      if (result.status === 'rejected') {
+        console.error('Error deleting stored video file:', result.reason)
+      }
+    }
   }
 }
\ No newline at end of file
@@ -1,7 +1,25 @@
-import { PrismaClient } from '@prisma/client'
+import { Prisma, PrismaClient, SeekPolicy } from '@prisma/client'
+import { gradeAnswer, SubmittedAnswer } from './grading/questionGraders'
+import { checkProgress, pendingRequiredMilestones, RequiredMilestone } from './playback/playbackPolicy'
+import { buildAttemptTimeline } from './playback/attemptTimeline'
+import { AppError } from '../types'
+import { GradebookService } from './GradebookService'
 
 const prisma = new PrismaClient()
 
+// Allowance for request latency when enforcing per-question time limits
+const TIME_LIMIT_GRACE_SECONDS = 2
+
+// How often an answer is recorded again after losing its attempt number to a concurrent one
+const ATTEMPT_RACE_RETRIES = 3
+
+// Another request completed the attempt first
+class AttemptRace extends Error {}
+
+const isAttemptRace = (error: unknown) =>
+  error instanceof AttemptRace ||
+  (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002')
+
 interface UpdateProgressData {
   currentPosition: number
   totalWatchTime?: number
@@ -9,7 +27,7 @@ interface UpdateProgressData {
 
 interface SubmitAnswerData {
   questionId: string
-  answer: string
+  answer: SubmittedAnswer
   milestoneId: string
 }
 
@@ -54,11 +72,12 @@ export class VideoSessionService {
       throw new Error('Video not found')
     }
 
-    // Get user's session for this video
+    // Get user's current attempt at this video
     const session = await prisma.studentSession.findFirst({
       where: {
         videoId,
-        studentId
+        studentId,
+        viewing: { isNot: null }
       },
       include: {
         video: {
@@ -94,19 +113,67 @@ export class VideoSessionService {
   }
 
   static async getSessionByVideo(videoId: string, studentId: string) {
-    // First try to find any existing session for this video and student
+    const include = {
+      video: {
+        include: {
+          videoGroup: {
+            select: {
+              id: true,
+              title: true
+            }
+          }
+        }
+      }
+    }
+
+    // Resume the student's current attempt at this video
     let session = await prisma.studentSession.findFirst({
       where: {
         videoId,
-        studentId
+        studentId,
+        viewing: { isNot: null }
+      },
+      include
+    })
+
+    // If the student has never watched it, start their first attempt
+    if (!session) {
+      const created = await this.createAttempt(videoId, studentId)
+      session = await prisma.studentSession.findUniqueOrThrow({
+        where: { id: created.id },
+        include
+      })
+    } else if (session.status === 'ABANDONED') {
+      // Attempts left idle are picked up where they stopped
+      session = await prisma.studentSession.update({
+        where: { id: session.id },
+        data: { status: 'ACTIVE', lastSeenAt: new Date() },
+        include
+      })
+    }
+
+    return session
+  }
+
+  /**
+   * Start a new viewing attempt of a video the student has completed, if
+   * the lesson allows retakes. Earlier attempts stay in the student's
+   * history; the new attempt starts with a fresh attempt limit per question
+   * and its own required milestones to pass.
+   */
+  static async startRetake(videoId: string, studentId: string) {
+    const current = await prisma.studentSession.findFirst({
+      where: {
+        videoId,
+        studentId,
+        viewing: { isNot: null }
       },
       include: {
         video: {
-          include: {
+          select: {
             videoGroup: {
               select: {
-                id: true,
-                title: true
+                lesson: { select: { allowRetakes: true } }
               }
             }
           }
@@ -114,44 +181,84 @@ export class VideoSessionService {
       }
     })
 
-    // If no session exists, create a new one
-    if (!session) {
-      session = await prisma.studentSession.create({
-        data: {
-          videoId,
-          studentId,
-          status: 'ACTIVE',
-          lastSeenAt: new Date(),
-          currentPosition: 0
-        },
-        include: {
-          video: {
-            include: {
-              videoGroup: {
-                select: {
-                  id: true,
-                  title: true
-                }
-              }
+    if (!current) {
+      throw new Error('Session not found')
+    }
+
+    if (!current.video.videoGroup.lesson.allowRetakes) {
+      throw new AppError('Retakes are not allowed for this lesson', 403, true, 'RETAKES_NOT_ALLOWED')
+    }
+
+    if (current.status !== 'COMPLETED') {
+      throw new AppError('The current attempt must be completed first', 409, true, 'ATTEMPT_IN_PROGRESS', {
+        attemptNumber: current.attemptNumber
+      })
+    }
+
+    return this.createAttempt(videoId, studentId)
+  }
+
+  /**
+   * The student's viewing attempts of a video, oldest first, and whether
+   * they may start another one
+   */
+  static async getAttempts(videoId: string, studentId: string) {
+    const [video, sessions] = await Promise.all([
+      prisma.video.findUnique({
+        where: { id: videoId },
+        select: {
+          duration: true,
+          videoGroup: {
+            select: {
+              lesson: { select: { allowRetakes: true } }
             }
           }
         }
+      }),
+      prisma.studentSession.findMany({
+        where: { videoId, studentId },
+        include: {
+          viewing: { select: { currentSessionId: true } },
+          questionAttempts: {
+            where: { status: { not: 'IN_PROGRESS' } },
+            select: { isCorrect: true }
+          }
+        }
       })
+    ])
+
+    if (!video) {
+      throw new Error('Video not found')
     }
 
-    return session
+    return {
+      allowRetakes: video.videoGroup.lesson.allowRetakes,
+      attempts: buildAttemptTimeline(
+        sessions.map(session => ({
+          ...session,
+          isCurrent: session.viewing !== null,
+          answers: session.questionAttempts
+        })),
+        video.duration
+      )
+    }
   }
 
   static async updateProgress(
     sessionId: string,
     progressData: UpdateProgressData,
-    studentId: string
+    studentId: string,
+    operationAgeMs = 0
   ) {
     // Verify session exists and belongs to student
     const session = await prisma.studentSession.findFirst({
       where: {
         id: sessionId,
         studentId
+      },
+      include: {
+        video: { select: { seekPolicy: true } },
+        viewing: { select: { currentSessionId: true } }
       }
     })
 
@@ -159,12 +266,18 @@ export class VideoSessionService {
       throw new Error('Session not found')
     }
 
+    this.assertCurrentAttempt(session)
+
+    const writtenAt = this.writeTime(session.lastSeenAt, operationAgeMs)
+    const furthestPosition = await this.enforcePlaybackPolicy(session, progressData.currentPosition, writtenAt)
+
     // Update session progress
     const updatedSession = await prisma.studentSession.update({
       where: { id: sessionId },
       data: {
         currentPosition: progressData.currentPosition,
-        lastSeenAt: new Date()
+        furthestPosition,
+        lastSeenAt: writtenAt
       },
       include: {
         video: true,
@@ -178,13 +291,18 @@ export class VideoSessionService {
   static async completeSession(
     sessionId: string,
     completionData: CompleteSessionData,
-    studentId: string
+    studentId: string,
+    operationAgeMs = 0
   ) {
     // Verify session exists and belongs to student
     const session = await prisma.studentSession.findFirst({
       where: {
         id: sessionId,
         studentId
+      },
+      include: {
+        video: { select: { seekPolicy: true } },
+        viewing: { select: { currentSessionId: true } }
       }
     })
 
@@ -192,14 +310,28 @@ export class VideoSessionService {
       throw new Error('Session not found')
     }
 
+    this.assertCurrentAttempt(session)
+
+    const pending = await this.getPendingRequiredMilestones(session)
+    if (pending.length > 0) {
+      throw new AppError('All required milestones must be passed first', 409, true, 'REQUIRED_MILESTONES_PENDING', {
+        milestoneIds: pending.map(milestone => milestone.id)
+      })
+    }
+
+    const writtenAt = this.writeTime(session.lastSeenAt, operationAgeMs)
+    const furthestPosition = await this.enforcePlaybackPolicy(session, completionData.finalTime, writtenAt)
+
     // Update session as completed
     const updatedSession = await prisma.studentSession.update({
       where: { id: sessionId },
       data: {
         status: 'COMPLETED',
         currentPosition: completionData.finalTime,
-        completedAt: new Date(),
-        lastSeenAt: new Date()
+        furthestPosition,
+        totalWatchTime: completionData.totalWatchTime,
+        completedAt: writtenAt,
+        lastSeenAt: writtenAt
       },
       include: {
         video: true,
@@ -221,6 +353,8 @@ export class VideoSessionService {
     })
 
     if (video?.videoGroup?.lesson) {
+      const lessonProgress = await this.getLessonAttemptTotals(studentId, video.videoGroup.lesson.id)
+
       // Update or create student progress for the lesson
       await prisma.studentProgress.upsert({
         where: {
@@ -230,22 +364,18 @@ export class VideoSessionService {
           }
         },
         update: {
-          completedMilestones: {
-            increment: updatedSession.milestoneProgress.length
-          },
-          totalTimeSpent: {
-            increment: completionData.totalWatchTime
-          },
+          ...lessonProgress,
           updatedAt: new Date()
         },
         create: {
           studentId,
           lessonId: video.videoGroup.lesson.id,
-          completedMilestones: updatedSession.milestoneProgress.length,
-          totalTimeSpent: completionData.totalWatchTime,
+          ...lessonProgress,
           startedAt: new Date()
         }
       })
+
+      await GradebookService.recalculateLessonGrade(studentId, video.videoGroup.lesson.id)
     }
 
     return updatedSession
@@ -255,13 +385,18 @@ export class VideoSessionService {
     sessionId: string,
     milestoneId: string,
     timestamp: number,
-    studentId: string
+    studentId: string,
+    operationAgeMs = 0
   ) {
     // Verify session exists and belongs to student
     const session = await prisma.studentSession.findFirst({
       where: {
         id: sessionId,
         studentId
+      },
+      include: {
+        video: { select: { seekPolicy: true } },
+        viewing: { select: { currentSessionId: true } }
       }
     })
 
@@ -269,6 +404,8 @@ export class VideoSessionService {
       throw new Error('Session not found')
     }
 
+    this.assertCurrentAttempt(session)
+
     // Verify milestone exists for this video
     const milestone = await prisma.milestone.findFirst({
       where: {
@@ -293,12 +430,16 @@ export class VideoSessionService {
       return existing
     }
 
+    // Reaching a milestone moves the session to it, so it is held to the same rules as progress
+    const writtenAt = this.writeTime(session.lastSeenAt, operationAgeMs)
+    const furthestPosition = await this.enforcePlaybackPolicy(session, milestone.timestamp, writtenAt)
+
     // Create milestone progress record
     const milestoneProgress = await prisma.milestoneProgress.create({
       data: {
         sessionId,
         milestoneId,
-        reachedAt: new Date()
+        reachedAt: writtenAt
       },
       include: {
         milestone: true
@@ -314,7 +455,8 @@ export class VideoSessionService {
           push: milestoneId
         },
         currentPosition: timestamp,
-        lastSeenAt: new Date()
+        furthestPosition,
+        lastSeenAt: writtenAt
       }
     })
 
@@ -324,13 +466,17 @@ export class VideoSessionService {
   static async submitAnswer(
     sessionId: string,
     answerData: SubmitAnswerData,
-    studentId: string
+    studentId: string,
+    operationAgeMs = 0
   ) {
     // Verify session exists and belongs to student
     const session = await prisma.studentSession.findFirst({
       where: {
         id: sessionId,
         studentId
+      },
+      include: {
+        viewing: { select: { currentSessionId: true } }
       }
     })
 
@@ -338,11 +484,18 @@ export class VideoSessionService {
       throw new Error('Session not found')
     }
 
+    this.assertCurrentAttempt(session)
+
     // Verify question exists
     const question = await prisma.question.findFirst({
       where: {
         id: answerData.questionId,
         milestoneId: answerData.milestoneId
+      },
+      include: {
+        milestone: {
+          select: { retryLimit: true }
+        }
       }
     })
 
@@ -350,78 +503,483 @@ export class VideoSessionService {
       throw new Error('Question not found')
     }
 
-    // Check answer correctness based on question type
-    let isCorrect = false
-    let score = 0
-    let explanation = ''
-
-    const questionData = question.questionData as any
-
-    switch (question.type) {
-      case 'MULTIPLE_CHOICE':
-        isCorrect = questionData.correctAnswer === answerData.answer
-        score = isCorrect ? 100 : 0
-        explanation = questionData.explanation || ''
-        break
-        
-      case 'TRUE_FALSE':
-        isCorrect = questionData.correctAnswer === answerData.answer
-        score = isCorrect ? 100 : 0
-        explanation = questionData.explanation || ''
-        break
-        
-      case 'SHORT_ANSWER':
-        // For short answer, check if answer contains key terms
-        const keyTerms = questionData.keyTerms || []
-        const answerLower = answerData.answer.toLowerCase()
-        const matchedTerms = keyTerms.filter((term: string) => 
-          answerLower.includes(term.toLowerCase())
-        )
-        score = keyTerms.length > 0 
-          ? Math.round((matchedTerms.length / keyTerms.length) * 100)
-          : 50 // Default partial credit for short answers
-        isCorrect = score >= 70
-        explanation = questionData.explanation || ''
-        break
-        
-      case 'FILL_IN_BLANK':
-        const acceptableAnswers = questionData.acceptableAnswers || []
-        isCorrect = acceptableAnswers.some((acceptable: string) => 
-          acceptable.toLowerCase() === answerData.answer.toLowerCase()
-        )
-        score = isCorrect ? 100 : 0
-        explanation = questionData.explanation || ''
-        break
-    }
-
-    // Create question attempt record
-    const attempt = await prisma.questionAttempt.create({
-      data: {
+    // Concurrent submissions, e.g. a double click or a replayed offline queue,
+    // race for the same attempt number; the loser re-checks the attempt limit
+    return this.retryOnAttemptRace(async () => {
+      // The attempt limit applies to each viewing attempt of the video
+      const previousAttempts = await prisma.questionAttempt.findMany({
+        where: {
+          sessionId,
+          questionId: answerData.questionId,
+          status: { not: 'IN_PROGRESS' }
+        },
+        orderBy: { attemptNumber: 'desc' },
+        select: { attemptNumber: true, submittedAt: true }
+      })
+
+      const retryLimit = question.milestone.retryLimit
+      if (previousAttempts.length >= retryLimit) {
+        throw this.attemptLimitError(retryLimit, previousAttempts.length)
+      }
+
+      // Hints revealed for this attempt live on its in-progress record
+      const inProgressAttempt = await prisma.questionAttempt.findFirst({
+        where: {
+          sessionId,
+          studentId,
+          questionId: answerData.questionId,
+          status: 'IN_PROGRESS'
+        }
+      })
+      const hintsUsed = inProgressAttempt?.hintsUsed ?? []
+
+      const attemptNumber = inProgressAttempt?.attemptNumber ??
+        await this.nextAttemptNumber(studentId, answerData.questionId)
+      const attemptsUsed = previousAttempts.length + 1
+      const startedAt = await this.getAttemptStartTime(
         sessionId,
-        studentId,
-        questionId: answerData.questionId,
-        studentAnswer: answerData.answer, // This is the correct field name for the answer
-        status: isCorrect ? 'CORRECT' : 'INCORRECT',
+        answerData.milestoneId,
+        previousAttempts[0]?.submittedAt ?? null
+      )
+      // An answer replayed from the offline queue is timed from when the student gave it
+      const submittedAt = this.writeTime(startedAt ?? session.lastSeenAt, operationAgeMs)
+      const timeSpent = startedAt
+        ? Math.max(0, Math.round((submittedAt.getTime() - startedAt.getTime()) / 1000))
+        : 0
+      const timedOut = question.timeLimit !== null &&
+        startedAt !== null &&
+        timeSpent > question.timeLimit + TIME_LIMIT_GRACE_SECONDS
+
+      // Grade with the grader registered for this question type; late answers earn nothing
+      const graded = gradeAnswer(question, answerData.answer)
+      const isCorrect = timedOut ? false : graded.isCorrect
+      const hintDeduction = hintsUsed.length * question.hintPenalty * 100
+      const score = timedOut ? 0 : Math.max(0, graded.score - hintDeduction)
+      const explanation = graded.explanation
+
+      let status: 'CORRECT' | 'PARTIAL' | 'INCORRECT' | 'TIMEOUT'
+      if (timedOut) {
+        status = 'TIMEOUT'
+      } else {
+        status = isCorrect ? 'CORRECT' : score > 0 ? 'PARTIAL' : 'INCORRECT'
+      }
+
+      const result = {
+        studentAnswer: answerData.answer as Prisma.InputJsonValue,
+        status,
         isCorrect,
         score,
-        attemptNumber: 1, // TODO: Track multiple attempts
-        timeSpent: 0,
-        hintsUsed: [],
-        feedback: explanation
+        attemptNumber,
+        timeSpent,
+        feedback: timedOut ? 'Time limit exceeded' : explanation,
+        submittedAt
+      }
+
+      // Complete the in-progress attempt if hints were requested, otherwise record a new one
+      const attempt = inProgressAttempt
+        ? await this.completeInProgressAttempt(inProgressAttempt.id, result)
+        : await prisma.questionAttempt.create({
+          data: {
+            ...result,
+            sessionId,
+            studentId,
+            questionId: answerData.questionId,
+            hintsUsed: []
+          },
+          include: {
+            question: true
+          }
+        })
+
+      await GradebookService.recalculateForVideo(studentId, session.videoId)
+
+      return {
+        answer: attempt,
+        isCorrect,
+        score,
+        explanation,
+        status,
+        attemptNumber,
+        retryLimit,
+        remainingAttempts: Math.max(0, retryLimit - attemptsUsed),
+        hintsUsed: hintsUsed.length
+      }
+    })
+  }
+
+  static async revealHint(
+    sessionId: string,
+    questionId: string,
+    studentId: string
+  ) {
+    // Verify session exists and belongs to student
+    const session = await prisma.studentSession.findFirst({
+      where: {
+        id: sessionId,
+        studentId
       },
       include: {
-        question: true
+        viewing: { select: { currentSessionId: true } }
+      }
+    })
+
+    if (!session) {
+      throw new Error('Session not found')
+    }
+
+    this.assertCurrentAttempt(session)
+
+    // Verify question belongs to the session's video
+    const question = await prisma.question.findFirst({
+      where: {
+        id: questionId,
+        milestone: {
+          videoId: session.videoId
+        }
+      },
+      include: {
+        milestone: {
+          select: { retryLimit: true }
+        }
+      }
+    })
+
+    if (!question) {
+      throw new Error('Question not found')
+    }
+
+    if (question.hints.length === 0) {
+      throw new AppError('This question has no hints', 404, true, 'NO_HINTS')
+    }
+
+    // Opening the attempt races with submissions for its number, like submitAnswer
+    const attempt = await this.retryOnAttemptRace(async () => {
+      const attemptsUsed = await prisma.questionAttempt.count({
+        where: {
+          sessionId,
+          questionId,
+          status: { not: 'IN_PROGRESS' }
+        }
+      })
+
+      const retryLimit = question.milestone.retryLimit
+      if (attemptsUsed >= retryLimit) {
+        throw this.attemptLimitError(retryLimit, attemptsUsed)
+      }
+
+      return await prisma.questionAttempt.findFirst({
+        where: {
+          sessionId,
+          studentId,
+          questionId,
+          status: 'IN_PROGRESS'
+        }
+      }) ?? await prisma.questionAttempt.create({
+        data: {
+          sessionId,
+          studentId,
+          questionId,
+          status: 'IN_PROGRESS',
+          attemptNumber: await this.nextAttemptNumber(studentId, questionId),
+          studentAnswer: {},
+          hintsUsed: []
+        }
+      })
+    })
+
+    if (attempt.hintsUsed.length >= question.hints.length) {
+      throw new AppError('All hints have already been revealed', 409, true, 'NO_HINTS_REMAINING', {
+        totalHints: question.hints.length
+      })
+    }
+
+    // Hints are revealed in the order the teacher wrote them. Only the hints
+    // read above are matched, so a request racing this one (a double click)
+    // gets the hint it revealed instead of being charged for the next one.
+    const { count } = await prisma.questionAttempt.updateMany({
+      where: {
+        id: attempt.id,
+        hintsUsed: { equals: attempt.hintsUsed }
+      },
+      data: {
+        hintsUsed: { push: question.hints[attempt.hintsUsed.length] }
       }
     })
 
+    const { hintsUsed } = count > 0
+      ? { hintsUsed: [...attempt.hintsUsed, question.hints[attempt.hintsUsed.length]] }
+      : await prisma.questionAttempt.findUniqueOrThrow({
+        where: { id: attempt.id },
+        select: { hintsUsed: true }
+      })
+
     return {
-      answer: attempt,
-      isCorrect,
-      score,
-      explanation
+      hint: hintsUsed[hintsUsed.length - 1],
+      hintNumber: hintsUsed.length,
+      totalHints: question.hints.length,
+      hintsRemaining: question.hints.length - hintsUsed.length,
+      hintPenalty: question.hintPenalty,
+      scoreDeduction: hintsUsed.length * question.hintPenalty * 100
+    }
+  }
+
+  /**
+   * When a write was made. Writes replayed from the client's offline queue
+   * say how long ago that was. The time is kept between `notBefore` (the
+   * session's last write, or when an answered question was shown) and now,
+   * so a replay cannot claim more watching time than has actually passed.
+   */
+  private static writeTime(notBefore: Date, operationAgeMs: number): Date {
+    const now = Date.now()
+    return new Date(Math.max(notBefore.getTime(), now - Math.max(0, operationAgeMs)))
+  }
+
+  /**
+   * Check a move of the session to `target` against the video's seek policy
+   * and its required milestones. Returns the new furthest watched position.
+   */
+  private static async enforcePlaybackPolicy(
+    session: {
+      id: string
+      videoId: string
+      studentId: string
+      currentPosition: number
+      furthestPosition: number
+      lastSeenAt: Date
+      video: { seekPolicy: SeekPolicy }
+    },
+    target: number,
+    writtenAt: Date
+  ) {
+    const [pendingMilestone] = await this.getPendingRequiredMilestones(session)
+
+    const decision = checkProgress({
+      seekPolicy: session.video.seekPolicy,
+      currentPosition: session.currentPosition,
+      furthestPosition: session.furthestPosition,
+      elapsedSeconds: (writtenAt.getTime() - session.lastSeenAt.getTime()) / 1000,
+      target,
+      pendingMilestone: pendingMilestone ?? null
+    })
+
+    if (!decision.ok) {
+      const message = decision.code === 'REQUIRED_MILESTONE_PENDING'
+        ? 'A required milestone must be passed first'
+        : 'Seeking ahead is not allowed for this video'
+      throw new AppError(message, 409, true, decision.code, {
+        maxPosition: decision.maxPosition,
+        milestoneId: decision.milestoneId
+      })
+    }
+
+    return decision.furthestPosition
+  }
+
+  /**
+   * Milestones reached and time watched across the lesson's videos, counting
+   * only the current viewing attempt of each so retakes are not added twice
+   */
+  private static async getLessonAttemptTotals(studentId: string, lessonId: string) {
+    const viewings = await prisma.videoViewing.findMany({
+      where: {
+        studentId,
+        video: { videoGroup: { lessonId } }
+      },
+      select: {
+        currentSession: {
+          select: {
+            totalWatchTime: true,
+            _count: { select: { milestoneProgress: true } }
+          }
+        }
+      }
+    })
+
+    return {
+      completedMilestones: viewings.reduce((sum, viewing) => sum + viewing.currentSession._count.milestoneProgress, 0),
+      totalTimeSpent: viewings.reduce((sum, viewing) => sum + viewing.currentSession.totalWatchTime, 0)
+    }
+  }
+
+  /**
+   * Required milestones of the session's video not yet passed in this
+   * viewing attempt, earliest first
+   */
+  private static async getPendingRequiredMilestones(
+    session: { id: string, videoId: string }
+  ): Promise<RequiredMilestone[]> {
+    const milestones = await prisma.milestone.findMany({
+      where: { videoId: session.videoId, isRequired: true },
+      select: {
+        id: true,
+        timestamp: true,
+        questions: {
+          where: { status: { not: 'ARCHIVED' } },
+          select: { id: true }
+        }
+      }
+    })
+
+    if (milestones.length === 0) {
+      return []
+    }
+
+    const questionIds = milestones.flatMap(milestone => milestone.questions.map(question => question.id))
+    const [reached, answered] = await Promise.all([
+      prisma.milestoneProgress.findMany({
+        where: { sessionId: session.id },
+        select: { milestoneId: true }
+      }),
+      prisma.questionAttempt.findMany({
+        where: {
+          sessionId: session.id,
+          questionId: { in: questionIds },
+          status: { not: 'IN_PROGRESS' }
+        },
+        select: { questionId: true },
+        distinct: ['questionId']
+      })
+    ])
+
+    return pendingRequiredMilestones(
+      milestones.map(milestone => ({
+        id: milestone.id,
+        timestamp: milestone.timestamp,
+        questionIds: milestone.questions.map(question => question.id)
+      })),
+      new Set(reached.map(progress => progress.milestoneId)),
+      new Set(answered.map(attempt => attempt.questionId))
+    )
+  }
+
+  /**
+   * Create the student's next attempt at a video and make it the current one
+   */
+  private static async createAttempt(videoId: string, studentId: string) {
+    return prisma.$transaction(async tx => {
+      const latest = await tx.studentSession.findFirst({
+        where: { videoId, studentId },
+        orderBy: { attemptNumber: 'desc' },
+        select: { attemptNumber: true }
+      })
+
+      const session = await tx.studentSession.create({
+        data: {
+          videoId,
+          studentId,
+          attemptNumber: (latest?.attemptNumber ?? 0) + 1,
+          status: 'ACTIVE',
+          lastSeenAt: new Date(),
+          currentPosition: 0
+        }
+      })
+
+      await tx.videoViewing.upsert({
+        where: {
+          studentId_videoId: { studentId, videoId }
+        },
+        update: { currentSessionId: session.id },
+        create: {
+          studentId,
+          videoId,
+          currentSessionId: session.id
+        }
+      })
+
+      return session
+    })
+  }
+
+  private static async retryOnAttemptRace<T>(write: () => Promise<T>): Promise<T> {
+    for (let tries = 1; ; tries++) {
+      try {
+        return await write()
+      } catch (error) {
+        if (tries >= ATTEMPT_RACE_RETRIES || !isAttemptRace(error)) {
+          throw error
+        }
+      }
+    }
+  }
+
+  // Only the request that still finds the attempt in progress completes it
+  private static async completeInProgressAttempt(id: string, data: Prisma.QuestionAttemptUpdateManyMutationInput) {
+    const { count } = await prisma.questionAttempt.updateMany({
+      where: { id, status: 'IN_PROGRESS' },
+      data
+    })
+
+    if (count === 0) {
+      throw new AttemptRace()
+    }
+
+    return prisma.questionAttempt.findUniqueOrThrow({
+      where: { id },
+      include: {
+        question: true
+      }
+    })
+  }
+
+  /**
+   * Only the student's current attempt at a video, while not completed,
+   * takes progress and answers; earlier attempts are kept as history
+   */
+  private static assertCurrentAttempt(session: {
+    status: string
+    attemptNumber: number
+    viewing: { currentSessionId: string } | null
+  }) {
+    if (!session.viewing || session.status === 'COMPLETED') {
+      throw new AppError('This viewing attempt can no longer be changed', 409, true, 'ATTEMPT_CLOSED', {
+        attemptNumber: session.attemptNumber,
+        status: session.status
+      })
     }
   }
 
+  // Question attempts are numbered per student across all of their viewing attempts
+  private static async nextAttemptNumber(studentId: string, questionId: string) {
+    const { _max } = await prisma.questionAttempt.aggregate({
+      where: { studentId, questionId },
+      _max: { attemptNumber: true }
+    })
+    return (_max.attemptNumber ?? 0) + 1
+  }
+
+  private static attemptLimitError(retryLimit: number, attemptsUsed: number) {
+    return new AppError('Attempt limit reached', 409, true, 'ATTEMPT_LIMIT_REACHED', {
+      retryLimit,
+      attemptsUsed
+    })
+  }
+
+  /**
+   * An attempt's clock starts when the milestone was reached in this session,
+   * or when the previous attempt in this session was submitted, whichever is later.
+   */
+  private static async getAttemptStartTime(
+    sessionId: string,
+    milestoneId: string,
+    previousSubmittedAt: Date | null
+  ): Promise<Date | null> {
+    const progress = await prisma.milestoneProgress.findUnique({
+      where: {
+        sessionId_milestoneId: { sessionId, milestoneId }
+      },
+      select: { reachedAt: true }
+    })
+
+    const candidates = [progress?.reachedAt, previousSubmittedAt]
+      .filter((date): date is Date => date instanceof Date)
+
+    if (candidates.length === 0) {
+      return null
+    }
+
+    return new Date(Math.max(...candidates.map(date => date.getTime())))
+  }
+
   static async getUserSessions(options: GetUserSessionsOptions) {
     const { studentId, page, limit, status } = options
     const offset = (page - 1) * limit
@@ -0,0 +1,237 @@
+import path from 'path'
+import fs from 'fs/promises'
+import { spawn } from 'child_process'
+import { Prisma, PrismaClient } from '@prisma/client'
+import { VideoProcessingService } from './VideoProcessingService'
+import { fileStorage, STAGING_DIR } from './storage/fileStorage'
+import { storageKeys } from './storage/storageDriver'
+
+const prisma = new PrismaClient()
+
+export interface Rendition {
+  name: string
+  height: number
+  videoBitrate: number // kbps
+  audioBitrate: number // kbps
+}
+
+export interface HlsRenditionInfo {
+  name: string
+  width: number
+  height: number
+  bandwidth: number // bits per second, as advertised in the master playlist
+  playlist: string
+}
+
+// Adaptive bitrate ladder, lowest first
+export const RENDITION_LADDER: Rendition[] = [
+  { name: '240p', height: 240, videoBitrate: 400, audioBitrate: 64 },
+  { name: '480p', height: 480, videoBitrate: 1000, audioBitrate: 96 },
+  { name: '720p', height: 720, videoBitrate: 2500, audioBitrate: 128 }
+]
+
+export const MASTER_PLAYLIST = 'master.m3u8'
+const RENDITION_PLAYLIST = 'index.m3u8'
+const SEGMENT_SECONDS = 6
+
+export class VideoTranscodingService {
+  /**
+   * Transcode a video's source file into an HLS rendition ladder, store it
+   * under the video's hls/ prefix and point the video at the master playlist.
+   * Runs as a background job (see jobs/videoJobs), which retries on failure.
+   */
+  static async transcodeToHls(videoId: string) {
+    const video = await prisma.video.findUnique({
+      where: { id: videoId }
+    })
+
+    if (!video) {
+      throw new Error('Video not found')
+    }
+
+    if (!video.filePath) {
+      throw new Error('Video file path not found')
+    }
+
+    const sourceKey = storageKeys.video(video.filePath)
+
+    await prisma.video.update({
+      where: { id: videoId },
+      data: {
+        status: 'PROCESSING',
+        processingStatus: 'TRANSCODING'
+      }
+    })
+
+    // ffmpeg writes the ladder to local disk; it is moved into storage once complete
+    await fs.mkdir(STAGING_DIR, { recursive: true })
+    const outputDir = await fs.mkdtemp(path.join(STAGING_DIR, `hls-${videoId}-`))
+
+    try {
+      const outputs = await fileStorage.withLocalFile(sourceKey, async sourcePath => {
+        const source = await VideoProcessingService.getVideoMetadata(sourcePath)
+        const renditions: HlsRenditionInfo[] = []
+        for (const rendition of this.selectRenditions(source.height)) {
+          renditions.push(await this.transcodeRendition(sourcePath, outputDir, rendition, source))
+        }
+        return renditions
+      })
+
+      await fs.writeFile(path.join(outputDir, MASTER_PLAYLIST), this.buildMasterPlaylist(outputs))
+      await this.storeLadder(videoId, outputDir)
+
+      // Other jobs may have written metadata while ffmpeg was running
+      const existingMetadata = await this.getCurrentMetadata(videoId)
+
+      return await prisma.video.update({
+        where: { id: videoId },
+        data: {
+          status: 'READY',
+          processingStatus: 'COMPLETED',
+          processedAt: new Date(),
+          metadata: {
+            ...existingMetadata,
+            hls: {
+              masterPlaylist: MASTER_PLAYLIST,
+              renditions: outputs,
+              transcodedAt: new Date().toISOString()
+            }
+          } as unknown as Prisma.InputJsonValue
+        }
+      })
+    } catch (error: any) {
+      await fileStorage.deletePrefix(storageKeys.hls(videoId)).catch(() => {})
+      const existingMetadata = await this.getCurrentMetadata(videoId).catch(() => ({}))
+
+      // The original upload is still streamable, so keep the video playable
+      await prisma.video.update({
+        where: { id: videoId },
+        data: {
+          status: 'READY',
+          processingStatus: 'TRANSCODE_FAILED',
+          metadata: {
+            ...existingMetadata,
+            hls: null,
+            hlsError: error.message
+          } as unknown as Prisma.InputJsonValue
+        }
+      }).catch(() => {}) // Ignore update errors
+
+      throw error
+    } finally {
+      await fs.rm(outputDir, { recursive: true, force: true }).catch(() => {})
+    }
+  }
+
+  /**
+   * Never upscale: keep rungs at or below the source height, but always
+   * produce at least the lowest rung
+   */
+  static selectRenditions(sourceHeight: number | null): Rendition[] {
+    if (!sourceHeight) {
+      return RENDITION_LADDER
+    }
+
+    const fitting = RENDITION_LADDER.filter(rendition => rendition.height <= sourceHeight)
+    return fitting.length > 0 ? fitting : [RENDITION_LADDER[0]]
+  }
+
+  static buildMasterPlaylist(renditions: HlsRenditionInfo[]): string {
+    const lines = ['#EXTM3U', '#EXT-X-VERSION:3']
+    for (const rendition of renditions) {
+      lines.push(
+        `#EXT-X-STREAM-INF:BANDWIDTH=${rendition.bandwidth},RESOLUTION=${rendition.width}x${rendition.height},NAME="${rendition.name}"`,
+        rendition.playlist
+      )
+    }
+    return lines.join('\n') + '\n'
+  }
+
+  private static async transcodeRendition(
+    sourcePath: string,
+    outputDir: string,
+    rendition: Rendition,
+    source: { width: number | null, height: number | null }
+  ): Promise<HlsRenditionInfo> {
+    const renditionDir = path.join(outputDir, rendition.name)
+    await fs.mkdir(renditionDir, { recursive: true })
+
+    // Keep the source aspect ratio; libx264 needs even dimensions
+    const aspect = source.width && source.height ? source.width / source.height : 16 / 9
+    const width = Math.round(rendition.height * aspect / 2) * 2
+
+    await this.runFfmpeg([
+      '-y',
+      '-i', sourcePath,
+      '-vf', `scale=${width}:${rendition.height}`,
+      '-c:v', 'libx264',
+      '-preset', 'veryfast',
+      '-profile:v', 'main',
+      '-b:v', `${rendition.videoBitrate}k`,
+      '-maxrate', `${Math.round(rendition.videoBitrate * 1.07)}k`,
+      '-bufsize', `${rendition.videoBitrate * 2}k`,
+      // Fixed GOP so segment boundaries line up across renditions
+      '-g', '48',
+      '-keyint_min', '48',
+      '-sc_threshold', '0',
+      '-c:a', 'aac',
+      '-b:a', `${rendition.audioBitrate}k`,
+      '-ac', '2',
+      '-f', 'hls',
+      '-hls_time', String(SEGMENT_SECONDS),
+      '-hls_playlist_type', 'vod',
+      '-hls_segment_filename', path.join(renditionDir, 'segment_%04d.ts'),
+      path.join(renditionDir, RENDITION_PLAYLIST)
+    ])
+
+    return {
+      name: rendition.name,
+      width,
+      height: rendition.height,
+      bandwidth: Math.round((rendition.videoBitrate + rendition.audioBitrate) * 1000 * 1.1),
+      playlist: `${rendition.name}/${RENDITION_PLAYLIST}`
+    }
+  }
+
+  /**
+   * Replace the video's stored ladder with the files in outputDir
+   */
+  private static async storeLadder(videoId: string, outputDir: string) {
+    await fileStorage.deletePrefix(storageKeys.hls(videoId))
+
+    const entries = await fs.readdir(outputDir, { recursive: true, withFileTypes: true })
+    for (const entry of entries.filter(candidate => candidate.isFile())) {
+      const filePath = path.join(entry.parentPath, entry.name)
+      const parts = path.relative(outputDir, filePath).split(path.sep)
+      await fileStorage.moveFile(storageKeys.hls(videoId, ...parts), filePath)
+    }
+  }
+
+  private static async getCurrentMetadata(videoId: string): Promise<Prisma.JsonObject> {
+    const video = await prisma.video.findUnique({
+      where: { id: videoId },
+      select: { metadata: true }
+    })
+    return (video?.metadata ?? {}) as Prisma.JsonObject
+  }
+
+  private static runFfmpeg(args: string[]): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const ffmpeg = spawn('ffmpeg', args, { stdio: ['ignore', 'ignore', 'pipe'] })
+      let stderr = ''
+
+      ffmpeg.stderr.on('data', chunk => {
+        // Only the tail is useful for diagnosing failures
+        stderr = (stderr + chunk.toString()).slice(-4000)
+      })
+      ffmpeg.on('error', error => reject(new Error(`ffmpeg could not be started: ${error.message}`)))
+      ffmpeg.on('close', code => {
+        if (code === 0) {
+          resolve()
+        } else {
+          reject(new Error(`ffmpeg exited with code ${code}: ${stderr.split('\n').slice(-5).join('\n')}`))
+        }
+      })
+    })
+  }
+}
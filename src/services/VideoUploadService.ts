@@ -0,0 +1,264 @@
+import path from 'path'
+import fs from 'fs'
+import { createHash } from 'crypto'
+import { Readable, Transform } from 'stream'
+import { pipeline } from 'stream/promises'
+import { Prisma, PrismaClient, Video } from '@prisma/client'
+import { v4 as uuidv4 } from 'uuid'
+import { User } from '../types/auth'
+import { AppError } from '../types'
+import { VideoService } from './VideoService'
+import { enqueueVideoProcessing } from './jobs/videoJobs'
+import { auditRecorder } from './audit/auditRecorder'
+import { settingsService } from './settings/settingsService'
+import { getStagedFilePath, SUPPORTED_VIDEO_TYPES } from '../middleware/upload/videoUploadMiddleware'
+import { fileStorage } from './storage/fileStorage'
+import { storageKeys } from './storage/storageDriver'
+
+const prisma = new PrismaClient()
+
+// Chunked uploads bypass multer, so they get their own, larger limits
+export const MAX_RESUMABLE_UPLOAD_SIZE = 5 * 1024 * 1024 * 1024 // 5GB
+export const MAX_CHUNK_SIZE = 64 * 1024 * 1024 // 64MB
+export const UPLOAD_CHUNK_CONTENT_TYPE = 'application/offset+octet-stream'
+
+export interface CreateUploadData {
+  title: string
+  description: string | null
+  fileName: string
+  size: number
+  mimeType: string
+  checksum: string // hex SHA-256 of the whole file
+}
+
+// Stored under Video.metadata.upload while the video is UPLOADING
+interface ResumableUploadInfo {
+  size: number
+  checksum: string
+  checksumAlgorithm: 'sha256'
+  startedAt: string
+  completedAt?: string
+}
+
+// Videos with a chunk currently being written, to reject concurrent writers
+const activeUploads = new Set<string>()
+
+export class VideoUploadService {
+  /**
+   * Start a resumable upload: create the video in UPLOADING state with an
+   * empty staging file that chunks are appended to
+   */
+  static async createUpload(groupId: string, data: CreateUploadData, user: User) {
+    if (!SUPPORTED_VIDEO_TYPES.includes(data.mimeType)) {
+      throw new AppError(
+        `Unsupported file type. Supported types: ${SUPPORTED_VIDEO_TYPES.join(', ')}`,
+        400, true, 'UNSUPPORTED_FILE_TYPE'
+      )
+    }
+
+    // Admins can lower the limit below the 5GB chunked upload ceiling
+    const maxSizeMb = await settingsService.get('video.maxFileSizeMb')
+    if (data.size > Math.min(maxSizeMb * 1024 * 1024, MAX_RESUMABLE_UPLOAD_SIZE)) {
+      throw new AppError(`File too large. Maximum size is ${maxSizeMb}MB.`, 413, true, 'FILE_TOO_LARGE')
+    }
+
+    const fileName = `${uuidv4()}${path.extname(data.fileName)}`
+    await fs.promises.writeFile(getStagedFilePath(fileName), '')
+
+    const upload: ResumableUploadInfo = {
+      size: data.size,
+      checksum: data.checksum.toLowerCase(),
+      checksumAlgorithm: 'sha256',
+      startedAt: new Date().toISOString()
+    }
+
+    try {
+      const video = await VideoService.createVideo({
+        title: data.title,
+        description: data.description,
+        videoGroupId: groupId,
+        filename: fileName,
+        originalName: data.fileName,
+        filePath: fileName,
+        mimeType: data.mimeType,
+        upload: upload as unknown as Prisma.InputJsonObject
+      }, user)
+
+      return { video, upload: this.toUploadStatus(video, 0) }
+    } catch (error) {
+      await fs.promises.unlink(getStagedFilePath(fileName)).catch(() => {})
+      throw error
+    }
+  }
+
+  /**
+   * Report how many bytes the server has, so the client knows where to resume
+   */
+  static async getUploadStatus(videoId: string, user: User) {
+    const video = await VideoService.getManagedVideoWithSource(videoId, user)
+    const offset = video.status === 'UPLOADING'
+      ? await this.getCurrentOffset(video.filePath!)
+      : this.getUploadInfo(video)?.size ?? 0
+
+    return this.toUploadStatus(video, offset)
+  }
+
+  /**
+   * Append one chunk at the given offset. The offset must match the bytes
+   * already received; a chunk interrupted mid-transfer keeps whatever arrived,
+   * and the client resumes from the offset reported by getUploadStatus.
+   */
+  static async appendChunk(
+    videoId: string,
+    offset: number,
+    contentLength: number,
+    body: Readable,
+    user: User
+  ) {
+    const video = await VideoService.getManagedVideoWithSource(videoId, user)
+    const upload = this.getUploadInfo(video)
+
+    if (video.status !== 'UPLOADING' || !upload) {
+      throw new AppError('Video is not accepting uploads', 409, true, 'UPLOAD_NOT_ACTIVE')
+    }
+
+    if (contentLength > MAX_CHUNK_SIZE) {
+      throw new AppError('Chunk too large. Maximum chunk size is 64MB.', 413, true, 'CHUNK_TOO_LARGE')
+    }
+
+    if (activeUploads.has(videoId)) {
+      throw new AppError('Another chunk is already being uploaded', 409, true, 'UPLOAD_IN_PROGRESS')
+    }
+
+    activeUploads.add(videoId)
+    try {
+      const filePath = getStagedFilePath(video.filePath!)
+      const currentOffset = await this.getCurrentOffset(video.filePath!)
+
+      if (offset !== currentOffset) {
+        throw new AppError('Upload offset does not match', 409, true, 'UPLOAD_OFFSET_MISMATCH', { offset: currentOffset })
+      }
+
+      if (currentOffset + contentLength > upload.size) {
+        throw new AppError('Chunk exceeds the declared upload size', 400, true, 'UPLOAD_SIZE_EXCEEDED')
+      }
+
+      await pipeline(
+        body,
+        this.limitBytes(contentLength),
+        fs.createWriteStream(filePath, { flags: 'a' })
+      )
+
+      const newOffset = await this.getCurrentOffset(video.filePath!)
+      if (newOffset < upload.size) {
+        return { video: null, upload: this.toUploadStatus(video, newOffset) }
+      }
+
+      const completed = await this.completeUpload(video, upload)
+      await auditRecorder.record({
+        userId: user.id,
+        action: 'UPLOAD',
+        resource: 'video',
+        resourceId: videoId,
+        metadata: { size: upload.size, checksum: upload.checksum }
+      })
+      return { video: completed, upload: this.toUploadStatus(completed, newOffset) }
+    } finally {
+      activeUploads.delete(videoId)
+    }
+  }
+
+  /**
+   * Verify the assembled file against the declared checksum, move it into
+   * storage and hand the video over to the processing pipeline
+   */
+  private static async completeUpload(video: Video, upload: ResumableUploadInfo) {
+    const filePath = getStagedFilePath(video.filePath!)
+    const checksum = await this.hashFile(filePath)
+    const metadata = (video.metadata ?? {}) as Prisma.JsonObject
+
+    if (checksum !== upload.checksum) {
+      // The assembled file is corrupt; the client has to start over
+      await fs.promises.unlink(filePath).catch(() => {})
+      await prisma.video.update({
+        where: { id: video.id },
+        data: {
+          status: 'ERROR',
+          processingStatus: 'CHECKSUM_MISMATCH'
+        }
+      })
+      throw new AppError('Uploaded file does not match its checksum', 422, true, 'CHECKSUM_MISMATCH')
+    }
+
+    await fileStorage.moveFile(storageKeys.video(video.filePath!), filePath, { contentType: video.mimeType ?? undefined })
+
+    const completed = await prisma.video.update({
+      where: { id: video.id },
+      data: {
+        status: 'PROCESSING',
+        processingStatus: 'QUEUED',
+        size: BigInt(upload.size),
+        uploadedAt: new Date(),
+        metadata: {
+          ...metadata,
+          upload: {
+            ...upload,
+            completedAt: new Date().toISOString()
+          }
+        } as unknown as Prisma.InputJsonValue
+      }
+    })
+
+    await enqueueVideoProcessing(completed.id)
+
+    return completed
+  }
+
+  private static getUploadInfo(video: Video): ResumableUploadInfo | null {
+    const metadata = video.metadata as { upload?: ResumableUploadInfo } | null
+    return metadata?.upload ?? null
+  }
+
+  private static toUploadStatus(video: Video, offset: number) {
+    const upload = this.getUploadInfo(video)
+    return {
+      videoId: video.id,
+      status: video.status,
+      offset,
+      size: upload?.size ?? offset,
+      maxChunkSize: MAX_CHUNK_SIZE
+    }
+  }
+
+  private static async getCurrentOffset(fileName: string): Promise<number> {
+    try {
+      const stats = await fs.promises.stat(getStagedFilePath(fileName))
+      return stats.size
+    } catch {
+      return 0
+    }
+  }
+
+  private static async hashFile(filePath: string): Promise<string> {
+    const hash = createHash('sha256')
+    for await (const chunk of fs.createReadStream(filePath)) {
+      hash.update(chunk)
+    }
+    return hash.digest('hex')
+  }
+
+  // Fail the write if the client sends more bytes than it announced
+  private static limitBytes(limit: number) {
+    let received = 0
+    return new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        received += chunk.length
+        if (received > limit) {
+          callback(new AppError('Chunk is larger than its Content-Length', 400, true, 'UPLOAD_SIZE_EXCEEDED'))
+          return
+        }
+        callback(null, chunk)
+      }
+    })
+  }
+}
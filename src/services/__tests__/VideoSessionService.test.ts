@@ -0,0 +1,366 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { VideoSessionService } from '../VideoSessionService';
+
+jest.mock('@prisma/client', () => {
+  const actual = jest.requireActual('@prisma/client');
+  const model = () => ({
+    findFirst: jest.fn(),
+    findMany: jest.fn(),
+    findUnique: jest.fn(),
+    create: jest.fn(),
+    update: jest.fn(),
+    updateMany: jest.fn(),
+    count: jest.fn(),
+    aggregate: jest.fn(),
+    findUniqueOrThrow: jest.fn(),
+  });
+  const client = {
+    studentSession: model(),
+    question: model(),
+    questionAttempt: model(),
+    milestone: model(),
+    milestoneProgress: model(),
+    video: model(),
+    videoViewing: model(),
+    studentProgress: { ...model(), upsert: jest.fn() },
+  };
+  return { ...actual, PrismaClient: function PrismaClient() { return client; } };
+});
+
+jest.mock('../GradebookService', () => ({
+  GradebookService: {
+    recalculateForVideo: jest.fn(),
+    recalculateLessonGrade: jest.fn(),
+  },
+}));
+
+type MockModel = Record<string, jest.Mock>;
+const db = new PrismaClient() as unknown as Record<string, MockModel>;
+
+const currentSession = {
+  id: 'session-2',
+  videoId: 'video-1',
+  studentId: 'student-1',
+  attemptNumber: 2,
+  status: 'ACTIVE',
+  currentPosition: 0,
+  furthestPosition: 0,
+  lastSeenAt: new Date(),
+  video: { seekPolicy: 'FREE' },
+  viewing: { currentSessionId: 'session-2' },
+};
+
+const question = {
+  id: 'question-1',
+  type: 'MULTIPLE_CHOICE',
+  questionData: { options: ['A', 'B', 'C'], correctAnswerIndex: 1 },
+  explanation: 'B is right',
+  passThreshold: 0.7,
+  timeLimit: null,
+  hints: ['Not A', 'Not C'],
+  hintPenalty: 0.1,
+  milestone: { retryLimit: 2 },
+};
+
+const answer = { questionId: 'question-1', answer: '1', milestoneId: 'milestone-1' };
+
+const expectAppError = async (promise: Promise<unknown>, code: string) => {
+  await expect(promise).rejects.toMatchObject({ code });
+};
+
+beforeEach(() => {
+  db.questionAttempt.create.mockImplementation(({ data }) => Promise.resolve({ id: 'attempt-new', ...data }));
+  db.milestoneProgress.findUnique.mockResolvedValue(null);
+});
+
+describe('VideoSessionService', () => {
+  describe('viewing attempts', () => {
+    it('should reject writes to an earlier attempt', async () => {
+      db.studentSession.findFirst.mockResolvedValue({ ...currentSession, id: 'session-1', attemptNumber: 1, viewing: null });
+
+      await expectAppError(
+        VideoSessionService.updateProgress('session-1', { currentPosition: 30 }, 'student-1'),
+        'ATTEMPT_CLOSED'
+      );
+      await expectAppError(VideoSessionService.submitAnswer('session-1', answer, 'student-1'), 'ATTEMPT_CLOSED');
+      await expectAppError(VideoSessionService.revealHint('session-1', 'question-1', 'student-1'), 'ATTEMPT_CLOSED');
+      expect(db.questionAttempt.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject writes to a completed attempt', async () => {
+      db.studentSession.findFirst.mockResolvedValue({ ...currentSession, status: 'COMPLETED' });
+
+      await expectAppError(
+        VideoSessionService.markMilestoneReached('session-2', 'milestone-1', 10, 'student-1'),
+        'ATTEMPT_CLOSED'
+      );
+    });
+
+    it('should give a retake a fresh attempt limit while numbering attempts across the history', async () => {
+      db.studentSession.findFirst.mockResolvedValue(currentSession);
+      db.question.findFirst.mockResolvedValue(question);
+      // Two answers were used up in the first attempt, none in this one
+      db.questionAttempt.findMany.mockResolvedValue([]);
+      db.questionAttempt.findFirst.mockResolvedValue(null);
+      db.questionAttempt.aggregate.mockResolvedValue({ _max: { attemptNumber: 2 } });
+
+      const result = await VideoSessionService.submitAnswer('session-2', answer, 'student-1');
+
+      expect(db.questionAttempt.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: expect.objectContaining({ sessionId: 'session-2' }),
+      }));
+      expect(result.attemptNumber).toBe(3);
+      expect(result.remainingAttempts).toBe(1);
+    });
+
+    it('should make a retake pass its required milestones again', async () => {
+      db.studentSession.findFirst.mockResolvedValue(currentSession);
+      db.milestone.findMany.mockResolvedValue([{ id: 'milestone-1', timestamp: 10, questions: [{ id: 'question-1' }] }]);
+      db.milestoneProgress.findMany.mockResolvedValue([{ milestoneId: 'milestone-1' }]);
+      // The question was only answered in the first attempt
+      db.questionAttempt.findMany.mockImplementation(({ where }) =>
+        Promise.resolve(where.sessionId === 'session-2' ? [] : [{ questionId: 'question-1' }])
+      );
+
+      await expectAppError(
+        VideoSessionService.completeSession('session-2', { finalTime: 60, totalWatchTime: 60 }, 'student-1'),
+        'REQUIRED_MILESTONES_PENDING'
+      );
+    });
+  });
+
+  describe('updateProgress', () => {
+    const lastSeenAt = new Date(Date.now() - 60_000);
+
+    beforeEach(() => {
+      db.studentSession.findFirst.mockResolvedValue({
+        ...currentSession,
+        currentPosition: 100,
+        furthestPosition: 100,
+        lastSeenAt,
+        video: { seekPolicy: 'WATCHED_RANGE' },
+      });
+      db.milestone.findMany.mockResolvedValue([]);
+      db.milestoneProgress.findMany.mockResolvedValue([]);
+      db.questionAttempt.findMany.mockResolvedValue([]);
+      db.studentSession.update.mockImplementation(({ data }) => Promise.resolve({ ...currentSession, ...data }));
+    });
+
+    it('should judge a replayed write by the time since the previous one, not since it arrived', async () => {
+      // Made 5 seconds after the last save: 5 seconds at double speed plus grace reaches 113
+      await VideoSessionService.updateProgress('session-2', { currentPosition: 110 }, 'student-1', 55_000);
+
+      const { data } = db.studentSession.update.mock.calls[0][0];
+      expect(data.lastSeenAt.getTime()).toBeLessThan(Date.now() - 50_000);
+      await expectAppError(
+        VideoSessionService.updateProgress('session-2', { currentPosition: 120 }, 'student-1', 55_000),
+        'SEEK_NOT_ALLOWED'
+      );
+    });
+
+    it('should not let a replayed write claim a time before the previous one', async () => {
+      await expectAppError(
+        VideoSessionService.updateProgress('session-2', { currentPosition: 110 }, 'student-1', 10 * 60_000),
+        'SEEK_NOT_ALLOWED'
+      );
+    });
+  });
+
+  describe('completeSession', () => {
+    it('should count lesson progress from the current attempt of each video only', async () => {
+      db.studentSession.findFirst.mockResolvedValue(currentSession);
+      db.milestone.findMany.mockResolvedValue([]);
+      db.milestoneProgress.findMany.mockResolvedValue([]);
+      db.questionAttempt.findMany.mockResolvedValue([]);
+      db.studentSession.update.mockImplementation(({ data }) =>
+        Promise.resolve({ ...currentSession, ...data, milestoneProgress: [{}, {}], questionAttempts: [] })
+      );
+      db.video.findUnique.mockResolvedValue({ id: 'video-1', videoGroup: { lesson: { id: 'lesson-1' } } });
+      // This retake and another video of the lesson; the first attempt of this video no longer counts
+      db.videoViewing.findMany.mockResolvedValue([
+        { currentSession: { totalWatchTime: 60, _count: { milestoneProgress: 2 } } },
+        { currentSession: { totalWatchTime: 45, _count: { milestoneProgress: 1 } } },
+      ]);
+
+      await VideoSessionService.completeSession('session-2', { finalTime: 60, totalWatchTime: 60 }, 'student-1');
+
+      expect(db.studentSession.update).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ status: 'COMPLETED', totalWatchTime: 60 }),
+      }));
+      expect(db.studentProgress.upsert).toHaveBeenCalledWith(expect.objectContaining({
+        update: expect.objectContaining({ completedMilestones: 3, totalTimeSpent: 105 }),
+        create: expect.objectContaining({ completedMilestones: 3, totalTimeSpent: 105 }),
+      }));
+    });
+  });
+
+  describe('submitAnswer', () => {
+    beforeEach(() => {
+      db.studentSession.findFirst.mockResolvedValue(currentSession);
+      db.question.findFirst.mockResolvedValue(question);
+      db.questionAttempt.findFirst.mockResolvedValue(null);
+      db.questionAttempt.aggregate.mockResolvedValue({ _max: { attemptNumber: null } });
+    });
+
+    it('should reject answers once the attempt limit is used up', async () => {
+      db.questionAttempt.findMany.mockResolvedValue([
+        { attemptNumber: 2, submittedAt: new Date() },
+        { attemptNumber: 1, submittedAt: new Date() },
+      ]);
+
+      await expect(VideoSessionService.submitAnswer('session-2', answer, 'student-1')).rejects.toMatchObject({
+        statusCode: 409,
+        code: 'ATTEMPT_LIMIT_REACHED',
+        details: { retryLimit: 2, attemptsUsed: 2 },
+      });
+      expect(db.questionAttempt.create).not.toHaveBeenCalled();
+    });
+
+    it('should report the attempts remaining after each answer', async () => {
+      db.questionAttempt.findMany.mockResolvedValue([]);
+
+      const first = await VideoSessionService.submitAnswer('session-2', { ...answer, answer: '0' }, 'student-1');
+
+      expect(first).toMatchObject({ status: 'INCORRECT', attemptNumber: 1, retryLimit: 2, remainingAttempts: 1 });
+
+      db.questionAttempt.findMany.mockResolvedValue([{ attemptNumber: 1, submittedAt: new Date() }]);
+      db.questionAttempt.aggregate.mockResolvedValue({ _max: { attemptNumber: 1 } });
+
+      const second = await VideoSessionService.submitAnswer('session-2', answer, 'student-1');
+
+      expect(second).toMatchObject({ status: 'CORRECT', attemptNumber: 2, remainingAttempts: 0 });
+    });
+
+    it('should time out answers given after the question time limit', async () => {
+      db.question.findFirst.mockResolvedValue({ ...question, timeLimit: 30 });
+      db.questionAttempt.findMany.mockResolvedValue([]);
+      db.milestoneProgress.findUnique.mockResolvedValue({ reachedAt: new Date(Date.now() - 60_000) });
+
+      const result = await VideoSessionService.submitAnswer('session-2', answer, 'student-1');
+
+      expect(result).toMatchObject({ status: 'TIMEOUT', isCorrect: false, score: 0, remainingAttempts: 1 });
+    });
+
+    it('should time a replayed answer from when it was given, but not before the question was shown', async () => {
+      db.question.findFirst.mockResolvedValue({ ...question, timeLimit: 30 });
+      db.questionAttempt.findMany.mockResolvedValue([]);
+      db.milestoneProgress.findUnique.mockResolvedValue({ reachedAt: new Date(Date.now() - 120_000) });
+
+      // Answered offline 20 seconds after the milestone, replayed 100 seconds later
+      const replayed = await VideoSessionService.submitAnswer('session-2', answer, 'student-1', 100_000);
+
+      expect(replayed).toMatchObject({ status: 'CORRECT', isCorrect: true });
+      expect(db.questionAttempt.create.mock.calls[0][0].data.timeSpent).toBe(20);
+
+      // A claimed age from before the milestone counts as answering the moment it was shown
+      const early = await VideoSessionService.submitAnswer('session-2', answer, 'student-1', 600_000);
+
+      expect(db.questionAttempt.create.mock.calls[1][0].data.timeSpent).toBe(0);
+      expect(early.status).toBe('CORRECT');
+    });
+
+    it('should accept answers within the time limit and its grace period', async () => {
+      db.question.findFirst.mockResolvedValue({ ...question, timeLimit: 30 });
+      db.questionAttempt.findMany.mockResolvedValue([]);
+      db.milestoneProgress.findUnique.mockResolvedValue({ reachedAt: new Date(Date.now() - 31_000) });
+
+      const result = await VideoSessionService.submitAnswer('session-2', answer, 'student-1');
+
+      expect(result).toMatchObject({ status: 'CORRECT', isCorrect: true, score: 100 });
+    });
+
+    it('should re-check the limit when a concurrent answer took the attempt number', async () => {
+      db.question.findFirst.mockResolvedValue({ ...question, milestone: { retryLimit: 1 } });
+      db.questionAttempt.findMany
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([{ attemptNumber: 1, submittedAt: new Date() }]);
+      db.questionAttempt.create.mockRejectedValueOnce(
+        new Prisma.PrismaClientKnownRequestError('Unique constraint failed', { code: 'P2002', clientVersion: 'test' })
+      );
+
+      await expectAppError(VideoSessionService.submitAnswer('session-2', answer, 'student-1'), 'ATTEMPT_LIMIT_REACHED');
+      expect(db.questionAttempt.create).toHaveBeenCalledTimes(1);
+    });
+
+    it('should complete a hinted attempt only once under concurrent submissions', async () => {
+      db.question.findFirst.mockResolvedValue({ ...question, milestone: { retryLimit: 1 } });
+      db.questionAttempt.findMany
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([{ attemptNumber: 1, submittedAt: new Date() }]);
+      db.questionAttempt.findFirst.mockResolvedValue({ id: 'attempt-1', attemptNumber: 1, hintsUsed: ['Not A'] });
+      // The other submission completed it between our read and write
+      db.questionAttempt.updateMany.mockResolvedValue({ count: 0 });
+
+      await expectAppError(VideoSessionService.submitAnswer('session-2', answer, 'student-1'), 'ATTEMPT_LIMIT_REACHED');
+      expect(db.questionAttempt.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { id: 'attempt-1', status: 'IN_PROGRESS' },
+      }));
+    });
+  });
+
+  describe('hints', () => {
+    beforeEach(() => {
+      db.studentSession.findFirst.mockResolvedValue(currentSession);
+      db.question.findFirst.mockResolvedValue(question);
+      db.questionAttempt.count.mockResolvedValue(0);
+      db.questionAttempt.aggregate.mockResolvedValue({ _max: { attemptNumber: null } });
+    });
+
+    it('should reveal hints one at a time and report the deduction', async () => {
+      db.questionAttempt.findFirst.mockResolvedValue(null);
+      db.questionAttempt.updateMany.mockResolvedValue({ count: 1 });
+
+      const result = await VideoSessionService.revealHint('session-2', 'question-1', 'student-1');
+
+      expect(db.questionAttempt.create).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ status: 'IN_PROGRESS', attemptNumber: 1 }),
+      }));
+      expect(result).toEqual({
+        hint: 'Not A',
+        hintNumber: 1,
+        totalHints: 2,
+        hintsRemaining: 1,
+        hintPenalty: 0.1,
+        scoreDeduction: 10,
+      });
+    });
+
+    it('should refuse to reveal past the last hint', async () => {
+      db.questionAttempt.findFirst.mockResolvedValue({ id: 'attempt-1', hintsUsed: ['Not A', 'Not C'] });
+
+      await expect(VideoSessionService.revealHint('session-2', 'question-1', 'student-1')).rejects.toMatchObject({
+        code: 'NO_HINTS_REMAINING',
+        details: { totalHints: 2 },
+      });
+      expect(db.questionAttempt.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should charge a hint revealed twice at once only once', async () => {
+      db.questionAttempt.findFirst.mockResolvedValue({ id: 'attempt-1', hintsUsed: [] });
+      // The other request pushed the first hint after we read the attempt
+      db.questionAttempt.updateMany.mockResolvedValue({ count: 0 });
+      db.questionAttempt.findUniqueOrThrow.mockResolvedValue({ hintsUsed: ['Not A'] });
+
+      const result = await VideoSessionService.revealHint('session-2', 'question-1', 'student-1');
+
+      expect(db.questionAttempt.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { id: 'attempt-1', hintsUsed: { equals: [] } },
+      }));
+      expect(result).toMatchObject({ hint: 'Not A', hintNumber: 1, scoreDeduction: 10 });
+    });
+
+    it('should deduct the penalty for each revealed hint from the score', async () => {
+      db.questionAttempt.findMany.mockResolvedValue([]);
+      db.questionAttempt.findFirst.mockResolvedValue({ id: 'attempt-1', attemptNumber: 1, hintsUsed: ['Not A', 'Not C'] });
+      db.questionAttempt.updateMany.mockResolvedValue({ count: 1 });
+      db.questionAttempt.findUniqueOrThrow.mockResolvedValue({ id: 'attempt-1' });
+
+      const result = await VideoSessionService.submitAnswer('session-2', answer, 'student-1');
+
+      expect(result).toMatchObject({ isCorrect: true, score: 80, hintsUsed: 2 });
+      expect(db.questionAttempt.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ score: 80, status: 'CORRECT' }),
+      }));
+    });
+  });
+});
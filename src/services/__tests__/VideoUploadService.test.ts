@@ -0,0 +1,117 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createHash } from 'crypto';
+import { Readable } from 'stream';
+import { PrismaClient } from '@prisma/client';
+import { User } from '../../types/auth';
+import { VideoService } from '../VideoService';
+import { fileStorage } from '../storage/fileStorage';
+import { MAX_CHUNK_SIZE, VideoUploadService } from '../VideoUploadService';
+
+let mockStagingDir = '';
+
+jest.mock('@prisma/client', () => {
+  const actual = jest.requireActual('@prisma/client');
+  const client = { video: { update: jest.fn() } };
+  return { ...actual, PrismaClient: function PrismaClient() { return client; } };
+});
+
+jest.mock('../../middleware/upload/videoUploadMiddleware', () => ({
+  SUPPORTED_VIDEO_TYPES: ['video/mp4'],
+  getStagedFilePath: (fileName: string) => jest.requireActual('path').join(mockStagingDir, fileName),
+}));
+
+jest.mock('../VideoService', () => ({
+  VideoService: { getManagedVideoWithSource: jest.fn() },
+}));
+
+jest.mock('../storage/fileStorage', () => ({
+  fileStorage: { moveFile: jest.fn() },
+}));
+
+jest.mock('../jobs/videoJobs', () => ({ enqueueVideoProcessing: jest.fn() }));
+jest.mock('../audit/auditRecorder', () => ({ auditRecorder: { record: jest.fn() } }));
+jest.mock('../settings/settingsService', () => ({ settingsService: { get: jest.fn() } }));
+
+const db = new PrismaClient() as unknown as { video: { update: jest.Mock } };
+const getManagedVideo = VideoService.getManagedVideoWithSource as jest.Mock;
+const moveFile = fileStorage.moveFile as jest.Mock;
+
+const user = { id: 'teacher-1', role: 'TEACHER' } as unknown as User;
+const content = '0123456789';
+const sha256 = (text: string) => createHash('sha256').update(text).digest('hex');
+
+const uploadingVideo = (checksum = sha256(content)) => ({
+  id: 'video-1',
+  status: 'UPLOADING',
+  filePath: 'upload.mp4',
+  mimeType: 'video/mp4',
+  metadata: {
+    upload: { size: content.length, checksum, checksumAlgorithm: 'sha256', startedAt: new Date().toISOString() },
+  },
+});
+
+const stagedFile = () => path.join(mockStagingDir, 'upload.mp4');
+const body = (text: string) => Readable.from([Buffer.from(text)]);
+
+const appendChunk = (offset: number, text: string, contentLength = text.length) =>
+  VideoUploadService.appendChunk('video-1', offset, contentLength, body(text), user);
+
+describe('VideoUploadService', () => {
+  beforeEach(async () => {
+    mockStagingDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'upload-test-'));
+    await fs.promises.writeFile(stagedFile(), '0123');
+    getManagedVideo.mockResolvedValue(uploadingVideo());
+    db.video.update.mockImplementation(({ data }) => Promise.resolve({ ...uploadingVideo(), ...data }));
+  });
+
+  afterEach(async () => {
+    await fs.promises.rm(mockStagingDir, { recursive: true, force: true });
+  });
+
+  it('should append a chunk at the current offset and report the new one', async () => {
+    const result = await appendChunk(4, '456');
+
+    expect(result).toMatchObject({ video: null, upload: { offset: 7, size: 10 } });
+    expect(await fs.promises.readFile(stagedFile(), 'utf8')).toBe('0123456');
+  });
+
+  it('should reject a chunk that does not start at the current offset', async () => {
+    await expect(appendChunk(2, '2345')).rejects.toMatchObject({
+      code: 'UPLOAD_OFFSET_MISMATCH',
+      statusCode: 409,
+      details: { offset: 4 },
+    });
+    expect(await fs.promises.readFile(stagedFile(), 'utf8')).toBe('0123');
+  });
+
+  it('should reject a chunk that runs past the declared upload size', async () => {
+    await expect(appendChunk(4, '456789AB')).rejects.toMatchObject({ code: 'UPLOAD_SIZE_EXCEEDED', statusCode: 400 });
+    expect(await fs.promises.readFile(stagedFile(), 'utf8')).toBe('0123');
+  });
+
+  it('should reject chunks over the chunk limit or longer than their Content-Length', async () => {
+    await expect(appendChunk(4, '45', MAX_CHUNK_SIZE + 1)).rejects.toMatchObject({ code: 'CHUNK_TOO_LARGE', statusCode: 413 });
+    await expect(appendChunk(4, '45678', 2)).rejects.toMatchObject({ code: 'UPLOAD_SIZE_EXCEEDED', statusCode: 400 });
+  });
+
+  it('should move the finished file into storage once its checksum matches', async () => {
+    const result = await appendChunk(4, '456789');
+
+    expect(result.video).toMatchObject({ status: 'PROCESSING', processingStatus: 'QUEUED' });
+    expect(moveFile).toHaveBeenCalledWith('videos/upload.mp4', stagedFile(), { contentType: 'video/mp4' });
+  });
+
+  it('should discard a finished file that does not match its checksum', async () => {
+    getManagedVideo.mockResolvedValue(uploadingVideo(sha256('something else')));
+
+    await expect(appendChunk(4, '456789')).rejects.toMatchObject({ code: 'CHECKSUM_MISMATCH', statusCode: 422 });
+    expect(fs.existsSync(stagedFile())).toBe(false);
+    expect(moveFile).not.toHaveBeenCalled();
+    expect(db.video.update).toHaveBeenCalledWith({
+      where: { id: 'video-1' },
+      data: { status: 'ERROR', processingStatus: 'CHECKSUM_MISMATCH' },
+    });
+  });
+});
@@ -0,0 +1,47 @@
+import { FixtureProvider } from '../fixtureProvider';
+import { AICompletionRequest, QuestionSpec } from '../types';
+
+const request = (spec: Partial<QuestionSpec>): AICompletionRequest => ({
+  systemPrompt: 'system',
+  prompt: 'prompt',
+  temperature: 0.7,
+  maxTokens: 2000,
+  spec: {
+    videoTitle: 'Fractions 101',
+    questionCount: 3,
+    questionTypes: ['MULTIPLE_CHOICE', 'TRUE_FALSE', 'SHORT_ANSWER'],
+    difficulty: 'MEDIUM',
+    ...spec
+  }
+});
+
+describe('FixtureProvider', () => {
+  const provider = new FixtureProvider();
+
+  it('should return the requested number and types of questions', async () => {
+    const result = JSON.parse((await provider.complete(request({ questionCount: 4 }))).content);
+
+    expect(result.milestoneTitle).toBe('Interactive Quiz: Fractions 101');
+    expect(result.questions.map((question: { type: string }) => question.type)).toEqual([
+      'MULTIPLE_CHOICE', 'TRUE_FALSE', 'SHORT_ANSWER', 'MULTIPLE_CHOICE'
+    ]);
+  });
+
+  it('should be deterministic', async () => {
+    const first = await provider.complete(request({}));
+    const second = await provider.complete(request({}));
+
+    expect(first.content).toBe(second.content);
+  });
+
+  it('should spread suggested timestamps over the transcript window', async () => {
+    const result = JSON.parse((await provider.complete(request({
+      questionCount: 2,
+      questionTypes: ['TRUE_FALSE'],
+      transcriptWindow: { start: 100, end: 160 }
+    }))).content);
+
+    expect(result.questions.map((question: { suggestedTimestamp: number }) => question.suggestedTimestamp)).toEqual([100, 130]);
+    expect(result.questions[0].question).not.toBe(result.questions[1].question);
+  });
+});
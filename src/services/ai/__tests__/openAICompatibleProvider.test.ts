@@ -0,0 +1,78 @@
+import { OpenAICompatibleProvider } from '../openAICompatibleProvider';
+import { AICompletionRequest } from '../types';
+
+const request: AICompletionRequest = {
+  systemPrompt: 'Respond with JSON',
+  prompt: 'Generate questions',
+  temperature: 0.7,
+  maxTokens: 2000,
+  spec: {
+    videoTitle: 'Fractions 101',
+    questionCount: 1,
+    questionTypes: ['TRUE_FALSE'],
+    difficulty: 'EASY'
+  }
+};
+
+type FetchInit = NonNullable<Parameters<typeof fetch>[1]>;
+
+const stubFetch = (status: number, body: unknown) => {
+  const calls: Array<{ url: string; init: FetchInit }> = [];
+  global.fetch = (async (url: string, init: FetchInit) => {
+    calls.push({ url, init });
+    return new Response(typeof body === 'string' ? body : JSON.stringify(body), { status });
+  }) as typeof fetch;
+  return calls;
+};
+
+describe('OpenAICompatibleProvider', () => {
+  const originalFetch = global.fetch;
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('should post a chat completion request to the endpoint', async () => {
+    const calls = stubFetch(200, {
+      choices: [{ message: { content: '{"questions":[]}' } }],
+      usage: { prompt_tokens: 120, completion_tokens: 30 }
+    });
+    const provider = new OpenAICompatibleProvider({
+      endpoint: 'http://localhost:11434/v1/',
+      model: 'llama3',
+      apiKey: 'local-key',
+      timeoutMs: 1000,
+      maxTokens: 512
+    });
+
+    const { content, usage } = await provider.complete(request);
+
+    expect(content).toBe('{"questions":[]}');
+    expect(usage).toEqual({ inputTokens: 120, outputTokens: 30 });
+    expect(calls[0].url).toBe('http://localhost:11434/v1/chat/completions');
+    expect((calls[0].init.headers as Record<string, string>).Authorization).toBe('Bearer local-key');
+    expect(JSON.parse(calls[0].init.body as string)).toEqual({
+      model: 'llama3',
+      messages: [
+        { role: 'system', content: 'Respond with JSON' },
+        { role: 'user', content: 'Generate questions' }
+      ],
+      temperature: 0.7,
+      max_tokens: 512
+    });
+  });
+
+  it('should fail on error responses', async () => {
+    stubFetch(500, 'model not loaded');
+    const provider = new OpenAICompatibleProvider({ endpoint: 'http://localhost:8080/v1', model: 'local', timeoutMs: 1000 });
+
+    await expect(provider.complete(request)).rejects.toThrow('AI endpoint responded with 500: model not loaded');
+  });
+
+  it('should fail when the response has no content', async () => {
+    stubFetch(200, { choices: [] });
+    const provider = new OpenAICompatibleProvider({ endpoint: 'http://localhost:8080/v1', model: 'local', timeoutMs: 1000 });
+
+    await expect(provider.complete(request)).rejects.toThrow('No response from AI endpoint');
+  });
+});
@@ -0,0 +1,26 @@
+import { decryptSecret, encryptSecret, isEncryptedSecret, maskSecret } from '../secretBox';
+
+describe('secretBox', () => {
+  const secret = 'a-test-secret-that-is-long-enough-to-use';
+
+  it('should round-trip a key without storing it in the clear', () => {
+    const stored = encryptSecret('sk-live-1234567890', secret);
+
+    expect(isEncryptedSecret(stored)).toBe(true);
+    expect(stored).not.toContain('sk-live');
+    expect(encryptSecret('sk-live-1234567890', secret)).not.toBe(stored);
+    expect(decryptSecret(stored, secret)).toBe('sk-live-1234567890');
+  });
+
+  it('should refuse keys encrypted under another secret and pass legacy plaintext through', () => {
+    const stored = encryptSecret('sk-live-1234567890', secret);
+
+    expect(() => decryptSecret(stored, 'another-secret-that-is-also-long-enough')).toThrow();
+    expect(decryptSecret('plain-legacy-key', secret)).toBe('plain-legacy-key');
+  });
+
+  it('should only reveal the end of long keys', () => {
+    expect(maskSecret('sk-live-1234567890')).toBe('••••7890');
+    expect(maskSecret('short')).toBe('••••');
+  });
+});
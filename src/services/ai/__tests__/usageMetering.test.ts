@@ -0,0 +1,20 @@
+import { budgetPeriodStart, isBudgetExhausted, meterTokens, usageCost } from '../usageMetering';
+
+describe('usageMetering', () => {
+  it('should prefer reported token counts and estimate otherwise', () => {
+    expect(meterTokens({ inputTokens: 100, outputTokens: 20 }, 'ignored')).toEqual({ tokensUsed: 120, estimated: false });
+    expect(meterTokens(null, 'a'.repeat(400), 'b'.repeat(41))).toEqual({ tokensUsed: 111, estimated: true });
+  });
+
+  it('should price tokens only when the configuration has a price', () => {
+    expect(usageCost(1000, 0.000002)).toBeCloseTo(0.002);
+    expect(usageCost(1000, null)).toBeNull();
+  });
+
+  it('should reset budgets at the start of each UTC month', () => {
+    expect(budgetPeriodStart(new Date('2026-10-19T12:00:00Z'))).toEqual(new Date('2026-10-01T00:00:00Z'));
+    expect(isBudgetExhausted(10, 10)).toBe(true);
+    expect(isBudgetExhausted(9.99, 10)).toBe(false);
+    expect(isBudgetExhausted(1000, null)).toBe(false);
+  });
+});
@@ -0,0 +1,161 @@
+import { AIConfiguration, AuditAction, Prisma } from '@prisma/client';
+import { prisma } from '@/config/database';
+import { config } from '@/config/environment';
+import { AppError } from '@/types';
+import { auditRecorder } from '../audit/auditRecorder';
+import { aiProviderRegistry } from './providerRegistry';
+import { decryptSecret, encryptSecret, maskSecret } from './secretBox';
+import { ConfigurableAIProvider } from './types';
+
+export interface AIConfigurationInput {
+  provider: ConfigurableAIProvider;
+  name: string;
+  model: string;
+  apiKey?: string | null; // Null clears the stored key
+  endpoint?: string | null;
+  parameters?: Record<string, unknown> | null;
+  isActive?: boolean;
+  rateLimit?: number | null;
+  maxTokens?: number | null;
+  costPerToken?: number | null;
+  monthlyBudget?: number | null;
+}
+
+/**
+ * What admins get back: never the key itself, only whether one is stored
+ * and its last characters
+ */
+export type AIConfigurationView = Omit<AIConfiguration, 'apiKey'> & {
+  hasApiKey: boolean;
+  apiKeyPreview: string | null;
+};
+
+const toView = ({ apiKey, ...configuration }: AIConfiguration): AIConfigurationView => {
+  let apiKeyPreview: string | null = null;
+  if (apiKey) {
+    try {
+      apiKeyPreview = maskSecret(decryptSecret(apiKey, config.ai.keyEncryptionSecret));
+    } catch {
+      apiKeyPreview = '(unreadable, re-enter the key)';
+    }
+  }
+  return { ...configuration, hasApiKey: apiKey !== null, apiKeyPreview };
+};
+
+class AIConfigurationService {
+  async list(): Promise<AIConfigurationView[]> {
+    const configurations = await prisma.aIConfiguration.findMany({
+      orderBy: [{ isActive: 'desc' }, { updatedAt: 'desc' }],
+    });
+    return configurations.map(toView);
+  }
+
+  async create(input: AIConfigurationInput, actorId: string): Promise<AIConfigurationView> {
+    this.assertEndpoint(input.provider, input.endpoint);
+
+    const configuration = await prisma.aIConfiguration.create({
+      data: {
+        provider: input.provider,
+        name: input.name,
+        model: input.model,
+        apiKey: input.apiKey ? encryptSecret(input.apiKey, config.ai.keyEncryptionSecret) : null,
+        endpoint: input.endpoint ?? null,
+        parameters: (input.parameters ?? undefined) as Prisma.InputJsonValue | undefined,
+        isActive: input.isActive ?? true,
+        rateLimit: input.rateLimit ?? null,
+        maxTokens: input.maxTokens ?? null,
+        costPerToken: input.costPerToken ?? null,
+        monthlyBudget: input.monthlyBudget ?? null,
+      },
+    });
+
+    aiProviderRegistry.invalidate();
+    await auditRecorder.record({
+      userId: actorId,
+      action: AuditAction.CREATE,
+      resource: 'ai_configuration',
+      resourceId: configuration.id,
+      after: configuration,
+    });
+
+    return toView(configuration);
+  }
+
+  async update(id: string, input: Partial<AIConfigurationInput>, actorId: string): Promise<AIConfigurationView> {
+    const existing = await this.findOrThrow(id);
+    this.assertEndpoint(
+      input.provider ?? (existing.provider as ConfigurableAIProvider),
+      input.endpoint !== undefined ? input.endpoint : existing.endpoint
+    );
+
+    const data: Prisma.AIConfigurationUpdateInput = {
+      provider: input.provider,
+      name: input.name,
+      model: input.model,
+      endpoint: input.endpoint,
+      isActive: input.isActive,
+      rateLimit: input.rateLimit,
+      maxTokens: input.maxTokens,
+      costPerToken: input.costPerToken,
+      monthlyBudget: input.monthlyBudget,
+    };
+    if (input.parameters !== undefined) {
+      data.parameters = input.parameters === null ? Prisma.DbNull : (input.parameters as Prisma.InputJsonValue);
+    }
+    // An omitted key keeps the stored one
+    if (input.apiKey !== undefined) {
+      data.apiKey = input.apiKey ? encryptSecret(input.apiKey, config.ai.keyEncryptionSecret) : null;
+    }
+
+    const configuration = await prisma.aIConfiguration.update({ where: { id }, data });
+
+    aiProviderRegistry.invalidate();
+    await auditRecorder.record({
+      userId: actorId,
+      action: AuditAction.UPDATE,
+      resource: 'ai_configuration',
+      resourceId: id,
+      before: existing,
+      after: configuration,
+      // Keys are redacted in the diff, so a key change would not show otherwise
+      metadata: input.apiKey !== undefined ? { apiKeyChanged: true } : undefined,
+    });
+
+    return toView(configuration);
+  }
+
+  /**
+   * Delete a configuration. Its usage logs are kept for reporting, detached
+   * from the configuration.
+   */
+  async delete(id: string, actorId: string): Promise<void> {
+    const existing = await this.findOrThrow(id);
+    await prisma.aIConfiguration.delete({ where: { id } });
+
+    aiProviderRegistry.invalidate();
+    await auditRecorder.record({
+      userId: actorId,
+      action: AuditAction.DELETE,
+      resource: 'ai_configuration',
+      resourceId: id,
+      before: existing,
+    });
+  }
+
+  private async findOrThrow(id: string): Promise<AIConfiguration> {
+    const configuration = await prisma.aIConfiguration.findUnique({ where: { id } });
+    if (!configuration) {
+      throw new AppError('AI configuration not found', 404, true, 'AI_CONFIGURATION_NOT_FOUND');
+    }
+    return configuration;
+  }
+
+  private assertEndpoint(provider: ConfigurableAIProvider, endpoint: string | null | undefined): void {
+    if (provider === 'CUSTOM' && !endpoint) {
+      throw new AppError('CUSTOM configurations need an endpoint', 400, true, 'AI_ENDPOINT_REQUIRED');
+    }
+  }
+}
+
+export const aiConfigurationService = new AIConfigurationService();
+export default aiConfigurationService;
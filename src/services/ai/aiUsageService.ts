@@ -0,0 +1,207 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/config/database';
+import { logger } from '@/utils/logger';
+import { AppError } from '@/types';
+import { AIConfigurationLimits } from './providerRegistry';
+import { budgetPeriodStart, isBudgetExhausted } from './usageMetering';
+
+const RATE_LIMIT_WINDOW_MS = 60 * 1000;
+
+export interface AIUsageEntry {
+  configurationId: string | null;
+  provider: string;
+  model: string;
+  requestType: string; // question_generation, ...
+  tokensUsed: number;
+  cost: number | null;
+  responseTime: number; // Milliseconds
+  success: boolean;
+  errorMessage?: string;
+  userId?: string | null;
+  resourceId?: string | null; // Video or milestone the request was for
+  metadata?: Record<string, unknown>;
+}
+
+export interface UsageTotals {
+  requests: number;
+  failedRequests: number;
+  tokensUsed: number;
+  cost: number;
+  averageResponseTime: number;
+}
+
+interface UsageGroup {
+  _count: { _all: number };
+  _sum: { tokensUsed: number | null; cost: number | null };
+  _avg: { responseTime: number | null };
+}
+
+const toTotals = (group: UsageGroup | undefined, failedRequests: number): UsageTotals => ({
+  requests: group?._count._all ?? 0,
+  failedRequests,
+  tokensUsed: group?._sum.tokensUsed ?? 0,
+  cost: group?._sum.cost ?? 0,
+  averageResponseTime: Math.round(group?._avg.responseTime ?? 0),
+});
+
+class AIUsageService {
+  /**
+   * Refuse a request that would go over the configuration's requests per
+   * minute or whose monthly budget is already spent. Providers set up
+   * through environment variables have no limits.
+   */
+  async assertWithinLimits(configuration: AIConfigurationLimits | null, now: Date = new Date()): Promise<void> {
+    if (!configuration) return;
+
+    if (configuration.rateLimit !== null) {
+      const recent = await prisma.aIUsageLog.count({
+        where: {
+          configurationId: configuration.id,
+          createdAt: { gte: new Date(now.getTime() - RATE_LIMIT_WINDOW_MS) },
+        },
+      });
+      if (recent >= configuration.rateLimit) {
+        throw new AppError(
+          `AI configuration "${configuration.name}" allows ${configuration.rateLimit} requests per minute. Please try again shortly.`,
+          429,
+          true,
+          'AI_RATE_LIMITED'
+        );
+      }
+    }
+
+    if (configuration.monthlyBudget !== null) {
+      const periodStart = budgetPeriodStart(now);
+      const spent = await this.spentSince(configuration.id, periodStart);
+      if (isBudgetExhausted(spent, configuration.monthlyBudget)) {
+        const resetsAt = new Date(Date.UTC(periodStart.getUTCFullYear(), periodStart.getUTCMonth() + 1, 1));
+        throw new AppError(
+          `The monthly AI budget of ${configuration.monthlyBudget} for "${configuration.name}" has been used up. It resets on ${resetsAt.toISOString().slice(0, 10)}.`,
+          402,
+          true,
+          'AI_BUDGET_EXCEEDED',
+          { budget: configuration.monthlyBudget, spent, resetsAt: resetsAt.toISOString() }
+        );
+      }
+    }
+  }
+
+  /**
+   * Write a usage log entry. Failures are logged and never reach the
+   * caller; a generated result is not thrown away over bookkeeping.
+   */
+  async record(entry: AIUsageEntry): Promise<void> {
+    try {
+      await prisma.aIUsageLog.create({
+        data: {
+          configurationId: entry.configurationId,
+          provider: entry.provider,
+          model: entry.model,
+          requestType: entry.requestType,
+          tokensUsed: entry.tokensUsed,
+          cost: entry.cost,
+          responseTime: entry.responseTime,
+          success: entry.success,
+          errorMessage: entry.errorMessage?.slice(0, 1000),
+          userId: entry.userId ?? null,
+          resourceId: entry.resourceId ?? null,
+          metadata: entry.metadata as Prisma.InputJsonValue | undefined,
+        },
+      });
+    } catch (error) {
+      logger.error('Failed to record AI usage', {
+        provider: entry.provider,
+        requestType: entry.requestType,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  /**
+   * Usage between two dates per teacher and per configuration, with each
+   * configuration's spend against its budget for the current month
+   */
+  async getUsageReport(range: { from: Date; to: Date }, now: Date = new Date()) {
+    const where: Prisma.AIUsageLogWhereInput = { createdAt: { gte: range.from, lte: range.to } };
+    const aggregates = {
+      _count: { _all: true },
+      _sum: { tokensUsed: true, cost: true },
+      _avg: { responseTime: true },
+    } as const;
+
+    const [total, byUser, failedByUser, byConfiguration, failedByConfiguration] = await Promise.all([
+      prisma.aIUsageLog.aggregate({ where, ...aggregates }),
+      prisma.aIUsageLog.groupBy({ by: ['userId'], where, ...aggregates }),
+      prisma.aIUsageLog.groupBy({ by: ['userId'], where: { ...where, success: false }, _count: { _all: true } }),
+      prisma.aIUsageLog.groupBy({ by: ['configurationId', 'provider'], where, ...aggregates }),
+      prisma.aIUsageLog.groupBy({
+        by: ['configurationId', 'provider'],
+        where: { ...where, success: false },
+        _count: { _all: true },
+      }),
+    ]);
+    const failedTotal = failedByUser.reduce((sum, group) => sum + group._count._all, 0);
+
+    const userIds = byUser.map(group => group.userId).filter((id): id is string => id !== null);
+    const configurationIds = byConfiguration.map(group => group.configurationId).filter((id): id is string => id !== null);
+    const periodStart = budgetPeriodStart(now);
+
+    const [users, configurations, monthSpend] = await Promise.all([
+      prisma.user.findMany({
+        where: { id: { in: userIds } },
+        select: { id: true, firstName: true, lastName: true, email: true, role: true },
+      }),
+      prisma.aIConfiguration.findMany({
+        where: { id: { in: configurationIds } },
+        select: { id: true, name: true, provider: true, model: true, monthlyBudget: true },
+      }),
+      prisma.aIUsageLog.groupBy({
+        by: ['configurationId'],
+        where: { configurationId: { in: configurationIds }, createdAt: { gte: periodStart } },
+        _sum: { cost: true },
+      }),
+    ]);
+
+    return {
+      range: { from: range.from.toISOString(), to: range.to.toISOString() },
+      total: toTotals(total, failedTotal),
+      byUser: byUser
+        .map(group => ({
+          user: users.find(user => user.id === group.userId) ?? null,
+          ...toTotals(group, failedByUser.find(failed => failed.userId === group.userId)?._count._all ?? 0),
+        }))
+        .sort((a, b) => b.cost - a.cost || b.tokensUsed - a.tokensUsed),
+      byConfiguration: byConfiguration
+        .map(group => {
+          const configuration = configurations.find(candidate => candidate.id === group.configurationId) ?? null;
+          const failed = failedByConfiguration.find(candidate =>
+            candidate.configurationId === group.configurationId && candidate.provider === group.provider);
+          return {
+            configurationId: group.configurationId,
+            provider: group.provider,
+            name: configuration?.name ?? null, // Null for environment providers and deleted configurations
+            model: configuration?.model ?? null,
+            ...toTotals(group, failed?._count._all ?? 0),
+            budget: configuration?.monthlyBudget != null
+              ? {
+                  monthlyBudget: configuration.monthlyBudget,
+                  spentThisMonth: monthSpend.find(spend => spend.configurationId === configuration.id)?._sum.cost ?? 0,
+                }
+              : null,
+          };
+        })
+        .sort((a, b) => b.cost - a.cost || b.tokensUsed - a.tokensUsed),
+    };
+  }
+
+  private async spentSince(configurationId: string, since: Date): Promise<number> {
+    const result = await prisma.aIUsageLog.aggregate({
+      where: { configurationId, createdAt: { gte: since } },
+      _sum: { cost: true },
+    });
+    return result._sum.cost ?? 0;
+  }
+}
+
+export const aiUsageService = new AIUsageService();
+export default aiUsageService;
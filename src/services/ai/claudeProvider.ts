@@ -0,0 +1,36 @@
+import Anthropic from '@anthropic-ai/sdk';
+import { AICompletion, AICompletionRequest, AIProvider } from './types';
+
+export class ClaudeProvider implements AIProvider {
+  readonly name = 'CLAUDE' as const;
+  readonly model: string;
+  private readonly client: Anthropic;
+
+  constructor(apiKey: string, model?: string) {
+    this.client = new Anthropic({ apiKey });
+    this.model = model || process.env.ANTHROPIC_MODEL || 'claude-3-sonnet-20240229';
+  }
+
+  async complete(request: AICompletionRequest): Promise<AICompletion> {
+    const message = await this.client.messages.create({
+      model: this.model,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      messages: [
+        { role: 'user', content: request.prompt }
+      ]
+    });
+
+    const content = message.content[0]?.type === 'text' ? message.content[0].text : '';
+    if (!content) {
+      throw new Error('No response from Claude');
+    }
+
+    return {
+      content,
+      usage: message.usage
+        ? { inputTokens: message.usage.input_tokens, outputTokens: message.usage.output_tokens }
+        : null
+    };
+  }
+}
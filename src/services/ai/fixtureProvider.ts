@@ -0,0 +1,92 @@
+import { AICompletion, AICompletionRequest, AIProvider, GeneratedQuestionType } from './types';
+
+interface FixtureQuestion {
+  type: GeneratedQuestionType;
+  question: string;
+  options?: string[];
+  correctAnswer: string;
+  explanation: string;
+}
+
+// Fixed pool the provider cycles through, one list per question type
+const FIXTURE_QUESTIONS: Record<GeneratedQuestionType, FixtureQuestion[]> = {
+  MULTIPLE_CHOICE: [
+    {
+      type: 'MULTIPLE_CHOICE',
+      question: 'Which statement best summarises this part of the video?',
+      options: ['It introduces the main concept', 'It reviews an unrelated topic', 'It lists the credits', 'It contains no new information'],
+      correctAnswer: 'It introduces the main concept',
+      explanation: 'This section presents the concept the rest of the video builds on.'
+    },
+    {
+      type: 'MULTIPLE_CHOICE',
+      question: 'What is the best next step after the example shown?',
+      options: ['Skip to the end', 'Apply the method to a new problem', 'Ignore the result', 'Start the video again'],
+      correctAnswer: 'Apply the method to a new problem',
+      explanation: 'Practising on a new problem checks that the method was understood.'
+    }
+  ],
+  TRUE_FALSE: [
+    {
+      type: 'TRUE_FALSE',
+      question: 'The video explains the concept before showing an example.',
+      correctAnswer: 'True',
+      explanation: 'The explanation comes first, followed by a worked example.'
+    },
+    {
+      type: 'TRUE_FALSE',
+      question: 'The method shown only works for a single special case.',
+      correctAnswer: 'False',
+      explanation: 'The method is presented as a general approach.'
+    }
+  ],
+  SHORT_ANSWER: [
+    {
+      type: 'SHORT_ANSWER',
+      question: 'In one sentence, what is the main idea of this section?',
+      correctAnswer: 'The main concept introduced in the video',
+      explanation: 'A good answer restates the central concept in your own words.'
+    },
+    {
+      type: 'SHORT_ANSWER',
+      question: 'Name one situation where you could use what was just explained.',
+      correctAnswer: 'A practical example applying the concept',
+      explanation: 'Connecting the idea to a real situation shows understanding.'
+    }
+  ]
+};
+
+/**
+ * Deterministic provider for offline development and tests. It never calls
+ * a model: the same request always yields the same questions, spread evenly
+ * over the transcript window when there is one.
+ */
+export class FixtureProvider implements AIProvider {
+  readonly name = 'FIXTURE' as const;
+  readonly model = 'fixture';
+
+  async complete({ spec }: AICompletionRequest): Promise<AICompletion> {
+    const types = spec.questionTypes.length > 0 ? spec.questionTypes : (['MULTIPLE_CHOICE'] as GeneratedQuestionType[]);
+    const window = spec.transcriptWindow ?? { start: 60, end: 60 * (spec.questionCount + 1) };
+    const step = (window.end - window.start) / spec.questionCount;
+
+    const questions = Array.from({ length: spec.questionCount }, (_, index) => {
+      const type = types[index % types.length];
+      const pool = FIXTURE_QUESTIONS[type];
+      const fixture = pool[Math.floor(index / types.length) % pool.length];
+
+      return {
+        ...fixture,
+        suggestedTimestamp: Math.floor(window.start + step * index)
+      };
+    });
+
+    const content = JSON.stringify({
+      milestoneTitle: `Interactive Quiz: ${spec.videoTitle}`,
+      milestoneDescription: `Practice questions (${spec.difficulty.toLowerCase()})`,
+      questions
+    });
+
+    return { content, usage: null };
+  }
+}
@@ -0,0 +1,70 @@
+import { AICompletion, AICompletionRequest, AIProvider } from './types';
+
+export interface OpenAICompatibleOptions {
+  endpoint: string; // Base URL, e.g. http://localhost:11434/v1
+  model: string;
+  apiKey?: string | null;
+  timeoutMs: number;
+  temperature?: number;
+  maxTokens?: number;
+}
+
+interface ChatCompletionResponse {
+  choices?: Array<{ message?: { content?: string | null } }>;
+  usage?: { prompt_tokens?: number; completion_tokens?: number };
+}
+
+/**
+ * Provider for any server that speaks the OpenAI chat completions API
+ * (llama.cpp, Ollama, vLLM, LM Studio, ...). Configured through an active
+ * AIConfiguration with provider CUSTOM and an endpoint.
+ */
+export class OpenAICompatibleProvider implements AIProvider {
+  readonly name = 'CUSTOM' as const;
+  readonly model: string;
+
+  constructor(private readonly options: OpenAICompatibleOptions) {
+    this.model = options.model;
+  }
+
+  async complete(request: AICompletionRequest): Promise<AICompletion> {
+    const url = `${this.options.endpoint.replace(/\/+$/, '')}/chat/completions`;
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.options.apiKey) {
+      headers.Authorization = `Bearer ${this.options.apiKey}`;
+    }
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: this.model,
+        messages: [
+          { role: 'system', content: request.systemPrompt },
+          { role: 'user', content: request.prompt }
+        ],
+        temperature: this.options.temperature ?? request.temperature,
+        max_tokens: this.options.maxTokens ?? request.maxTokens
+      }),
+      signal: AbortSignal.timeout(this.options.timeoutMs)
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new Error(`AI endpoint responded with ${response.status}: ${detail.slice(0, 200)}`);
+    }
+
+    const body = (await response.json()) as ChatCompletionResponse;
+    const content = body.choices?.[0]?.message?.content;
+    if (!content) {
+      throw new Error('No response from AI endpoint');
+    }
+
+    // Usage is optional in OpenAI-compatible servers; some local ones leave it out
+    const usage = typeof body.usage?.prompt_tokens === 'number' && typeof body.usage.completion_tokens === 'number'
+      ? { inputTokens: body.usage.prompt_tokens, outputTokens: body.usage.completion_tokens }
+      : null;
+
+    return { content, usage };
+  }
+}
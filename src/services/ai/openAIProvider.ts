@@ -0,0 +1,37 @@
+import OpenAI from 'openai';
+import { AICompletion, AICompletionRequest, AIProvider } from './types';
+
+export class OpenAIProvider implements AIProvider {
+  readonly name = 'OPENAI' as const;
+  readonly model: string;
+  private readonly client: OpenAI;
+
+  constructor(apiKey: string, model?: string) {
+    this.client = new OpenAI({ apiKey });
+    this.model = model || process.env.OPENAI_MODEL || 'gpt-4';
+  }
+
+  async complete(request: AICompletionRequest): Promise<AICompletion> {
+    const completion = await this.client.chat.completions.create({
+      model: this.model,
+      messages: [
+        { role: 'system', content: request.systemPrompt },
+        { role: 'user', content: request.prompt }
+      ],
+      temperature: request.temperature,
+      max_tokens: request.maxTokens
+    });
+
+    const content = completion.choices[0]?.message?.content;
+    if (!content) {
+      throw new Error('No response from OpenAI');
+    }
+
+    return {
+      content,
+      usage: completion.usage
+        ? { inputTokens: completion.usage.prompt_tokens, outputTokens: completion.usage.completion_tokens }
+        : null
+    };
+  }
+}
@@ -0,0 +1,179 @@
+import { AIConfiguration } from '@prisma/client';
+import { prisma } from '@/config/database';
+import { config } from '@/config/environment';
+import { logger } from '@/utils/logger';
+import { AIProvider, AIProviderName, CONFIGURABLE_AI_PROVIDERS } from './types';
+import { OpenAIProvider } from './openAIProvider';
+import { ClaudeProvider } from './claudeProvider';
+import { FixtureProvider } from './fixtureProvider';
+import { OpenAICompatibleProvider } from './openAICompatibleProvider';
+import { decryptSecret } from './secretBox';
+
+// Order used when the caller does not pick a provider
+const PROVIDER_PREFERENCE: AIProviderName[] = ['OPENAI', 'CLAUDE', 'CUSTOM', 'FIXTURE'];
+
+// How long loaded AI configurations are reused before re-reading the table
+const CONFIGURATION_TTL_MS = 60 * 1000;
+
+/**
+ * The limits and pricing of the AI configuration a provider was built from
+ */
+export interface AIConfigurationLimits {
+  id: string;
+  name: string;
+  rateLimit: number | null; // Requests per minute
+  maxTokens: number | null;
+  costPerToken: number | null;
+  monthlyBudget: number | null;
+}
+
+export interface ResolvedAIProvider {
+  provider: AIProvider;
+  configuration: AIConfigurationLimits | null; // Null for providers set up through environment variables
+}
+
+class AIProviderRegistry {
+  private readonly providers = new Map<AIProviderName, AIProvider>();
+  private configured = new Map<AIProviderName, ResolvedAIProvider>();
+  private configurationLoadedAt = 0;
+
+  /**
+   * Register the providers configured through environment variables
+   */
+  initialize(): void {
+    if (config.ai.openai.apiKey) {
+      this.providers.set('OPENAI', new OpenAIProvider(config.ai.openai.apiKey));
+    }
+
+    if (config.ai.anthropic.apiKey) {
+      this.providers.set('CLAUDE', new ClaudeProvider(config.ai.anthropic.apiKey));
+    }
+
+    if (config.ai.fixtureProvider) {
+      this.providers.set('FIXTURE', new FixtureProvider());
+    }
+  }
+
+  async getAvailableProviders(): Promise<AIProviderName[]> {
+    await this.loadConfigurations();
+    return PROVIDER_PREFERENCE.filter(name => this.configured.has(name) || this.providers.has(name));
+  }
+
+  /**
+   * Get the requested provider, or the preferred available one. An active
+   * AI configuration takes precedence over the environment for its provider.
+   */
+  async resolve(name?: AIProviderName): Promise<ResolvedAIProvider> {
+    await this.loadConfigurations();
+
+    const lookup = (candidate: AIProviderName): ResolvedAIProvider | undefined => {
+      const configured = this.configured.get(candidate);
+      if (configured) return configured;
+      const provider = this.providers.get(candidate);
+      return provider ? { provider, configuration: null } : undefined;
+    };
+
+    const resolved = name
+      ? lookup(name)
+      : PROVIDER_PREFERENCE.map(lookup).find(Boolean);
+
+    if (!resolved) {
+      throw new Error(name
+        ? `No AI provider available for ${name}`
+        : 'No AI provider available. Please configure OPENAI_API_KEY, ANTHROPIC_API_KEY or an AI configuration.');
+    }
+
+    return resolved;
+  }
+
+  /**
+   * Forget the loaded configurations so the next request re-reads them
+   */
+  invalidate(): void {
+    this.configurationLoadedAt = 0;
+  }
+
+  /**
+   * Build a provider from the most recently updated usable active
+   * configuration of each configurable provider. OPENAI and CLAUDE
+   * configurations without a key of their own use the environment key.
+   */
+  private async loadConfigurations(): Promise<void> {
+    if (Date.now() - this.configurationLoadedAt < CONFIGURATION_TTL_MS) {
+      return;
+    }
+
+    try {
+      const configurations = await prisma.aIConfiguration.findMany({
+        where: { provider: { in: [...CONFIGURABLE_AI_PROVIDERS] }, isActive: true },
+        orderBy: { updatedAt: 'desc' }
+      });
+
+      const configured = new Map<AIProviderName, ResolvedAIProvider>();
+      for (const configuration of configurations) {
+        const name = configuration.provider as AIProviderName;
+        if (configured.has(name)) continue;
+
+        const provider = this.buildProvider(configuration);
+        if (provider) {
+          configured.set(name, {
+            provider,
+            configuration: {
+              id: configuration.id,
+              name: configuration.name,
+              rateLimit: configuration.rateLimit,
+              maxTokens: configuration.maxTokens,
+              costPerToken: configuration.costPerToken,
+              monthlyBudget: configuration.monthlyBudget
+            }
+          });
+        }
+      }
+
+      this.configured = configured;
+      this.configurationLoadedAt = Date.now();
+    } catch (error) {
+      logger.error('Failed to load AI configurations:', error);
+    }
+  }
+
+  private buildProvider(configuration: AIConfiguration): AIProvider | null {
+    let apiKey: string | null = null;
+    if (configuration.apiKey) {
+      try {
+        apiKey = decryptSecret(configuration.apiKey, config.ai.keyEncryptionSecret);
+      } catch (error) {
+        logger.error(`Cannot decrypt the API key of AI configuration ${configuration.id}:`, error);
+        return null;
+      }
+    }
+
+    switch (configuration.provider) {
+      case 'OPENAI': {
+        const key = apiKey ?? config.ai.openai.apiKey;
+        return key ? new OpenAIProvider(key, configuration.model) : null;
+      }
+      case 'CLAUDE': {
+        const key = apiKey ?? config.ai.anthropic.apiKey;
+        return key ? new ClaudeProvider(key, configuration.model) : null;
+      }
+      case 'CUSTOM': {
+        if (!configuration.endpoint) return null;
+        const parameters = (configuration.parameters ?? {}) as { temperature?: unknown };
+        return new OpenAICompatibleProvider({
+          endpoint: configuration.endpoint,
+          model: configuration.model,
+          apiKey,
+          timeoutMs: config.ai.requestTimeoutMs,
+          temperature: typeof parameters.temperature === 'number' ? parameters.temperature : undefined,
+          maxTokens: configuration.maxTokens ?? undefined
+        });
+      }
+      default:
+        return null;
+    }
+  }
+}
+
+export const aiProviderRegistry = new AIProviderRegistry();
+export default aiProviderRegistry;
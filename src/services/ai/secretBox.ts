@@ -0,0 +1,40 @@
+import crypto from 'crypto';
+
+const ALGORITHM = 'aes-256-gcm';
+const IV_BYTES = 12;
+const PREFIX = 'enc:v1';
+
+const keyFor = (secret: string): Buffer => crypto.createHash('sha256').update(secret).digest();
+
+/**
+ * Encrypt a provider API key for storage. The result carries its own IV and
+ * authentication tag: `enc:v1:<iv>:<tag>:<ciphertext>`, base64url encoded.
+ */
+export const encryptSecret = (plaintext: string, secret: string): string => {
+  const iv = crypto.randomBytes(IV_BYTES);
+  const cipher = crypto.createCipheriv(ALGORITHM, keyFor(secret), iv);
+  const encrypted = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  return [PREFIX, iv.toString('base64url'), cipher.getAuthTag().toString('base64url'), encrypted.toString('base64url')].join(':');
+};
+
+export const isEncryptedSecret = (value: string): boolean => value.startsWith(`${PREFIX}:`);
+
+/**
+ * Decrypt a stored API key. Keys saved before encryption was introduced are
+ * returned as they are. Throws if the value was tampered with or encrypted
+ * under another secret.
+ */
+export const decryptSecret = (stored: string, secret: string): string => {
+  if (!isEncryptedSecret(stored)) return stored;
+
+  const [iv, tag, encrypted] = stored.slice(PREFIX.length + 1).split(':');
+  const decipher = crypto.createDecipheriv(ALGORITHM, keyFor(secret), Buffer.from(iv, 'base64url'));
+  decipher.setAuthTag(Buffer.from(tag, 'base64url'));
+  return Buffer.concat([decipher.update(Buffer.from(encrypted, 'base64url')), decipher.final()]).toString('utf8');
+};
+
+/**
+ * Last characters of a key, enough for an admin to tell keys apart
+ */
+export const maskSecret = (plaintext: string): string =>
+  plaintext.length > 8 ? `••••${plaintext.slice(-4)}` : '••••';
@@ -0,0 +1,49 @@
+export type AIProviderName = 'OPENAI' | 'CLAUDE' | 'CUSTOM' | 'FIXTURE';
+
+// Providers that can be set up through an AI configuration. GOOGLE_PALM is
+// in the schema but has no provider implementation.
+export const CONFIGURABLE_AI_PROVIDERS = ['OPENAI', 'CLAUDE', 'CUSTOM'] as const;
+
+export type ConfigurableAIProvider = typeof CONFIGURABLE_AI_PROVIDERS[number];
+
+export type GeneratedQuestionType = 'MULTIPLE_CHOICE' | 'TRUE_FALSE' | 'SHORT_ANSWER';
+
+/**
+ * What the caller asked for, alongside the prompt. Model-backed providers
+ * only need the prompt; the fixture provider answers from this instead.
+ */
+export interface QuestionSpec {
+  videoTitle: string;
+  questionCount: number;
+  questionTypes: GeneratedQuestionType[];
+  difficulty: 'EASY' | 'MEDIUM' | 'HARD';
+  transcriptWindow?: { start: number; end: number };
+}
+
+export interface AICompletionRequest {
+  systemPrompt: string;
+  prompt: string;
+  temperature: number;
+  maxTokens: number;
+  spec: QuestionSpec;
+}
+
+export interface AITokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface AICompletion {
+  content: string;
+  usage: AITokenUsage | null; // Null when the provider does not report token counts
+}
+
+/**
+ * A source of question-generation completions. Implementations return the
+ * raw model text; parsing and validation stay in AIQuestionService.
+ */
+export interface AIProvider {
+  readonly name: AIProviderName;
+  readonly model: string;
+  complete(request: AICompletionRequest): Promise<AICompletion>;
+}
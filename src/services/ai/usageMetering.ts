@@ -0,0 +1,31 @@
+import { AITokenUsage } from './types';
+
+// Rough English average, used when a provider does not report token counts
+const CHARACTERS_PER_TOKEN = 4;
+
+export interface MeteredTokens {
+  tokensUsed: number;
+  estimated: boolean;
+}
+
+export const estimateTokens = (text: string): number => Math.ceil(text.length / CHARACTERS_PER_TOKEN);
+
+/**
+ * Tokens to bill for a request: the provider's own count when it sent one,
+ * otherwise an estimate from the prompt and response text
+ */
+export const meterTokens = (usage: AITokenUsage | null, prompt: string, response = ''): MeteredTokens =>
+  usage
+    ? { tokensUsed: usage.inputTokens + usage.outputTokens, estimated: false }
+    : { tokensUsed: estimateTokens(prompt) + estimateTokens(response), estimated: true };
+
+export const usageCost = (tokensUsed: number, costPerToken: number | null): number | null =>
+  costPerToken === null ? null : tokensUsed * costPerToken;
+
+/**
+ * Start of the calendar month (UTC) that `now` falls in; budgets reset then
+ */
+export const budgetPeriodStart = (now: Date): Date => new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+
+export const isBudgetExhausted = (spent: number, monthlyBudget: number | null): boolean =>
+  monthlyBudget !== null && spent >= monthlyBudget;
@@ -0,0 +1,28 @@
+import { countByValue, resolveDashboardRange, DEFAULT_RANGE_DAYS } from '../dashboardRange';
+
+describe('dashboardRange', () => {
+  const now = new Date('2026-10-19T12:00:00Z');
+
+  it('should default to a window ending now', () => {
+    const range = resolveDashboardRange(undefined, undefined, now);
+    expect(range!.to).toEqual(now);
+    expect(now.getTime() - range!.from.getTime()).toBe(DEFAULT_RANGE_DAYS * 24 * 60 * 60 * 1000);
+  });
+
+  it('should honour explicit bounds and reject inverted or overly long ones', () => {
+    expect(resolveDashboardRange('2026-10-01T00:00:00Z', '2026-10-10T00:00:00Z', now)).toEqual({
+      from: new Date('2026-10-01T00:00:00Z'),
+      to: new Date('2026-10-10T00:00:00Z')
+    });
+    expect(resolveDashboardRange('2026-10-10T00:00:00Z', '2026-10-01T00:00:00Z', now)).toBeNull();
+    expect(resolveDashboardRange('2024-01-01T00:00:00Z', undefined, now)).toBeNull();
+  });
+
+  it('should fill missing values with zero counts', () => {
+    expect(countByValue(['ADMIN', 'TEACHER', 'STUDENT'], [{ value: 'STUDENT', count: 4 }])).toEqual({
+      ADMIN: 0,
+      TEACHER: 0,
+      STUDENT: 4
+    });
+  });
+});
@@ -0,0 +1,42 @@
+import { buildEngagementHeatmap, buildWatchedIntervals, PlaybackEvent } from '../engagementHeatmap';
+
+const at = (seconds: number) => new Date(Date.UTC(2026, 9, 19, 12, 0, seconds));
+
+describe('engagementHeatmap', () => {
+  it('should split watched intervals at seeks and ignore playback that never ended', () => {
+    const events: PlaybackEvent[] = [
+      { type: 'video_play', timestamp: at(0), data: { position: 0 } },
+      { type: 'video_seek', timestamp: at(4), data: { from: 4, to: 8 } },
+      { type: 'video_pause', timestamp: at(6), data: { position: 10 } },
+      { type: 'video_seek', timestamp: at(7), data: { from: 10, to: 2 } },
+      { type: 'video_play', timestamp: at(8), data: { position: 2 } }
+    ];
+
+    expect(buildWatchedIntervals(events)).toEqual([
+      { start: 0, end: 4 },
+      { start: 8, end: 10 }
+    ]);
+  });
+
+  it('should count rewatches as views but each viewer once', () => {
+    const heatmap = buildEngagementHeatmap([
+      [{ start: 0, end: 3 }, { start: 1, end: 2 }],
+      [{ start: 2, end: 4 }]
+    ], 4);
+
+    expect(heatmap.totalViewers).toBe(2);
+    expect(heatmap.buckets.map(bucket => bucket.views)).toEqual([1, 2, 2, 1]);
+    expect(heatmap.buckets.map(bucket => bucket.viewers)).toEqual([1, 1, 2, 1]);
+  });
+
+  it('should record where each viewer stopped watching', () => {
+    const heatmap = buildEngagementHeatmap([
+      [{ start: 0, end: 2.5 }],
+      [{ start: 0, end: 5 }],
+      []
+    ], 5);
+
+    expect(heatmap.totalViewers).toBe(2);
+    expect(heatmap.buckets.map(bucket => bucket.dropOffs)).toEqual([0, 0, 1, 0, 1]);
+  });
+});
@@ -0,0 +1,47 @@
+import { validateAnalyticsEvent } from '../eventCatalogue';
+
+describe('eventCatalogue', () => {
+  const now = new Date('2026-10-19T12:00:00Z');
+
+  it('should accept a catalogued event and drop unknown payload fields', () => {
+    const result = validateAnalyticsEvent({
+      type: 'video_seek',
+      occurredAt: '2026-10-19T11:59:00Z',
+      sessionId: 'session-1',
+      data: { videoId: 'video-1', from: 12.5, to: 80, extra: 'ignored' }
+    }, now);
+
+    expect(result).toEqual({
+      ok: true,
+      event: {
+        type: 'video_seek',
+        occurredAt: new Date('2026-10-19T11:59:00Z'),
+        sessionId: 'session-1',
+        data: { videoId: 'video-1', from: 12.5, to: 80 }
+      }
+    });
+  });
+
+  it('should reject unknown types and invalid payloads', () => {
+    const occurredAt = '2026-10-19T11:59:00Z';
+    expect(validateAnalyticsEvent({ type: 'page_view', occurredAt, data: {} }, now).ok).toBe(false);
+    expect(validateAnalyticsEvent({ type: 'toString', occurredAt, data: {} }, now).ok).toBe(false);
+    expect(validateAnalyticsEvent({
+      type: 'video_rate_change',
+      occurredAt,
+      data: { videoId: 'video-1', position: 3, rate: -1 }
+    }, now).ok).toBe(false);
+    expect(validateAnalyticsEvent({
+      type: 'question_answered',
+      occurredAt,
+      data: { videoId: 'video-1', milestoneId: 'm-1', questionId: 'q-1', isCorrect: 'yes' }
+    }, now).ok).toBe(false);
+  });
+
+  it('should reject events from too far in the past or future', () => {
+    const data = { videoId: 'video-1', position: 0 };
+    expect(validateAnalyticsEvent({ type: 'video_play', occurredAt: '2026-10-17T12:00:00Z', data }, now).ok).toBe(false);
+    expect(validateAnalyticsEvent({ type: 'video_play', occurredAt: '2026-10-19T13:00:00Z', data }, now).ok).toBe(false);
+    expect(validateAnalyticsEvent({ type: 'video_play', occurredAt: 'yesterday', data }, now).ok).toBe(false);
+  });
+});
@@ -0,0 +1,64 @@
+import { analyseItem, AnalysedAttempt, itemAnalysisToCsv } from '../itemAnalysis';
+
+const attempt = (studentId: string, isCorrect: boolean, overrides: Partial<AnalysedAttempt> = {}): AnalysedAttempt => ({
+  studentId,
+  attemptNumber: 1,
+  isCorrect,
+  timeSpent: 10,
+  hintsUsed: 0,
+  studentAnswer: isCorrect ? 0 : 1,
+  ...overrides
+});
+
+const question = {
+  id: 'q1',
+  text: 'Which planet is largest?',
+  type: 'MULTIPLE_CHOICE',
+  questionData: { options: ['Jupiter', 'Mars', 'Venus'], correctAnswerIndex: 0 }
+};
+
+describe('itemAnalysis', () => {
+  it('should use first attempts for difficulty and option selection rates', () => {
+    const item = analyseItem(question, [
+      attempt('s1', false, { studentAnswer: 'Venus', timeSpent: 30, hintsUsed: 1 }),
+      attempt('s1', true, { attemptNumber: 2, timeSpent: 20 }),
+      attempt('s2', true, { timeSpent: 0 }),
+      attempt('s3', false, { studentAnswer: 'Pluto' })
+    ], new Map());
+
+    expect(item.students).toBe(3);
+    expect(item.totalAttempts).toBe(4);
+    expect(item.difficultyIndex).toBeCloseTo(1 / 3);
+    expect(item.distractors!.map(option => [option.text, option.selections, option.isCorrect])).toEqual([
+      ['Jupiter', 1, true],
+      ['Mars', 0, false],
+      ['Venus', 1, false]
+    ]);
+    expect(item.otherSelections).toBe(1);
+    // Attempts without a recorded start are left out of the median
+    expect(item.medianTimeSpent).toBe(20);
+    expect(item.hintUsageRate).toBe(0.25);
+  });
+
+  it('should compare the upper and lower scoring groups once enough students are scored', () => {
+    const scores = new Map<string, number>();
+    const attempts: AnalysedAttempt[] = [];
+    for (let i = 0; i < 10; i++) {
+      scores.set(`s${i}`, i * 10);
+      // Only the five strongest students answer correctly
+      attempts.push(attempt(`s${i}`, i >= 5));
+    }
+
+    expect(analyseItem(question, attempts, scores).discriminationIndex).toBe(1);
+    expect(analyseItem(question, attempts.slice(0, 9), scores).discriminationIndex).toBeNull();
+  });
+
+  it('should quote CSV cells that contain separators', () => {
+    const item = analyseItem({ ...question, text: 'Say "hi", then go' }, [attempt('s1', true)], new Map());
+    const [header, row] = itemAnalysisToCsv('Intro', [item]).split('\r\n');
+
+    expect(header.startsWith('Milestone,Question ID,Question')).toBe(true);
+    expect(row).toContain('"Say ""hi"", then go"');
+    expect(row).toContain('*Jupiter: 1; Mars: 0; Venus: 0');
+  });
+});
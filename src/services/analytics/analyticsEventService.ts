@@ -0,0 +1,82 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/config/database';
+import { logger } from '@/utils/logger';
+import { settingsService } from '../settings/settingsService';
+import { validateAnalyticsEvent } from './eventCatalogue';
+
+export interface EventContext {
+  userAgent?: string;
+}
+
+export interface IngestResult {
+  // False when analytics are switched off for the platform or the user; clients stop sending
+  enabled: boolean;
+  accepted: number;
+  rejected: { index: number; error: string }[];
+}
+
+class AnalyticsEventService {
+  /**
+   * Store a batch of client events for a user. Invalid events are reported
+   * back and skipped, the rest of the batch is still recorded. Nothing is
+   * stored when the user has opted out of analytics.
+   */
+  async ingest(userId: string, rawEvents: unknown[], context: EventContext = {}): Promise<IngestResult> {
+    if (!(await settingsService.get('analytics.enabled')) || !(await this.isAllowedFor(userId))) {
+      return { enabled: false, accepted: 0, rejected: [] };
+    }
+
+    const now = new Date();
+    const rejected: IngestResult['rejected'] = [];
+    const events = rawEvents.flatMap((raw, index) => {
+      const result = validateAnalyticsEvent(raw, now);
+      if (!result.ok) {
+        rejected.push({ index, error: result.error });
+        return [];
+      }
+      return [result.event];
+    });
+
+    if (events.length === 0) {
+      return { enabled: true, accepted: 0, rejected };
+    }
+
+    // Only link events to the user's own video sessions
+    const sessionIds = [...new Set(events.map(event => event.sessionId).filter((id): id is string => id !== null))];
+    const ownSessions = sessionIds.length > 0
+      ? new Set((await prisma.studentSession.findMany({
+          where: { id: { in: sessionIds }, studentId: userId },
+          select: { id: true },
+        })).map(session => session.id))
+      : new Set<string>();
+
+    await prisma.analyticsEvent.createMany({
+      data: events.map(event => ({
+        userId,
+        sessionId: event.sessionId && ownSessions.has(event.sessionId) ? event.sessionId : null,
+        eventType: event.type,
+        eventData: event.data as Prisma.InputJsonValue,
+        context: (context.userAgent ? { userAgent: context.userAgent } : undefined) as Prisma.InputJsonValue | undefined,
+        timestamp: event.occurredAt,
+      })),
+    });
+
+    if (rejected.length > 0) {
+      logger.debug('Rejected analytics events', { userId, rejected });
+    }
+
+    return { enabled: true, accepted: events.length, rejected };
+  }
+
+  // Users without a preferences row get the schema default, which allows analytics
+  private async isAllowedFor(userId: string): Promise<boolean> {
+    const preference = await prisma.userPreference.findUnique({
+      where: { userId },
+      select: { allowAnalytics: true },
+    });
+    return preference?.allowAnalytics ?? true;
+  }
+}
+
+export const analyticsEventService = new AnalyticsEventService();
+export default analyticsEventService;
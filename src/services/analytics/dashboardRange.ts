@@ -0,0 +1,39 @@
+export const DEFAULT_RANGE_DAYS = 30;
+export const MAX_RANGE_DAYS = 366;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface DashboardRange {
+  from: Date;
+  to: Date;
+}
+
+/**
+ * Resolve the reporting window of a dashboard request. Either end may be
+ * omitted: the window ends now and spans DEFAULT_RANGE_DAYS unless told
+ * otherwise. Returns null for inverted or overly long windows.
+ */
+export const resolveDashboardRange = (from?: string, to?: string, now: Date = new Date()): DashboardRange | null => {
+  const end = to ? new Date(to) : now;
+  const start = from ? new Date(from) : new Date(end.getTime() - DEFAULT_RANGE_DAYS * DAY_MS);
+
+  if (isNaN(start.getTime()) || isNaN(end.getTime())) return null;
+  if (start > end || end.getTime() - start.getTime() > MAX_RANGE_DAYS * DAY_MS) return null;
+
+  return { from: start, to: end };
+};
+
+/**
+ * Turn Prisma groupBy rows into a count per value, with zeros for values
+ * that have no rows so every enum member is present
+ */
+export const countByValue = <K extends string>(
+  values: readonly K[],
+  rows: { value: K; count: number }[]
+): Record<K, number> => {
+  const counts = Object.fromEntries(values.map(value => [value, 0])) as Record<K, number>;
+  for (const row of rows) {
+    counts[row.value] = row.count;
+  }
+  return counts;
+};
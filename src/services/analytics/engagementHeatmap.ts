@@ -0,0 +1,146 @@
+// Builds per-second engagement from the playback events recorded by the player
+
+export interface PlaybackEvent {
+  type: string; // video_play, video_pause, video_seek, video_ended, ...
+  timestamp: Date;
+  data: {
+    position?: number;
+    from?: number;
+    to?: number;
+  };
+}
+
+export interface WatchedInterval {
+  start: number; // Seconds into the video
+  end: number;
+}
+
+export interface HeatmapBucket {
+  second: number;
+  views: number; // Every pass over the second, rewatches included
+  viewers: number; // Distinct viewers who watched the second at least once
+  dropOffs: number; // Viewers whose last watched second this was
+}
+
+export interface EngagementHeatmap {
+  duration: number;
+  totalViewers: number;
+  buckets: HeatmapBucket[];
+}
+
+/**
+ * Replay one viewer's events in order and collect the stretches of video
+ * that actually played. A seek while playing ends the current stretch at
+ * the seek origin and starts a new one at the target. A stretch still open
+ * at the end of the stream (e.g. the tab crashed) has no known end and is
+ * dropped.
+ */
+export const buildWatchedIntervals = (events: PlaybackEvent[]): WatchedInterval[] => {
+  const intervals: WatchedInterval[] = [];
+  let start: number | null = null;
+
+  const close = (end: number | undefined) => {
+    if (start !== null && end !== undefined && end > start) {
+      intervals.push({ start, end });
+    }
+    start = null;
+  };
+
+  const ordered = [...events].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  for (const event of ordered) {
+    switch (event.type) {
+      case 'video_play':
+        close(event.data.position);
+        start = event.data.position ?? null;
+        break;
+      case 'video_pause':
+      case 'video_ended':
+        close(event.data.position);
+        break;
+      case 'video_seek':
+        if (start !== null) {
+          close(event.data.from);
+          start = event.data.to ?? null;
+        }
+        break;
+    }
+  }
+
+  return intervals;
+};
+
+/**
+ * Merge overlapping intervals, for counting each second once per viewer
+ */
+export const mergeIntervals = (intervals: WatchedInterval[]): WatchedInterval[] => {
+  const merged: WatchedInterval[] = [];
+  for (const interval of [...intervals].sort((a, b) => a.start - b.start)) {
+    const last = merged[merged.length - 1];
+    if (last && interval.start <= last.end) {
+      last.end = Math.max(last.end, interval.end);
+    } else {
+      merged.push({ ...interval });
+    }
+  }
+  return merged;
+};
+
+// Second buckets an interval touches, clamped to the video
+const bucketRange = (interval: WatchedInterval, bucketCount: number): [number, number] => [
+  Math.max(0, Math.floor(interval.start)),
+  Math.min(bucketCount, Math.ceil(interval.end)),
+];
+
+/**
+ * One bucket per second of video. `intervalsByViewer` holds the watched
+ * intervals of each viewer, unmerged so rewatches add to `views`.
+ */
+export const buildEngagementHeatmap = (
+  intervalsByViewer: WatchedInterval[][],
+  duration: number
+): EngagementHeatmap => {
+  const bucketCount = Math.max(0, Math.ceil(duration));
+  // Difference arrays: +1 where coverage starts, -1 one past where it ends
+  const viewDeltas = new Array<number>(bucketCount + 1).fill(0);
+  const viewerDeltas = new Array<number>(bucketCount + 1).fill(0);
+  const dropOffs = new Array<number>(bucketCount).fill(0);
+  let totalViewers = 0;
+
+  for (const intervals of intervalsByViewer) {
+    if (intervals.length === 0) continue;
+
+    for (const interval of intervals) {
+      const [from, to] = bucketRange(interval, bucketCount);
+      if (to <= from) continue;
+      viewDeltas[from]++;
+      viewDeltas[to]--;
+    }
+
+    const merged = mergeIntervals(intervals)
+      .map(interval => bucketRange(interval, bucketCount))
+      .filter(([from, to]) => to > from);
+    if (merged.length === 0) continue;
+
+    totalViewers++;
+    for (const [from, to] of merged) {
+      viewerDeltas[from]++;
+      viewerDeltas[to]--;
+    }
+
+    // Where the viewer stopped for good: the end of the chronologically last stretch
+    const last = intervals[intervals.length - 1];
+    const lastSecond = Math.min(bucketCount, Math.ceil(last.end)) - 1;
+    if (lastSecond >= 0) dropOffs[lastSecond]++;
+  }
+
+  const buckets: HeatmapBucket[] = [];
+  let views = 0;
+  let viewers = 0;
+  for (let second = 0; second < bucketCount; second++) {
+    views += viewDeltas[second];
+    viewers += viewerDeltas[second];
+    buckets.push({ second, views, viewers, dropOffs: dropOffs[second] });
+  }
+
+  return { duration, totalViewers, buckets };
+};
@@ -0,0 +1,107 @@
+// Client-reported playback and question events accepted by POST /analytics/events
+
+export const MAX_EVENT_BATCH_SIZE = 100;
+
+// Events are buffered on the client, but not for days
+export const MAX_EVENT_AGE_MS = 24 * 60 * 60 * 1000;
+export const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+const MAX_ID_LENGTH = 64;
+const MAX_POSITION_SECONDS = 24 * 60 * 60;
+
+type FieldType = 'id' | 'position' | 'rate' | 'boolean';
+
+// Required fields of each event's payload; anything else the client sends is dropped
+export const ANALYTICS_EVENT_CATALOGUE = {
+  video_play: { videoId: 'id', position: 'position' },
+  video_pause: { videoId: 'id', position: 'position' },
+  video_seek: { videoId: 'id', from: 'position', to: 'position' },
+  video_rate_change: { videoId: 'id', position: 'position', rate: 'rate' },
+  video_ended: { videoId: 'id', position: 'position' },
+  question_shown: { videoId: 'id', milestoneId: 'id', questionId: 'id' },
+  question_answered: { videoId: 'id', milestoneId: 'id', questionId: 'id', isCorrect: 'boolean' },
+} as const satisfies Record<string, Record<string, FieldType>>;
+
+export type AnalyticsEventType = keyof typeof ANALYTICS_EVENT_CATALOGUE;
+
+export const ANALYTICS_EVENT_TYPES = Object.keys(ANALYTICS_EVENT_CATALOGUE) as AnalyticsEventType[];
+
+export interface AnalyticsEventInput {
+  type: AnalyticsEventType;
+  occurredAt: Date;
+  sessionId: string | null; // Video session the event belongs to, if one was started
+  data: Record<string, string | number | boolean>;
+}
+
+export type EventValidationResult =
+  | { ok: true; event: AnalyticsEventInput }
+  | { ok: false; error: string };
+
+const isId = (value: unknown): value is string =>
+  typeof value === 'string' && value.length > 0 && value.length <= MAX_ID_LENGTH;
+
+const checkField = (type: FieldType, value: unknown): boolean => {
+  switch (type) {
+    case 'id':
+      return isId(value);
+    case 'position':
+      return typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= MAX_POSITION_SECONDS;
+    case 'rate':
+      return typeof value === 'number' && Number.isFinite(value) && value > 0 && value <= 16;
+    case 'boolean':
+      return typeof value === 'boolean';
+  }
+};
+
+/**
+ * Check one client event against the catalogue and normalise it. Payload
+ * fields outside the event's definition are discarded.
+ */
+export const validateAnalyticsEvent = (raw: unknown, now: Date = new Date()): EventValidationResult => {
+  if (!raw || typeof raw !== 'object') {
+    return { ok: false, error: 'Event must be an object' };
+  }
+
+  const { type, occurredAt, sessionId, data } = raw as Record<string, unknown>;
+
+  if (typeof type !== 'string' || !Object.prototype.hasOwnProperty.call(ANALYTICS_EVENT_CATALOGUE, type)) {
+    return { ok: false, error: `Unknown event type: ${String(type)}` };
+  }
+
+  const timestamp = typeof occurredAt === 'string' ? new Date(occurredAt) : null;
+  if (!timestamp || isNaN(timestamp.getTime())) {
+    return { ok: false, error: 'occurredAt must be an ISO 8601 date' };
+  }
+  const age = now.getTime() - timestamp.getTime();
+  if (age > MAX_EVENT_AGE_MS || age < -MAX_CLOCK_SKEW_MS) {
+    return { ok: false, error: 'occurredAt is out of range' };
+  }
+
+  if (sessionId !== undefined && sessionId !== null && !isId(sessionId)) {
+    return { ok: false, error: 'sessionId must be an ID' };
+  }
+
+  if (!data || typeof data !== 'object') {
+    return { ok: false, error: 'data must be an object' };
+  }
+
+  const fields: Record<string, FieldType> = ANALYTICS_EVENT_CATALOGUE[type as AnalyticsEventType];
+  const payload: Record<string, string | number | boolean> = {};
+  for (const [field, fieldType] of Object.entries(fields)) {
+    const value = (data as Record<string, unknown>)[field];
+    if (!checkField(fieldType, value)) {
+      return { ok: false, error: `${type}.${field} is missing or invalid` };
+    }
+    payload[field] = value as string | number | boolean;
+  }
+
+  return {
+    ok: true,
+    event: {
+      type: type as AnalyticsEventType,
+      occurredAt: timestamp,
+      sessionId: (sessionId as string | undefined) ?? null,
+      data: payload,
+    },
+  };
+};
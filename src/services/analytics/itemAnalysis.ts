@@ -0,0 +1,208 @@
+// Classical item analysis of a question from its submitted attempts
+
+export interface AnalysedQuestion {
+  id: string;
+  text: string;
+  type: string;
+  questionData: unknown;
+}
+
+export interface AnalysedAttempt {
+  studentId: string;
+  attemptNumber: number;
+  isCorrect: boolean | null;
+  timeSpent: number; // Seconds; 0 when the start of the attempt was not recorded
+  hintsUsed: number;
+  studentAnswer: unknown;
+}
+
+export interface DistractorStat {
+  index: number;
+  text: string;
+  isCorrect: boolean;
+  selections: number;
+  rate: number; // Share of first attempts that chose this option, 0-1
+}
+
+export interface ItemAnalysis {
+  questionId: string;
+  text: string;
+  type: string;
+  students: number; // Students with a submitted first attempt
+  totalAttempts: number;
+  difficultyIndex: number | null; // Share of students correct on their first attempt, 0-1
+  discriminationIndex: number | null; // Upper minus lower group difficulty, -1 to 1
+  distractors: DistractorStat[] | null; // MULTIPLE_CHOICE only
+  otherSelections: number; // MULTIPLE_CHOICE answers that match no option
+  medianTimeSpent: number | null;
+  hintUsageRate: number | null; // Share of attempts that revealed at least one hint, 0-1
+  averageHintsUsed: number | null;
+}
+
+// Kelley's upper and lower 27% of students by lesson score
+export const DISCRIMINATION_GROUP_SHARE = 0.27;
+// Below this many scored students the groups are too small to mean anything
+export const MIN_DISCRIMINATION_STUDENTS = 10;
+
+export const median = (values: number[]): number | null => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+};
+
+// Each student's earliest attempt; retries are shaped by feedback and would flatter the item
+const firstAttempts = (attempts: AnalysedAttempt[]): AnalysedAttempt[] => {
+  const byStudent = new Map<string, AnalysedAttempt>();
+  for (const attempt of attempts) {
+    const current = byStudent.get(attempt.studentId);
+    if (!current || attempt.attemptNumber < current.attemptNumber) {
+      byStudent.set(attempt.studentId, attempt);
+    }
+  }
+  return [...byStudent.values()];
+};
+
+const correctShare = (attempts: AnalysedAttempt[]): number =>
+  attempts.filter(attempt => attempt.isCorrect === true).length / attempts.length;
+
+/**
+ * Difference in first-attempt correctness between the students with the
+ * highest and the lowest overall lesson scores. Positive values mean the
+ * question separates strong students from weak ones.
+ */
+export const discriminationIndex = (
+  attempts: AnalysedAttempt[],
+  lessonScores: Map<string, number>
+): number | null => {
+  const scored = attempts
+    .filter(attempt => lessonScores.has(attempt.studentId))
+    .sort((a, b) => lessonScores.get(b.studentId)! - lessonScores.get(a.studentId)!);
+  if (scored.length < MIN_DISCRIMINATION_STUDENTS) return null;
+
+  const groupSize = Math.max(1, Math.round(scored.length * DISCRIMINATION_GROUP_SHARE));
+  return correctShare(scored.slice(0, groupSize)) - correctShare(scored.slice(-groupSize));
+};
+
+const normalize = (value: unknown): string => String(value ?? '').trim().toLowerCase();
+
+/**
+ * Resolve a multiple-choice answer to an option index. Answers are stored
+ * as the option index, or as the option text for questions keyed by
+ * `correctAnswer`.
+ */
+export const optionIndexFor = (options: unknown[], answer: unknown): number | null => {
+  const numeric = typeof answer === 'number' ? answer : typeof answer === 'string' && /^\d+$/.test(answer.trim()) ? Number(answer) : NaN;
+  if (Number.isInteger(numeric) && numeric >= 0 && numeric < options.length) {
+    return numeric;
+  }
+  const index = options.findIndex(option => normalize(option) === normalize(answer));
+  return index >= 0 ? index : null;
+};
+
+const analyseDistractors = (
+  question: AnalysedQuestion,
+  attempts: AnalysedAttempt[]
+): { distractors: DistractorStat[]; otherSelections: number } | null => {
+  const data = (question.questionData ?? {}) as { options?: unknown[]; correctAnswerIndex?: number; correctAnswer?: unknown };
+  if (question.type !== 'MULTIPLE_CHOICE' || !Array.isArray(data.options)) return null;
+  const options = data.options;
+
+  const selections = new Array<number>(options.length).fill(0);
+  let otherSelections = 0;
+  for (const attempt of attempts) {
+    const index = optionIndexFor(options, attempt.studentAnswer);
+    if (index === null) {
+      otherSelections++;
+    } else {
+      selections[index]++;
+    }
+  }
+
+  return {
+    distractors: options.map((option, index) => ({
+      index,
+      text: String(option),
+      isCorrect: typeof data.correctAnswerIndex === 'number'
+        ? index === data.correctAnswerIndex
+        : normalize(option) === normalize(data.correctAnswer),
+      selections: selections[index],
+      rate: attempts.length > 0 ? selections[index] / attempts.length : 0,
+    })),
+    otherSelections,
+  };
+};
+
+/**
+ * Item statistics for one question. `attempts` are the question's
+ * submitted attempts and `lessonScores` each student's overall lesson
+ * percentage, used to split students into upper and lower groups.
+ */
+export const analyseItem = (
+  question: AnalysedQuestion,
+  attempts: AnalysedAttempt[],
+  lessonScores: Map<string, number>
+): ItemAnalysis => {
+  const first = firstAttempts(attempts);
+  const distractors = analyseDistractors(question, first);
+  const timed = attempts.filter(attempt => attempt.timeSpent > 0).map(attempt => attempt.timeSpent);
+
+  return {
+    questionId: question.id,
+    text: question.text,
+    type: question.type,
+    students: first.length,
+    totalAttempts: attempts.length,
+    difficultyIndex: first.length > 0 ? correctShare(first) : null,
+    discriminationIndex: discriminationIndex(first, lessonScores),
+    distractors: distractors?.distractors ?? null,
+    otherSelections: distractors?.otherSelections ?? 0,
+    medianTimeSpent: median(timed),
+    hintUsageRate: attempts.length > 0
+      ? attempts.filter(attempt => attempt.hintsUsed > 0).length / attempts.length
+      : null,
+    averageHintsUsed: attempts.length > 0
+      ? attempts.reduce((sum, attempt) => sum + attempt.hintsUsed, 0) / attempts.length
+      : null,
+  };
+};
+
+const csvCell = (value: string | number | null): string => {
+  if (value === null) return '';
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const round = (value: number | null, digits = 3): number | null =>
+  value === null ? null : Number(value.toFixed(digits));
+
+/**
+ * One row per question, with distractor rates flattened into a single
+ * column, for opening in a spreadsheet
+ */
+export const itemAnalysisToCsv = (milestoneTitle: string, items: ItemAnalysis[]): string => {
+  const header = [
+    'Milestone', 'Question ID', 'Question', 'Type', 'Students', 'Attempts', 'Difficulty index',
+    'Discrimination index', 'Median time (s)', 'Hint usage rate', 'Average hints', 'Option selection rates',
+  ];
+  const rows = items.map(item => [
+    milestoneTitle,
+    item.questionId,
+    item.text,
+    item.type,
+    item.students,
+    item.totalAttempts,
+    round(item.difficultyIndex),
+    round(item.discriminationIndex),
+    item.medianTimeSpent,
+    round(item.hintUsageRate),
+    round(item.averageHintsUsed, 2),
+    item.distractors
+      ? item.distractors
+        .map(option => `${option.isCorrect ? '*' : ''}${option.text}: ${round(option.rate)}`)
+        .join('; ')
+      : null,
+  ]);
+
+  return [header, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+};
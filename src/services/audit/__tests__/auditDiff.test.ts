@@ -0,0 +1,44 @@
+import { buildChanges, sanitizeRecord } from '../auditDiff';
+
+describe('auditDiff', () => {
+  it('should redact secrets, drop bookkeeping and serialise dates', () => {
+    expect(sanitizeRecord({
+      email: 'a@example.com',
+      passwordHash: 'hash',
+      updatedAt: new Date(),
+      createdAt: new Date('2026-01-01T00:00:00Z'),
+      nested: { at: new Date('2026-01-02T00:00:00Z') }
+    })).toEqual({
+      email: 'a@example.com',
+      passwordHash: '[REDACTED]',
+      createdAt: '2026-01-01T00:00:00.000Z',
+      nested: { at: '2026-01-02T00:00:00.000Z' }
+    });
+  });
+
+  it('should keep only the new state on create and the old state on delete', () => {
+    expect(buildChanges(null, { id: '1', title: 'New' })).toEqual({ after: { id: '1', title: 'New' } });
+    expect(buildChanges({ id: '1', title: 'Old' }, null)).toEqual({ before: { id: '1', title: 'Old' } });
+    expect(buildChanges(null, null)).toBeNull();
+  });
+
+  it('should keep only changed fields on update', () => {
+    const before = { id: '1', title: 'Old', tags: ['a'], updatedAt: new Date('2026-01-01') };
+    const after = {
+      id: '1',
+      title: 'New',
+      tags: ['a'],
+      updatedAt: new Date('2026-01-02'),
+      createdBy: { id: 'u1' }
+    };
+
+    expect(buildChanges(before, after)).toEqual({
+      before: { title: 'Old' },
+      after: { title: 'New' }
+    });
+  });
+
+  it('should return null for updates that change nothing', () => {
+    expect(buildChanges({ title: 'Same', tags: ['a'] }, { title: 'Same', tags: ['a'] })).toBeNull();
+  });
+});
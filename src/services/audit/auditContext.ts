@@ -0,0 +1,19 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+export interface AuditRequestContext {
+  ipAddress?: string;
+  userAgent?: string;
+  requestId?: string;
+}
+
+const storage = new AsyncLocalStorage<AuditRequestContext>();
+
+/**
+ * Run a request handler with its client details available to the audit
+ * recorder, so services can record entries without threading `req` through
+ */
+export const runWithAuditContext = (context: AuditRequestContext, callback: () => void): void => {
+  storage.run(context, callback);
+};
+
+export const getAuditContext = (): AuditRequestContext => storage.getStore() ?? {};
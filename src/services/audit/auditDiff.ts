@@ -0,0 +1,62 @@
+export type AuditRecord = Record<string, unknown>;
+
+export interface AuditChanges {
+  before?: AuditRecord;
+  after?: AuditRecord;
+}
+
+// Never written to the audit log, whatever the resource
+const REDACTED_FIELDS = new Set(['passwordHash', 'password', 'apiKey', 'token', 'tokenHash', 'refreshToken']);
+
+// Bookkeeping that changes on every write and says nothing about the edit
+const IGNORED_FIELDS = new Set(['updatedAt']);
+
+const REDACTED = '[REDACTED]';
+
+const normalize = (value: unknown): unknown => {
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'bigint') return value.toString();
+  if (Array.isArray(value)) return value.map(normalize);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, normalize(item)]));
+  }
+  return value;
+};
+
+/**
+ * JSON-safe copy of a record for the audit log, with secrets redacted
+ */
+export const sanitizeRecord = (record: object): AuditRecord => {
+  const sanitized: AuditRecord = {};
+  for (const [key, value] of Object.entries(record)) {
+    if (IGNORED_FIELDS.has(key) || value === undefined || typeof value === 'function') continue;
+    sanitized[key] = REDACTED_FIELDS.has(key) ? REDACTED : normalize(value);
+  }
+  return sanitized;
+};
+
+/**
+ * Before/after snapshot of a mutation. Creates keep only the new state and
+ * deletes only the old one; updates keep just the fields that changed, and
+ * return null when nothing did. Fields present on one side only (e.g.
+ * relations included in a query result) are not compared.
+ */
+export const buildChanges = (before?: object | null, after?: object | null): AuditChanges | null => {
+  if (!before && !after) return null;
+  if (!before) return { after: sanitizeRecord(after!) };
+  if (!after) return { before: sanitizeRecord(before) };
+
+  const previous = sanitizeRecord(before);
+  const next = sanitizeRecord(after);
+  const changes: Required<AuditChanges> = { before: {}, after: {} };
+
+  for (const key of Object.keys(next)) {
+    if (!(key in previous)) continue;
+    if (JSON.stringify(previous[key]) !== JSON.stringify(next[key])) {
+      changes.before[key] = previous[key];
+      changes.after[key] = next[key];
+    }
+  }
+
+  return Object.keys(changes.after).length > 0 ? changes : null;
+};
@@ -0,0 +1,119 @@
+import { AuditAction, Prisma } from '@prisma/client';
+import { prisma } from '@/config/database';
+import { logger } from '@/utils/logger';
+import { getAuditContext } from './auditContext';
+import { buildChanges } from './auditDiff';
+
+export const AUDIT_RESOURCES = ['lesson', 'video', 'caption', 'milestone', 'question', 'user', 'session', 'ai_configuration', 'system_config'] as const;
+
+export type AuditResource = typeof AUDIT_RESOURCES[number];
+
+export interface AuditEntry {
+  userId?: string | null;
+  action: AuditAction;
+  resource: AuditResource;
+  resourceId?: string | null;
+  before?: object | null;
+  after?: object | null;
+  metadata?: Record<string, unknown>;
+}
+
+export interface AuditLogFilters {
+  userId?: string;
+  resource?: string;
+  resourceId?: string;
+  action?: AuditAction;
+  from?: Date;
+  to?: Date;
+  search?: string;
+  page: number;
+  limit: number;
+}
+
+class AuditRecorder {
+  /**
+   * Write an audit entry. Updates whose before and after states are equal
+   * are skipped. Failures are logged and never reach the caller, auditing
+   * must not break the action being audited.
+   */
+  async record(entry: AuditEntry): Promise<void> {
+    try {
+      const changes = buildChanges(entry.before, entry.after);
+      if (entry.action === AuditAction.UPDATE && entry.before && entry.after && !changes) {
+        return;
+      }
+
+      const context = getAuditContext();
+
+      await prisma.auditLog.create({
+        data: {
+          userId: entry.userId ?? null,
+          action: entry.action,
+          resource: entry.resource,
+          resourceId: entry.resourceId ?? null,
+          changes: (changes ?? undefined) as Prisma.InputJsonValue | undefined,
+          metadata: {
+            ...entry.metadata,
+            ...(context.requestId && { requestId: context.requestId }),
+          } as Prisma.InputJsonValue,
+          ipAddress: context.ipAddress,
+          userAgent: context.userAgent,
+        },
+      });
+    } catch (error) {
+      logger.error('Failed to record audit entry', {
+        action: entry.action,
+        resource: entry.resource,
+        resourceId: entry.resourceId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  /**
+   * Page through audit entries, newest first. `search` matches the resource
+   * id or the acting user's email or name.
+   */
+  async list(filters: AuditLogFilters) {
+    const where: Prisma.AuditLogWhereInput = {
+      ...(filters.userId && { userId: filters.userId }),
+      ...(filters.resource && { resource: filters.resource }),
+      ...(filters.resourceId && { resourceId: filters.resourceId }),
+      ...(filters.action && { action: filters.action }),
+      ...((filters.from || filters.to) && {
+        createdAt: {
+          ...(filters.from && { gte: filters.from }),
+          ...(filters.to && { lte: filters.to }),
+        },
+      }),
+      ...(filters.search && {
+        OR: [
+          { resourceId: { contains: filters.search } },
+          { user: { email: { contains: filters.search, mode: 'insensitive' } } },
+          { user: { firstName: { contains: filters.search, mode: 'insensitive' } } },
+          { user: { lastName: { contains: filters.search, mode: 'insensitive' } } },
+        ],
+      }),
+    };
+
+    const [logs, total] = await Promise.all([
+      prisma.auditLog.findMany({
+        where,
+        include: {
+          user: {
+            select: { id: true, email: true, firstName: true, lastName: true, role: true },
+          },
+        },
+        orderBy: { createdAt: 'desc' },
+        skip: (filters.page - 1) * filters.limit,
+        take: filters.limit,
+      }),
+      prisma.auditLog.count({ where }),
+    ]);
+
+    return { logs, total };
+  }
+}
+
+export const auditRecorder = new AuditRecorder();
+export default auditRecorder;
@@ -0,0 +1,35 @@
+import { signPlaybackToken, verifyPlaybackToken } from '../playbackToken';
+
+describe('playbackToken', () => {
+  const secret = 'x'.repeat(32);
+  const now = Date.parse('2026-01-01T12:00:00Z');
+  const claims = { videoId: 'video-1', userId: 'user-1', expiresAt: now + 60_000 };
+
+  it('should accept a token for its own video until it expires', () => {
+    const token = signPlaybackToken(claims, secret);
+
+    expect(token).toMatch(/^[A-Za-z0-9_-]+\.[A-Za-z0-9_-]{43}$/);
+    expect(verifyPlaybackToken(token, secret, { videoId: 'video-1', now })).toEqual({ ok: true, claims });
+    expect(verifyPlaybackToken(token, secret, { videoId: 'video-2', now })).toEqual({ ok: false, reason: 'video' });
+    expect(verifyPlaybackToken(token, secret, { videoId: 'video-1', now: claims.expiresAt }))
+      .toEqual({ ok: false, reason: 'expired' });
+  });
+
+  it('should reject tampered tokens and other secrets', () => {
+    const token = signPlaybackToken(claims, secret);
+    const [, signature] = token.split('.');
+    const forged = `${Buffer.from(JSON.stringify({ v: 'video-2', u: 'user-1', e: claims.expiresAt })).toString('base64url')}.${signature}`;
+
+    expect(verifyPlaybackToken(forged, secret, { videoId: 'video-2', now })).toEqual({ ok: false, reason: 'signature' });
+    expect(verifyPlaybackToken(token, 'y'.repeat(32), { videoId: 'video-1', now })).toEqual({ ok: false, reason: 'signature' });
+    expect(verifyPlaybackToken('not-a-token', secret, { videoId: 'video-1', now })).toEqual({ ok: false, reason: 'malformed' });
+  });
+
+  it('should only accept IP-bound tokens from the same address', () => {
+    const token = signPlaybackToken({ ...claims, ip: '203.0.113.7' }, secret);
+
+    expect(verifyPlaybackToken(token, secret, { videoId: 'video-1', ip: '203.0.113.7', now }).ok).toBe(true);
+    expect(verifyPlaybackToken(token, secret, { videoId: 'video-1', ip: '198.51.100.1', now }))
+      .toEqual({ ok: false, reason: 'ip' });
+  });
+});
@@ -0,0 +1,26 @@
+import { classifyRefreshToken, REUSE_GRACE_MS } from '../refreshTokenPolicy';
+
+describe('classifyRefreshToken', () => {
+  const now = new Date('2026-01-01T12:00:00Z');
+  const expiresAt = new Date('2026-01-08T12:00:00Z');
+  const activeFamily = { revokedAt: null };
+
+  it('should accept a token that was never rotated', () => {
+    expect(classifyRefreshToken({ expiresAt, rotatedAt: null, family: activeFamily }, now)).toBe('active');
+  });
+
+  it('should allow a just-rotated token within the grace window', () => {
+    const rotatedAt = new Date(now.getTime() - REUSE_GRACE_MS);
+    expect(classifyRefreshToken({ expiresAt, rotatedAt, family: activeFamily }, now)).toBe('grace');
+  });
+
+  it('should flag a token rotated before the grace window as reused', () => {
+    const rotatedAt = new Date(now.getTime() - REUSE_GRACE_MS - 1);
+    expect(classifyRefreshToken({ expiresAt, rotatedAt, family: activeFamily }, now)).toBe('reused');
+  });
+
+  it('should reject expired tokens and tokens of revoked families', () => {
+    expect(classifyRefreshToken({ expiresAt: now, rotatedAt: null, family: activeFamily }, now)).toBe('expired');
+    expect(classifyRefreshToken({ expiresAt, rotatedAt: null, family: { revokedAt: now } }, now)).toBe('revoked');
+  });
+});
@@ -0,0 +1,28 @@
+import { DEFAULT_SESSION_POLICY, parseSessionPolicy, sessionsOverLimit } from '../sessionPolicy';
+
+describe('sessionPolicy', () => {
+  it('should fall back to defaults for missing or malformed values', () => {
+    expect(parseSessionPolicy(null)).toEqual(DEFAULT_SESSION_POLICY);
+    expect(parseSessionPolicy({ limits: { STUDENT: -1, TEACHER: 'many' }, onLimit: 'NOPE' }))
+      .toEqual(DEFAULT_SESSION_POLICY);
+  });
+
+  it('should merge per-role limits and allow unlimited roles', () => {
+    expect(parseSessionPolicy({ limits: { STUDENT: 1, ADMIN: null }, onLimit: 'REJECT' })).toEqual({
+      limits: { STUDENT: 1, TEACHER: 3, ADMIN: null },
+      onLimit: 'REJECT',
+    });
+  });
+
+  it('should pick the least recently used sessions beyond the limit', () => {
+    const sessions = [
+      { id: 'b', lastUsedAt: new Date('2026-01-02') },
+      { id: 'c', lastUsedAt: new Date('2026-01-03') },
+      { id: 'a', lastUsedAt: new Date('2026-01-01') },
+    ];
+
+    expect(sessionsOverLimit(sessions, 1).map(session => session.id)).toEqual(['a', 'b']);
+    expect(sessionsOverLimit(sessions, 3)).toEqual([]);
+    expect(sessionsOverLimit(sessions, null)).toEqual([]);
+  });
+});
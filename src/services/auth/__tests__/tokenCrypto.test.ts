@@ -0,0 +1,30 @@
+import { generateToken, hashToken, isTokenRedeemable } from '../tokenCrypto';
+
+describe('tokenCrypto', () => {
+  const secret = 'x'.repeat(32);
+
+  it('should generate unique URL-safe tokens', () => {
+    const first = generateToken();
+    const second = generateToken();
+
+    expect(first).toMatch(/^[A-Za-z0-9_-]{43}$/);
+    expect(first).not.toBe(second);
+  });
+
+  it('should hash tokens deterministically per secret', () => {
+    const token = generateToken();
+
+    expect(hashToken(token, secret)).toBe(hashToken(token, secret));
+    expect(hashToken(token, secret)).not.toBe(hashToken(token, 'y'.repeat(32)));
+    expect(hashToken(token, secret)).toMatch(/^[a-f0-9]{64}$/);
+  });
+
+  it('should only redeem unused tokens before they expire', () => {
+    const now = new Date('2026-01-01T12:00:00Z');
+    const later = new Date('2026-01-01T13:00:00Z');
+
+    expect(isTokenRedeemable({ expiresAt: later, usedAt: null }, now)).toBe(true);
+    expect(isTokenRedeemable({ expiresAt: now, usedAt: null }, now)).toBe(false);
+    expect(isTokenRedeemable({ expiresAt: later, usedAt: now }, now)).toBe(false);
+  });
+});
@@ -2,8 +2,14 @@ import bcrypt from 'bcrypt';
 import { prisma } from '@/config/database';
 import { config } from '@/config/environment';
 import { jwtService } from './jwtService';
+import { authTokenService } from './authTokenService';
+import { refreshTokenService, DeviceInfo } from './refreshTokenService';
+import { sessionService } from './sessionService';
+import { mailService } from '@/services/mail/mailService';
+import { auditRecorder } from '@/services/audit/auditRecorder';
+import { verificationEmail, passwordResetEmail } from '@/services/mail/templates';
 import { AppError, AuthenticatedUser } from '@/types';
-import { UserRole, UserStatus } from '@prisma/client';
+import { AuthTokenType, User, UserRole, UserStatus } from '@prisma/client';
 import { logger } from '@/utils/logger';
 
 export interface RegisterData {
@@ -31,7 +37,7 @@ class AuthService {
   /**
    * Register a new user
    */
-  async register(data: RegisterData): Promise<AuthResult> {
+  async register(data: RegisterData, device: DeviceInfo = {}): Promise<AuthResult> {
     const { email, password, firstName, lastName, username, role = UserRole.STUDENT, tenantId } = data;
 
     // Check if user already exists
@@ -79,10 +85,26 @@ class AuthService {
     };
 
     // Generate tokens
-    const { accessToken, refreshToken } = jwtService.generateTokenPair(authenticatedUser);
+    const { accessToken, refreshToken } = await this.startSession(authenticatedUser, device);
+
+    await auditRecorder.record({
+      userId: user.id,
+      action: 'CREATE',
+      resource: 'user',
+      resourceId: user.id,
+      after: user,
+      metadata: { event: 'register' },
+    });
 
     logger.info(`User registered: ${user.email}`);
 
+    // A mail outage should not block sign-up; the user can ask for a new link
+    try {
+      await this.sendVerificationEmail(user);
+    } catch (error) {
+      logger.error(`Failed to send verification email to ${user.email}:`, error);
+    }
+
     return {
       user: authenticatedUser,
       accessToken,
@@ -93,7 +115,7 @@ class AuthService {
   /**
    * Login user
    */
-  async login(data: LoginData): Promise<AuthResult> {
+  async login(data: LoginData, device: DeviceInfo = {}): Promise<AuthResult> {
     const { email, password } = data;
 
     // Find user
@@ -135,7 +157,7 @@ class AuthService {
     };
 
     // Generate tokens
-    const { accessToken, refreshToken } = jwtService.generateTokenPair(authenticatedUser);
+    const { accessToken, refreshToken } = await this.startSession(authenticatedUser, device);
 
     logger.info(`User logged in: ${user.email}`);
 
@@ -147,15 +169,14 @@ class AuthService {
   }
 
   /**
-   * Refresh access token
+   * Refresh access token, rotating the refresh token within its family
    */
-  async refreshToken(refreshToken: string): Promise<AuthResult> {
-    // Verify refresh token
-    const payload = jwtService.verifyRefreshToken(refreshToken);
+  async refreshToken(refreshToken: string, device: DeviceInfo = {}): Promise<AuthResult> {
+    const { userId, familyId } = await refreshTokenService.rotate(refreshToken, device);
 
     // Find user
     const user = await prisma.user.findUnique({
-      where: { id: payload.userId },
+      where: { id: userId },
     });
 
     if (!user) {
@@ -175,12 +196,12 @@ class AuthService {
       tenantId: user.tenantId || undefined,
     };
 
-    // Generate new tokens
-    const { accessToken, refreshToken: newRefreshToken } = jwtService.generateTokenPair(authenticatedUser);
+    // Generate new tokens in the same family
+    const { refreshToken: newRefreshToken } = await refreshTokenService.issue(authenticatedUser, familyId);
 
     return {
       user: authenticatedUser,
-      accessToken,
+      accessToken: jwtService.generateAccessToken(authenticatedUser, familyId),
       refreshToken: newRefreshToken,
     };
   }
@@ -205,20 +226,32 @@ class AuthService {
   }
 
   /**
-   * Verify email
+   * Verify email with a token from a verification link
    */
-  async verifyEmail(userId: string): Promise<void> {
-    await prisma.user.update({
-      where: { id: userId },
-      data: {
-        emailVerified: new Date(),
-        status: UserStatus.ACTIVE,
-      },
-    });
+  async verifyEmail(token: string): Promise<void> {
+    const userId = await authTokenService.consume(token, AuthTokenType.EMAIL_VERIFICATION);
+    await this.markEmailVerified(userId);
 
     logger.info(`Email verified for user: ${userId}`);
   }
 
+  /**
+   * Send a fresh verification link. Like password resets, this stays silent
+   * for unknown or already verified emails.
+   */
+  async resendVerification(email: string): Promise<void> {
+    const user = await prisma.user.findUnique({
+      where: { email },
+    });
+
+    if (!user || user.emailVerified) {
+      logger.info(`Verification resend requested for unknown or verified account: ${email}`);
+      return;
+    }
+
+    await this.sendVerificationEmail(user);
+  }
+
   /**
    * Change password
    */
@@ -246,21 +279,99 @@ class AuthService {
       data: { passwordHash: newPasswordHash },
     });
 
+    await auditRecorder.record({
+      userId,
+      action: 'UPDATE',
+      resource: 'user',
+      resourceId: userId,
+      metadata: { event: 'password_change' },
+    });
+
     logger.info(`Password changed for user: ${userId}`);
   }
 
   /**
-   * Reset password
+   * Email a password reset link. Does nothing for unknown or disabled
+   * accounts so the response does not reveal which emails are registered.
+   */
+  async requestPasswordReset(email: string): Promise<void> {
+    const user = await prisma.user.findUnique({
+      where: { email },
+    });
+
+    if (!user || user.status === UserStatus.SUSPENDED || user.status === UserStatus.INACTIVE) {
+      logger.info(`Password reset requested for unknown or inactive account: ${email}`);
+      return;
+    }
+
+    const ttlMs = config.authTokens.passwordResetTtlMs;
+    const token = await authTokenService.issue(user.id, AuthTokenType.PASSWORD_RESET, ttlMs);
+    const link = `${config.frontend.url}/reset-password?token=${encodeURIComponent(token)}`;
+
+    await mailService.send({
+      to: user.email,
+      ...passwordResetEmail(user.firstName, link, Math.round(ttlMs / 60000)),
+    });
+
+    logger.info(`Password reset requested for user: ${user.id}`);
+  }
+
+  /**
+   * Reset password with a token from a reset link
    */
-  async resetPassword(email: string, newPassword: string): Promise<void> {
+  async resetPassword(token: string, newPassword: string): Promise<void> {
+    const userId = await authTokenService.consume(token, AuthTokenType.PASSWORD_RESET);
     const passwordHash = await this.hashPassword(newPassword);
 
-    const user = await prisma.user.update({
-      where: { email },
+    await prisma.user.update({
+      where: { id: userId },
       data: { passwordHash },
     });
 
-    logger.info(`Password reset for user: ${user.id}`);
+    // Following the emailed link proves ownership of the address as well
+    await this.markEmailVerified(userId);
+
+    // Whoever knew the old password may still hold a session
+    await refreshTokenService.revokeAllForUser(userId, 'PASSWORD_RESET');
+
+    await auditRecorder.record({
+      userId,
+      action: 'UPDATE',
+      resource: 'user',
+      resourceId: userId,
+      metadata: { event: 'password_reset' },
+    });
+
+    logger.info(`Password reset for user: ${userId}`);
+  }
+
+  /**
+   * Issue an email verification token and mail the link
+   */
+  private async sendVerificationEmail(user: User): Promise<void> {
+    const ttlMs = config.authTokens.emailVerificationTtlMs;
+    const token = await authTokenService.issue(user.id, AuthTokenType.EMAIL_VERIFICATION, ttlMs);
+    const link = `${config.frontend.url}/verify-email?token=${encodeURIComponent(token)}`;
+
+    await mailService.send({
+      to: user.email,
+      ...verificationEmail(user.firstName, link, Math.round(ttlMs / 3600000)),
+    });
+  }
+
+  /**
+   * Record a verified email, activating accounts that were waiting on it
+   */
+  private async markEmailVerified(userId: string): Promise<void> {
+    await prisma.user.updateMany({
+      where: { id: userId, emailVerified: null },
+      data: { emailVerified: new Date() },
+    });
+
+    await prisma.user.updateMany({
+      where: { id: userId, status: UserStatus.PENDING_VERIFICATION },
+      data: { status: UserStatus.ACTIVE },
+    });
   }
 
   /**
@@ -278,11 +389,65 @@ class AuthService {
   }
 
   /**
-   * Logout (for audit purposes)
+   * Start a login session on a device: a new refresh-token family and an
+   * access token tied to it, subject to the concurrent session policy
    */
-  async logout(userId: string): Promise<void> {
-    logger.info(`User logged out: ${userId}`);
-    // In a more advanced implementation, you might maintain a blacklist of tokens
+  private async startSession(user: AuthenticatedUser, device: DeviceInfo): Promise<{ accessToken: string; refreshToken: string }> {
+    await sessionService.admitLogin(user.id, user.role);
+
+    const { refreshToken, familyId } = await refreshTokenService.issue(user, undefined, device);
+
+    await auditRecorder.record({
+      userId: user.id,
+      action: 'LOGIN',
+      resource: 'session',
+      resourceId: familyId,
+    });
+
+    return {
+      accessToken: jwtService.generateAccessToken(user, familyId),
+      refreshToken,
+    };
+  }
+
+  /**
+   * Logout: revoke the session the refresh token belongs to. Invalid or
+   * expired tokens are ignored, there is nothing left to revoke.
+   */
+  async logout(refreshToken: string): Promise<void> {
+    let payload;
+    try {
+      payload = jwtService.verifyRefreshToken(refreshToken);
+    } catch {
+      return;
+    }
+
+    if (payload.familyId) {
+      await refreshTokenService.revokeFamily(payload.familyId, 'LOGOUT', payload.userId);
+      await auditRecorder.record({
+        userId: payload.userId,
+        action: 'LOGOUT',
+        resource: 'session',
+        resourceId: payload.familyId,
+      });
+      logger.info(`User logged out: ${payload.userId}`);
+    }
+  }
+
+  /**
+   * Log out everywhere: revoke every session of the user
+   */
+  async logoutAll(userId: string): Promise<number> {
+    const revoked = await refreshTokenService.revokeAllForUser(userId, 'LOGOUT_ALL');
+
+    await auditRecorder.record({
+      userId,
+      action: 'LOGOUT',
+      resource: 'session',
+      metadata: { event: 'logout_all', revoked },
+    });
+
+    return revoked;
   }
 }
 
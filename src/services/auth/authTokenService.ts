@@ -0,0 +1,62 @@
+import { AuthTokenType } from '@prisma/client';
+import { prisma } from '@/config/database';
+import { config } from '@/config/environment';
+import { AppError } from '@/types';
+import { generateToken, hashToken, isTokenRedeemable } from './tokenCrypto';
+
+class AuthTokenService {
+  /**
+   * Issue a token for a user, replacing any earlier token of the same type
+   * so only the most recent link works. Returns the raw token to send.
+   */
+  async issue(userId: string, type: AuthTokenType, ttlMs: number): Promise<string> {
+    const token = generateToken();
+    const now = new Date();
+
+    await prisma.$transaction([
+      prisma.authToken.deleteMany({
+        where: { userId, type },
+      }),
+      prisma.authToken.create({
+        data: {
+          userId,
+          type,
+          tokenHash: hashToken(token, config.jwt.secret),
+          expiresAt: new Date(now.getTime() + ttlMs),
+        },
+      }),
+    ]);
+
+    return token;
+  }
+
+  /**
+   * Redeem a token once. Returns the owning user id or throws if the token
+   * is unknown, of another type, expired or already used.
+   */
+  async consume(token: string, type: AuthTokenType): Promise<string> {
+    const now = new Date();
+    const stored = await prisma.authToken.findUnique({
+      where: { tokenHash: hashToken(token, config.jwt.secret) },
+    });
+
+    if (!stored || stored.type !== type || !isTokenRedeemable(stored, now)) {
+      throw new AppError('Invalid or expired token', 400, true, 'INVALID_TOKEN');
+    }
+
+    // Conditional update so two concurrent requests cannot both redeem it
+    const { count } = await prisma.authToken.updateMany({
+      where: { id: stored.id, usedAt: null },
+      data: { usedAt: now },
+    });
+
+    if (count === 0) {
+      throw new AppError('Invalid or expired token', 400, true, 'INVALID_TOKEN');
+    }
+
+    return stored.userId;
+  }
+}
+
+export const authTokenService = new AuthTokenService();
+export default authTokenService;
@@ -5,14 +5,15 @@ import { logger } from '../../utils/logger';
 
 class JWTService {
   /**
-   * Generate access token
+   * Generate access token, tied to the login session it was issued for
    */
-  generateAccessToken(user: AuthenticatedUser): string {
+  generateAccessToken(user: AuthenticatedUser, familyId?: string): string {
     const payload: JWTPayload = {
       userId: user.id,
       email: user.email,
       role: user.role,
-      ...(user.tenantId && { tenantId: user.tenantId })
+      ...(user.tenantId && { tenantId: user.tenantId }),
+      ...(familyId && { familyId })
     };
 
     return jwt.sign(payload, environment.jwt.secret as string, {
@@ -23,33 +24,26 @@ class JWTService {
   }
 
   /**
-   * Generate refresh token
+   * Generate refresh token. Refresh tokens are persisted by id (jti) and
+   * rotated within their family, see refreshTokenService.
    */
-  generateRefreshToken(user: AuthenticatedUser): string {
+  generateRefreshToken(user: AuthenticatedUser, familyId: string, tokenId: string): string {
     const payload: JWTPayload = {
       userId: user.id,
       email: user.email,
       role: user.role,
-      ...(user.tenantId && { tenantId: user.tenantId })
+      ...(user.tenantId && { tenantId: user.tenantId }),
+      familyId
     };
 
     return jwt.sign(payload, environment.jwt.refreshSecret as string, {
       expiresIn: environment.jwt.refreshExpiresIn,
       issuer: 'education-platform',
       audience: 'education-platform-refresh',
+      jwtid: tokenId,
     });
   }
 
-  /**
-   * Generate token pair (access + refresh)
-   */
-  generateTokenPair(user: AuthenticatedUser): { accessToken: string; refreshToken: string } {
-    return {
-      accessToken: this.generateAccessToken(user),
-      refreshToken: this.generateRefreshToken(user),
-    };
-  }
-
   /**
    * Verify access token
    */
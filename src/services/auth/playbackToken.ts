@@ -0,0 +1,83 @@
+import crypto from 'crypto';
+
+export interface PlaybackClaims {
+  videoId: string;
+  userId: string;
+  expiresAt: number; // Epoch milliseconds
+  ip?: string; // Only requests from this address are accepted when set
+}
+
+export type PlaybackTokenFailure = 'malformed' | 'signature' | 'expired' | 'video' | 'ip';
+
+export type PlaybackTokenResult =
+  | { ok: true; claims: PlaybackClaims }
+  | { ok: false; reason: PlaybackTokenFailure };
+
+interface EncodedClaims {
+  v: string;
+  u: string;
+  e: number;
+  ip?: string;
+}
+
+const sign = (payload: string, secret: string): Buffer =>
+  crypto.createHmac('sha256', secret).update(payload).digest();
+
+/**
+ * Token for the query string of playback URLs: the claims and an HMAC over
+ * them, both base64url encoded. Nothing is stored, so tokens are only
+ * revoked by expiring.
+ */
+export const signPlaybackToken = (claims: PlaybackClaims, secret: string): string => {
+  const encoded: EncodedClaims = { v: claims.videoId, u: claims.userId, e: claims.expiresAt };
+  if (claims.ip) encoded.ip = claims.ip;
+
+  const payload = Buffer.from(JSON.stringify(encoded)).toString('base64url');
+  return `${payload}.${sign(payload, secret).toString('base64url')}`;
+};
+
+/**
+ * Check a token for a request to one video's files. The signature is
+ * checked before the claims are trusted.
+ */
+export const verifyPlaybackToken = (
+  token: string,
+  secret: string,
+  request: { videoId: string; ip?: string; now: number }
+): PlaybackTokenResult => {
+  const [payload, signature, ...rest] = token.split('.');
+  if (!payload || !signature || rest.length > 0) {
+    return { ok: false, reason: 'malformed' };
+  }
+
+  const expected = sign(payload, secret);
+  const actual = Buffer.from(signature, 'base64url');
+  if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) {
+    return { ok: false, reason: 'signature' };
+  }
+
+  let encoded: EncodedClaims;
+  try {
+    encoded = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+  } catch {
+    return { ok: false, reason: 'malformed' };
+  }
+  if (typeof encoded?.v !== 'string' || typeof encoded.u !== 'string' || typeof encoded.e !== 'number') {
+    return { ok: false, reason: 'malformed' };
+  }
+
+  if (encoded.e <= request.now) {
+    return { ok: false, reason: 'expired' };
+  }
+  if (encoded.v !== request.videoId) {
+    return { ok: false, reason: 'video' };
+  }
+  if (encoded.ip && encoded.ip !== request.ip) {
+    return { ok: false, reason: 'ip' };
+  }
+
+  return {
+    ok: true,
+    claims: { videoId: encoded.v, userId: encoded.u, expiresAt: encoded.e, ...(encoded.ip ? { ip: encoded.ip } : {}) },
+  };
+};
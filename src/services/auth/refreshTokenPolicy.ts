@@ -0,0 +1,34 @@
+// A rotated token presented again within this window is treated as a
+// concurrent refresh (e.g. two tabs) rather than a replay
+export const REUSE_GRACE_MS = 10 * 1000;
+
+export type RevocationReason =
+  | 'LOGOUT'
+  | 'LOGOUT_ALL'
+  | 'REUSE_DETECTED'
+  | 'PASSWORD_RESET'
+  | 'ADMIN'
+  | 'TERMINATED' // Signed out from another device
+  | 'SESSION_LIMIT'; // Made room for a newer login
+
+export type RefreshTokenState = 'active' | 'grace' | 'reused' | 'revoked' | 'expired';
+
+interface StoredRefreshToken {
+  expiresAt: Date;
+  rotatedAt: Date | null;
+  family: { revokedAt: Date | null };
+}
+
+/**
+ * Decide what a presented refresh token is worth:
+ * - active: never rotated, may be exchanged
+ * - grace: rotated moments ago, may be exchanged again
+ * - reused: rotated earlier, so someone is replaying it and the family must be revoked
+ * - revoked/expired: rejected
+ */
+export const classifyRefreshToken = (token: StoredRefreshToken, now: Date): RefreshTokenState => {
+  if (token.family.revokedAt) return 'revoked';
+  if (token.expiresAt.getTime() <= now.getTime()) return 'expired';
+  if (!token.rotatedAt) return 'active';
+  return now.getTime() - token.rotatedAt.getTime() <= REUSE_GRACE_MS ? 'grace' : 'reused';
+};
@@ -0,0 +1,147 @@
+import crypto from 'crypto';
+import { prisma } from '@/config/database';
+import { AppError, AuthenticatedUser } from '@/types';
+import { logger } from '@/utils/logger';
+import { jwtService } from './jwtService';
+import { classifyRefreshToken, RevocationReason } from './refreshTokenPolicy';
+
+export interface DeviceInfo {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+export interface IssuedRefreshToken {
+  refreshToken: string;
+  familyId: string;
+}
+
+export interface RotatedRefreshToken {
+  userId: string;
+  familyId: string;
+}
+
+class RefreshTokenService {
+  /**
+   * Issue a refresh token, starting a new family (login session) on the
+   * given device unless a family is given
+   */
+  async issue(user: AuthenticatedUser, familyId?: string, device: DeviceInfo = {}): Promise<IssuedRefreshToken> {
+    const family = familyId
+      ? { id: familyId }
+      : await prisma.refreshTokenFamily.create({
+        data: { userId: user.id, userAgent: device.userAgent, ipAddress: device.ipAddress },
+      });
+
+    const tokenId = crypto.randomUUID();
+    const refreshToken = jwtService.generateRefreshToken(user, family.id, tokenId);
+
+    await prisma.refreshToken.create({
+      data: {
+        id: tokenId,
+        familyId: family.id,
+        expiresAt: jwtService.getTokenExpiration(refreshToken) ?? new Date(),
+      },
+    });
+
+    return { refreshToken, familyId: family.id };
+  }
+
+  /**
+   * Exchange a refresh token: mark it rotated and return the family the
+   * successor belongs in. Replaying an already rotated token revokes the
+   * whole family, logging out both the attacker and the victim.
+   */
+  async rotate(refreshToken: string, device: DeviceInfo = {}): Promise<RotatedRefreshToken> {
+    const payload = jwtService.verifyRefreshToken(refreshToken);
+
+    // Tokens issued before rotation existed carry no jti and cannot be tracked
+    if (!payload.jti || !payload.familyId) {
+      throw new AppError('Invalid refresh token', 401);
+    }
+
+    const stored = await prisma.refreshToken.findUnique({
+      where: { id: payload.jti },
+      include: { family: true },
+    });
+
+    if (!stored || stored.familyId !== payload.familyId || stored.family.userId !== payload.userId) {
+      throw new AppError('Invalid refresh token', 401);
+    }
+
+    const now = new Date();
+    switch (classifyRefreshToken(stored, now)) {
+      case 'revoked':
+        throw new AppError('Session has been revoked', 401);
+      case 'expired':
+        throw new AppError('Refresh token expired', 401);
+      case 'reused':
+        await this.revokeFamily(stored.familyId, 'REUSE_DETECTED');
+        logger.warn('Refresh token reuse detected, session revoked', {
+          userId: payload.userId,
+          familyId: stored.familyId,
+        });
+        throw new AppError('Session has been revoked', 401);
+      case 'active':
+        await prisma.refreshToken.updateMany({
+          where: { id: stored.id, rotatedAt: null },
+          data: { rotatedAt: now },
+        });
+        break;
+      case 'grace':
+        break;
+    }
+
+    await prisma.refreshTokenFamily.update({
+      where: { id: stored.familyId },
+      data: {
+        lastUsedAt: now,
+        ...(device.userAgent && { userAgent: device.userAgent }),
+        ...(device.ipAddress && { ipAddress: device.ipAddress }),
+      },
+    });
+
+    return { userId: payload.userId, familyId: stored.familyId };
+  }
+
+  /**
+   * Whether access tokens issued for a family are still honoured
+   */
+  async isFamilyActive(familyId: string): Promise<boolean> {
+    const family = await prisma.refreshTokenFamily.findUnique({
+      where: { id: familyId },
+      select: { revokedAt: true },
+    });
+
+    return !!family && !family.revokedAt;
+  }
+
+  /**
+   * Revoke one family. Returns false if it was already revoked or does not
+   * belong to the user (when one is given).
+   */
+  async revokeFamily(familyId: string, reason: RevocationReason, userId?: string): Promise<boolean> {
+    const { count } = await prisma.refreshTokenFamily.updateMany({
+      where: { id: familyId, revokedAt: null, ...(userId && { userId }) },
+      data: { revokedAt: new Date(), revokedReason: reason },
+    });
+
+    return count > 0;
+  }
+
+  /**
+   * Revoke every active family of a user. Returns how many were revoked.
+   */
+  async revokeAllForUser(userId: string, reason: RevocationReason): Promise<number> {
+    const { count } = await prisma.refreshTokenFamily.updateMany({
+      where: { userId, revokedAt: null },
+      data: { revokedAt: new Date(), revokedReason: reason },
+    });
+
+    logger.info(`Revoked ${count} session(s) for user ${userId}`, { reason });
+
+    return count;
+  }
+}
+
+export const refreshTokenService = new RefreshTokenService();
+export default refreshTokenService;
@@ -0,0 +1,60 @@
+import { UserRole } from '@prisma/client';
+
+export const SESSION_POLICY_KEY = 'session.concurrentLimits';
+
+// REVOKE_OLDEST signs out the least recently used devices to make room for a
+// new login; REJECT refuses the login until the user signs out somewhere
+export type SessionLimitAction = 'REVOKE_OLDEST' | 'REJECT';
+
+export interface SessionPolicy {
+  // Maximum concurrent login sessions per role; null means unlimited
+  limits: Record<UserRole, number | null>;
+  onLimit: SessionLimitAction;
+}
+
+export const DEFAULT_SESSION_POLICY: SessionPolicy = {
+  limits: { STUDENT: 3, TEACHER: 3, ADMIN: 3 },
+  onLimit: 'REVOKE_OLDEST',
+};
+
+const parseLimit = (value: unknown, fallback: number | null): number | null => {
+  if (value === null) return null;
+  if (typeof value === 'number' && Number.isInteger(value) && value > 0) return value;
+  return fallback;
+};
+
+/**
+ * Read the policy stored in SystemConfig, falling back to the defaults for
+ * anything missing or malformed, e.g. { "limits": { "STUDENT": 2, "ADMIN": null } }
+ */
+export const parseSessionPolicy = (value: unknown): SessionPolicy => {
+  if (!value || typeof value !== 'object') {
+    return DEFAULT_SESSION_POLICY;
+  }
+
+  const stored = value as { limits?: Record<string, unknown>; onLimit?: unknown };
+  const limits = { ...DEFAULT_SESSION_POLICY.limits };
+  for (const role of Object.keys(limits) as UserRole[]) {
+    if (stored.limits && role in stored.limits) {
+      limits[role] = parseLimit(stored.limits[role], limits[role]);
+    }
+  }
+
+  return {
+    limits,
+    onLimit: stored.onLimit === 'REJECT' || stored.onLimit === 'REVOKE_OLDEST'
+      ? stored.onLimit
+      : DEFAULT_SESSION_POLICY.onLimit,
+  };
+};
+
+/**
+ * Sessions that must go so that at most `limit` remain, least recently used first
+ */
+export const sessionsOverLimit = <T extends { lastUsedAt: Date }>(sessions: T[], limit: number | null): T[] => {
+  if (limit === null || sessions.length <= limit) return [];
+
+  return [...sessions]
+    .sort((a, b) => a.lastUsedAt.getTime() - b.lastUsedAt.getTime())
+    .slice(0, sessions.length - limit);
+};
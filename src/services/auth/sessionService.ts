@@ -0,0 +1,107 @@
+import { UserRole } from '@prisma/client';
+import { prisma } from '@/config/database';
+import { AppError } from '@/types';
+import { logger } from '@/utils/logger';
+import { auditRecorder } from '@/services/audit/auditRecorder';
+import { settingsService } from '@/services/settings/settingsService';
+import { refreshTokenService } from './refreshTokenService';
+import { describeUserAgent } from './deviceLabel';
+import { SESSION_POLICY_KEY, sessionsOverLimit } from './sessionPolicy';
+
+export interface LoginSession {
+  id: string;
+  device: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: Date;
+  lastUsedAt: Date;
+  current: boolean;
+}
+
+class SessionService {
+  /**
+   * The user's signed-in devices, most recently used first
+   */
+  async listSessions(userId: string, currentSessionId?: string): Promise<LoginSession[]> {
+    const sessions = await this.findActive(userId);
+
+    return sessions
+      .sort((a, b) => b.lastUsedAt.getTime() - a.lastUsedAt.getTime())
+      .map(session => ({
+        id: session.id,
+        device: describeUserAgent(session.userAgent),
+        userAgent: session.userAgent,
+        ipAddress: session.ipAddress,
+        createdAt: session.createdAt,
+        lastUsedAt: session.lastUsedAt,
+        current: session.id === currentSessionId,
+      }));
+  }
+
+  /**
+   * Sign one of the user's devices out
+   */
+  async terminateSession(userId: string, sessionId: string): Promise<void> {
+    const revoked = await refreshTokenService.revokeFamily(sessionId, 'TERMINATED', userId);
+
+    if (!revoked) {
+      throw new AppError('Session not found', 404);
+    }
+
+    await auditRecorder.record({
+      userId,
+      action: 'LOGOUT',
+      resource: 'session',
+      resourceId: sessionId,
+      metadata: { event: 'terminate' },
+    });
+
+    logger.info(`Session ${sessionId} terminated by user ${userId}`);
+  }
+
+  /**
+   * Apply the concurrent session policy before a new login: either refuse
+   * it or sign out the least recently used devices to make room
+   */
+  async admitLogin(userId: string, role: UserRole): Promise<void> {
+    const policy = await settingsService.get(SESSION_POLICY_KEY);
+    const limit = policy.limits[role];
+    if (limit === null) return;
+
+    const sessions = await this.findActive(userId);
+
+    if (policy.onLimit === 'REJECT') {
+      if (sessions.length >= limit) {
+        throw new AppError(
+          `You are signed in on ${sessions.length} devices, the maximum allowed. Sign out on another device first.`,
+          409,
+          true,
+          'SESSION_LIMIT_REACHED'
+        );
+      }
+      return;
+    }
+
+    // Leave room for the session about to be created
+    for (const session of sessionsOverLimit(sessions, limit - 1)) {
+      await refreshTokenService.revokeFamily(session.id, 'SESSION_LIMIT', userId);
+      logger.info(`Session ${session.id} of user ${userId} revoked by the concurrent session limit`);
+    }
+  }
+
+  /**
+   * Families that are not revoked and still hold an unexpired refresh token
+   */
+  private async findActive(userId: string) {
+    return prisma.refreshTokenFamily.findMany({
+      where: {
+        userId,
+        revokedAt: null,
+        tokens: { some: { expiresAt: { gt: new Date() } } },
+      },
+    });
+  }
+}
+
+export const sessionService = new SessionService();
+export default sessionService;
@@ -0,0 +1,21 @@
+import crypto from 'crypto';
+
+const TOKEN_BYTES = 32;
+
+/**
+ * Random URL-safe token to put in an emailed link
+ */
+export const generateToken = (): string => crypto.randomBytes(TOKEN_BYTES).toString('base64url');
+
+/**
+ * Keyed hash stored in place of the token, so a leaked table cannot be
+ * replayed and tokens cannot be forged without the server secret.
+ */
+export const hashToken = (token: string, secret: string): string =>
+  crypto.createHmac('sha256', secret).update(token).digest('hex');
+
+/**
+ * Whether a stored token can still be redeemed at `now`
+ */
+export const isTokenRedeemable = (token: { expiresAt: Date; usedAt: Date | null }, now: Date): boolean =>
+  token.usedAt === null && token.expiresAt.getTime() > now.getTime();
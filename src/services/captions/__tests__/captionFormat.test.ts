@@ -0,0 +1,55 @@
+import { CaptionFormatError, srtToVtt, toWebVtt } from '../captionFormat';
+
+const SRT = [
+  '1',
+  '00:00:01,000 --> 00:00:03,500',
+  'Welcome to the lesson.',
+  '',
+  '2',
+  '00:00:04,000 --> 00:00:06,250 X1:100 X2:200',
+  'Today we cover fractions',
+  'and decimals.',
+  ''
+].join('\r\n');
+
+describe('captionFormat', () => {
+  describe('srtToVtt', () => {
+    it('should convert cues and drop cue numbers', () => {
+      expect(srtToVtt(SRT)).toBe([
+        'WEBVTT',
+        '',
+        '00:00:01.000 --> 00:00:03.500',
+        'Welcome to the lesson.',
+        '',
+        '00:00:04.000 --> 00:00:06.250',
+        'Today we cover fractions',
+        'and decimals.',
+        ''
+      ].join('\n'));
+    });
+
+    it('should reject files without cues', () => {
+      expect(() => srtToVtt('just some text')).toThrow(CaptionFormatError);
+    });
+  });
+
+  describe('toWebVtt', () => {
+    it('should keep WebVTT files as they are', () => {
+      const vtt = '\uFEFFWEBVTT - Lesson 1\r\n\r\n00:01.000 --> 00:02.000 align:start\r\nHello\r\n';
+
+      expect(toWebVtt(vtt)).toBe('WEBVTT - Lesson 1\n\n00:01.000 --> 00:02.000 align:start\nHello\n');
+    });
+
+    it('should convert SRT uploads', () => {
+      expect(toWebVtt(SRT).startsWith('WEBVTT\n\n00:00:01.000 --> 00:00:03.500')).toBe(true);
+    });
+
+    it('should reject WebVTT files without cues', () => {
+      expect(() => toWebVtt('WEBVTT\n\nNOTE nothing here\n')).toThrow('no cues');
+    });
+
+    it('should reject other text files', () => {
+      expect(() => toWebVtt('Hello world')).toThrow('WebVTT or SRT');
+    });
+  });
+});
@@ -0,0 +1,63 @@
+import {
+  formatTranscriptForPrompt,
+  parseTranscript,
+  selectTranscriptWindow,
+  snapToCueStart
+} from '../transcript';
+
+const VTT = [
+  'WEBVTT',
+  '',
+  'NOTE recorded live',
+  '',
+  '00:05.000 --> 00:09.500',
+  '<v Teacher>Fractions describe parts of a whole.',
+  '',
+  '1',
+  '00:00:10.000 --> 00:00:14.000 align:start',
+  'The top number is the <i>numerator</i>,',
+  'the bottom one the denominator.',
+  '',
+  '01:02:03.250 --> 01:02:05.000',
+  'See you next time.',
+  ''
+].join('\n');
+
+describe('transcript', () => {
+  const cues = parseTranscript(VTT);
+
+  it('should parse cues and strip tags', () => {
+    expect(cues).toEqual([
+      { start: 5, end: 9.5, text: 'Fractions describe parts of a whole.' },
+      { start: 10, end: 14, text: 'The top number is the numerator, the bottom one the denominator.' },
+      { start: 3723.25, end: 3725, text: 'See you next time.' }
+    ]);
+  });
+
+  it('should select cues overlapping the window', () => {
+    expect(selectTranscriptWindow(cues, 9, 12).map(cue => cue.start)).toEqual([5, 10]);
+    expect(selectTranscriptWindow(cues, 14, 60)).toEqual([]);
+  });
+
+  it('should prefix prompt lines with cue start seconds', () => {
+    expect(formatTranscriptForPrompt(cues.slice(0, 2))).toBe(
+      '[5s] Fractions describe parts of a whole.\n' +
+      '[10s] The top number is the numerator, the bottom one the denominator.'
+    );
+  });
+
+  describe('snapToCueStart', () => {
+    it('should snap to the nearest cue start', () => {
+      expect(snapToCueStart(11, cues)).toBe(10);
+      expect(snapToCueStart(3000, cues)).toBe(3723);
+    });
+
+    it('should fall back to the first cue when no timestamp was cited', () => {
+      expect(snapToCueStart(undefined, cues)).toBe(5);
+    });
+
+    it('should keep the timestamp when there are no cues', () => {
+      expect(snapToCueStart(42, [])).toBe(42);
+    });
+  });
+});
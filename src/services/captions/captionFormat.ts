@@ -0,0 +1,64 @@
+// Matches a cue timing line in either format, e.g. "00:01:02,500 --> 00:01:04,000"
+// (SRT) or "01:02.500 --> 01:04.000 align:start" (WebVTT, hours optional)
+const TIMING_LINE = /^((?:\d+:)?\d{2}:\d{2}[.,]\d{3})\s+-->\s+((?:\d+:)?\d{2}:\d{2}[.,]\d{3})(.*)$/;
+
+export class CaptionFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CaptionFormatError';
+  }
+}
+
+const normalizeLineEndings = (content: string): string =>
+  content.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').trim();
+
+const splitBlocks = (content: string): string[] =>
+  content.split(/\n{2,}/).map(block => block.trim()).filter(Boolean);
+
+/**
+ * Converts SubRip (SRT) captions to WebVTT. Cue numbers are dropped and
+ * timestamps switch to the WebVTT millisecond separator.
+ */
+export const srtToVtt = (srt: string): string => {
+  const cues: string[] = [];
+
+  for (const block of splitBlocks(normalizeLineEndings(srt))) {
+    const lines = block.split('\n');
+    const timingIndex = lines.findIndex(line => TIMING_LINE.test(line));
+    if (timingIndex === -1) {
+      continue;
+    }
+
+    const [, start, end] = lines[timingIndex].match(TIMING_LINE)!;
+    const text = lines.slice(timingIndex + 1).join('\n');
+    cues.push(`${start.replace(',', '.')} --> ${end.replace(',', '.')}\n${text}`);
+  }
+
+  if (cues.length === 0) {
+    throw new CaptionFormatError('SRT file contains no cues');
+  }
+
+  return `WEBVTT\n\n${cues.join('\n\n')}\n`;
+};
+
+/**
+ * Returns the upload as a WebVTT document, converting SRT when needed.
+ * Throws a CaptionFormatError when the file is neither format.
+ */
+export const toWebVtt = (content: string): string => {
+  const normalized = normalizeLineEndings(content);
+
+  if (/^WEBVTT(?:[ \t].*)?(?:\n|$)/.test(normalized)) {
+    const hasCue = normalized.split('\n').some(line => TIMING_LINE.test(line));
+    if (!hasCue) {
+      throw new CaptionFormatError('WebVTT file contains no cues');
+    }
+    return `${normalized}\n`;
+  }
+
+  if (normalized.split('\n').some(line => TIMING_LINE.test(line))) {
+    return srtToVtt(normalized);
+  }
+
+  throw new CaptionFormatError('Caption file must be WebVTT or SRT');
+};
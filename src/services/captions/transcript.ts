@@ -0,0 +1,68 @@
+export interface TranscriptCue {
+  start: number; // seconds
+  end: number; // seconds
+  text: string;
+}
+
+const TIMING_LINE = /^((?:\d+:)?\d{2}:\d{2}\.\d{3})\s+-->\s+((?:\d+:)?\d{2}:\d{2}\.\d{3})/;
+
+// "01:02:03.500" or "02:03.500" -> seconds
+const parseTimestamp = (value: string): number =>
+  value.split(':').map(Number).reduce((total, part) => total * 60 + part, 0);
+
+/**
+ * Parse a stored WebVTT file into plain-text cues, dropping voice and
+ * styling tags
+ */
+export const parseTranscript = (vtt: string): TranscriptCue[] => {
+  const cues: TranscriptCue[] = [];
+
+  for (const block of vtt.replace(/\r\n?/g, '\n').split(/\n{2,}/)) {
+    const lines = block.trim().split('\n');
+    const timingIndex = lines.findIndex(line => TIMING_LINE.test(line));
+    if (timingIndex === -1) {
+      continue;
+    }
+
+    const [, start, end] = lines[timingIndex].match(TIMING_LINE)!;
+    const text = lines.slice(timingIndex + 1).join(' ').replace(/<[^>]+>/g, '').trim();
+    if (text) {
+      cues.push({ start: parseTimestamp(start), end: parseTimestamp(end), text });
+    }
+  }
+
+  return cues;
+};
+
+/**
+ * Cues that overlap the [start, end] window in seconds
+ */
+export const selectTranscriptWindow = (cues: TranscriptCue[], start: number, end: number): TranscriptCue[] =>
+  cues.filter(cue => cue.end > start && cue.start < end);
+
+/**
+ * Render cues one per line, prefixed with their start time in whole seconds,
+ * so a model can cite the segment a question comes from
+ */
+export const formatTranscriptForPrompt = (cues: TranscriptCue[]): string =>
+  cues.map(cue => `[${Math.floor(cue.start)}s] ${cue.text}`).join('\n');
+
+/**
+ * Snap a timestamp cited by the model to the start of the nearest cue, so
+ * every suggestion points at a real transcript segment
+ */
+export const snapToCueStart = (timestamp: number | undefined, cues: TranscriptCue[]): number | undefined => {
+  if (cues.length === 0) {
+    return timestamp;
+  }
+
+  if (timestamp === undefined || !Number.isFinite(timestamp)) {
+    return Math.floor(cues[0].start);
+  }
+
+  const nearest = cues.reduce((best, cue) =>
+    Math.abs(cue.start - timestamp) < Math.abs(best.start - timestamp) ? cue : best
+  );
+
+  return Math.floor(nearest.start);
+};
@@ -0,0 +1,107 @@
+import {
+  computeLessonGrade,
+  DEFAULT_GRADE_SCALE,
+  letterGradeFor,
+  normalizeGradeScale,
+  resolveGradeScale
+} from '../lessonGrade';
+
+const question = (id: string, overrides: Partial<{ points: number; passThreshold: number; retryLimit: number; milestoneId: string }> = {}) => ({
+  id,
+  milestoneId: overrides.milestoneId ?? 'm1',
+  milestoneTitle: 'Milestone',
+  points: overrides.points ?? 1,
+  passThreshold: overrides.passThreshold ?? 0.7,
+  retryLimit: overrides.retryLimit ?? 3
+});
+
+describe('lessonGrade', () => {
+  describe('computeLessonGrade', () => {
+    it('should weight each question by its points using the best attempt', () => {
+      const result = computeLessonGrade(
+        [question('q1', { points: 3 }), question('q2', { points: 1 })],
+        [
+          { questionId: 'q1', score: 0 },
+          { questionId: 'q1', score: 100 },
+          { questionId: 'q2', score: 100 }
+        ]
+      );
+
+      expect(result.totalPoints).toBe(4);
+      expect(result.earnedPoints).toBe(4);
+      expect(result.percentageScore).toBe(100);
+      expect(result.letterGrade).toBe('A');
+      expect(result.status).toBe('COMPLETED');
+      expect(result.totalAttempts).toBe(3);
+    });
+
+    it('should give no credit below the pass threshold', () => {
+      const result = computeLessonGrade(
+        [question('q1', { points: 2, passThreshold: 0.8 }), question('q2', { points: 2 })],
+        [
+          { questionId: 'q1', score: 75 },
+          { questionId: 'q2', score: 75 }
+        ]
+      );
+
+      expect(result.milestones[0].questions[0].passed).toBe(false);
+      expect(result.milestones[0].questions[0].earnedPoints).toBe(0);
+      expect(result.milestones[0].questions[1].earnedPoints).toBe(1.5);
+      expect(result.percentageScore).toBe(37.5);
+    });
+
+    it('should allow a retry while failed questions have attempts left', () => {
+      const result = computeLessonGrade(
+        [question('q1', { retryLimit: 2 })],
+        [{ questionId: 'q1', score: 0 }]
+      );
+
+      expect(result.status).toBe('RETRY_ALLOWED');
+      expect(result.remainingAttempts).toBe(1);
+    });
+
+    it('should fail once attempts are exhausted in the lowest band', () => {
+      const result = computeLessonGrade(
+        [question('q1', { retryLimit: 1 })],
+        [{ questionId: 'q1', score: 0 }]
+      );
+
+      expect(result.status).toBe('FAILED');
+      expect(result.letterGrade).toBe('F');
+    });
+
+    it('should stay in progress until every question is attempted', () => {
+      const result = computeLessonGrade(
+        [question('q1'), question('q2', { milestoneId: 'm2' })],
+        [{ questionId: 'q1', score: 100 }]
+      );
+
+      expect(result.status).toBe('IN_PROGRESS');
+      expect(result.milestones).toHaveLength(2);
+    });
+  });
+
+  describe('grade scale', () => {
+    it('should sort a custom scale and map percentages to letters', () => {
+      const scale = normalizeGradeScale([
+        { letter: 'Fail', minPercent: 0 },
+        { letter: 'Pass', minPercent: 50 },
+        { letter: 'Merit', minPercent: 75 }
+      ]);
+
+      expect(scale.map(entry => entry.letter)).toEqual(['Merit', 'Pass', 'Fail']);
+      expect(letterGradeFor(80, scale)).toBe('Merit');
+      expect(letterGradeFor(50, scale)).toBe('Pass');
+      expect(letterGradeFor(49.9, scale)).toBe('Fail');
+    });
+
+    it('should reject scales that do not start at zero', () => {
+      expect(() => normalizeGradeScale([{ letter: 'A', minPercent: 50 }])).toThrow('0 percent');
+    });
+
+    it('should fall back to the default scale when metadata has none', () => {
+      expect(resolveGradeScale(null)).toBe(DEFAULT_GRADE_SCALE);
+      expect(resolveGradeScale({ gradeScale: [{ letter: 'A', minPercent: 10 }] })).toBe(DEFAULT_GRADE_SCALE);
+    });
+  });
+});
@@ -0,0 +1,137 @@
+import { gradeAnswer } from '../questionGraders';
+
+describe('questionGraders', () => {
+  describe('MULTIPLE_CHOICE', () => {
+    const question = {
+      type: 'MULTIPLE_CHOICE' as const,
+      questionData: { options: ['A', 'B', 'C'], correctAnswerIndex: 1 },
+      explanation: 'B is right'
+    };
+
+    it('should accept the correct option index', () => {
+      const result = gradeAnswer(question, '1');
+
+      expect(result.isCorrect).toBe(true);
+      expect(result.score).toBe(100);
+      expect(result.explanation).toBe('B is right');
+    });
+
+    it('should reject any other option', () => {
+      expect(gradeAnswer(question, '2').score).toBe(0);
+    });
+  });
+
+  describe('TRUE_FALSE', () => {
+    it('should compare the stored boolean with the submitted label', () => {
+      const question = { type: 'TRUE_FALSE' as const, questionData: { correctAnswer: false } };
+
+      expect(gradeAnswer(question, 'False').isCorrect).toBe(true);
+      expect(gradeAnswer(question, 'True').isCorrect).toBe(false);
+    });
+  });
+
+  describe('MATCHING', () => {
+    const question = {
+      type: 'MATCHING' as const,
+      questionData: {
+        leftItems: ['Dog', 'Cat', 'Cow', 'Duck'],
+        rightItems: ['Bark', 'Meow', 'Moo', 'Quack'],
+        correctMatches: [
+          { left: 0, right: 0 },
+          { left: 1, right: 1 },
+          { left: 2, right: 2 },
+          { left: 3, right: 3 }
+        ]
+      }
+    };
+
+    it('should give full credit when every pair matches', () => {
+      const result = gradeAnswer(question, [
+        { left: 0, right: 0 },
+        { left: 1, right: 1 },
+        { left: 2, right: 2 },
+        { left: 3, right: 3 }
+      ]);
+
+      expect(result.score).toBe(100);
+      expect(result.isCorrect).toBe(true);
+    });
+
+    it('should give pair-wise partial credit', () => {
+      const result = gradeAnswer(question, [
+        { left: 0, right: 0 },
+        { left: 1, right: 1 },
+        { left: 2, right: 3 },
+        { left: 3, right: 2 }
+      ]);
+
+      expect(result.score).toBe(50);
+      expect(result.isCorrect).toBe(false);
+    });
+
+    it('should only count the first pairing for each left item', () => {
+      const result = gradeAnswer(question, [
+        { left: 0, right: 1 },
+        { left: 0, right: 0 }
+      ]);
+
+      expect(result.score).toBe(0);
+    });
+
+    it('should accept JSON-encoded answers', () => {
+      const result = gradeAnswer(question, JSON.stringify([{ left: 3, right: 3 }]));
+
+      expect(result.score).toBe(25);
+    });
+  });
+
+  describe('ORDERING', () => {
+    const questionData = {
+      items: ['First', 'Second', 'Third', 'Fourth'],
+      correctOrder: [0, 1, 2, 3]
+    };
+
+    it('should give full credit for the exact order', () => {
+      const result = gradeAnswer({ type: 'ORDERING', questionData }, [0, 1, 2, 3]);
+
+      expect(result.score).toBe(100);
+      expect(result.isCorrect).toBe(true);
+    });
+
+    it('should score by Kendall distance by default', () => {
+      // One adjacent swap: 1 discordant pair out of 6
+      const result = gradeAnswer({ type: 'ORDERING', questionData }, [1, 0, 2, 3]);
+
+      expect(result.score).toBe(83);
+      expect(result.isCorrect).toBe(true);
+    });
+
+    it('should give zero credit for a fully reversed order', () => {
+      expect(gradeAnswer({ type: 'ORDERING', questionData }, [3, 2, 1, 0]).score).toBe(0);
+    });
+
+    it('should score by exact position when configured', () => {
+      const result = gradeAnswer(
+        { type: 'ORDERING', questionData: { ...questionData, scoringMethod: 'position' } },
+        [1, 0, 2, 3]
+      );
+
+      expect(result.score).toBe(50);
+    });
+
+    it('should reject answers that are not a permutation of the items', () => {
+      expect(gradeAnswer({ type: 'ORDERING', questionData }, [0, 0, 1, 2]).score).toBe(0);
+      expect(gradeAnswer({ type: 'ORDERING', questionData }, [0, 1]).score).toBe(0);
+    });
+  });
+
+  it('should use the question pass threshold to decide correctness', () => {
+    const question = {
+      type: 'ORDERING' as const,
+      questionData: { items: ['a', 'b', 'c', 'd'], correctOrder: [0, 1, 2, 3] },
+      passThreshold: 0.9
+    };
+
+    expect(gradeAnswer(question, [1, 0, 2, 3]).isCorrect).toBe(false);
+  });
+});
@@ -0,0 +1,203 @@
+import { GradeStatus } from '@prisma/client';
+
+export interface GradeScaleEntry {
+  letter: string;
+  minPercent: number; // inclusive lower bound, 0-100
+}
+
+export const DEFAULT_GRADE_SCALE: GradeScaleEntry[] = [
+  { letter: 'A', minPercent: 90 },
+  { letter: 'B', minPercent: 80 },
+  { letter: 'C', minPercent: 70 },
+  { letter: 'D', minPercent: 60 },
+  { letter: 'F', minPercent: 0 }
+];
+
+export interface GradedQuestion {
+  id: string;
+  milestoneId: string;
+  milestoneTitle: string;
+  points: number;
+  passThreshold: number; // 0.0-1.0
+  retryLimit: number;
+}
+
+export interface GradedAttempt {
+  questionId: string;
+  score: number; // 0-100
+}
+
+export interface QuestionGradeBreakdown {
+  questionId: string;
+  points: number;
+  passThreshold: number;
+  attempts: number;
+  bestScore: number | null;
+  passed: boolean;
+  earnedPoints: number;
+  remainingAttempts: number;
+}
+
+export interface MilestoneGradeBreakdown {
+  milestoneId: string;
+  title: string;
+  totalPoints: number;
+  earnedPoints: number;
+  questions: QuestionGradeBreakdown[];
+}
+
+export interface LessonGradeResult {
+  totalPoints: number;
+  earnedPoints: number;
+  percentageScore: number;
+  letterGrade: string;
+  status: GradeStatus;
+  totalAttempts: number;
+  remainingAttempts: number;
+  milestones: MilestoneGradeBreakdown[];
+}
+
+/**
+ * Returns the scale sorted from the highest band down, or throws if it
+ * cannot grade every percentage from 0 to 100.
+ */
+export const normalizeGradeScale = (scale: GradeScaleEntry[]): GradeScaleEntry[] => {
+  if (!Array.isArray(scale) || scale.length === 0) {
+    throw new Error('Grade scale must have at least one entry');
+  }
+
+  const letters = new Set<string>();
+  for (const entry of scale) {
+    if (typeof entry?.letter !== 'string' || entry.letter.trim().length === 0) {
+      throw new Error('Grade scale entries must have a letter');
+    }
+    if (typeof entry.minPercent !== 'number' || entry.minPercent < 0 || entry.minPercent > 100) {
+      throw new Error('Grade scale entries must have a minimum percent between 0 and 100');
+    }
+    if (letters.has(entry.letter.trim())) {
+      throw new Error('Grade scale letters must be unique');
+    }
+    letters.add(entry.letter.trim());
+  }
+
+  const sorted = scale
+    .map(entry => ({ letter: entry.letter.trim(), minPercent: entry.minPercent }))
+    .sort((a, b) => b.minPercent - a.minPercent);
+
+  if (sorted[sorted.length - 1].minPercent !== 0) {
+    throw new Error('Grade scale must have an entry starting at 0 percent');
+  }
+
+  return sorted;
+};
+
+/**
+ * Reads the teacher's scale from lesson metadata, falling back to the
+ * default when none has been configured or the stored one is invalid.
+ */
+export const resolveGradeScale = (lessonMetadata: unknown): GradeScaleEntry[] => {
+  const stored = (lessonMetadata as { gradeScale?: GradeScaleEntry[] } | null)?.gradeScale;
+  if (!stored) {
+    return DEFAULT_GRADE_SCALE;
+  }
+
+  try {
+    return normalizeGradeScale(stored);
+  } catch {
+    return DEFAULT_GRADE_SCALE;
+  }
+};
+
+export const letterGradeFor = (percentage: number, scale: GradeScaleEntry[]): string => {
+  const band = scale.find(entry => percentage >= entry.minPercent);
+  return (band ?? scale[scale.length - 1]).letter;
+};
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Grades a lesson from each question's best attempt. A question only earns
+ * credit once its best score clears the question's pass threshold, and then
+ * earns that share of its points.
+ */
+export const computeLessonGrade = (
+  questions: GradedQuestion[],
+  attempts: GradedAttempt[],
+  scale: GradeScaleEntry[] = DEFAULT_GRADE_SCALE
+): LessonGradeResult => {
+  const attemptsByQuestion = new Map<string, number[]>();
+  for (const attempt of attempts) {
+    const scores = attemptsByQuestion.get(attempt.questionId) ?? [];
+    scores.push(attempt.score);
+    attemptsByQuestion.set(attempt.questionId, scores);
+  }
+
+  const milestones = new Map<string, MilestoneGradeBreakdown>();
+  let unattempted = 0;
+  let retryable = 0;
+
+  for (const question of questions) {
+    const scores = attemptsByQuestion.get(question.id) ?? [];
+    const bestScore = scores.length > 0 ? Math.max(...scores) : null;
+    const passed = bestScore !== null && bestScore >= question.passThreshold * 100;
+    const earnedPoints = passed ? round(question.points * (bestScore as number) / 100) : 0;
+    const remainingAttempts = passed ? 0 : Math.max(0, question.retryLimit - scores.length);
+
+    if (scores.length === 0) {
+      unattempted++;
+    } else if (!passed && remainingAttempts > 0) {
+      retryable++;
+    }
+
+    const milestone = milestones.get(question.milestoneId) ?? {
+      milestoneId: question.milestoneId,
+      title: question.milestoneTitle,
+      totalPoints: 0,
+      earnedPoints: 0,
+      questions: []
+    };
+    milestone.totalPoints += question.points;
+    milestone.earnedPoints = round(milestone.earnedPoints + earnedPoints);
+    milestone.questions.push({
+      questionId: question.id,
+      points: question.points,
+      passThreshold: question.passThreshold,
+      attempts: scores.length,
+      bestScore,
+      passed,
+      earnedPoints,
+      remainingAttempts
+    });
+    milestones.set(question.milestoneId, milestone);
+  }
+
+  const breakdown = Array.from(milestones.values());
+  const totalPoints = breakdown.reduce((sum, milestone) => sum + milestone.totalPoints, 0);
+  const earnedPoints = round(breakdown.reduce((sum, milestone) => sum + milestone.earnedPoints, 0));
+  const percentageScore = totalPoints > 0 ? round(earnedPoints / totalPoints * 100) : 0;
+  const letterGrade = letterGradeFor(percentageScore, scale);
+
+  let status: GradeStatus;
+  if (unattempted > 0 || questions.length === 0) {
+    status = 'IN_PROGRESS';
+  } else if (retryable > 0) {
+    status = 'RETRY_ALLOWED';
+  } else {
+    // Every question is either passed or out of attempts; the lowest band fails
+    status = letterGrade === scale[scale.length - 1].letter ? 'FAILED' : 'COMPLETED';
+  }
+
+  return {
+    totalPoints,
+    earnedPoints,
+    percentageScore,
+    letterGrade,
+    status,
+    totalAttempts: attempts.length,
+    remainingAttempts: breakdown.reduce(
+      (sum, milestone) => sum + milestone.questions.reduce((inner, q) => inner + q.remainingAttempts, 0),
+      0
+    ),
+    milestones: breakdown
+  };
+};
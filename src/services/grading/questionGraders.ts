@@ -0,0 +1,205 @@
+import { QuestionType } from '@prisma/client';
+
+/**
+ * Answer payload submitted by a student. Choice and text questions send a
+ * string, ORDERING sends item indices in the chosen order and MATCHING sends
+ * left/right index pairs.
+ */
+export type SubmittedAnswer = string | number | boolean | number[] | MatchingPair[];
+
+export interface MatchingPair {
+  left: number;
+  right: number;
+}
+
+export interface GradeOutcome {
+  isCorrect: boolean;
+  score: number; // 0-100
+  explanation: string;
+}
+
+export interface GradableQuestion {
+  type: QuestionType;
+  questionData: unknown;
+  explanation?: string | null;
+  passThreshold?: number;
+}
+
+/**
+ * A grader turns a raw answer into a 0-100 score. Whether that score counts
+ * as correct is decided by the question's pass threshold, so partial-credit
+ * graders never need to know about it.
+ */
+export type QuestionGrader = (questionData: any, answer: SubmittedAnswer) => number;
+
+const normalize = (value: unknown, caseSensitive = false): string => {
+  const text = String(value ?? '').trim();
+  return caseSensitive ? text : text.toLowerCase();
+};
+
+/**
+ * Structured answers may arrive JSON-encoded (e.g. from form posts), so
+ * decode strings that look like arrays before grading.
+ */
+export const parseStructuredAnswer = (answer: SubmittedAnswer): unknown => {
+  if (typeof answer === 'string' && answer.trim().startsWith('[')) {
+    try {
+      return JSON.parse(answer);
+    } catch {
+      return answer;
+    }
+  }
+  return answer;
+};
+
+const gradeMultipleChoice: QuestionGrader = (questionData, answer) => {
+  if (typeof questionData.correctAnswerIndex === 'number') {
+    return Number(answer) === questionData.correctAnswerIndex ? 100 : 0;
+  }
+  return normalize(questionData.correctAnswer) === normalize(answer) ? 100 : 0;
+};
+
+const gradeTrueFalse: QuestionGrader = (questionData, answer) => {
+  return normalize(questionData.correctAnswer) === normalize(answer) ? 100 : 0;
+};
+
+const gradeShortAnswer: QuestionGrader = (questionData, answer) => {
+  const answerText = normalize(answer, questionData.caseSensitive);
+
+  const correctAnswers: string[] = questionData.correctAnswers || [];
+  if (correctAnswers.some(correct => normalize(correct, questionData.caseSensitive) === answerText)) {
+    return 100;
+  }
+
+  // Fall back to key-term matching for partial credit
+  const keyTerms: string[] = questionData.keyTerms || [];
+  if (keyTerms.length > 0) {
+    const matchedTerms = keyTerms.filter(term => answerText.includes(normalize(term, questionData.caseSensitive)));
+    return Math.round((matchedTerms.length / keyTerms.length) * 100);
+  }
+
+  return correctAnswers.length > 0 ? 0 : 50; // Default partial credit for ungraded short answers
+};
+
+const gradeFillInBlank: QuestionGrader = (questionData, answer) => {
+  const blanks: Array<{ acceptedAnswers?: string[]; caseSensitive?: boolean }> = questionData.blanks || [];
+
+  if (blanks.length === 0) {
+    const acceptableAnswers: string[] = questionData.acceptableAnswers || [];
+    return acceptableAnswers.some(acceptable => normalize(acceptable) === normalize(answer)) ? 100 : 0;
+  }
+
+  const parsed = parseStructuredAnswer(answer);
+  const responses = Array.isArray(parsed) ? parsed : [parsed];
+  const filled = blanks.filter((blank, index) =>
+    (blank.acceptedAnswers || []).some(accepted =>
+      normalize(accepted, blank.caseSensitive) === normalize(responses[index], blank.caseSensitive)
+    )
+  );
+
+  return Math.round((filled.length / blanks.length) * 100);
+};
+
+/**
+ * Pair-wise partial credit: each correct left→right pair is worth an equal
+ * share. Only the first pairing for a given left item counts, so submitting
+ * every combination cannot farm points.
+ */
+const gradeMatching: QuestionGrader = (questionData, answer) => {
+  const correctMatches: MatchingPair[] = questionData.correctMatches || [];
+  const parsed = parseStructuredAnswer(answer);
+  if (correctMatches.length === 0 || !Array.isArray(parsed)) {
+    return 0;
+  }
+
+  const chosen = new Map<number, number>();
+  for (const pair of parsed as MatchingPair[]) {
+    if (pair && typeof pair === 'object' && !chosen.has(Number(pair.left))) {
+      chosen.set(Number(pair.left), Number(pair.right));
+    }
+  }
+
+  const matched = correctMatches.filter(pair => chosen.get(pair.left) === pair.right);
+  return Math.round((matched.length / correctMatches.length) * 100);
+};
+
+/**
+ * Ordering credit. By default uses normalised Kendall tau distance (share of
+ * item pairs placed in the right relative order), so one misplaced item costs
+ * little. `scoringMethod: 'position'` instead awards credit per item sitting
+ * in its exact slot.
+ */
+const gradeOrdering: QuestionGrader = (questionData, answer) => {
+  const correctOrder: number[] = questionData.correctOrder || [];
+  const parsed = parseStructuredAnswer(answer);
+  if (correctOrder.length === 0 || !Array.isArray(parsed)) {
+    return 0;
+  }
+
+  const submitted = (parsed as unknown[]).map(Number);
+  const isPermutation =
+    submitted.length === correctOrder.length &&
+    new Set(submitted).size === submitted.length &&
+    submitted.every(item => correctOrder.includes(item));
+  if (!isPermutation) {
+    return 0;
+  }
+
+  if (correctOrder.length === 1) {
+    return 100;
+  }
+
+  if (questionData.scoringMethod === 'position') {
+    const inPlace = submitted.filter((item, index) => item === correctOrder[index]);
+    return Math.round((inPlace.length / correctOrder.length) * 100);
+  }
+
+  const expectedRank = new Map(correctOrder.map((item, index) => [item, index] as [number, number]));
+  let discordantPairs = 0;
+  for (let i = 0; i < submitted.length; i++) {
+    for (let j = i + 1; j < submitted.length; j++) {
+      if (expectedRank.get(submitted[i])! > expectedRank.get(submitted[j])!) {
+        discordantPairs++;
+      }
+    }
+  }
+
+  const totalPairs = (submitted.length * (submitted.length - 1)) / 2;
+  return Math.round((1 - discordantPairs / totalPairs) * 100);
+};
+
+const graders: Record<QuestionType, QuestionGrader> = {
+  MULTIPLE_CHOICE: gradeMultipleChoice,
+  TRUE_FALSE: gradeTrueFalse,
+  SHORT_ANSWER: gradeShortAnswer,
+  FILL_IN_BLANK: gradeFillInBlank,
+  MATCHING: gradeMatching,
+  ORDERING: gradeOrdering
+};
+
+/**
+ * Replace the grader for a question type (used by tests and custom deployments)
+ */
+export const registerGrader = (type: QuestionType, grader: QuestionGrader): void => {
+  graders[type] = grader;
+};
+
+/**
+ * Grade an answer with the grader registered for the question's type
+ */
+export const gradeAnswer = (question: GradableQuestion, answer: SubmittedAnswer): GradeOutcome => {
+  const grader = graders[question.type];
+  if (!grader) {
+    throw new Error(`No grader registered for question type ${question.type}`);
+  }
+
+  const questionData = (question.questionData || {}) as Record<string, any>;
+  const score = Math.max(0, Math.min(100, grader(questionData, answer)));
+  const passThreshold = question.passThreshold ?? 0.7;
+
+  return {
+    isCorrect: score >= passThreshold * 100,
+    score,
+    explanation: question.explanation || questionData.explanation || ''
+  };
+};
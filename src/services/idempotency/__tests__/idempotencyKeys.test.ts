@@ -0,0 +1,51 @@
+import {
+  decideIdempotentRequest,
+  IN_PROGRESS_TIMEOUT_MS,
+  isValidIdempotencyKey,
+  requestFingerprint,
+} from '../idempotencyKeys';
+
+describe('idempotencyKeys', () => {
+  const now = new Date('2026-01-01T12:00:00Z');
+  const fingerprint = requestFingerprint('post', '/api/v1/sessions/s1/question');
+  const stored = {
+    fingerprint,
+    statusCode: 200,
+    createdAt: new Date(now.getTime() - 5_000),
+    expiresAt: new Date(now.getTime() + 60_000),
+  };
+
+  it('should accept UUID-like keys only', () => {
+    expect(isValidIdempotencyKey('0b6f3a4e-7c1d-4f7a-9a55-2f1c8e0d9b21')).toBe(true);
+    expect(isValidIdempotencyKey('short')).toBe(false);
+    expect(isValidIdempotencyKey('has spaces in it')).toBe(false);
+    expect(isValidIdempotencyKey('x'.repeat(129))).toBe(false);
+  });
+
+  it('should replay finished requests for the same method and path', () => {
+    expect(decideIdempotentRequest(null, fingerprint, now)).toBe('new');
+    expect(decideIdempotentRequest(stored, fingerprint, now)).toBe('replay');
+    expect(decideIdempotentRequest(stored, requestFingerprint('PUT', '/api/v1/sessions/s1/progress'), now)).toBe('mismatch');
+    expect(decideIdempotentRequest({ ...stored, expiresAt: now }, 'GET /other', now)).toBe('new');
+  });
+
+  it('should bind a key to the request body, whatever its key order', () => {
+    const answer = (value: string) =>
+      requestFingerprint('POST', '/api/v1/sessions/s1/question', { questionId: 'q1', answer: value });
+
+    expect(requestFingerprint('POST', '/api/v1/sessions/s1/question', { answer: 'B', questionId: 'q1' })).toBe(answer('B'));
+    expect(decideIdempotentRequest({ ...stored, fingerprint: answer('B') }, answer('B'), now)).toBe('replay');
+    expect(decideIdempotentRequest({ ...stored, fingerprint: answer('B') }, answer('C'), now)).toBe('mismatch');
+  });
+
+  it('should wait for an unfinished first request until it is presumed lost', () => {
+    const unfinished = { ...stored, statusCode: null };
+
+    expect(decideIdempotentRequest(unfinished, fingerprint, now)).toBe('in_progress');
+    expect(decideIdempotentRequest(
+      { ...unfinished, createdAt: new Date(now.getTime() - IN_PROGRESS_TIMEOUT_MS) },
+      fingerprint,
+      now
+    )).toBe('new');
+  });
+});
@@ -0,0 +1,66 @@
+import { createHash } from 'crypto';
+
+// Long enough for a random UUID, short enough to index
+const KEY_PATTERN = /^[A-Za-z0-9_-]{8,128}$/;
+
+// A first request still unfinished after this long is assumed lost, e.g. to a restart
+export const IN_PROGRESS_TIMEOUT_MS = 60 * 1000;
+
+export interface StoredRequest {
+  fingerprint: string;
+  statusCode: number | null;
+  createdAt: Date;
+  expiresAt: Date;
+}
+
+export type IdempotencyDecision = 'new' | 'replay' | 'in_progress' | 'mismatch';
+
+export const isValidIdempotencyKey = (key: string): boolean => KEY_PATTERN.test(key);
+
+// JSON with object keys sorted, so the same body always hashes the same
+const canonicalJson = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${canonicalJson(entry)}`).join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+};
+
+/**
+ * What a key is bound to, so it cannot be reused for another request: the
+ * method, the path and a hash of the body
+ */
+export const requestFingerprint = (method: string, path: string, body?: unknown): string => {
+  const bodyHash = createHash('sha256').update(canonicalJson(body)).digest('hex');
+  return `${method.toUpperCase()} ${path} ${bodyHash}`;
+};
+
+/**
+ * How to handle a request given what is stored for its key. Expired keys and
+ * first requests that never finished are handled as new; a finished request
+ * is replayed, but only for the same method, path and body.
+ */
+export const decideIdempotentRequest = (
+  stored: StoredRequest | null,
+  fingerprint: string,
+  now: Date
+): IdempotencyDecision => {
+  if (!stored || stored.expiresAt.getTime() <= now.getTime()) {
+    return 'new';
+  }
+
+  if (stored.fingerprint !== fingerprint) {
+    return 'mismatch';
+  }
+
+  if (stored.statusCode !== null) {
+    return 'replay';
+  }
+
+  return now.getTime() - stored.createdAt.getTime() >= IN_PROGRESS_TIMEOUT_MS ? 'new' : 'in_progress';
+};
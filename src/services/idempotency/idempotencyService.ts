@@ -0,0 +1,92 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/config/database';
+import { AppError } from '@/types';
+import { decideIdempotentRequest } from './idempotencyKeys';
+
+// Long enough to cover a client replaying its queue after a day offline
+const KEY_TTL_MS = 48 * 60 * 60 * 1000;
+
+export interface StoredResponse {
+  statusCode: number;
+  body: unknown;
+}
+
+const keyInUse = () =>
+  new AppError('A request with this idempotency key is still being handled', 409, true, 'IDEMPOTENCY_KEY_IN_USE');
+
+class IdempotencyService {
+  /**
+   * Claim a key for a request about to run. Returns the stored response when
+   * the request has already been handled, null when it should run now.
+   */
+  async begin(userId: string, key: string, fingerprint: string): Promise<StoredResponse | null> {
+    const now = new Date();
+    const stored = await prisma.idempotencyKey.findUnique({
+      where: { userId_key: { userId, key } },
+    });
+
+    const decision = decideIdempotentRequest(stored, fingerprint, now);
+    if (decision === 'replay' && stored?.statusCode != null) {
+      return { statusCode: stored.statusCode, body: stored.response };
+    }
+    if (decision === 'in_progress') {
+      throw keyInUse();
+    }
+    if (decision === 'mismatch') {
+      throw new AppError('This idempotency key was used for a different request', 422, true, 'IDEMPOTENCY_KEY_REUSED');
+    }
+
+    const expiresAt = new Date(now.getTime() + KEY_TTL_MS);
+    try {
+      if (stored) {
+        // Take over an expired or abandoned key, unless another request just did
+        const { count } = await prisma.idempotencyKey.updateMany({
+          where: { id: stored.id, createdAt: stored.createdAt },
+          data: { fingerprint, statusCode: null, response: Prisma.DbNull, createdAt: now, expiresAt },
+        });
+        if (count === 0) {
+          throw keyInUse();
+        }
+      } else {
+        await prisma.idempotencyKey.create({
+          data: { userId, key, fingerprint, expiresAt },
+        });
+      }
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw keyInUse();
+      }
+      throw error;
+    }
+
+    await prisma.idempotencyKey.deleteMany({
+      where: { userId, expiresAt: { lt: now } },
+    });
+
+    return null;
+  }
+
+  /**
+   * Store the response of a handled request for replays
+   */
+  async complete(userId: string, key: string, response: StoredResponse): Promise<void> {
+    await prisma.idempotencyKey.update({
+      where: { userId_key: { userId, key } },
+      data: {
+        statusCode: response.statusCode,
+        response: response.body as Prisma.InputJsonValue,
+      },
+    });
+  }
+
+  /**
+   * Forget a request that failed on the server, so a retry runs it again
+   */
+  async release(userId: string, key: string): Promise<void> {
+    await prisma.idempotencyKey.deleteMany({
+      where: { userId, key, statusCode: null },
+    });
+  }
+}
+
+export const idempotencyService = new IdempotencyService();
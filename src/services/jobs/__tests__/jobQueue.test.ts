@@ -0,0 +1,44 @@
+import { Job } from '@prisma/client';
+import { prisma } from '@/config/database';
+import { jobQueue } from '../jobQueue';
+
+jest.mock('@/config/database', () => ({
+  prisma: { job: { updateMany: jest.fn() } },
+}));
+
+jest.mock('@/utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+const updateMany = prisma.job.updateMany as jest.Mock;
+
+const job = {
+  id: 'job-1',
+  type: 'video.transcode',
+  attempts: 1,
+  maxAttempts: 3,
+  runAt: new Date(),
+  lockedBy: 'worker-1',
+} as unknown as Job;
+
+describe('jobQueue', () => {
+  it('should only refresh, complete or fail a job while the claiming worker holds it', async () => {
+    updateMany.mockResolvedValue({ count: 1 });
+
+    expect(await jobQueue.heartbeat(job)).toBe(true);
+    expect(await jobQueue.complete(job)).toBe(true);
+    expect(await jobQueue.fail(job, new Error('ffmpeg exited'))).toBe('PENDING');
+
+    for (const [{ where }] of updateMany.mock.calls) {
+      expect(where).toEqual({ id: 'job-1', status: 'RUNNING', lockedBy: 'worker-1' });
+    }
+  });
+
+  it('should not record the outcome of a run whose lock was released', async () => {
+    updateMany.mockResolvedValue({ count: 0 });
+
+    expect(await jobQueue.heartbeat(job)).toBe(false);
+    expect(await jobQueue.complete(job)).toBe(false);
+    expect(await jobQueue.fail(job, new Error('ffmpeg exited'))).toBeNull();
+  });
+});
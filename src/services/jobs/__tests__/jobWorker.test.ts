@@ -0,0 +1,84 @@
+import { Job } from '@prisma/client';
+import { JobWorker } from '../jobWorker';
+import { jobQueue } from '../jobQueue';
+
+jest.mock('@/config/environment', () => ({
+  config: { jobs: { pollIntervalMs: 1000, lockTimeoutMs: 30 * 60 * 1000 } },
+}));
+
+jest.mock('@/utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+jest.mock('../jobQueue', () => ({
+  jobQueue: {
+    claimNext: jest.fn(),
+    heartbeat: jest.fn(),
+    complete: jest.fn(),
+    fail: jest.fn(),
+    releaseStaleLocks: jest.fn(),
+  },
+}));
+
+const queue = jobQueue as jest.Mocked<typeof jobQueue>;
+
+const job = {
+  id: 'job-1',
+  type: 'video.transcode',
+  payload: { videoId: 'video-1' },
+  attempts: 1,
+  maxAttempts: 3,
+  lockedBy: 'worker-1',
+} as unknown as Job;
+
+describe('JobWorker', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    queue.claimNext.mockResolvedValueOnce(job).mockResolvedValue(null);
+    queue.releaseStaleLocks.mockResolvedValue(0);
+    queue.heartbeat.mockResolvedValue(true);
+    queue.complete.mockResolvedValue(true);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should keep the lock of a job fresh for as long as its handler runs', async () => {
+    let finishHandler: () => void = () => {};
+    const worker = new JobWorker();
+    worker.register('video.transcode', () => new Promise<void>(resolve => { finishHandler = resolve; }));
+
+    worker.start();
+    // An hour of transcoding, twice the lock timeout
+    for (let minute = 0; minute < 60; minute++) {
+      await jest.advanceTimersByTimeAsync(60 * 1000);
+    }
+
+    expect(queue.heartbeat).toHaveBeenCalledTimes(6);
+    expect(queue.heartbeat).toHaveBeenCalledWith(job);
+    expect(queue.complete).not.toHaveBeenCalled();
+
+    finishHandler();
+    await jest.advanceTimersByTimeAsync(0);
+    await worker.stop();
+
+    // Completion is recorded against the claim, and the heartbeat stops with the handler
+    expect(queue.complete).toHaveBeenCalledWith(job, undefined);
+    await jest.advanceTimersByTimeAsync(60 * 60 * 1000);
+    expect(queue.heartbeat).toHaveBeenCalledTimes(6);
+  });
+
+  it('should stop refreshing a lock that was released to another worker', async () => {
+    queue.heartbeat.mockResolvedValue(false);
+    const worker = new JobWorker();
+    worker.register('video.transcode', () => new Promise<void>(() => {}));
+
+    worker.start();
+    for (let minute = 0; minute < 60; minute++) {
+      await jest.advanceTimersByTimeAsync(60 * 1000);
+    }
+
+    expect(queue.heartbeat).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,23 @@
+import { computeBackoffMs } from '../retryPolicy';
+
+describe('retryPolicy', () => {
+  describe('computeBackoffMs', () => {
+    it('should wait 30 seconds after the first failure', () => {
+      expect(computeBackoffMs(1)).toBe(30 * 1000);
+    });
+
+    it('should double the delay for each further failure', () => {
+      expect(computeBackoffMs(2)).toBe(60 * 1000);
+      expect(computeBackoffMs(3)).toBe(2 * 60 * 1000);
+      expect(computeBackoffMs(4)).toBe(4 * 60 * 1000);
+    });
+
+    it('should cap the delay at one hour', () => {
+      expect(computeBackoffMs(20)).toBe(60 * 60 * 1000);
+    });
+
+    it('should treat attempts below one as the first failure', () => {
+      expect(computeBackoffMs(0)).toBe(30 * 1000);
+    });
+  });
+});
@@ -0,0 +1,46 @@
+import { Prisma } from '@prisma/client';
+import { VideoService } from '../VideoService';
+import { VideoTranscodingService } from '../VideoTranscodingService';
+import { JobWorker } from './jobWorker';
+import { VIDEO_JOB_TYPES, VideoJobPayload } from './videoJobs';
+
+/**
+ * Wrap a video handler so that jobs for deleted videos finish quietly
+ * instead of burning through their retries.
+ */
+const videoHandler = (run: (videoId: string) => Promise<Prisma.InputJsonValue>) =>
+  async (payload: Prisma.JsonValue) => {
+    const { videoId } = (payload ?? {}) as unknown as VideoJobPayload;
+    if (!videoId) {
+      throw new Error('Job payload is missing videoId');
+    }
+
+    try {
+      return await run(videoId);
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Video not found') {
+        return { skipped: 'Video not found' };
+      }
+      throw error;
+    }
+  };
+
+export const registerJobHandlers = (worker: JobWorker): void => {
+  worker.register(VIDEO_JOB_TYPES.METADATA, videoHandler(async videoId => {
+    const video = await VideoService.processVideoMetadata(videoId);
+    if (video.duration === null) {
+      throw new Error('Could not read video duration');
+    }
+    return { duration: video.duration, size: video.size?.toString() ?? null };
+  }));
+
+  worker.register(VIDEO_JOB_TYPES.THUMBNAIL, videoHandler(async videoId => {
+    const video = await VideoService.generateVideoThumbnail(videoId);
+    return { thumbnailPath: video.thumbnailPath };
+  }));
+
+  worker.register(VIDEO_JOB_TYPES.TRANSCODE, videoHandler(async videoId => {
+    const video = await VideoTranscodingService.transcodeToHls(videoId);
+    return { processingStatus: video.processingStatus };
+  }));
+};
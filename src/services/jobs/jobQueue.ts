@@ -0,0 +1,257 @@
+import { Job, JobStatus, Prisma } from '@prisma/client';
+import { prisma } from '@/config/database';
+import { AppError } from '@/types';
+import { logger } from '@/utils/logger';
+import { computeBackoffMs } from './retryPolicy';
+
+export interface EnqueueOptions {
+  maxAttempts?: number;
+  runAt?: Date;
+}
+
+export interface ListJobsOptions {
+  status?: JobStatus;
+  type?: string;
+  page?: number;
+  limit?: number;
+}
+
+class JobQueue {
+  /**
+   * Add a job to the queue
+   */
+  async enqueue(type: string, payload: Prisma.InputJsonValue, options: EnqueueOptions = {}): Promise<Job> {
+    const job = await prisma.job.create({
+      data: {
+        type,
+        payload,
+        maxAttempts: options.maxAttempts,
+        runAt: options.runAt
+      }
+    });
+
+    logger.info(`Job queued: ${job.type} (${job.id})`);
+    return job;
+  }
+
+  /**
+   * Atomically claim the next due job of one of the given types.
+   * SKIP LOCKED lets several workers poll the table without claiming the same row.
+   */
+  async claimNext(workerId: string, types: string[]): Promise<Job | null> {
+    if (types.length === 0) {
+      return null;
+    }
+
+    const claimed = await prisma.$queryRaw<Array<{ id: string }>>`
+      UPDATE "jobs"
+      SET "status" = 'RUNNING',
+          "attempts" = "attempts" + 1,
+          "lockedAt" = NOW(),
+          "lockedBy" = ${workerId},
+          "updatedAt" = NOW()
+      WHERE "id" = (
+        SELECT "id" FROM "jobs"
+        WHERE "status" = 'PENDING'
+          AND "runAt" <= NOW()
+          AND "type" IN (${Prisma.join(types)})
+        ORDER BY "runAt" ASC, "createdAt" ASC
+        LIMIT 1
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING "id"
+    `;
+
+    if (claimed.length === 0) {
+      return null;
+    }
+
+    return prisma.job.findUnique({ where: { id: claimed[0].id } });
+  }
+
+  /**
+   * Refresh the lock of a running job, so releaseStaleLocks leaves it alone.
+   * Returns false once the job is no longer held by the worker that claimed it.
+   */
+  async heartbeat(job: Job): Promise<boolean> {
+    const { count } = await prisma.job.updateMany({
+      where: { id: job.id, status: 'RUNNING', lockedBy: job.lockedBy },
+      data: { lockedAt: new Date() }
+    });
+
+    return count > 0;
+  }
+
+  /**
+   * Record a successful run. Jobs cancelled while running keep their status,
+   * and a run whose lock was released to another worker is not recorded.
+   */
+  async complete(job: Job, result?: Prisma.InputJsonValue): Promise<boolean> {
+    const { count } = await prisma.job.updateMany({
+      where: { id: job.id, status: 'RUNNING', lockedBy: job.lockedBy },
+      data: {
+        status: 'COMPLETED',
+        result: result ?? Prisma.JsonNull,
+        lastError: null,
+        lockedAt: null,
+        lockedBy: null,
+        completedAt: new Date()
+      }
+    });
+
+    return count > 0;
+  }
+
+  /**
+   * Record a failed run, scheduling a retry with backoff or moving the job
+   * to the dead-letter state once it is out of attempts. Returns null when
+   * the job was cancelled or its lock released while it ran.
+   */
+  async fail(job: Job, error: Error): Promise<JobStatus | null> {
+    const isDead = job.attempts >= job.maxAttempts;
+    const status: JobStatus = isDead ? 'DEAD' : 'PENDING';
+
+    const { count } = await prisma.job.updateMany({
+      where: { id: job.id, status: 'RUNNING', lockedBy: job.lockedBy },
+      data: {
+        status,
+        lastError: error.message,
+        lockedAt: null,
+        lockedBy: null,
+        runAt: isDead ? job.runAt : new Date(Date.now() + computeBackoffMs(job.attempts))
+      }
+    });
+
+    if (count === 0) {
+      logger.warn(`Job ${job.type} (${job.id}) failed after it was no longer held by this worker: ${error.message}`);
+      return null;
+    }
+
+    if (isDead) {
+      logger.error(`Job ${job.type} (${job.id}) failed permanently after ${job.attempts} attempts: ${error.message}`);
+    } else {
+      logger.warn(`Job ${job.type} (${job.id}) failed on attempt ${job.attempts}, will retry: ${error.message}`);
+    }
+
+    return status;
+  }
+
+  /**
+   * Release jobs whose worker stopped without finishing them (crash or
+   * restart). Workers refresh the lock of a job while it runs, so only
+   * abandoned jobs go stale. The interrupted run counts as an attempt.
+   */
+  async releaseStaleLocks(lockTimeoutMs: number): Promise<number> {
+    const cutoff = new Date(Date.now() - lockTimeoutMs);
+
+    const released = await prisma.$executeRaw`
+      UPDATE "jobs"
+      SET "status" = CASE WHEN "attempts" >= "maxAttempts" THEN 'DEAD'::"JobStatus" ELSE 'PENDING'::"JobStatus" END,
+          "lastError" = 'Worker lock expired before the job finished',
+          "lockedAt" = NULL,
+          "lockedBy" = NULL,
+          "updatedAt" = NOW()
+      WHERE "status" = 'RUNNING'
+        AND "lockedAt" < ${cutoff}
+    `;
+
+    if (released > 0) {
+      logger.warn(`Released ${released} stale job lock(s)`);
+    }
+
+    return released;
+  }
+
+  /**
+   * List jobs for the admin console, newest first
+   */
+  async listJobs(options: ListJobsOptions = {}) {
+    const { status, type, page = 1, limit = 20 } = options;
+
+    const where: Prisma.JobWhereInput = {};
+    if (status) where.status = status;
+    if (type) where.type = type;
+
+    const [jobs, total, counts] = await Promise.all([
+      prisma.job.findMany({
+        where,
+        skip: (page - 1) * limit,
+        take: limit,
+        orderBy: { createdAt: 'desc' }
+      }),
+      prisma.job.count({ where }),
+      prisma.job.groupBy({
+        by: ['status'],
+        _count: { _all: true }
+      })
+    ]);
+
+    return {
+      jobs,
+      total,
+      counts: Object.fromEntries(counts.map(count => [count.status, count._count._all])) as Partial<Record<JobStatus, number>>
+    };
+  }
+
+  /**
+   * Requeue a dead or cancelled job with a fresh set of attempts
+   */
+  async retryJob(jobId: string): Promise<Job> {
+    const job = await this.getJob(jobId);
+
+    if (job.status !== 'DEAD' && job.status !== 'CANCELLED') {
+      throw new AppError('Only dead or cancelled jobs can be retried', 409, true, 'JOB_NOT_RETRYABLE');
+    }
+
+    const updated = await prisma.job.update({
+      where: { id: jobId },
+      data: {
+        status: 'PENDING',
+        attempts: 0,
+        runAt: new Date(),
+        lastError: null,
+        completedAt: null
+      }
+    });
+
+    logger.info(`Job ${updated.type} (${updated.id}) requeued`);
+    return updated;
+  }
+
+  /**
+   * Cancel a pending or running job. A running attempt is not interrupted,
+   * but its outcome is discarded and it will not be retried.
+   */
+  async cancelJob(jobId: string): Promise<Job> {
+    const job = await this.getJob(jobId);
+
+    if (job.status !== 'PENDING' && job.status !== 'RUNNING') {
+      throw new AppError('Only pending or running jobs can be cancelled', 409, true, 'JOB_NOT_CANCELLABLE');
+    }
+
+    const updated = await prisma.job.update({
+      where: { id: jobId },
+      data: {
+        status: 'CANCELLED',
+        lockedAt: null,
+        lockedBy: null
+      }
+    });
+
+    logger.info(`Job ${updated.type} (${updated.id}) cancelled`);
+    return updated;
+  }
+
+  async getJob(jobId: string): Promise<Job> {
+    const job = await prisma.job.findUnique({ where: { id: jobId } });
+
+    if (!job) {
+      throw new AppError('Job not found', 404, true, 'JOB_NOT_FOUND');
+    }
+
+    return job;
+  }
+}
+
+export const jobQueue = new JobQueue();
+export default jobQueue;
@@ -0,0 +1,142 @@
+import os from 'os';
+import { randomUUID } from 'crypto';
+import { Job, Prisma } from '@prisma/client';
+import { config } from '@/config/environment';
+import { logger } from '@/utils/logger';
+import { jobQueue } from './jobQueue';
+
+export type JobHandler = (payload: Prisma.JsonValue, job: Job) => Promise<Prisma.InputJsonValue | void>;
+
+const LOCK_SWEEP_INTERVAL_MS = 60 * 1000;
+
+// Lock refreshes per lock timeout, so one slow or failed refresh does not lose the job
+const HEARTBEATS_PER_LOCK_TIMEOUT = 3;
+
+export class JobWorker {
+  private readonly handlers = new Map<string, JobHandler>();
+  private readonly workerId = `${os.hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+  private running = false;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private activeRun: Promise<void> | null = null;
+  private lastLockSweep = 0;
+
+  /**
+   * Register the handler for a job type. Only registered types are claimed.
+   */
+  register(type: string, handler: JobHandler): void {
+    this.handlers.set(type, handler);
+  }
+
+  /**
+   * Start polling the queue
+   */
+  start(pollIntervalMs: number = config.jobs.pollIntervalMs): void {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    logger.info(`Job worker ${this.workerId} started for: ${Array.from(this.handlers.keys()).join(', ')}`);
+    this.schedule(0, pollIntervalMs);
+  }
+
+  /**
+   * Stop polling and wait for the job in progress to finish
+   */
+  async stop(): Promise<void> {
+    this.running = false;
+
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    if (this.activeRun) {
+      await this.activeRun;
+    }
+
+    logger.info(`Job worker ${this.workerId} stopped`);
+  }
+
+  private schedule(delayMs: number, pollIntervalMs: number): void {
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.activeRun = this.drain().finally(() => {
+        this.activeRun = null;
+        if (this.running) {
+          this.schedule(pollIntervalMs, pollIntervalMs);
+        }
+      });
+    }, delayMs);
+  }
+
+  /**
+   * Run due jobs one at a time until the queue is empty
+   */
+  private async drain(): Promise<void> {
+    try {
+      if (Date.now() - this.lastLockSweep >= LOCK_SWEEP_INTERVAL_MS) {
+        this.lastLockSweep = Date.now();
+        await jobQueue.releaseStaleLocks(config.jobs.lockTimeoutMs);
+      }
+
+      while (this.running) {
+        const job = await jobQueue.claimNext(this.workerId, Array.from(this.handlers.keys()));
+        if (!job) {
+          break;
+        }
+        await this.runJob(job);
+      }
+    } catch (error) {
+      logger.error('Job worker poll failed:', error);
+    }
+  }
+
+  private async runJob(job: Job): Promise<void> {
+    const handler = this.handlers.get(job.type);
+    const heartbeat = this.startHeartbeat(job);
+
+    try {
+      if (!handler) {
+        throw new Error(`No handler registered for job type ${job.type}`);
+      }
+
+      const result = await handler(job.payload, job);
+      if (await jobQueue.complete(job, result ?? undefined)) {
+        logger.info(`Job ${job.type} (${job.id}) completed`);
+      } else {
+        logger.warn(`Job ${job.type} (${job.id}) finished after it was no longer held by this worker`);
+      }
+    } catch (error) {
+      await jobQueue.fail(job, error instanceof Error ? error : new Error(String(error)));
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+
+  /**
+   * Keep the job's lock fresh while its handler runs, so a long job such as
+   * a transcode is not released to another worker part way through
+   */
+  private startHeartbeat(job: Job): ReturnType<typeof setInterval> {
+    let held = true;
+
+    return setInterval(() => {
+      if (!held) {
+        return;
+      }
+
+      jobQueue.heartbeat(job)
+        .then(stillHeld => {
+          if (!stillHeld) {
+            held = false;
+            logger.warn(`Job ${job.type} (${job.id}) is no longer held by worker ${this.workerId}`);
+          }
+        })
+        .catch(error => logger.error(`Job ${job.type} (${job.id}) heartbeat failed:`, error));
+    }, config.jobs.lockTimeoutMs / HEARTBEATS_PER_LOCK_TIMEOUT);
+  }
+}
+
+export const jobWorker = new JobWorker();
+export default jobWorker;
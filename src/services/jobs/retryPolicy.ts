@@ -0,0 +1,9 @@
+const BASE_BACKOFF_MS = 30 * 1000;
+const MAX_BACKOFF_MS = 60 * 60 * 1000;
+
+/**
+ * Delay before retrying a job that has failed `attempts` times:
+ * 30s, 1m, 2m, 4m, ... capped at one hour.
+ */
+export const computeBackoffMs = (attempts: number): number =>
+  Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** Math.max(0, attempts - 1));
@@ -0,0 +1,44 @@
+import { Job } from '@prisma/client';
+import { jobQueue } from './jobQueue';
+
+export const VIDEO_JOB_TYPES = {
+  METADATA: 'video.metadata',
+  THUMBNAIL: 'video.thumbnail',
+  TRANSCODE: 'video.transcode'
+} as const;
+
+export interface VideoJobPayload {
+  videoId: string;
+}
+
+// Transcoding is expensive and rarely fixed by retrying, so give up sooner
+const TRANSCODE_MAX_ATTEMPTS = 3;
+
+/**
+ * Queue the full processing pipeline for a newly uploaded video. The worker
+ * claims jobs oldest first, so metadata is extracted before transcoding.
+ */
+export const enqueueVideoProcessing = async (videoId: string): Promise<Job[]> => {
+  const payload: VideoJobPayload = { videoId };
+
+  return [
+    await jobQueue.enqueue(VIDEO_JOB_TYPES.METADATA, { ...payload }),
+    await jobQueue.enqueue(VIDEO_JOB_TYPES.THUMBNAIL, { ...payload }),
+    await jobQueue.enqueue(VIDEO_JOB_TYPES.TRANSCODE, { ...payload }, { maxAttempts: TRANSCODE_MAX_ATTEMPTS })
+  ];
+};
+
+/**
+ * Queue metadata extraction and thumbnailing without re-transcoding
+ */
+export const enqueueVideoMetadata = async (videoId: string): Promise<Job[]> => {
+  const payload: VideoJobPayload = { videoId };
+
+  return [
+    await jobQueue.enqueue(VIDEO_JOB_TYPES.METADATA, { ...payload }),
+    await jobQueue.enqueue(VIDEO_JOB_TYPES.THUMBNAIL, { ...payload })
+  ];
+};
+
+export const enqueueVideoTranscode = (videoId: string): Promise<Job> =>
+  jobQueue.enqueue(VIDEO_JOB_TYPES.TRANSCODE, { videoId }, { maxAttempts: TRANSCODE_MAX_ATTEMPTS });
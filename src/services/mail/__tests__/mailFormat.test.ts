@@ -0,0 +1,35 @@
+import { formatMailMessage } from '../mailFormat';
+
+describe('formatMailMessage', () => {
+  const date = new Date('2026-01-01T12:00:00Z');
+  const base = {
+    from: 'Platform <no-reply@example.com>',
+    to: ['a@example.com', 'b@example.com'],
+    subject: 'Hello',
+  };
+
+  it('should render a plain text message with headers', () => {
+    const message = formatMailMessage({ ...base, text: 'Body' }, date);
+    const [headers, body] = message.split('\r\n\r\n');
+
+    expect(headers).toContain('To: a@example.com, b@example.com');
+    expect(headers).toContain('Date: Thu, 01 Jan 2026 12:00:00 GMT');
+    expect(headers).toContain('Content-Type: text/plain; charset=utf-8');
+    expect(body).toBe('Body\r\n');
+  });
+
+  it('should render an HTML-only message', () => {
+    const message = formatMailMessage({ ...base, html: '<p>Body</p>' }, date);
+
+    expect(message).toContain('Content-Type: text/html; charset=utf-8');
+    expect(message).toContain('<p>Body</p>');
+  });
+
+  it('should render text and HTML as multipart/alternative', () => {
+    const message = formatMailMessage({ ...base, text: 'Body', html: '<p>Body</p>' }, date);
+
+    expect(message).toContain('Content-Type: multipart/alternative');
+    expect(message.indexOf('text/plain')).toBeLessThan(message.indexOf('text/html'));
+    expect(message.trimEnd().endsWith('--mail-alternative-boundary--')).toBe(true);
+  });
+});
@@ -0,0 +1,37 @@
+import nodemailer from 'nodemailer';
+import { SmtpMailTransport } from '../smtpTransport';
+
+jest.mock('nodemailer', () => ({
+  __esModule: true,
+  default: { createTransport: jest.fn() },
+}));
+
+const createTransport = nodemailer.createTransport as jest.Mock;
+
+describe('SmtpMailTransport', () => {
+  const sendMail = jest.fn();
+
+  beforeEach(() => {
+    createTransport.mockReturnValue({ sendMail });
+    sendMail.mockResolvedValue({});
+  });
+
+  it('should deliver messages through the configured server', async () => {
+    const transport = new SmtpMailTransport({ host: 'smtp.example.com', port: 587, user: 'mailer', password: 'secret' });
+    await transport.send({ from: 'a@example.com', to: ['b@example.com'], subject: 'Verify your email', text: 'Hello' });
+
+    expect(createTransport).toHaveBeenCalledWith({
+      host: 'smtp.example.com',
+      port: 587,
+      secure: false,
+      auth: { user: 'mailer', pass: 'secret' },
+    });
+    expect(sendMail).toHaveBeenCalledWith(expect.objectContaining({ to: ['b@example.com'], subject: 'Verify your email' }));
+  });
+
+  it('should use TLS from the start on port 465 and skip auth without a user', () => {
+    new SmtpMailTransport({ host: 'smtp.example.com', port: 465 });
+
+    expect(createTransport).toHaveBeenCalledWith(expect.objectContaining({ secure: true, auth: undefined }));
+  });
+});
@@ -0,0 +1,13 @@
+import { logger } from '@/utils/logger';
+import { MailTransport, MailMessage } from './types';
+
+/**
+ * Development sink that writes outgoing mail to the application log
+ */
+export class ConsoleMailTransport implements MailTransport {
+  readonly name = 'console';
+
+  async send(message: MailMessage): Promise<void> {
+    logger.info(`Mail to ${message.to.join(', ')}: ${message.subject}\n${message.text ?? message.html ?? ''}`);
+  }
+}
@@ -0,0 +1,22 @@
+import fs from 'fs/promises';
+import path from 'path';
+import crypto from 'crypto';
+import { MailTransport, MailMessage } from './types';
+import { formatMailMessage } from './mailFormat';
+
+/**
+ * Development sink that stores each message as an .eml file in a directory
+ */
+export class FileMailTransport implements MailTransport {
+  readonly name = 'file';
+
+  constructor(private readonly directory: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    const now = new Date();
+    const fileName = `${now.toISOString().replace(/[:.]/g, '-')}-${crypto.randomBytes(4).toString('hex')}.eml`;
+
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(path.join(this.directory, fileName), formatMailMessage(message, now), 'utf8');
+  }
+}
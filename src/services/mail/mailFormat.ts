@@ -0,0 +1,44 @@
+import { MailMessage } from './types';
+
+const BOUNDARY = 'mail-alternative-boundary';
+
+/**
+ * Render a message as RFC 822 text so dev sinks produce files that any mail
+ * client can open. Text and HTML bodies become a multipart/alternative message.
+ */
+export const formatMailMessage = (message: MailMessage, date: Date): string => {
+  const headers = [
+    `From: ${message.from}`,
+    `To: ${message.to.join(', ')}`,
+    `Subject: ${message.subject}`,
+    `Date: ${date.toUTCString()}`,
+    'MIME-Version: 1.0',
+  ];
+
+  if (message.text !== undefined && message.html !== undefined) {
+    return [
+      ...headers,
+      `Content-Type: multipart/alternative; boundary="${BOUNDARY}"`,
+      '',
+      `--${BOUNDARY}`,
+      'Content-Type: text/plain; charset=utf-8',
+      '',
+      message.text,
+      `--${BOUNDARY}`,
+      'Content-Type: text/html; charset=utf-8',
+      '',
+      message.html,
+      `--${BOUNDARY}--`,
+      '',
+    ].join('\r\n');
+  }
+
+  const isHtml = message.text === undefined && message.html !== undefined;
+  return [
+    ...headers,
+    `Content-Type: text/${isHtml ? 'html' : 'plain'}; charset=utf-8`,
+    '',
+    (isHtml ? message.html : message.text) ?? '',
+    '',
+  ].join('\r\n');
+};
@@ -0,0 +1,58 @@
+import { config } from '@/config/environment';
+import { logger } from '@/utils/logger';
+import { EmailOptions } from '@/types';
+import { MailTransport } from './types';
+import { ConsoleMailTransport } from './consoleTransport';
+import { FileMailTransport } from './fileTransport';
+import { SmtpMailTransport } from './smtpTransport';
+
+const createTransport = (): MailTransport => {
+  switch (config.email.transport) {
+    case 'smtp':
+      if (!config.email.host) {
+        throw new Error('SMTP_HOST is required for the smtp mail transport');
+      }
+      return new SmtpMailTransport({
+        host: config.email.host,
+        port: config.email.port ?? 587,
+        user: config.email.user,
+        password: config.email.password,
+      });
+    case 'file':
+      return new FileMailTransport(config.email.fileDir);
+    case 'console':
+    default:
+      return new ConsoleMailTransport();
+  }
+};
+
+class MailService {
+  private transport: MailTransport = createTransport();
+
+  /**
+   * Replace the transport, e.g. with an API-backed implementation
+   */
+  setTransport(transport: MailTransport): void {
+    this.transport = transport;
+  }
+
+  /**
+   * Send an email through the configured transport
+   */
+  async send(options: EmailOptions): Promise<void> {
+    const to = Array.isArray(options.to) ? options.to : [options.to];
+
+    await this.transport.send({
+      from: config.email.from,
+      to,
+      subject: options.subject,
+      text: options.text,
+      html: options.html,
+    });
+
+    logger.debug(`Mail sent via ${this.transport.name} transport`, { to, subject: options.subject });
+  }
+}
+
+export const mailService = new MailService();
+export default mailService;
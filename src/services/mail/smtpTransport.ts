@@ -0,0 +1,38 @@
+import nodemailer, { Transporter } from 'nodemailer';
+import { MailTransport, MailMessage } from './types';
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  user?: string;
+  password?: string;
+}
+
+/**
+ * Delivers mail through an SMTP server. Port 465 uses TLS from the start;
+ * other ports upgrade with STARTTLS when the server offers it.
+ */
+export class SmtpMailTransport implements MailTransport {
+  readonly name = 'smtp';
+
+  private readonly transporter: Transporter;
+
+  constructor(options: SmtpOptions) {
+    this.transporter = nodemailer.createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.port === 465,
+      auth: options.user ? { user: options.user, pass: options.password } : undefined,
+    });
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail({
+      from: message.from,
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+      html: message.html,
+    });
+  }
+}
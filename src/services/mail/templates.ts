@@ -0,0 +1,41 @@
+import { EmailOptions } from '@/types';
+
+type MailContent = Pick<EmailOptions, 'subject' | 'text' | 'html'>;
+
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const linkEmail = (subject: string, greeting: string, intro: string, action: string, link: string, outro: string): MailContent => ({
+  subject,
+  text: [greeting, '', intro, '', link, '', outro].join('\n'),
+  html: [
+    `<p>${escapeHtml(greeting)}</p>`,
+    `<p>${escapeHtml(intro)}</p>`,
+    `<p><a href="${escapeHtml(link)}">${escapeHtml(action)}</a></p>`,
+    `<p>${escapeHtml(outro)}</p>`,
+  ].join('\n'),
+});
+
+export const verificationEmail = (firstName: string, link: string, ttlHours: number): MailContent =>
+  linkEmail(
+    'Verify your email address',
+    `Hi ${firstName},`,
+    'Please confirm your email address to activate your account:',
+    'Verify email address',
+    link,
+    `This link expires in ${ttlHours} hours. If you did not create an account, you can ignore this email.`
+  );
+
+export const passwordResetEmail = (firstName: string, link: string, ttlMinutes: number): MailContent =>
+  linkEmail(
+    'Reset your password',
+    `Hi ${firstName},`,
+    'We received a request to reset your password. Choose a new one here:',
+    'Reset password',
+    link,
+    `This link expires in ${ttlMinutes} minutes and can be used once. If you did not ask for a reset, you can ignore this email.`
+  );
@@ -0,0 +1,12 @@
+export interface MailMessage {
+  from: string;
+  to: string[];
+  subject: string;
+  text?: string;
+  html?: string;
+}
+
+export interface MailTransport {
+  readonly name: string;
+  send(message: MailMessage): Promise<void>;
+}
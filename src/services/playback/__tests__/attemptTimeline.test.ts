@@ -0,0 +1,49 @@
+import { buildAttemptTimeline } from '../attemptTimeline';
+
+describe('attemptTimeline', () => {
+  const attempt = (overrides = {}) => ({
+    id: 'session-1',
+    attemptNumber: 1,
+    status: 'ACTIVE' as const,
+    currentPosition: 0,
+    startedAt: new Date('2026-01-01T10:00:00Z'),
+    completedAt: null,
+    lastSeenAt: new Date('2026-01-01T10:05:00Z'),
+    isCurrent: false,
+    answers: [],
+    ...overrides,
+  });
+
+  it('should list attempts oldest first with their progress and score', () => {
+    const timeline = buildAttemptTimeline([
+      attempt({ id: 'session-2', attemptNumber: 2, currentPosition: 45, isCurrent: true }),
+      attempt({
+        status: 'COMPLETED',
+        currentPosition: 20,
+        completedAt: new Date('2026-01-01T10:30:00Z'),
+        answers: [{ isCorrect: true }, { isCorrect: false }, { isCorrect: null }, { isCorrect: true }],
+      }),
+    ], 180);
+
+    expect(timeline).toEqual([
+      {
+        sessionId: 'session-1',
+        attemptNumber: 1,
+        status: 'COMPLETED',
+        isCurrent: false,
+        startedAt: '2026-01-01T10:00:00.000Z',
+        completedAt: '2026-01-01T10:30:00.000Z',
+        lastSeenAt: '2026-01-01T10:05:00.000Z',
+        progress: 100,
+        answers: 4,
+        score: 50,
+      },
+      expect.objectContaining({ sessionId: 'session-2', attemptNumber: 2, isCurrent: true, progress: 25, score: null }),
+    ]);
+  });
+
+  it('should cap progress and report none without a duration', () => {
+    expect(buildAttemptTimeline([attempt({ currentPosition: 200 })], 180)[0].progress).toBe(100);
+    expect(buildAttemptTimeline([attempt({ currentPosition: 60 })], null)[0].progress).toBe(0);
+  });
+});
@@ -0,0 +1,60 @@
+import { checkProgress, pendingRequiredMilestones } from '../playbackPolicy';
+
+describe('playbackPolicy', () => {
+  const base = {
+    currentPosition: 60,
+    furthestPosition: 100,
+    elapsedSeconds: 5,
+    pendingMilestone: null,
+  };
+
+  it('should treat required milestones as pending until reached and answered', () => {
+    const milestones = [
+      { id: 'm2', timestamp: 120, questionIds: [] },
+      { id: 'm1', timestamp: 30, questionIds: ['q1', 'q2'] },
+      { id: 'm3', timestamp: 200, questionIds: ['q3'] },
+    ];
+
+    const pending = pendingRequiredMilestones(milestones, new Set(['m1', 'm2']), new Set(['q1']));
+
+    expect(pending.map(milestone => milestone.id)).toEqual(['m1', 'm3']);
+    expect(pendingRequiredMilestones(milestones, new Set(['m1', 'm2', 'm3']), new Set(['q1', 'q2', 'q3']))).toEqual([]);
+  });
+
+  it('should only advance the furthest position by what could have been watched', () => {
+    // 5 seconds at double speed plus grace reaches 113
+    expect(checkProgress({ ...base, seekPolicy: 'FREE', target: 500 })).toEqual({ ok: true, furthestPosition: 113 });
+    expect(checkProgress({ ...base, seekPolicy: 'FREE', target: 108 })).toEqual({ ok: true, furthestPosition: 108 });
+    expect(checkProgress({ ...base, seekPolicy: 'FREE', target: 10 })).toEqual({ ok: true, furthestPosition: 100 });
+  });
+
+  it('should apply the video seek policy', () => {
+    expect(checkProgress({ ...base, seekPolicy: 'WATCHED_RANGE', target: 110 }).ok).toBe(true);
+    expect(checkProgress({ ...base, seekPolicy: 'WATCHED_RANGE', target: 150 }))
+      .toEqual({ ok: false, code: 'SEEK_NOT_ALLOWED', maxPosition: 113 });
+
+    // Going back is fine, jumping ahead of the current position is not, even within the watched range
+    expect(checkProgress({ ...base, seekPolicy: 'NO_SEEK_AHEAD', target: 20 }).ok).toBe(true);
+    expect(checkProgress({ ...base, seekPolicy: 'NO_SEEK_AHEAD', target: 90 }))
+      .toEqual({ ok: false, code: 'SEEK_NOT_ALLOWED', maxPosition: 73 });
+  });
+
+  it('should not count a long idle gap as time spent watching', () => {
+    // An hour paused earns no more than one reporting gap: 15 seconds at double speed plus grace
+    const idle = { ...base, elapsedSeconds: 60 * 60 };
+
+    expect(checkProgress({ ...idle, seekPolicy: 'FREE', target: 3000 })).toEqual({ ok: true, furthestPosition: 133 });
+    expect(checkProgress({ ...idle, seekPolicy: 'WATCHED_RANGE', target: 3000 }))
+      .toEqual({ ok: false, code: 'SEEK_NOT_ALLOWED', maxPosition: 133 });
+    expect(checkProgress({ ...idle, seekPolicy: 'NO_SEEK_AHEAD', target: 3000 }))
+      .toEqual({ ok: false, code: 'SEEK_NOT_ALLOWED', maxPosition: 93 });
+  });
+
+  it('should not let any policy pass a pending required milestone', () => {
+    const pendingMilestone = { id: 'm1', timestamp: 105, questionIds: ['q1'] };
+
+    expect(checkProgress({ ...base, seekPolicy: 'FREE', pendingMilestone, target: 106 }).ok).toBe(true);
+    expect(checkProgress({ ...base, seekPolicy: 'FREE', pendingMilestone, target: 300 }))
+      .toEqual({ ok: false, code: 'REQUIRED_MILESTONE_PENDING', maxPosition: 105, milestoneId: 'm1' });
+  });
+});
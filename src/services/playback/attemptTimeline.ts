@@ -0,0 +1,60 @@
+import { SessionStatus } from '@prisma/client';
+
+export interface ViewingAttemptRecord {
+  id: string;
+  attemptNumber: number;
+  status: SessionStatus;
+  currentPosition: number;
+  startedAt: Date;
+  completedAt: Date | null;
+  lastSeenAt: Date;
+  isCurrent: boolean;
+  answers: { isCorrect: boolean | null }[]; // Submitted answers only
+}
+
+export interface ViewingAttemptSummary {
+  sessionId: string;
+  attemptNumber: number;
+  status: SessionStatus;
+  isCurrent: boolean;
+  startedAt: string;
+  completedAt: string | null;
+  lastSeenAt: string;
+  progress: number; // Percent of the video, 0-100
+  answers: number;
+  score: number | null; // Percent of answers correct, null before any answer
+}
+
+/**
+ * A student's viewing attempts of one video, oldest first. Progress is the
+ * position each attempt got to, so a finished attempt reads 100 even if the
+ * student rewound before completing it.
+ */
+export const buildAttemptTimeline = (
+  attempts: ViewingAttemptRecord[],
+  duration: number | null
+): ViewingAttemptSummary[] =>
+  [...attempts]
+    .sort((a, b) => a.attemptNumber - b.attemptNumber)
+    .map(attempt => {
+      const correct = attempt.answers.filter(answer => answer.isCorrect).length;
+      let progress = 0;
+      if (attempt.status === 'COMPLETED') {
+        progress = 100;
+      } else if (duration) {
+        progress = Math.min(100, Math.round((attempt.currentPosition / duration) * 100));
+      }
+
+      return {
+        sessionId: attempt.id,
+        attemptNumber: attempt.attemptNumber,
+        status: attempt.status,
+        isCurrent: attempt.isCurrent,
+        startedAt: attempt.startedAt.toISOString(),
+        completedAt: attempt.completedAt?.toISOString() ?? null,
+        lastSeenAt: attempt.lastSeenAt.toISOString(),
+        progress,
+        answers: attempt.answers.length,
+        score: attempt.answers.length > 0 ? Math.round((correct / attempt.answers.length) * 100) : null,
+      };
+    });
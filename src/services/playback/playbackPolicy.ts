@@ -0,0 +1,92 @@
+import { SeekPolicy } from '@prisma/client';
+
+// Watching at the fastest common playback rate cannot advance further than this per second
+export const MAX_PLAYBACK_RATE = 2;
+
+// Slack for reporting intervals, request latency and positions rounded down to whole seconds
+export const POSITION_GRACE_SECONDS = 3;
+
+// The player reports progress every 5 seconds while playing. A longer gap since
+// the last save was spent paused or away, not watching, so it earns no more advance
+export const MAX_REPORT_GAP_SECONDS = 15;
+
+export interface RequiredMilestone {
+  id: string;
+  timestamp: number;
+  questionIds: string[];
+}
+
+export interface ProgressCheck {
+  seekPolicy: SeekPolicy;
+  currentPosition: number; // Last position saved for the session
+  furthestPosition: number; // Furthest position reached by watching
+  elapsedSeconds: number; // Since the session was last saved, capped at MAX_REPORT_GAP_SECONDS
+  target: number; // Position being saved now
+  pendingMilestone: RequiredMilestone | null; // Earliest required milestone not yet passed
+}
+
+export type ProgressDecision =
+  | { ok: true; furthestPosition: number }
+  | {
+    ok: false;
+    code: 'SEEK_NOT_ALLOWED' | 'REQUIRED_MILESTONE_PENDING';
+    maxPosition: number;
+    milestoneId?: string;
+  };
+
+/**
+ * Required milestones a student has not passed yet, earliest first. A
+ * milestone is passed once it has been reached and every one of its
+ * questions has a submitted answer; answers need not be correct, since the
+ * retry limit may rule that out.
+ */
+export const pendingRequiredMilestones = (
+  milestones: RequiredMilestone[],
+  reachedMilestoneIds: Set<string>,
+  answeredQuestionIds: Set<string>
+): RequiredMilestone[] =>
+  milestones
+    .filter(milestone =>
+      !reachedMilestoneIds.has(milestone.id) ||
+      milestone.questionIds.some(questionId => !answeredQuestionIds.has(questionId))
+    )
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+/**
+ * Decide whether a session may move to `target`. Watching advances the
+ * furthest position by at most the elapsed time, up to one reporting gap,
+ * at MAX_PLAYBACK_RATE;
+ * anything beyond that is a seek, which the video's policy may forbid.
+ * No policy allows passing a required milestone that is still pending.
+ */
+export const checkProgress = (check: ProgressCheck): ProgressDecision => {
+  const watchingSeconds = Math.min(Math.max(0, check.elapsedSeconds), MAX_REPORT_GAP_SECONDS);
+  const advance = watchingSeconds * MAX_PLAYBACK_RATE + POSITION_GRACE_SECONDS;
+  const watchedReach = check.furthestPosition + advance;
+
+  let policyLimit = Infinity;
+  if (check.seekPolicy === 'NO_SEEK_AHEAD') {
+    policyLimit = check.currentPosition + advance;
+  } else if (check.seekPolicy === 'WATCHED_RANGE') {
+    policyLimit = watchedReach;
+  }
+
+  const pending = check.pendingMilestone;
+  if (pending && check.target > pending.timestamp + POSITION_GRACE_SECONDS) {
+    return {
+      ok: false,
+      code: 'REQUIRED_MILESTONE_PENDING',
+      maxPosition: Math.floor(Math.min(pending.timestamp, policyLimit)),
+      milestoneId: pending.id,
+    };
+  }
+
+  if (check.target > policyLimit) {
+    return { ok: false, code: 'SEEK_NOT_ALLOWED', maxPosition: Math.floor(policyLimit) };
+  }
+
+  return {
+    ok: true,
+    furthestPosition: Math.max(check.furthestPosition, Math.min(check.target, watchedReach)),
+  };
+};
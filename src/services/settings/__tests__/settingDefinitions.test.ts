@@ -0,0 +1,44 @@
+import type { config } from '../../../config/environment';
+import { resolveSettingValue, validateSettingValue } from '../settingDefinitions';
+
+const env = {
+  session: { timeoutMinutes: 30 },
+  rateLimit: { windowMs: 900000, maxRequests: 100 },
+  analytics: { enabled: true, retentionDays: 365 },
+  security: { maxFileSize: '100MB' },
+} as unknown as typeof config;
+
+describe('settingDefinitions', () => {
+  it('should reject values outside a setting\'s type or bounds', () => {
+    expect(validateSettingValue('session.timeoutMinutes', 60)).toEqual({ ok: true, value: 60 });
+    expect(validateSettingValue('session.timeoutMinutes', 1).ok).toBe(false);
+    expect(validateSettingValue('session.timeoutMinutes', '60').ok).toBe(false);
+    expect(validateSettingValue('analytics.enabled', 'yes').ok).toBe(false);
+    expect(validateSettingValue('session.concurrentLimits', { limits: { STUDENT: 0 } }).ok).toBe(false);
+    expect(validateSettingValue('session.concurrentLimits', { limits: { GUEST: 1 } }).ok).toBe(false);
+  });
+
+  it('should fill in omitted session policy fields', () => {
+    expect(validateSettingValue('session.concurrentLimits', { limits: { ADMIN: null } })).toEqual({
+      ok: true,
+      value: { limits: { STUDENT: 3, TEACHER: 3, ADMIN: null }, onLimit: 'REVOKE_OLDEST' },
+    });
+  });
+
+  it('should layer stored values over environment defaults', () => {
+    expect(resolveSettingValue('rateLimit.maxRequests', undefined, env)).toBe(100);
+    expect(resolveSettingValue('rateLimit.maxRequests', 250, env)).toBe(250);
+    // A stored value that no longer passes validation falls back to the default
+    expect(resolveSettingValue('analytics.enabled', { enabled: false }, env)).toBe(true);
+  });
+
+  it('should default the video size limit to MAX_FILE_SIZE, within the upload cap', () => {
+    const withMaxFileSize = (maxFileSize: string) =>
+      ({ ...env, security: { maxFileSize } }) as unknown as typeof config;
+
+    expect(resolveSettingValue('video.maxFileSizeMb', undefined, env)).toBe(100);
+    expect(resolveSettingValue('video.maxFileSizeMb', undefined, withMaxFileSize('2gb'))).toBe(2048);
+    expect(resolveSettingValue('video.maxFileSizeMb', undefined, withMaxFileSize('50GB'))).toBe(5120);
+    expect(resolveSettingValue('video.maxFileSizeMb', undefined, withMaxFileSize('100KB'))).toBe(1);
+  });
+});
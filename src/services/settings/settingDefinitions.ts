@@ -0,0 +1,165 @@
+import type { config } from '../../config/environment';
+import { SESSION_POLICY_KEY, SessionPolicy, parseSessionPolicy } from '../auth/sessionPolicy';
+
+// Runtime settings admins can change without a redeploy. Values are stored
+// in SystemConfig as plain JSON; a key without a row uses its default, which
+// usually comes from the environment.
+
+type Environment = typeof config;
+
+export interface SettingValues {
+  'video.maxFileSizeMb': number;
+  'session.timeoutMinutes': number;
+  [SESSION_POLICY_KEY]: SessionPolicy;
+  'rateLimit.maxRequests': number;
+  'analytics.enabled': boolean;
+}
+
+export type SettingKey = keyof SettingValues;
+
+export type SettingType = 'integer' | 'boolean' | 'json';
+
+export interface SettingDefinition<T> {
+  category: string;
+  description: string;
+  type: SettingType;
+  // Public settings are served to anyone by GET /config/public
+  isPublic: boolean;
+  defaultValue: (env: Environment) => T;
+  // Error message for a value that cannot be stored, null when it is fine
+  check: (value: unknown) => string | null;
+  // Shape a checked value, e.g. filling in omitted fields
+  normalise?: (value: unknown) => T;
+}
+
+export type SettingValidationResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; error: string };
+
+// Chunked uploads are capped at 5GB regardless of this setting
+const MAX_VIDEO_SIZE_MB = 5 * 1024;
+
+const SIZE_UNITS_MB: Record<string, number> = { KB: 1 / 1024, MB: 1, GB: 1024 };
+
+// MAX_FILE_SIZE is written like "100MB"; a value that can't be read leaves the cap
+const maxFileSizeMb = (size: string): number => {
+  const match = /^\s*(\d+(?:\.\d+)?)\s*(KB|MB|GB)\s*$/i.exec(size);
+  if (!match) return MAX_VIDEO_SIZE_MB;
+  const megabytes = Math.floor(Number(match[1]) * SIZE_UNITS_MB[match[2].toUpperCase()]);
+  return Math.min(Math.max(megabytes, 1), MAX_VIDEO_SIZE_MB);
+};
+
+const integerBetween = (min: number, max: number) => (value: unknown): string | null =>
+  typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max
+    ? null
+    : `Must be a whole number from ${min} to ${max}`;
+
+const isBoolean = (value: unknown): string | null =>
+  typeof value === 'boolean' ? null : 'Must be true or false';
+
+const checkSessionPolicy = (value: unknown): string | null => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return 'Must be an object with limits and onLimit';
+  }
+
+  const { limits, onLimit } = value as { limits?: unknown; onLimit?: unknown };
+  if (onLimit !== undefined && onLimit !== 'REVOKE_OLDEST' && onLimit !== 'REJECT') {
+    return 'onLimit must be REVOKE_OLDEST or REJECT';
+  }
+  if (limits !== undefined) {
+    if (!limits || typeof limits !== 'object' || Array.isArray(limits)) {
+      return 'limits must map roles to a number of sessions';
+    }
+    for (const [role, limit] of Object.entries(limits)) {
+      if (!['STUDENT', 'TEACHER', 'ADMIN'].includes(role)) {
+        return `Unknown role ${role}`;
+      }
+      if (limit !== null && !(typeof limit === 'number' && Number.isInteger(limit) && limit > 0)) {
+        return `The ${role} limit must be a positive whole number, or null for unlimited`;
+      }
+    }
+  }
+  return null;
+};
+
+export const SETTING_DEFINITIONS: { [K in SettingKey]: SettingDefinition<SettingValues[K]> } = {
+  'video.maxFileSizeMb': {
+    category: 'video',
+    description: 'Largest video file teachers can upload, in megabytes',
+    type: 'integer',
+    isPublic: true,
+    defaultValue: env => maxFileSizeMb(env.security.maxFileSize),
+    check: integerBetween(1, MAX_VIDEO_SIZE_MB),
+  },
+  'session.timeoutMinutes': {
+    category: 'session',
+    description: 'Minutes of inactivity after which a session expires',
+    type: 'integer',
+    isPublic: false,
+    defaultValue: env => env.session.timeoutMinutes,
+    check: integerBetween(5, 7 * 24 * 60),
+  },
+  [SESSION_POLICY_KEY]: {
+    category: 'session',
+    description: 'Maximum concurrent login sessions per role (null for unlimited) and what happens when exceeded (REVOKE_OLDEST or REJECT)',
+    type: 'json',
+    isPublic: false,
+    defaultValue: () => parseSessionPolicy(null),
+    check: checkSessionPolicy,
+    normalise: parseSessionPolicy,
+  },
+  'rateLimit.maxRequests': {
+    category: 'security',
+    description: 'Requests each user or IP address may make per rate limit window',
+    type: 'integer',
+    isPublic: false,
+    defaultValue: env => env.rateLimit.maxRequests,
+    check: integerBetween(10, 100000),
+  },
+  'analytics.enabled': {
+    category: 'analytics',
+    description: 'Record playback and question analytics events from the player',
+    type: 'boolean',
+    isPublic: true,
+    defaultValue: env => env.analytics.enabled,
+    check: isBoolean,
+  },
+};
+
+export const SETTING_KEYS = Object.keys(SETTING_DEFINITIONS) as SettingKey[];
+
+export const isSettingKey = (key: string): key is SettingKey =>
+  Object.prototype.hasOwnProperty.call(SETTING_DEFINITIONS, key);
+
+/**
+ * Check a value an admin wants to store for a setting
+ */
+export const validateSettingValue = <K extends SettingKey>(
+  key: K,
+  value: unknown
+): SettingValidationResult<SettingValues[K]> => {
+  const definition = SETTING_DEFINITIONS[key] as SettingDefinition<SettingValues[K]>;
+  const error = definition.check(value);
+  if (error) {
+    return { ok: false, error };
+  }
+  return { ok: true, value: definition.normalise ? definition.normalise(value) : (value as SettingValues[K]) };
+};
+
+/**
+ * The effective value of a setting: the stored one when it is still valid,
+ * the default otherwise. Stored values can go stale when a definition's
+ * bounds change, so they are checked again on the way out.
+ */
+export const resolveSettingValue = <K extends SettingKey>(
+  key: K,
+  stored: unknown,
+  env: Environment
+): SettingValues[K] => {
+  const definition = SETTING_DEFINITIONS[key] as SettingDefinition<SettingValues[K]>;
+  if (stored !== undefined) {
+    const result = validateSettingValue(key, stored);
+    if (result.ok) return result.value;
+  }
+  return definition.defaultValue(env);
+};
@@ -0,0 +1,200 @@
+import { AuditAction, Prisma } from '@prisma/client';
+import { prisma } from '@/config/database';
+import { config } from '@/config/environment';
+import { logger } from '@/utils/logger';
+import { AppError } from '@/types';
+import { auditRecorder } from '../audit/auditRecorder';
+import {
+  SETTING_DEFINITIONS,
+  SETTING_KEYS,
+  SettingKey,
+  SettingType,
+  SettingValues,
+  isSettingKey,
+  resolveSettingValue,
+  validateSettingValue,
+} from './settingDefinitions';
+
+// How long stored values are reused before SystemConfig is read again; other
+// instances pick up a change within this time
+const CACHE_TTL_MS = 60 * 1000;
+
+interface StoredSetting {
+  value: unknown;
+  isPublic: boolean;
+  updatedAt: Date;
+}
+
+export interface SettingView {
+  key: SettingKey;
+  category: string;
+  description: string;
+  type: SettingType;
+  isPublic: boolean;
+  value: unknown;
+  defaultValue: unknown;
+  overridden: boolean; // False while the default applies
+  updatedAt: string | null;
+}
+
+class SettingsService {
+  private stored = new Map<string, StoredSetting>();
+  private loadedAt = 0;
+  private loading: Promise<void> | null = null;
+
+  /**
+   * The effective value of a setting, read through the cache
+   */
+  async get<K extends SettingKey>(key: K): Promise<SettingValues[K]> {
+    await this.ensureLoaded();
+    return resolveSettingValue(key, this.stored.get(key)?.value, config);
+  }
+
+  /**
+   * Every defined setting with its effective and default values
+   */
+  async list(): Promise<SettingView[]> {
+    await this.ensureLoaded();
+    return SETTING_KEYS.map(key => this.toView(key));
+  }
+
+  /**
+   * Settings anyone may read: the public defined settings plus any other
+   * SystemConfig rows flagged public
+   */
+  async getPublic(): Promise<Record<string, unknown>> {
+    await this.ensureLoaded();
+
+    const values: Record<string, unknown> = {};
+    for (const [key, setting] of this.stored) {
+      if (setting.isPublic && !isSettingKey(key)) {
+        values[key] = setting.value;
+      }
+    }
+    for (const key of SETTING_KEYS) {
+      if (SETTING_DEFINITIONS[key].isPublic) {
+        values[key] = resolveSettingValue(key, this.stored.get(key)?.value, config);
+      }
+    }
+    return values;
+  }
+
+  /**
+   * Store a new value for a setting, overriding its default
+   */
+  async set(key: string, value: unknown, actorId: string): Promise<SettingView> {
+    const settingKey = this.assertKnown(key);
+    const result = validateSettingValue(settingKey, value);
+    if (!result.ok) {
+      throw new AppError(`Invalid value for ${key}: ${result.error}`, 400, true, 'INVALID_SETTING_VALUE');
+    }
+
+    const definition = SETTING_DEFINITIONS[settingKey];
+    const existing = await prisma.systemConfig.findUnique({ where: { key } });
+    const data = {
+      value: result.value as Prisma.InputJsonValue,
+      category: definition.category,
+      description: definition.description,
+      isPublic: definition.isPublic,
+    };
+    const saved = await prisma.systemConfig.upsert({
+      where: { key },
+      update: data,
+      create: { key, ...data },
+    });
+
+    this.stored.set(key, { value: saved.value, isPublic: saved.isPublic, updatedAt: saved.updatedAt });
+    logger.info(`Setting ${key} changed by ${actorId}`);
+    await auditRecorder.record({
+      userId: actorId,
+      action: existing ? AuditAction.UPDATE : AuditAction.CREATE,
+      resource: 'system_config',
+      resourceId: key,
+      before: existing ? { value: existing.value } : null,
+      after: { value: saved.value },
+    });
+
+    return this.toView(settingKey);
+  }
+
+  /**
+   * Remove the stored value so the default applies again
+   */
+  async reset(key: string, actorId: string): Promise<SettingView> {
+    const settingKey = this.assertKnown(key);
+    const existing = await prisma.systemConfig.findUnique({ where: { key } });
+
+    if (existing) {
+      await prisma.systemConfig.delete({ where: { key } });
+      this.stored.delete(key);
+      logger.info(`Setting ${key} reset to its default by ${actorId}`);
+      await auditRecorder.record({
+        userId: actorId,
+        action: AuditAction.DELETE,
+        resource: 'system_config',
+        resourceId: key,
+        before: { value: existing.value },
+      });
+    }
+
+    return this.toView(settingKey);
+  }
+
+  /**
+   * Forget the cached values so the next read goes to the database
+   */
+  invalidate(): void {
+    this.loadedAt = 0;
+  }
+
+  private assertKnown(key: string): SettingKey {
+    if (!isSettingKey(key)) {
+      throw new AppError(`Unknown setting ${key}`, 404, true, 'SETTING_NOT_FOUND');
+    }
+    return key;
+  }
+
+  private toView(key: SettingKey): SettingView {
+    const definition = SETTING_DEFINITIONS[key];
+    const stored = this.stored.get(key);
+    return {
+      key,
+      category: definition.category,
+      description: definition.description,
+      type: definition.type,
+      isPublic: definition.isPublic,
+      value: resolveSettingValue(key, stored?.value, config),
+      defaultValue: definition.defaultValue(config),
+      overridden: stored !== undefined,
+      updatedAt: stored?.updatedAt.toISOString() ?? null,
+    };
+  }
+
+  private async ensureLoaded(): Promise<void> {
+    if (Date.now() - this.loadedAt < CACHE_TTL_MS) {
+      return;
+    }
+    // Concurrent requests share one query
+    this.loading ??= this.load().finally(() => {
+      this.loading = null;
+    });
+    await this.loading;
+  }
+
+  private async load(): Promise<void> {
+    try {
+      const rows = await prisma.systemConfig.findMany();
+      this.stored = new Map(rows.map(row => [
+        row.key,
+        { value: row.value, isPublic: row.isPublic, updatedAt: row.updatedAt },
+      ]));
+    } catch (error) {
+      logger.error('Failed to load settings, using the previous values:', error);
+    }
+
+    this.loadedAt = Date.now();
+  }
+}
+
+export const settingsService = new SettingsService();
+export default settingsService;
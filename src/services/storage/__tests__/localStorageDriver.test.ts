@@ -0,0 +1,52 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { LocalStorageDriver } from '../localStorageDriver';
+import { storageKeys } from '../storageDriver';
+
+describe('LocalStorageDriver', () => {
+  let root: string;
+  let driver: LocalStorageDriver;
+
+  beforeEach(async () => {
+    root = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'storage-test-'));
+    driver = new LocalStorageDriver(root);
+  });
+
+  afterEach(async () => {
+    await fs.promises.rm(root, { recursive: true, force: true });
+  });
+
+  it('should read back byte ranges of stored objects', async () => {
+    await driver.put(storageKeys.video('a.mp4'), Buffer.from('0123456789'));
+
+    expect(await driver.stat('videos/a.mp4')).toEqual({ size: 10, contentType: 'video/mp4' });
+    const chunks: Buffer[] = [];
+    for await (const chunk of await driver.createReadStream('videos/a.mp4', { start: 2, end: 4 })) {
+      chunks.push(chunk as Buffer);
+    }
+    expect(Buffer.concat(chunks).toString()).toBe('234');
+    expect(await driver.stat('videos/missing.mp4')).toBeNull();
+  });
+
+  it('should list and delete everything under a prefix only', async () => {
+    await driver.put(storageKeys.hls('v1', 'master.m3u8'), '#EXTM3U');
+    await driver.put(storageKeys.hls('v1', '240p', 'segment_0000.ts'), 'ts');
+    await driver.put(storageKeys.hls('v10', 'master.m3u8'), '#EXTM3U');
+
+    expect(await driver.list(storageKeys.hls('v1'))).toEqual(['hls/v1/240p/segment_0000.ts', 'hls/v1/master.m3u8']);
+    await driver.deletePrefix(storageKeys.hls('v1'));
+    expect(await driver.list('hls')).toEqual(['hls/v10/master.m3u8']);
+  });
+
+  it('should move staged files in and refuse keys outside the root', async () => {
+    const staged = path.join(root, 'staged.jpg');
+    await fs.promises.writeFile(staged, 'jpeg');
+
+    await driver.moveFile(storageKeys.thumbnail('a.jpg'), staged);
+
+    expect(fs.existsSync(staged)).toBe(false);
+    expect((await driver.read('thumbnails/a.jpg')).toString()).toBe('jpeg');
+    await expect(driver.read('../outside')).rejects.toThrow('Invalid storage key');
+  });
+});
@@ -0,0 +1,51 @@
+import fs from 'fs';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { config } from '@/config/environment';
+import { GcsStorageDriver } from './gcsStorageDriver';
+import { LocalStorageDriver } from './localStorageDriver';
+import { S3StorageDriver } from './s3StorageDriver';
+import { StorageDriver, StorageDriverName } from './storageDriver';
+
+export const LOCAL_STORAGE_ROOT = path.resolve(config.storage.localRoot);
+
+// Local working area for files on their way into storage: multer uploads,
+// resumable uploads in progress and ffmpeg output. Always on local disk,
+// whichever driver is configured.
+export const STAGING_DIR = path.join(LOCAL_STORAGE_ROOT, 'tmp');
+
+/**
+ * Build a driver from the environment. The migration command uses this to
+ * open drivers other than the configured one.
+ */
+export const createStorageDriver = (name: StorageDriverName): StorageDriver => {
+  switch (name) {
+    case 'local':
+      return new LocalStorageDriver(LOCAL_STORAGE_ROOT);
+    case 'gcs':
+      if (!config.googleCloud.storageBucket) {
+        throw new Error('GOOGLE_CLOUD_STORAGE_BUCKET is required for the gcs storage driver');
+      }
+      return new GcsStorageDriver({
+        bucket: config.googleCloud.storageBucket,
+        projectId: config.googleCloud.projectId,
+        keyFilename: config.googleCloud.credentials,
+      });
+    case 's3':
+      if (!config.storage.s3.bucket) {
+        throw new Error('S3_BUCKET is required for the s3 storage driver');
+      }
+      return new S3StorageDriver({ ...config.storage.s3, bucket: config.storage.s3.bucket });
+  }
+};
+
+/**
+ * A fresh path in the staging area, keeping the extension of fileName
+ */
+export const createStagingPath = async (fileName: string): Promise<string> => {
+  await fs.promises.mkdir(STAGING_DIR, { recursive: true });
+  return path.join(STAGING_DIR, `${uuidv4()}${path.extname(fileName)}`);
+};
+
+export const fileStorage = createStorageDriver(config.storage.driver);
+export default fileStorage;
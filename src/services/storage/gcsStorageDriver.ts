@@ -0,0 +1,106 @@
+import fs from 'fs';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { Bucket, Storage } from '@google-cloud/storage';
+import {
+  ByteRange,
+  PutOptions,
+  StorageDriver,
+  StoredObject,
+  assertSafeKey,
+  contentTypeForKey,
+  withDownloadedCopy,
+} from './storageDriver';
+
+export interface GcsStorageOptions {
+  bucket: string;
+  projectId?: string;
+  keyFilename?: string; // Service account key; application default credentials when omitted
+}
+
+const isNotFound = (error: unknown): boolean => (error as { code?: number }).code === 404;
+
+/**
+ * Objects in a Google Cloud Storage bucket, the key being the object name
+ */
+export class GcsStorageDriver implements StorageDriver {
+  readonly name = 'gcs' as const;
+  private readonly bucket: Bucket;
+
+  constructor(options: GcsStorageOptions) {
+    const storage = new Storage({ projectId: options.projectId, keyFilename: options.keyFilename });
+    this.bucket = storage.bucket(options.bucket);
+  }
+
+  async put(key: string, body: Buffer | string | Readable, options: PutOptions = {}): Promise<void> {
+    const file = this.file(key);
+    const contentType = options.contentType ?? contentTypeForKey(key);
+
+    if (body instanceof Readable) {
+      await pipeline(body, file.createWriteStream({ contentType, resumable: false }));
+    } else {
+      await file.save(body, { contentType, resumable: false });
+    }
+  }
+
+  async moveFile(key: string, filePath: string, options: PutOptions = {}): Promise<void> {
+    assertSafeKey(key);
+    await this.bucket.upload(filePath, {
+      destination: key,
+      contentType: options.contentType ?? contentTypeForKey(key),
+    });
+    await fs.promises.unlink(filePath);
+  }
+
+  async read(key: string): Promise<Buffer> {
+    const [contents] = await this.file(key).download();
+    return contents;
+  }
+
+  async createReadStream(key: string, range?: ByteRange): Promise<Readable> {
+    const file = this.file(key);
+    // Surface a missing object before streaming starts
+    const [exists] = await file.exists();
+    if (!exists) {
+      throw new Error(`Object not found: ${key}`);
+    }
+    return file.createReadStream(range ? { start: range.start, end: range.end } : {});
+  }
+
+  async stat(key: string): Promise<StoredObject | null> {
+    try {
+      const [metadata] = await this.file(key).getMetadata();
+      return { size: Number(metadata.size ?? 0), contentType: metadata.contentType ?? null };
+    } catch (error) {
+      if (isNotFound(error)) return null;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.file(key).delete({ ignoreNotFound: true });
+  }
+
+  async deletePrefix(prefix: string): Promise<void> {
+    await this.bucket.deleteFiles({ prefix: this.asPrefix(prefix) });
+  }
+
+  async list(prefix: string): Promise<string[]> {
+    const [files] = await this.bucket.getFiles({ prefix: this.asPrefix(prefix) });
+    return files.map(file => file.name).sort();
+  }
+
+  async withLocalFile<T>(key: string, fn: (filePath: string) => Promise<T>): Promise<T> {
+    return withDownloadedCopy(this, key, fn);
+  }
+
+  private file(key: string) {
+    assertSafeKey(key);
+    return this.bucket.file(key);
+  }
+
+  // "hls/abc" must not also match "hls/abcd"
+  private asPrefix(prefix: string): string {
+    return prefix.endsWith('/') ? prefix : `${prefix}/`;
+  }
+}
@@ -0,0 +1,95 @@
+import fs from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import {
+  ByteRange,
+  StorageDriver,
+  StoredObject,
+  assertSafeKey,
+  contentTypeForKey,
+} from './storageDriver';
+
+/**
+ * Objects as files under a root directory, the key being the relative path
+ */
+export class LocalStorageDriver implements StorageDriver {
+  readonly name = 'local' as const;
+
+  constructor(private readonly root: string) {}
+
+  async put(key: string, body: Buffer | string | Readable): Promise<void> {
+    const filePath = await this.prepare(key);
+    if (body instanceof Readable) {
+      await pipeline(body, fs.createWriteStream(filePath));
+    } else {
+      await fs.promises.writeFile(filePath, body);
+    }
+  }
+
+  async moveFile(key: string, filePath: string): Promise<void> {
+    const destination = await this.prepare(key);
+    try {
+      await fs.promises.rename(filePath, destination);
+    } catch (error) {
+      // Renaming only works within one file system
+      if (!(error instanceof Error && 'code' in error && error.code === 'EXDEV')) throw error;
+      await fs.promises.copyFile(filePath, destination);
+      await fs.promises.unlink(filePath);
+    }
+  }
+
+  async read(key: string): Promise<Buffer> {
+    return fs.promises.readFile(this.resolve(key));
+  }
+
+  async createReadStream(key: string, range?: ByteRange): Promise<Readable> {
+    const filePath = this.resolve(key);
+    // Fail here rather than on the first read, so callers can still send a 404
+    await fs.promises.access(filePath);
+    return fs.createReadStream(filePath, range);
+  }
+
+  async stat(key: string): Promise<StoredObject | null> {
+    try {
+      const stats = await fs.promises.stat(this.resolve(key));
+      return stats.isFile() ? { size: stats.size, contentType: contentTypeForKey(key) } : null;
+    } catch {
+      return null;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.promises.rm(this.resolve(key), { force: true });
+  }
+
+  async deletePrefix(prefix: string): Promise<void> {
+    const directory = this.resolve(prefix.replace(/\/$/, ''));
+    await fs.promises.rm(directory, { recursive: true, force: true });
+  }
+
+  async list(prefix: string): Promise<string[]> {
+    const directory = this.resolve(prefix.replace(/\/$/, ''));
+    const entries = await fs.promises.readdir(directory, { recursive: true, withFileTypes: true }).catch(() => []);
+
+    return entries
+      .filter(entry => entry.isFile())
+      .map(entry => path.relative(this.root, path.join(entry.parentPath, entry.name)).split(path.sep).join('/'))
+      .sort();
+  }
+
+  async withLocalFile<T>(key: string, fn: (filePath: string) => Promise<T>): Promise<T> {
+    return fn(this.resolve(key));
+  }
+
+  private resolve(key: string): string {
+    assertSafeKey(key);
+    return path.join(this.root, ...key.split('/'));
+  }
+
+  private async prepare(key: string): Promise<string> {
+    const filePath = this.resolve(key);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    return filePath;
+  }
+}
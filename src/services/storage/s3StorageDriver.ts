@@ -0,0 +1,146 @@
+import fs from 'fs';
+import { Readable } from 'stream';
+import {
+  DeleteObjectCommand,
+  DeleteObjectsCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  ListObjectsV2Command,
+  S3Client,
+} from '@aws-sdk/client-s3';
+import { Upload } from '@aws-sdk/lib-storage';
+import {
+  ByteRange,
+  PutOptions,
+  StorageDriver,
+  StoredObject,
+  assertSafeKey,
+  contentTypeForKey,
+  withDownloadedCopy,
+} from './storageDriver';
+
+export interface S3StorageOptions {
+  bucket: string;
+  region: string;
+  endpoint?: string; // For MinIO and other S3-compatible services
+  accessKeyId?: string; // The SDK's default credential chain is used when omitted
+  secretAccessKey?: string;
+  forcePathStyle: boolean; // MinIO serves buckets as paths rather than subdomains
+}
+
+// DeleteObjects accepts at most this many keys per request
+const DELETE_BATCH_SIZE = 1000;
+
+const isNotFound = (error: unknown): boolean => {
+  const { name, $metadata } = error as { name?: string; $metadata?: { httpStatusCode?: number } };
+  return name === 'NotFound' || name === 'NoSuchKey' || $metadata?.httpStatusCode === 404;
+};
+
+/**
+ * Objects in an S3 bucket or S3-compatible store such as MinIO
+ */
+export class S3StorageDriver implements StorageDriver {
+  readonly name = 's3' as const;
+  private readonly client: S3Client;
+  private readonly bucket: string;
+
+  constructor(options: S3StorageOptions) {
+    this.bucket = options.bucket;
+    this.client = new S3Client({
+      region: options.region,
+      endpoint: options.endpoint,
+      forcePathStyle: options.forcePathStyle,
+      credentials: options.accessKeyId && options.secretAccessKey
+        ? { accessKeyId: options.accessKeyId, secretAccessKey: options.secretAccessKey }
+        : undefined,
+    });
+  }
+
+  async put(key: string, body: Buffer | string | Readable, options: PutOptions = {}): Promise<void> {
+    assertSafeKey(key);
+    // Multipart upload, so streams of unknown length and files over 5GB work
+    await new Upload({
+      client: this.client,
+      params: {
+        Bucket: this.bucket,
+        Key: key,
+        Body: body,
+        ContentType: options.contentType ?? contentTypeForKey(key),
+      },
+    }).done();
+  }
+
+  async moveFile(key: string, filePath: string, options: PutOptions = {}): Promise<void> {
+    await this.put(key, fs.createReadStream(filePath), options);
+    await fs.promises.unlink(filePath);
+  }
+
+  async read(key: string): Promise<Buffer> {
+    const stream = await this.createReadStream(key);
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) {
+      chunks.push(Buffer.from(chunk));
+    }
+    return Buffer.concat(chunks);
+  }
+
+  async createReadStream(key: string, range?: ByteRange): Promise<Readable> {
+    assertSafeKey(key);
+    const response = await this.client.send(new GetObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+      Range: range ? `bytes=${range.start}-${range.end}` : undefined,
+    }));
+    return response.Body as Readable;
+  }
+
+  async stat(key: string): Promise<StoredObject | null> {
+    assertSafeKey(key);
+    try {
+      const response = await this.client.send(new HeadObjectCommand({ Bucket: this.bucket, Key: key }));
+      return { size: response.ContentLength ?? 0, contentType: response.ContentType ?? null };
+    } catch (error) {
+      if (isNotFound(error)) return null;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    assertSafeKey(key);
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: key }));
+  }
+
+  async deletePrefix(prefix: string): Promise<void> {
+    const keys = await this.list(prefix);
+    for (let i = 0; i < keys.length; i += DELETE_BATCH_SIZE) {
+      await this.client.send(new DeleteObjectsCommand({
+        Bucket: this.bucket,
+        Delete: { Objects: keys.slice(i, i + DELETE_BATCH_SIZE).map(Key => ({ Key })), Quiet: true },
+      }));
+    }
+  }
+
+  async list(prefix: string): Promise<string[]> {
+    const keys: string[] = [];
+    let continuationToken: string | undefined;
+
+    do {
+      const response = await this.client.send(new ListObjectsV2Command({
+        Bucket: this.bucket,
+        // "hls/abc" must not also match "hls/abcd"
+        Prefix: prefix.endsWith('/') ? prefix : `${prefix}/`,
+        ContinuationToken: continuationToken,
+      }));
+      for (const object of response.Contents ?? []) {
+        if (object.Key) keys.push(object.Key);
+      }
+      continuationToken = response.IsTruncated ? response.NextContinuationToken : undefined;
+    } while (continuationToken);
+
+    return keys.sort();
+  }
+
+  async withLocalFile<T>(key: string, fn: (filePath: string) => Promise<T>): Promise<T> {
+    return withDownloadedCopy(this, key, fn);
+  }
+}
@@ -0,0 +1,124 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+
+export const STORAGE_DRIVERS = ['local', 'gcs', 's3'] as const;
+
+export type StorageDriverName = typeof STORAGE_DRIVERS[number];
+
+export interface StoredObject {
+  size: number;
+  contentType: string | null;
+}
+
+// Inclusive byte offsets, as in an HTTP Range header
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+export interface PutOptions {
+  contentType?: string;
+}
+
+/**
+ * Where videos, thumbnails, HLS renditions and captions are kept. Objects
+ * are addressed by slash-separated keys, see storageKeys.
+ */
+export interface StorageDriver {
+  readonly name: StorageDriverName;
+
+  put(key: string, body: Buffer | string | Readable, options?: PutOptions): Promise<void>;
+
+  /**
+   * Move a file from local disk into storage; the local file is gone afterwards
+   */
+  moveFile(key: string, filePath: string, options?: PutOptions): Promise<void>;
+
+  read(key: string): Promise<Buffer>;
+
+  createReadStream(key: string, range?: ByteRange): Promise<Readable>;
+
+  /**
+   * Size and type of an object, or null when it does not exist
+   */
+  stat(key: string): Promise<StoredObject | null>;
+
+  // Deleting a missing object is not an error
+  delete(key: string): Promise<void>;
+
+  deletePrefix(prefix: string): Promise<void>;
+
+  list(prefix: string): Promise<string[]>;
+
+  /**
+   * Run fn with the object as a file on local disk, for tools such as ffmpeg
+   * that need a path. Remote drivers download a temporary copy that is
+   * removed once fn settles.
+   */
+  withLocalFile<T>(key: string, fn: (filePath: string) => Promise<T>): Promise<T>;
+}
+
+// The key layout matches the directories local storage has always used, so
+// existing uploads keep working with the local driver
+export const storageKeys = {
+  video: (fileName: string) => `videos/${fileName}`,
+  thumbnail: (fileName: string) => `thumbnails/${fileName}`,
+  hls: (videoId: string, ...parts: string[]) => ['hls', videoId, ...parts].join('/'),
+  caption: (fileName: string) => `captions/${fileName.split(/[\\/]/).join('/')}`,
+  captionPrefix: (videoId: string) => `captions/${videoId}/`,
+};
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.mp4': 'video/mp4',
+  '.webm': 'video/webm',
+  '.mov': 'video/quicktime',
+  '.avi': 'video/x-msvideo',
+  '.wmv': 'video/x-ms-wmv',
+  '.flv': 'video/x-flv',
+  '.m3u8': 'application/vnd.apple.mpegurl',
+  '.ts': 'video/mp2t',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.vtt': 'text/vtt; charset=utf-8',
+};
+
+/**
+ * Content type for a key from its extension, for drivers and stores that do
+ * not record one
+ */
+export const contentTypeForKey = (key: string): string => {
+  const extension = key.slice(key.lastIndexOf('.')).toLowerCase();
+  return CONTENT_TYPES[extension] ?? 'application/octet-stream';
+};
+
+/**
+ * Reject keys that could escape the storage root or bucket prefix
+ */
+export const assertSafeKey = (key: string): void => {
+  if (!key || key.startsWith('/') || key.split('/').some(part => part === '' || part === '.' || part === '..')) {
+    throw new Error(`Invalid storage key: ${key}`);
+  }
+};
+
+/**
+ * withLocalFile for remote drivers: download the object to a temporary
+ * directory and remove it once fn settles
+ */
+export const withDownloadedCopy = async <T>(
+  driver: StorageDriver,
+  key: string,
+  fn: (filePath: string) => Promise<T>
+): Promise<T> => {
+  const directory = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'storage-'));
+  try {
+    const filePath = path.join(directory, path.basename(key));
+    await pipeline(await driver.createReadStream(key), fs.createWriteStream(filePath));
+    return await fn(filePath);
+  } finally {
+    await fs.promises.rm(directory, { recursive: true, force: true });
+  }
+};
@@ -0,0 +1,123 @@
+import { prisma } from '@/config/database';
+import { StorageDriver, storageKeys } from './storageDriver';
+
+export interface StorageMigrationOptions {
+  dryRun?: boolean; // Report what would be copied without copying
+  deleteSource?: boolean; // Remove a video's files from the source once all of them are copied
+  videoIds?: string[]; // Limit the migration to these videos
+  log?: (message: string) => void;
+}
+
+export interface StorageMigrationSummary {
+  videos: number;
+  copied: number;
+  skipped: number; // Already in the target with the same size
+  missing: number; // Referenced by the database but absent from the source
+  failed: number;
+  failedVideoIds: string[];
+}
+
+interface MigratedVideo {
+  id: string;
+  filePath: string | null;
+  thumbnailPath: string | null;
+  captions: { filePath: string }[];
+}
+
+/**
+ * Every storage key belonging to a video. HLS files are listed from the
+ * source since the database only records the master playlist.
+ */
+export const listVideoKeys = async (source: StorageDriver, video: MigratedVideo): Promise<string[]> => {
+  const keys: string[] = [];
+  if (video.filePath) keys.push(storageKeys.video(video.filePath));
+  if (video.thumbnailPath) keys.push(storageKeys.thumbnail(video.thumbnailPath));
+  keys.push(...video.captions.map(caption => storageKeys.caption(caption.filePath)));
+  keys.push(...await source.list(storageKeys.hls(video.id)));
+  return keys;
+};
+
+/**
+ * Copy the files of existing videos from one driver to another. Files the
+ * target already holds with the same size are skipped, so an interrupted
+ * migration can simply be run again. The database is not touched: keys are
+ * the same for every driver, so switching STORAGE_DRIVER afterwards is all
+ * that is left to do.
+ */
+export const migrateStorage = async (
+  source: StorageDriver,
+  target: StorageDriver,
+  options: StorageMigrationOptions = {}
+): Promise<StorageMigrationSummary> => {
+  if (source.name === target.name) {
+    throw new Error('Source and target storage drivers must differ');
+  }
+
+  const log = options.log ?? (() => {});
+  const summary: StorageMigrationSummary = { videos: 0, copied: 0, skipped: 0, missing: 0, failed: 0, failedVideoIds: [] };
+
+  const videos = await prisma.video.findMany({
+    where: {
+      ...(options.videoIds ? { id: { in: options.videoIds } } : {}),
+      // Resumable uploads in progress are still in the staging area
+      status: { not: 'UPLOADING' },
+    },
+    select: {
+      id: true,
+      filePath: true,
+      thumbnailPath: true,
+      captions: { select: { filePath: true } },
+    },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  for (const video of videos) {
+    summary.videos++;
+    const copiedKeys: string[] = [];
+    let videoFailed = false;
+
+    for (const key of await listVideoKeys(source, video)) {
+      try {
+        const object = await source.stat(key);
+        if (!object) {
+          summary.missing++;
+          log(`missing  ${key}`);
+          continue;
+        }
+
+        const existing = await target.stat(key);
+        if (existing && existing.size === object.size) {
+          summary.skipped++;
+          copiedKeys.push(key);
+          continue;
+        }
+
+        if (!options.dryRun) {
+          await target.put(key, await source.createReadStream(key), { contentType: object.contentType ?? undefined });
+        }
+        summary.copied++;
+        copiedKeys.push(key);
+        log(`${options.dryRun ? 'would copy' : 'copied'}  ${key} (${object.size} bytes)`);
+      } catch (error) {
+        videoFailed = true;
+        summary.failed++;
+        log(`failed   ${key}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+
+    if (videoFailed) {
+      summary.failedVideoIds.push(video.id);
+      continue;
+    }
+
+    // Only once every file of the video is safely in the target
+    if (options.deleteSource && !options.dryRun) {
+      for (const key of copiedKeys) {
+        await source.delete(key);
+      }
+      log(`removed ${copiedKeys.length} source files of video ${video.id}`);
+    }
+  }
+
+  return summary;
+};
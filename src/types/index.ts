@@ -20,6 +20,8 @@ export interface JWTPayload {
   email: string;
   role: UserRole;
   tenantId?: string;
+  familyId?: string; // Refresh-token family (login session) the token belongs to
+  jti?: string;
   iat?: number;
   exp?: number;
 }
@@ -127,11 +129,20 @@ export class AppError extends Error {
   public statusCode: number;
   public isOperational: boolean;
   public code?: string;
-
-  constructor(message: string, statusCode: number = 500, isOperational: boolean = true) {
+  public details?: any;
+
+  constructor(
+    message: string,
+    statusCode: number = 500,
+    isOperational: boolean = true,
+    code?: string,
+    details?: any
+  ) {
     super(message);
     this.statusCode = statusCode;
     this.isOperational = isOperational;
+    this.code = code;
+    this.details = details;
     this.name = this.constructor.name;
     
     Error.captureStackTrace(this, this.constructor);
@@ -55,4 +55,15 @@ export const validateCUIDQuery = (queryName: string, message?: string): Validati
  */
 export const isValidCUID = (value: string): boolean => {
   return typeof value === 'string' && CUID_PATTERN.test(value);
-};
\ No newline at end of file
+};
+/**
+ * Custom validator for question answers. Accepts a non-empty string, a number,
+ * a boolean, or a non-empty array (ORDERING indices / MATCHING pairs).
+ */
+export const isAnswerPayload: CustomValidator = (value: unknown) => {
+  if (typeof value === 'string' && value.trim().length > 0) return true;
+  if (typeof value === 'number' || typeof value === 'boolean') return true;
+  if (Array.isArray(value) && value.length > 0) return true;
+
+  throw new Error('Answer is required');
+};